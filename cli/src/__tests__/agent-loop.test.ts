@@ -1,6 +1,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
 import { z } from "zod";
 import { runAgentLoop } from "../core/agent-loop.js";
+import { createCircuitBreaker } from "../ai/circuit-breaker.js";
 import { defineTool } from "../tools/definition.js";
 import { createToolPipeline } from "../tools/pipeline.js";
 import {
@@ -16,6 +18,8 @@ import {
 } from "./helpers/temp-workspace.js";
 import type { MessagePart } from "../ui/message-list.js";
 import type { ApprovalRequest } from "../ui/approval-prompt.js";
+import type { TurnUsage } from "../ai/cache.js";
+import { trustProject } from "../config/project-permissions.js";
 
 vi.mock("../ai/retry.js", async (importOriginal) => {
   const mod = await importOriginal();
@@ -25,6 +29,12 @@ vi.mock("../ai/retry.js", async (importOriginal) => {
   };
 });
 
+// Trusting a project writes ~/.wellgrow/config.toml.
+vi.mock("../config/project-permissions.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../config/project-permissions.js")>()),
+  trustProject: vi.fn().mockResolvedValue(undefined),
+}));
+
 const EchoTool = defineTool({
   name: "Echo",
   description: "Echoes the input message back",
@@ -66,13 +76,15 @@ describe("runAgentLoop", () => {
     const callbacks = createNoopCallbacks();
     callbacks.onMessageUpdate = (parts) => updates.push([...parts]);
 
-    const { fullText } = await runAgentLoop(
+    const { fullText, turns, maxTurnsReached } = await runAgentLoop(
       [{ role: "user" as const, content: "echo ping" }],
       { model, system: "test", registry, pipeline: createTestPipeline() },
       callbacks,
     );
 
     expect(fullText).toBe("エコーの結果は ping でした。");
+    expect(turns).toBe(2);
+    expect(maxTurnsReached).toBe(false);
 
     const toolParts = updates
       .flat()
@@ -123,13 +135,66 @@ describe("runAgentLoop", () => {
     const ctx = createTestSessionContext();
     const registry = createToolRegistry([EchoTool], ctx);
 
-    const { fullText } = await runAgentLoop(
+    const { fullText, turns, maxTurnsReached } = await runAgentLoop(
       [{ role: "user" as const, content: "loop" }],
       { model, system: "test", registry, pipeline: createTestPipeline(), maxTurns: 2 },
       createNoopCallbacks(),
     );
 
     expect(fullText).toBe("");
+    expect(turns).toBe(2);
+    expect(maxTurnsReached).toBe(true);
+  });
+
+  it("stops before the next request once the cost limit is reached", async () => {
+    const model = createMockModel([
+      { toolCalls: [{ name: "Echo", args: { message: "1" } }] },
+      { text: "done" },
+    ]);
+    const ctx = createTestSessionContext();
+    const registry = createToolRegistry([EchoTool], ctx);
+    let requests = 0;
+
+    const { turns, maxTurnsReached, costLimitReached } = await runAgentLoop(
+      [{ role: "user" as const, content: "loop" }],
+      {
+        model,
+        system: "test",
+        registry,
+        pipeline: createTestPipeline(),
+        isCostLimitReached: () => requests++ > 0,
+      },
+      createNoopCallbacks(),
+    );
+
+    expect(turns).toBe(1);
+    expect(costLimitReached).toBe(true);
+    expect(maxTurnsReached).toBe(false);
+  });
+
+  it("passes generation settings to the model", async () => {
+    const model = createMockModel([{ text: "ok" }]);
+    const doStream = vi.spyOn(model as Exclude<typeof model, string>, "doStream");
+    const ctx = createTestSessionContext();
+
+    await runAgentLoop(
+      [{ role: "user" as const, content: "think" }],
+      {
+        model,
+        system: "test",
+        registry: createToolRegistry([], ctx),
+        pipeline: createTestPipeline(),
+        generation: { thinking_budget: 4_000, stop_sequences: ["END"] },
+      },
+      createNoopCallbacks(),
+    );
+
+    expect(doStream.mock.calls[0][0]).toMatchObject({
+      stopSequences: ["END"],
+      providerOptions: {
+        anthropic: { thinking: { type: "enabled", budgetTokens: 4_000 } },
+      },
+    });
   });
 
   it("streams text via onMessageUpdate callback", async () => {
@@ -287,6 +352,55 @@ describe("runAgentLoop retry behavior", () => {
     expect(fullText).toContain("コンテキストウィンドウ");
   });
 
+  it("compacts and retries once on context length error", async () => {
+    const model = createMockModel([
+      {
+        error: Object.assign(new Error("context_length exceeded"), {
+          statusCode: 400,
+        }),
+      },
+      { text: "前半の要約" },
+      { text: "続きの回答" },
+    ]);
+    const ctx = createTestSessionContext();
+    const registry = createToolRegistry([EchoTool], ctx);
+
+    let contextExceeded = false;
+    const compactions: Array<number | null> = [];
+    const callbacks = createNoopCallbacks();
+    callbacks.onContextExceeded = () => {
+      contextExceeded = true;
+    };
+    callbacks.onCompact = (result) => compactions.push(result?.removedCount ?? null);
+
+    const messages = [
+      { role: "user" as const, content: "first" },
+      { role: "assistant" as const, content: "first answer" },
+      { role: "user" as const, content: "second" },
+    ];
+    const { fullText } = await runAgentLoop(
+      messages,
+      {
+        model,
+        system: "test",
+        registry,
+        pipeline: createTestPipeline(),
+        compaction: {
+          auto: false,
+          threshold: 0.8,
+          keepRecentTurns: 1,
+          contextWindow: 1000,
+        },
+      },
+      callbacks,
+    );
+
+    expect(contextExceeded).toBe(false);
+    expect(compactions).toEqual([2]);
+    expect(fullText).toBe("続きの回答");
+    expect(messages[0].content).toContain("前半の要約");
+  });
+
   it("returns empty text on user abort", async () => {
     const model = createMockModel([
       {
@@ -348,6 +462,62 @@ describe("runAgentLoop retry behavior", () => {
   });
 });
 
+describe("runAgentLoop model fallback", () => {
+  const overloaded = () => Object.assign(new Error("Overloaded"), { statusCode: 529 });
+
+  it("switches to the next model after retries and skips the failed one while it cools down", async () => {
+    const primary = createMockModel([
+      { error: overloaded() },
+      { error: overloaded() },
+    ]);
+    const backup = createMockModel([{ text: "backup 1" }, { text: "backup 2" }]);
+    const registry = createToolRegistry([EchoTool], createTestSessionContext());
+    const breaker = createCircuitBreaker();
+    const fallbacks: string[][] = [];
+    const callbacks = createNoopCallbacks();
+    callbacks.onModelFallback = (from, to) => fallbacks.push([from, to]);
+
+    const config = {
+      model: primary,
+      modelId: "claude-opus-4-6",
+      fallback: { models: [{ id: "ollama:qwen3", model: backup }], cooldownMs: 60_000, breaker },
+      system: "test",
+      registry,
+      pipeline: createTestPipeline(),
+      maxRetries: 1,
+    };
+    const first = await runAgentLoop([{ role: "user" as const, content: "1" }], config, callbacks);
+    const second = await runAgentLoop([{ role: "user" as const, content: "2" }], config, callbacks);
+
+    expect(first.fullText).toBe("backup 1");
+    expect(second.fullText).toBe("backup 2");
+    expect(fallbacks).toEqual([["claude-opus-4-6", "ollama:qwen3"]]);
+    expect(breaker.isOpen("claude-opus-4-6")).toBe(true);
+  });
+
+  it("does not fall back on errors another model would repeat", async () => {
+    const primary = createMockModel([
+      { error: Object.assign(new Error("Unauthorized"), { statusCode: 401 }) },
+    ]);
+    const backup = createMockModel([{ text: "unused" }]);
+    const registry = createToolRegistry([EchoTool], createTestSessionContext());
+
+    await expect(
+      runAgentLoop(
+        [{ role: "user" as const, content: "test" }],
+        {
+          model: primary,
+          fallback: { models: [{ id: "backup", model: backup }], cooldownMs: 0, breaker: createCircuitBreaker() },
+          system: "test",
+          registry,
+          pipeline: createTestPipeline(),
+        },
+        createNoopCallbacks(),
+      ),
+    ).rejects.toThrow("Unauthorized");
+  });
+});
+
 const WriteTool = defineTool({
   name: "Write",
   description: "Writes content to a file",
@@ -356,6 +526,147 @@ const WriteTool = defineTool({
   execute: async (input) => `wrote to ${input.file_path}`,
 });
 
+describe("runAgentLoop auto compaction", () => {
+  const compaction = {
+    auto: true,
+    threshold: 0.8,
+    keepRecentTurns: 1,
+    contextWindow: 1000,
+  };
+
+  const history = () => [
+    { role: "user" as const, content: "first" },
+    { role: "assistant" as const, content: "first answer" },
+    { role: "user" as const, content: "second" },
+  ];
+
+  it("compacts before the turn when the threshold is crossed", async () => {
+    const model = createMockModel([
+      { text: "前半の要約" },
+      { text: "回答" },
+    ]);
+    const ctx = createTestSessionContext();
+    const registry = createToolRegistry([EchoTool], ctx);
+
+    let started = 0;
+    const callbacks = createNoopCallbacks();
+    callbacks.onCompactStart = () => {
+      started++;
+    };
+
+    const messages = history();
+    const { fullText } = await runAgentLoop(
+      messages,
+      {
+        model,
+        system: "test",
+        registry,
+        pipeline: createTestPipeline(),
+        compaction: { ...compaction, contextTokens: 900 },
+      },
+      callbacks,
+    );
+
+    expect(started).toBe(1);
+    expect(fullText).toBe("回答");
+    expect(messages).toHaveLength(4);
+    expect(messages[2]).toEqual({ role: "user", content: "second" });
+  });
+
+  it("does not compact below the threshold", async () => {
+    const model = createMockModel([{ text: "回答" }]);
+    const ctx = createTestSessionContext();
+    const registry = createToolRegistry([EchoTool], ctx);
+
+    const callbacks = createNoopCallbacks();
+    callbacks.onCompactStart = vi.fn();
+
+    const messages = history();
+    await runAgentLoop(
+      messages,
+      {
+        model,
+        system: "test",
+        registry,
+        pipeline: createTestPipeline(),
+        compaction: { ...compaction, contextTokens: 100 },
+      },
+      callbacks,
+    );
+
+    expect(callbacks.onCompactStart).not.toHaveBeenCalled();
+    expect(messages).toHaveLength(4);
+  });
+
+  it("reports the summary's usage and counts it against the cost limit", async () => {
+    const model = createMockModel([
+      { text: "前半の要約" },
+      { text: "回答" },
+    ]);
+    const ctx = createTestSessionContext();
+    const registry = createToolRegistry([EchoTool], ctx);
+
+    const usages: TurnUsage[] = [];
+    const callbacks = createNoopCallbacks();
+    callbacks.onUsage = (usage) => usages.push(usage);
+
+    const messages = history();
+    const { turns, costLimitReached } = await runAgentLoop(
+      messages,
+      {
+        model,
+        system: "test",
+        registry,
+        pipeline: createTestPipeline(),
+        isCostLimitReached: () => usages.length > 0,
+        compaction: { ...compaction, contextTokens: 900 },
+      },
+      callbacks,
+    );
+
+    expect(usages).toEqual([{ inputTokens: 10, outputTokens: 20, model: "mock-model" }]);
+    expect(costLimitReached).toBe(true);
+    expect(turns).toBe(0);
+    expect(messages).toHaveLength(3);
+  });
+
+  it("does not summarize once the cost limit is reached", async () => {
+    const model = createMockModel([
+      {
+        error: Object.assign(new Error("context_length exceeded"), {
+          statusCode: 400,
+        }),
+      },
+    ]);
+    const ctx = createTestSessionContext();
+    const registry = createToolRegistry([EchoTool], ctx);
+
+    let contextExceeded = false;
+    const callbacks = createNoopCallbacks();
+    callbacks.onCompactStart = vi.fn();
+    callbacks.onContextExceeded = () => {
+      contextExceeded = true;
+    };
+
+    let checks = 0;
+    await runAgentLoop(
+      history(),
+      {
+        model,
+        system: "test",
+        registry,
+        pipeline: createTestPipeline(),
+        isCostLimitReached: () => checks++ > 0,
+        compaction: { ...compaction, auto: false },
+      },
+      callbacks,
+    );
+
+    expect(callbacks.onCompactStart).not.toHaveBeenCalled();
+    expect(contextExceeded).toBe(true);
+  });
+});
+
 describe("runAgentLoop approval flow", () => {
   it("calls onApprovalRequest for tools that need approval in plan mode", async () => {
     const model = createMockModel([
@@ -447,6 +758,182 @@ describe("runAgentLoop approval flow", () => {
     expect(deniedParts.length).toBeGreaterThan(0);
   });
 
+  it("returns the user's feedback in the denied result", async () => {
+    const model = createMockModel([
+      {
+        toolCalls: [{ name: "Write", args: { file_path: "/tmp/test.txt", content: "hello" } }],
+      },
+      { text: "了解しました。" },
+    ]);
+    const ctx = createTestSessionContext();
+    const registry = createToolRegistry([WriteTool], ctx);
+    const pipeline = createToolPipeline({ mode: "plan" });
+
+    const callbacks = createNoopCallbacks();
+    callbacks.onApprovalRequest = async () => ({
+      action: "deny",
+      feedback: "docs/ に書いてください",
+    });
+
+    const messages: Parameters<typeof runAgentLoop>[0] = [
+      { role: "user", content: "write" },
+    ];
+    await runAgentLoop(messages, { model, system: "test", registry, pipeline }, callbacks);
+
+    const toolMessage = messages.find((m) => m.role === "tool");
+    expect(toolMessage?.content).toEqual([
+      expect.objectContaining({
+        output: {
+          type: "execution-denied",
+          reason: "ユーザーがツールの実行を拒否しました。ユーザーからのフィードバック: docs/ に書いてください",
+        },
+      }),
+    ]);
+  });
+
+  describe("approval scopes", () => {
+    const FakeBashTool = defineTool({
+      name: "Bash",
+      description: "Shell",
+      category: "execute" as const,
+      inputSchema: z.object({ command: z.string() }),
+      execute: async (input) => `ran: ${input.command}`,
+    });
+
+    let ws: TempWorkspace;
+
+    beforeEach(async () => {
+      ws = await createTempWorkspace();
+    });
+
+    afterEach(async () => {
+      await ws.cleanup();
+    });
+
+    function bashTurns(...commands: string[]) {
+      return createMockModel([
+        ...commands.map((command) => ({
+          toolCalls: [{ name: "Bash", args: { command } }],
+        })),
+        { text: "done" },
+      ]);
+    }
+
+    it("offers a prefix rule for the project", async () => {
+      const ctx = createTestSessionContext();
+      const registry = createToolRegistry([FakeBashTool], ctx);
+      const pipeline = createToolPipeline({ mode: "plan" });
+
+      const requests: ApprovalRequest[] = [];
+      const callbacks = createNoopCallbacks();
+      callbacks.onApprovalRequest = async (request) => {
+        requests.push(request);
+        return { action: "allow" };
+      };
+
+      await runAgentLoop(
+        [{ role: "user" as const, content: "commit" }],
+        {
+          model: bashTurns("git commit -m 'wip'"),
+          system: "test",
+          registry,
+          pipeline,
+          projectDir: ws.dir,
+        },
+        callbacks,
+      );
+
+      expect(requests[0].projectRule).toBe("Bash(git commit:*)");
+    });
+
+    it("allows the exact command again for the rest of the session", async () => {
+      const ctx = createTestSessionContext();
+      const registry = createToolRegistry([FakeBashTool], ctx);
+      const pipeline = createToolPipeline({ mode: "plan" });
+
+      const requests: ApprovalRequest[] = [];
+      const callbacks = createNoopCallbacks();
+      callbacks.onApprovalRequest = async (request) => {
+        requests.push(request);
+        return { action: "allow", scope: "session" };
+      };
+
+      await runAgentLoop(
+        [{ role: "user" as const, content: "test" }],
+        {
+          model: bashTurns("npm test", "npm test", "npm run build"),
+          system: "test",
+          registry,
+          pipeline,
+        },
+        callbacks,
+      );
+
+      expect(requests.map((r) => r.args.command)).toEqual(["npm test", "npm run build"]);
+    });
+
+    it("saves the prefix rule to the project permissions file", async () => {
+      const ctx = createTestSessionContext();
+      const registry = createToolRegistry([FakeBashTool], ctx);
+      const pipeline = createToolPipeline({ mode: "plan" });
+
+      const requests: ApprovalRequest[] = [];
+      const callbacks = createNoopCallbacks();
+      callbacks.onApprovalRequest = async (request) => {
+        requests.push(request);
+        return { action: "allow", scope: "project" };
+      };
+
+      await runAgentLoop(
+        [{ role: "user" as const, content: "commit" }],
+        {
+          model: bashTurns("git commit -m one", "git commit -m two"),
+          system: "test",
+          registry,
+          pipeline,
+          projectDir: ws.dir,
+        },
+        callbacks,
+      );
+
+      expect(requests).toHaveLength(1);
+      const saved = await readFile(ws.resolve(".wellgrow/permissions.toml"), "utf-8");
+      expect(saved).toContain('"Bash(git commit:*)"');
+      expect(trustProject).toHaveBeenCalledWith(ws.dir);
+    });
+
+    it("reports a project rule that could not be saved", async () => {
+      await mkdir(ws.resolve(".wellgrow"), { recursive: true });
+      await writeFile(ws.resolve(".wellgrow/permissions.toml"), "allow = 1\n", "utf-8");
+      const ctx = createTestSessionContext();
+      const registry = createToolRegistry([FakeBashTool], ctx);
+      const pipeline = createToolPipeline({ mode: "plan" });
+
+      const notices: string[] = [];
+      const callbacks = createNoopCallbacks();
+      callbacks.onApprovalRequest = async () => ({ action: "allow", scope: "project" });
+      callbacks.onNotice = (message) => notices.push(message);
+
+      const result = await runAgentLoop(
+        [{ role: "user" as const, content: "commit" }],
+        {
+          model: bashTurns("git commit -m one", "git commit -m two"),
+          system: "test",
+          registry,
+          pipeline,
+          projectDir: ws.dir,
+        },
+        callbacks,
+      );
+
+      expect(notices).toHaveLength(1);
+      expect(notices[0]).toContain("Bash(git commit:*) を保存できませんでした");
+      // Still allowed for the rest of the session.
+      expect(result.parts.filter((p) => p.type === "tool" && p.state === "output-available"))
+        .toHaveLength(2);
+    });
+  });
+
   it("blocks dangerous commands without approval prompt", async () => {
     const model = createMockModel([
       {
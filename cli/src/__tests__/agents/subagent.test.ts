@@ -0,0 +1,195 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import type { LanguageModel, ModelMessage, ToolResultPart } from "ai";
+import { runAgentLoop } from "../../core/agent-loop.js";
+import { createHookEngine } from "../../extensions/hooks.js";
+import { defineTool } from "../../tools/definition.js";
+import { createTaskTool } from "../../tools/task.js";
+import {
+  createSubagentContext,
+  createSubagentRunner,
+  type SubagentRunnerOptions,
+} from "../../agents/subagent.js";
+import type { ResolvedAgent } from "../../agents/resolver.js";
+import type { SessionContext } from "../../core/context.js";
+import type { Mode } from "../../tools/pipeline.js";
+import type { MessagePart } from "../../ui/message-list.js";
+import type { ApprovalRequest } from "../../ui/approval-prompt.js";
+import {
+  createTestSessionContext,
+  createToolRegistry,
+  createTestPipeline,
+} from "../helpers/test-context.js";
+import { createMockModel } from "../helpers/mock-model.js";
+
+const EchoTool = defineTool({
+  name: "Echo",
+  description: "Echoes the input message back",
+  category: "read",
+  inputSchema: z.object({ message: z.string() }),
+  execute: async (input) => `echo: ${input.message}`,
+});
+
+const TouchTool = defineTool({
+  name: "Touch",
+  description: "Pretends to write a file",
+  category: "write",
+  inputSchema: z.object({ path: z.string() }),
+  execute: async (input) => `touched ${input.path}`,
+});
+
+function resolveWith(
+  model: LanguageModel,
+  seen: { ctx?: SessionContext; name?: string } = {},
+): SubagentRunnerOptions["resolve"] {
+  return async (name: string, ctx: SessionContext, mode: Mode): Promise<ResolvedAgent> => {
+    seen.ctx = ctx;
+    seen.name = name;
+    return {
+      name,
+      icon: "🤖",
+      description: "",
+      model,
+      modelId: "mock-model",
+      systemPrompt: "sub",
+      registry: createToolRegistry([EchoTool, TouchTool], ctx),
+      pipeline: createTestPipeline(mode),
+      mcpManager: null,
+      hookEngine: createHookEngine({}, ctx),
+      maxTurns: 5,
+    };
+  };
+}
+
+function toolResultText(result: ToolResultPart): string {
+  const output = result.output as { type: string; value: unknown };
+  return String(output.value);
+}
+
+describe("createSubagentRunner", () => {
+  it("returns only the sub-agent's final text and streams its tools into the Task part", async () => {
+    const subModel = createMockModel([
+      { text: "調べます", toolCalls: [{ name: "Echo", args: { message: "ping" } }] },
+      { text: "結果: ping" },
+    ]);
+    const run = createSubagentRunner({
+      defaultAgent: "main",
+      agents: [],
+      resolve: resolveWith(subModel),
+      getMode: () => "auto",
+    });
+
+    const parentModel = createMockModel([
+      {
+        toolCalls: [
+          { name: "Task", args: { description: "調査", prompt: "ping を送って" } },
+        ],
+      },
+      { text: "完了" },
+    ]);
+    const ctx = createTestSessionContext();
+    const registry = createToolRegistry([createTaskTool(run, [])], ctx);
+    const messages: ModelMessage[] = [{ role: "user", content: "hi" }];
+    const updates: MessagePart[][] = [];
+
+    await runAgentLoop(
+      messages,
+      { model: parentModel, system: "test", registry, pipeline: createTestPipeline() },
+      { onMessageUpdate: (parts) => updates.push(parts) },
+    );
+
+    const toolMessage = messages.find((m) => m.role === "tool");
+    const results = toolMessage?.content as ToolResultPart[];
+    expect(toolResultText(results[0])).toBe("結果: ping");
+
+    const taskPart = updates
+      .flat()
+      .filter((p) => p.type === "tool" && p.toolName === "Task")
+      .at(-1) as Extract<MessagePart, { type: "tool" }>;
+    expect(taskPart.state).toBe("output-available");
+    expect(taskPart.children).toContainEqual(
+      expect.objectContaining({ type: "tool", toolName: "Echo", state: "output-available" }),
+    );
+  });
+
+  it("forwards approvals to the parent with the sub-agent's name", async () => {
+    const subModel = createMockModel([
+      { toolCalls: [{ name: "Touch", args: { path: "a.txt" } }] },
+      { text: "書けませんでした" },
+    ]);
+    const run = createSubagentRunner({
+      defaultAgent: "main",
+      agents: ["writer"],
+      resolve: resolveWith(subModel),
+      getMode: () => "plan",
+    });
+    const requests: ApprovalRequest[] = [];
+
+    const result = await run(
+      { description: "書き込み", prompt: "a.txt を作って", agent: "writer" },
+      {
+        session: createTestSessionContext(),
+        toolCallId: "task-1",
+        onApprovalRequest: async (request) => {
+          requests.push(request);
+          return { action: "deny" };
+        },
+      },
+    );
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0]).toMatchObject({ toolName: "Touch", subagent: "writer" });
+    expect(result).toBe("書けませんでした");
+  });
+
+  it("rejects agents that do not exist", async () => {
+    const run = createSubagentRunner({
+      defaultAgent: "main",
+      agents: ["writer"],
+      resolve: resolveWith(createMockModel([])),
+      getMode: () => "auto",
+    });
+
+    await expect(
+      run(
+        { description: "x", prompt: "x", agent: "missing" },
+        { session: createTestSessionContext(), toolCallId: "task-1" },
+      ),
+    ).rejects.toThrow("エージェントが見つかりません: missing");
+  });
+
+  it("runs the named agent and falls back to the current one", async () => {
+    const seen: { name?: string } = {};
+    const run = createSubagentRunner({
+      defaultAgent: "main",
+      agents: [],
+      resolve: resolveWith(createMockModel([{ text: "ok" }]), seen),
+      getMode: () => "auto",
+    });
+
+    const result = await run(
+      { description: "x", prompt: "x" },
+      { session: createTestSessionContext(), toolCallId: "task-1" },
+    );
+
+    expect(result).toBe("ok");
+    expect(seen.name).toBe("main");
+  });
+});
+
+describe("createSubagentContext", () => {
+  it("isolates agent state but shares terminal ids with the parent", () => {
+    const parent = createTestSessionContext();
+    parent.agent.readFiles.set("/a", "x");
+    const child = createSubagentContext(parent);
+
+    expect(child.agent.readFiles.size).toBe(0);
+    expect(child.abort).toBe(parent.abort);
+
+    child.nextTerminalId += 1;
+    expect(parent.nextTerminalId).toBe(2);
+
+    child.cwd = "/elsewhere";
+    expect(parent.cwd).not.toBe("/elsewhere");
+  });
+});
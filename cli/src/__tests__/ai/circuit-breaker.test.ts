@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest";
+import { createCircuitBreaker } from "../../ai/circuit-breaker.js";
+
+describe("createCircuitBreaker", () => {
+  it("opens a tripped key until its cooldown passes", () => {
+    let now = 1_000;
+    const breaker = createCircuitBreaker(() => now);
+
+    breaker.trip("claude-opus-4-6", 60_000);
+    breaker.trip("gpt-5.2", 0);
+
+    expect(breaker.isOpen("claude-opus-4-6")).toBe(true);
+    expect(breaker.isOpen("gpt-5.2")).toBe(false);
+    now += 60_000;
+    expect(breaker.isOpen("claude-opus-4-6")).toBe(false);
+  });
+
+  it("closes on reset and clear", () => {
+    const breaker = createCircuitBreaker();
+    breaker.trip("a", 60_000);
+    breaker.trip("b", 60_000);
+
+    breaker.reset("a");
+    expect(breaker.isOpen("a")).toBe(false);
+    expect(breaker.isOpen("b")).toBe(true);
+    breaker.clear();
+    expect(breaker.isOpen("b")).toBe(false);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import { buildGenerationOptions, raiseThinkingBudget } from "../../ai/generation.js";
+
+describe("buildGenerationOptions", () => {
+  it("returns nothing without settings", () => {
+    expect(buildGenerationOptions(undefined)).toEqual({});
+    expect(buildGenerationOptions({})).toEqual({});
+  });
+
+  it("maps sampling settings onto call options", () => {
+    expect(buildGenerationOptions({ temperature: 0.2, top_p: 0.9, stop_sequences: ["END"] }))
+      .toEqual({ temperature: 0.2, topP: 0.9, stopSequences: ["END"] });
+  });
+
+  it("maps a thinking budget for every provider", () => {
+    const { providerOptions } = buildGenerationOptions({ thinking_budget: 8_000 });
+    expect(providerOptions).toEqual({
+      anthropic: { thinking: { type: "enabled", budgetTokens: 8_000 } },
+      openai: { reasoningEffort: "medium" },
+      google: { thinkingConfig: { thinkingBudget: 8_000, includeThoughts: true } },
+    });
+  });
+
+  it("prefers an explicit reasoning effort", () => {
+    const { providerOptions } = buildGenerationOptions({ thinking_budget: 2_000, reasoning_effort: "high" });
+    expect(providerOptions).toEqual({
+      anthropic: { thinking: { type: "enabled", budgetTokens: 2_000 }, effort: "high" },
+      openai: { reasoningEffort: "high" },
+      google: { thinkingConfig: { thinkingLevel: "high", includeThoughts: true } },
+    });
+  });
+});
+
+describe("raiseThinkingBudget", () => {
+  it("never lowers the agent's own budget", () => {
+    expect(raiseThinkingBudget({ temperature: 1 }, 16_000))
+      .toEqual({ temperature: 1, thinking_budget: 16_000 });
+    expect(raiseThinkingBudget({ thinking_budget: 32_000 }, 16_000))
+      .toEqual({ thinking_budget: 32_000 });
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { createServer, type IncomingHttpHeaders, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { generateText } from "ai";
+import { getModel } from "../../ai/providers.js";
+import type { WellGrowConfig } from "../../config/types.js";
+
+interface StubRequest {
+  url?: string;
+  headers: IncomingHttpHeaders;
+  body: { model: string; messages: { role: string; content: unknown }[] };
+}
+
+let server: Server;
+let baseUrl: string;
+let requests: StubRequest[];
+
+beforeEach(async () => {
+  requests = [];
+  server = createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk: Buffer) => (raw += chunk.toString("utf-8")));
+    req.on("end", () => {
+      const body = JSON.parse(raw) as StubRequest["body"];
+      requests.push({ url: req.url, headers: req.headers, body });
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(JSON.stringify({
+        id: "chatcmpl-1",
+        object: "chat.completion",
+        created: 0,
+        model: body.model,
+        choices: [{ index: 0, message: { role: "assistant", content: "ローカルから応答" }, finish_reason: "stop" }],
+        usage: { prompt_tokens: 5, completion_tokens: 3, total_tokens: 8 },
+      }));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+afterEach(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+function configWith(providers: WellGrowConfig["providers"]): WellGrowConfig {
+  return { providers } as WellGrowConfig;
+}
+
+describe("openai-compatible provider", () => {
+  it("sends chat completions to the configured base URL", async () => {
+    const config = configWith({
+      local: {
+        type: "openai-compatible",
+        base_url: baseUrl,
+        api_key: "local-key",
+        headers: { "x-gateway-team": "growth" },
+        models: ["llama3.2:3b"],
+      },
+    });
+
+    const result = await generateText({ model: getModel("llama3.2:3b", config), prompt: "こんにちは" });
+
+    expect(result.text).toBe("ローカルから応答");
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toBe("/v1/chat/completions");
+    expect(requests[0].body.model).toBe("llama3.2:3b");
+    expect(requests[0].body.messages).toEqual([{ role: "user", content: "こんにちは" }]);
+    expect(requests[0].headers.authorization).toBe("Bearer local-key");
+    expect(requests[0].headers["x-gateway-team"]).toBe("growth");
+  });
+});
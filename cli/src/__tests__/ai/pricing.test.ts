@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { calculateCost, formatUsd, getModelPricing } from "../../ai/pricing.js";
+
+describe("getModelPricing", () => {
+  it("prefers config overrides and falls back to the bare model", () => {
+    expect(getModelPricing("claude-sonnet-4-6")?.input).toBe(3);
+    expect(getModelPricing("claude-sonnet-4-6", {
+      "claude-sonnet-4-6": { input: 2, output: 10 },
+    })?.input).toBe(2);
+    expect(getModelPricing("gateway:claude-sonnet-4-6")?.output).toBe(15);
+    expect(getModelPricing("ollama:llama3.2")).toBeNull();
+  });
+});
+
+describe("calculateCost", () => {
+  it("bills cached tokens at their own rates", () => {
+    const pricing = { input: 3, output: 15, cache_read: 0.3, cache_write: 3.75 };
+    const cost = calculateCost(
+      { inputTokens: 1_000_000, outputTokens: 100_000, cacheReadTokens: 600_000, cacheWriteTokens: 200_000 },
+      pricing,
+    );
+    // 200k uncached × $3 + 600k × $0.3 + 200k × $3.75 + 100k × $15
+    expect(cost).toBeCloseTo(0.6 + 0.18 + 0.75 + 1.5);
+  });
+
+  it("uses the input rate when cache rates are missing", () => {
+    const cost = calculateCost(
+      { inputTokens: 1_000_000, outputTokens: 0, cacheReadTokens: 500_000 },
+      { input: 2, output: 8 },
+    );
+    expect(cost).toBeCloseTo(2);
+  });
+});
+
+describe("formatUsd", () => {
+  it("shows more digits for small amounts", () => {
+    expect(formatUsd(0.01234)).toBe("$0.0123");
+    expect(formatUsd(12.345)).toBe("$12.35");
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { symlink, writeFile } from "node:fs/promises";
+import { createTempWorkspace, type TempWorkspace } from "../helpers/temp-workspace.js";
+
+const mockHome = vi.hoisted(() => {
+  let dir = "/tmp/test-home";
+  return { get: () => dir, set: (d: string) => { dir = d; } };
+});
+
+vi.mock("node:os", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("node:os")>();
+  return { ...actual, homedir: () => mockHome.get() };
+});
+
+let testHome: TempWorkspace;
+
+beforeEach(async () => {
+  testHome = await createTempWorkspace({
+    ".wellgrow/WELLGROW.md": "user rules",
+  });
+  mockHome.set(testHome.dir);
+  vi.resetModules();
+});
+
+afterEach(async () => {
+  await testHome.cleanup();
+});
+
+describe("loadProjectInstructions", () => {
+  let repo: TempWorkspace;
+
+  afterEach(async () => {
+    await repo?.cleanup();
+  });
+
+  it("reads user, git root and nested files from outermost to cwd", async () => {
+    repo = await createTempWorkspace({
+      ".git/HEAD": "ref: refs/heads/main\n",
+      "WELLGROW.md": "root rules",
+      "AGENTS.md": "agents rules",
+      "packages/app/WELLGROW.md": "app rules",
+      "packages/app/src/index.ts": "",
+    });
+
+    const { loadProjectInstructions } = await import("../../ai/project-instructions.js");
+    const files = await loadProjectInstructions(repo.resolve("packages/app/src"));
+
+    expect(files.map((f) => [f.scope, f.content])).toEqual([
+      ["user", "user rules"],
+      ["project", "root rules"],
+      ["project", "agents rules"],
+      ["project", "app rules"],
+    ]);
+    expect(files[1].path).toBe(repo.resolve("WELLGROW.md"));
+  });
+
+  it("skips AGENTS.md when disabled", async () => {
+    repo = await createTempWorkspace({
+      ".git/HEAD": "",
+      "WELLGROW.md": "root rules",
+      "AGENTS.md": "agents rules",
+    });
+
+    const { loadProjectInstructions } = await import("../../ai/project-instructions.js");
+    const files = await loadProjectInstructions(repo.dir, { agentsMd: false });
+
+    expect(files.map((f) => f.content)).toEqual(["user rules", "root rules"]);
+  });
+
+  it("follows @path includes once, outside code", async () => {
+    repo = await createTempWorkspace({
+      ".git/HEAD": "",
+      "WELLGROW.md": [
+        "See @docs/style.md.",
+        "Mail me at dev@example.com",
+        "`@ignored.md`",
+        "```",
+        "@also-ignored.md",
+        "```",
+      ].join("\n"),
+      "docs/style.md": "style rules\n@../WELLGROW.md",
+      "ignored.md": "nope",
+      "also-ignored.md": "nope",
+    });
+    await writeFile(`${testHome.dir}/.wellgrow/WELLGROW.md`, "user rules\n@~/shared.md", "utf-8");
+    await writeFile(`${testHome.dir}/shared.md`, "shared rules", "utf-8");
+
+    const { loadProjectInstructions } = await import("../../ai/project-instructions.js");
+    const files = await loadProjectInstructions(repo.dir);
+
+    expect(files.map((f) => f.path)).toEqual([
+      `${testHome.dir}/.wellgrow/WELLGROW.md`,
+      `${testHome.dir}/shared.md`,
+      repo.resolve("WELLGROW.md"),
+      repo.resolve("docs/style.md"),
+    ]);
+    expect(files[3].includedFrom).toBe(repo.resolve("WELLGROW.md"));
+  });
+
+  it("skips includes in project files that leave the project", async () => {
+    repo = await createTempWorkspace({
+      "outside.md": "outside",
+      "repo/.git/HEAD": "",
+      "repo/app/WELLGROW.md": "@~/secret.md @../../outside.md @/etc/hostname @./link.md @notes.md",
+      "repo/app/notes.md": "notes",
+    });
+    await writeFile(`${testHome.dir}/secret.md`, "secret", "utf-8");
+    await symlink(`${testHome.dir}/secret.md`, repo.resolve("repo/app/link.md"));
+
+    const { loadProjectInstructions } = await import("../../ai/project-instructions.js");
+    const files = await loadProjectInstructions(repo.resolve("repo/app"));
+
+    expect(files.map((f) => f.content)).toEqual([
+      "user rules",
+      expect.stringContaining("@notes.md"),
+      "notes",
+    ]);
+  });
+});
+
+describe("replaceInstructionsSection", () => {
+  it("swaps the section in place and removes it when empty", async () => {
+    const { buildInstructionsSection, replaceInstructionsSection } = await import(
+      "../../ai/project-instructions.js"
+    );
+    const old = [{ path: "/a/WELLGROW.md", scope: "project" as const, content: "old" }];
+    const prompt = `Base.\n\n${buildInstructionsSection(old)}\n\n<mcp_status>x</mcp_status>`;
+
+    const updated = replaceInstructionsSection(prompt, [{ ...old[0], content: "new" }]);
+    expect(updated).toContain("new\n</file>");
+    expect(updated).not.toContain("old");
+    expect(updated.endsWith("<mcp_status>x</mcp_status>")).toBe(true);
+
+    expect(replaceInstructionsSection(prompt, [])).toBe("Base.\n\n<mcp_status>x</mcp_status>");
+    expect(replaceInstructionsSection("Base.", old)).toBe(`Base.\n\n${buildInstructionsSection(old)}`);
+  });
+});
@@ -16,10 +16,10 @@ vi.mock("@ai-sdk/google", () => ({
 }));
 
 vi.mock("@ai-sdk/openai", () => ({
-  createOpenAI: vi.fn(() => (modelId: string) => ({
-    modelId,
-    provider: "openai",
-  })),
+  createOpenAI: vi.fn(() => Object.assign(
+    (modelId: string) => ({ modelId, provider: "openai" }),
+    { chat: (modelId: string) => ({ modelId, provider: "openai.chat" }) },
+  )),
 }));
 
 const baseConfig: WellGrowConfig = {
@@ -31,7 +31,7 @@ const baseConfig: WellGrowConfig = {
     max_turns: 100,
     max_output_tokens: 16384,
   },
-  permissions: { allowed_mcps: [] },
+  permissions: { allowed_mcps: [], allow: [], deny: [] },
   providers: {
     anthropic: { api_key_env: "ANTHROPIC_API_KEY" },
     google: { api_key_env: "GOOGLE_GENERATIVE_AI_API_KEY" },
@@ -43,6 +43,7 @@ const baseConfig: WellGrowConfig = {
   hooks: { paths: [] },
   logging: { verbose: false, log_dir: "~/.wellgrow/logs" },
   history: { storage: "local", max_sessions: 1000 },
+  compaction: { auto: true, threshold: 0.8, keep_recent_turns: 2 },
 };
 
 beforeEach(() => {
@@ -148,6 +149,79 @@ describe("getModel", () => {
   });
 });
 
+describe("custom providers", () => {
+  const config: WellGrowConfig = {
+    ...baseConfig,
+    providers: {
+      ...baseConfig.providers,
+      ollama: {
+        type: "openai-compatible",
+        base_url: "http://localhost:11434/v1",
+        models: ["llama3.2:3b"],
+      },
+      gateway: {
+        type: "anthropic",
+        base_url: "https://llm.example.com/anthropic",
+        api_key_env: "GATEWAY_KEY",
+        headers: { "x-team": "growth" },
+      },
+    },
+  };
+
+  it("resolves provider:model, listed models and built-in prefixes", async () => {
+    const { resolveModelTarget } = await import("../../ai/providers.js");
+
+    expect(resolveModelTarget("ollama:qwen3", config))
+      .toEqual({ provider: "ollama", type: "openai-compatible", model: "qwen3" });
+    expect(resolveModelTarget("llama3.2:3b", config))
+      .toEqual({ provider: "ollama", type: "openai-compatible", model: "llama3.2:3b" });
+    expect(resolveModelTarget("gateway:claude-opus-4-6", config))
+      .toEqual({ provider: "gateway", type: "anthropic", model: "claude-opus-4-6" });
+    expect(resolveModelTarget("openai:my-finetune", config))
+      .toEqual({ provider: "openai", type: "openai", model: "my-finetune" });
+    expect(resolveModelTarget("claude-opus-4-6", config))
+      .toEqual({ provider: "anthropic", type: "anthropic", model: "claude-opus-4-6" });
+    expect(resolveModelTarget("unknown:model", config)).toBeNull();
+  });
+
+  it("creates OpenAI-compatible chat models with the base URL and no key", async () => {
+    const { createOpenAI } = await import("@ai-sdk/openai");
+    const { getModel } = await import("../../ai/providers.js");
+
+    const model = getModel("ollama:qwen3", config) as unknown as { modelId: string; provider: string };
+
+    expect(model).toEqual({ modelId: "qwen3", provider: "openai.chat" });
+    expect(createOpenAI).toHaveBeenCalledWith({
+      name: "ollama",
+      apiKey: "",
+      baseURL: "http://localhost:11434/v1",
+      headers: undefined,
+    });
+  });
+
+  it("passes base URL, headers and api_key_env to typed providers", async () => {
+    vi.stubEnv("GATEWAY_KEY", "gw-key");
+    const { createAnthropic } = await import("@ai-sdk/anthropic");
+    const { getModel } = await import("../../ai/providers.js");
+
+    getModel("gateway:claude-opus-4-6", config);
+
+    expect(createAnthropic).toHaveBeenCalledWith({
+      apiKey: "gw-key",
+      baseURL: "https://llm.example.com/anthropic",
+      headers: { "x-team": "growth" },
+    });
+    vi.unstubAllEnvs();
+  });
+
+  it("lists configured models with their provider prefix", async () => {
+    const { getModelList, getContextWindow } = await import("../../ai/providers.js");
+
+    expect(getModelList(config).at(-1)).toEqual({ id: "ollama:llama3.2:3b", label: "llama3.2:3b (ollama)" });
+    expect(getContextWindow("gateway:gemini-3.1-pro-preview")).toBe(1_048_576);
+  });
+});
+
 describe("getModelDisplayName", () => {
   it("returns model ID as display name", async () => {
     const { getModelDisplayName } = await import("../../ai/providers.js");
@@ -98,4 +98,23 @@ describe("buildSystemPrompt", () => {
     expect(result).toContain("## Skills");
     expect(result).toContain("<name>gog</name>");
   });
+
+  it("appends project instructions after skills", async () => {
+    await setupAgent("test", "Base prompt.");
+
+    const { buildSystemPrompt } = await import("../../ai/system-prompt.js");
+    const result = await buildSystemPrompt({
+      agentName: "test",
+      templateVars: {},
+      skills: [
+        { name: "gog", description: "Google Calendar", location: "/skills/gog/SKILL.md" },
+      ],
+      instructions: [
+        { path: "/repo/WELLGROW.md", scope: "project", content: "Use pnpm." },
+      ],
+    });
+
+    expect(result.indexOf("## Project Instructions")).toBeGreaterThan(result.indexOf("## Skills"));
+    expect(result).toContain('<file path="/repo/WELLGROW.md" scope="project">\nUse pnpm.\n</file>');
+  });
 });
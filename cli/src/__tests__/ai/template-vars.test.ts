@@ -30,7 +30,7 @@ const baseConfig: WellGrowConfig = {
     max_turns: 100,
     max_output_tokens: 16384,
   },
-  permissions: { allowed_mcps: [] },
+  permissions: { allowed_mcps: [], allow: [], deny: [] },
   providers: {
     anthropic: { api_key_env: "ANTHROPIC_API_KEY" },
     google: { api_key_env: "GOOGLE_GENERATIVE_AI_API_KEY" },
@@ -42,6 +42,7 @@ const baseConfig: WellGrowConfig = {
   hooks: { paths: [] },
   logging: { verbose: false, log_dir: "~/.wellgrow/logs" },
   history: { storage: "local", max_sessions: 1000 },
+  compaction: { auto: true, threshold: 0.8, keep_recent_turns: 2 },
 };
 
 beforeEach(async () => {
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { readFile, writeFile } from "node:fs/promises";
+import {
+  assertServerName,
+  buildServerConfig,
+  addServerToFile,
+  removeServerFromFile,
+} from "../../commands/mcp.js";
+import {
+  createTempWorkspace,
+  type TempWorkspace,
+} from "../helpers/temp-workspace.js";
+
+const noOptions = { env: [], header: [] };
+
+// --- assertServerName ---
+
+describe("assertServerName", () => {
+  it.each(["wellgrow", "server-fs", "my_server2"])("accepts %s", (name) => {
+    expect(() => assertServerName(name)).not.toThrow();
+  });
+
+  it.each(["..", "../..", "a/b", "", "name.json", "~"])("rejects %j", (name) => {
+    expect(() => assertServerName(name)).toThrow("サーバー名に使えるのは");
+  });
+});
+
+// --- buildServerConfig ---
+
+describe("buildServerConfig", () => {
+  it("builds a stdio server from the command after --", () => {
+    const config = buildServerConfig(["npx", "-y", "server-fs", "."], {
+      ...noOptions,
+      env: ["API_KEY=a=b"],
+    });
+
+    expect(config).toEqual({
+      command: "npx",
+      args: ["-y", "server-fs", "."],
+      env: { API_KEY: "a=b" },
+    });
+  });
+
+  it("defaults --url servers to http and parses headers", () => {
+    const config = buildServerConfig([], {
+      ...noOptions,
+      url: "https://example.com/mcp",
+      header: ["Authorization: Bearer x:y"],
+    });
+
+    expect(config).toEqual({
+      type: "http",
+      url: "https://example.com/mcp",
+      headers: { Authorization: "Bearer x:y" },
+    });
+  });
+
+  it.each([
+    { command: [], opts: {}, message: "--url を指定してください" },
+    { command: ["cmd"], opts: { url: "https://example.com" }, message: "同時に指定できません" },
+    { command: [], opts: { url: "https://example.com", type: "ws" }, message: "無効な type です: ws" },
+    { command: ["cmd"], opts: { type: "sse" }, message: "sse では --url を指定してください" },
+    { command: ["cmd"], opts: { env: ["NOVALUE"] }, message: "KEY=VALUE" },
+  ])("rejects $command with $opts", ({ command, opts, message }) => {
+    expect(() => buildServerConfig(command, { ...noOptions, ...opts })).toThrow(message);
+  });
+});
+
+// --- .mcp.json editing ---
+
+describe("addServerToFile / removeServerFromFile", () => {
+  let ws: TempWorkspace;
+
+  beforeEach(async () => {
+    ws = await createTempWorkspace();
+  });
+
+  afterEach(async () => {
+    await ws.cleanup();
+  });
+
+  it("creates a file in the mcpServers layout", async () => {
+    const file = ws.resolve("nested/fs.json");
+
+    await addServerToFile(file, "fs", { command: "server-fs" });
+
+    expect(JSON.parse(await readFile(file, "utf-8"))).toEqual({
+      mcpServers: { fs: { command: "server-fs" } },
+    });
+  });
+
+  it("keeps the flat layout of an existing file", async () => {
+    const file = ws.resolve(".mcp.json");
+    await writeFile(file, JSON.stringify({ a: { command: "a" } }));
+
+    await addServerToFile(file, "b", { type: "sse", url: "https://b" });
+
+    expect(JSON.parse(await readFile(file, "utf-8"))).toEqual({
+      a: { command: "a" },
+      b: { type: "sse", url: "https://b" },
+    });
+  });
+
+  it("removes a server and reports how many are left", async () => {
+    const file = ws.resolve(".mcp.json");
+    await writeFile(file, JSON.stringify({
+      mcpServers: { a: { command: "a" }, b: { command: "b" } },
+    }));
+
+    expect(await removeServerFromFile(file, "a")).toBe(1);
+    expect(await removeServerFromFile(file, "a")).toBeNull();
+    expect(JSON.parse(await readFile(file, "utf-8"))).toEqual({
+      mcpServers: { b: { command: "b" } },
+    });
+  });
+
+  it("refuses to overwrite a file that is not JSON", async () => {
+    const file = ws.resolve(".mcp.json");
+    await writeFile(file, "not json");
+
+    await expect(addServerToFile(file, "a", { command: "a" })).rejects.toThrow("読み込めません");
+    expect(await readFile(file, "utf-8")).toBe("not json");
+  });
+});
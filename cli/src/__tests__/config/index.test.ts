@@ -84,6 +84,32 @@ mode = "invalid_mode"
     const { loadConfig, ConfigLoadError } = await freshImport();
     await expect(loadConfig()).rejects.toThrow(ConfigLoadError);
   });
+  it("keeps built-in providers and validates named provider entries", async () => {
+    const configDir = join(testHome.dir, ".wellgrow");
+    await mkdir(configDir, { recursive: true });
+    const write = (toml: string) => writeFile(join(configDir, CONFIG_FILENAME), toml, "utf-8");
+
+    await write(`
+[providers.ollama]
+type = "openai-compatible"
+base_url = "http://localhost:11434/v1"
+models = ["llama3.2"]
+`);
+    const { loadConfig, ConfigLoadError } = await freshImport();
+    const config = await loadConfig();
+    expect(config.providers.anthropic).toEqual({ api_key_env: "ANTHROPIC_API_KEY" });
+    expect(config.providers.ollama).toEqual({
+      type: "openai-compatible",
+      base_url: "http://localhost:11434/v1",
+      models: ["llama3.2"],
+    });
+
+    await write(`
+[providers.ollama]
+base_url = "http://localhost:11434/v1"
+`);
+    await expect(loadConfig()).rejects.toThrow(ConfigLoadError);
+  });
 });
 
 describe("isFirstRun", () => {
@@ -210,6 +236,29 @@ describe("addAllowedMcp", () => {
   });
 });
 
+describe("trustProject", () => {
+  it("records the project once and trusts it from then on", async () => {
+    const configDir = join(testHome.dir, ".wellgrow");
+    await mkdir(configDir, { recursive: true });
+    await writeFile(join(configDir, CONFIG_FILENAME), '[user]\nname = "太郎"\n', "utf-8");
+    const projectDir = join(testHome.dir, "project");
+
+    const { loadConfig } = await freshImport();
+    const { isProjectTrusted, trustProject } = await import(
+      "../../config/project-permissions.js"
+    );
+    expect(isProjectTrusted(await loadConfig(), projectDir)).toBe(false);
+
+    await trustProject(projectDir);
+    await trustProject(join(projectDir, "."));
+
+    const config = await loadConfig();
+    expect(config.permissions.trusted_projects).toEqual([projectDir]);
+    expect(isProjectTrusted(config, projectDir)).toBe(true);
+    expect(isProjectTrusted(config, join(testHome.dir, "other"))).toBe(false);
+  });
+});
+
 describe("getConfigDir", () => {
   it("returns path under homedir", async () => {
     const { getConfigDir } = await freshImport();
@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { writeFile, mkdir } from "node:fs/promises";
+import { join } from "node:path";
+import {
+  addProjectAllowRule,
+  getProjectPermissionsPath,
+  loadProjectPermissions,
+} from "../../config/project-permissions.js";
+import { ConfigLoadError } from "../../config/index.js";
+import {
+  createTempWorkspace,
+  type TempWorkspace,
+} from "../helpers/temp-workspace.js";
+
+let project: TempWorkspace;
+
+beforeEach(async () => {
+  project = await createTempWorkspace();
+});
+
+afterEach(async () => {
+  await project.cleanup();
+});
+
+describe("loadProjectPermissions", () => {
+  it("returns empty rules when the file does not exist", async () => {
+    expect(await loadProjectPermissions(project.dir)).toEqual({ allow: [], deny: [] });
+  });
+
+  it("reads allow and deny rules", async () => {
+    await mkdir(join(project.dir, ".wellgrow"), { recursive: true });
+    await writeFile(
+      getProjectPermissionsPath(project.dir),
+      'deny = ["Bash(git push:*)"]\n',
+      "utf-8",
+    );
+
+    expect(await loadProjectPermissions(project.dir)).toEqual({
+      allow: [],
+      deny: ["Bash(git push:*)"],
+    });
+  });
+
+  it("throws ConfigLoadError for an invalid file", async () => {
+    await mkdir(join(project.dir, ".wellgrow"), { recursive: true });
+    await writeFile(getProjectPermissionsPath(project.dir), "allow = 1\n", "utf-8");
+
+    await expect(loadProjectPermissions(project.dir)).rejects.toBeInstanceOf(ConfigLoadError);
+  });
+});
+
+describe("addProjectAllowRule", () => {
+  it("creates the file and appends rules once", async () => {
+    await addProjectAllowRule(project.dir, "Bash(git commit:*)");
+    await addProjectAllowRule(project.dir, "Bash(git commit:*)");
+    await addProjectAllowRule(project.dir, "Edit");
+
+    expect(await loadProjectPermissions(project.dir)).toEqual({
+      allow: ["Bash(git commit:*)", "Edit"],
+      deny: [],
+    });
+  });
+});
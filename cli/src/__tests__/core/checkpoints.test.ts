@@ -0,0 +1,201 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { readFile, writeFile, access } from "node:fs/promises";
+import type { ModelMessage } from "ai";
+import { createTempWorkspace, type TempWorkspace } from "../helpers/temp-workspace.js";
+import { createTestSessionContext } from "../helpers/test-context.js";
+import type { Session } from "../../core/session.js";
+
+const mockHome = vi.hoisted(() => {
+  let dir = "/tmp/test-home";
+  return { get: () => dir, set: (d: string) => { dir = d; } };
+});
+
+vi.mock("node:os", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("node:os")>();
+  return { ...actual, homedir: () => mockHome.get() };
+});
+
+let testHome: TempWorkspace;
+let ws: TempWorkspace;
+
+beforeEach(async () => {
+  testHome = await createTempWorkspace();
+  mockHome.set(testHome.dir);
+  ws = await createTempWorkspace({ "a.txt": "original a", "b.txt": "original b" });
+  vi.resetModules();
+});
+
+afterEach(async () => {
+  await ws.cleanup();
+  await testHome.cleanup();
+});
+
+async function fileExists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+describe("createCheckpointStore", () => {
+  it("restores edited files and deletes created ones", async () => {
+    const { createCheckpointStore } = await import("../../core/checkpoints.js");
+    const store = createCheckpointStore("s1", ws.dir);
+
+    store.begin("edit a", 0);
+    await store.snapshot(ws.resolve("a.txt"));
+    await writeFile(ws.resolve("a.txt"), "changed once");
+    await store.snapshot(ws.resolve("a.txt"));
+    await writeFile(ws.resolve("a.txt"), "changed twice");
+    await store.snapshot(ws.resolve("new.txt"));
+    await writeFile(ws.resolve("new.txt"), "new");
+
+    expect(store.list()[0].files).toHaveLength(2);
+
+    const restored = await store.restoreFiles(1);
+    expect(restored.sort()).toEqual([ws.resolve("a.txt"), ws.resolve("new.txt")].sort());
+    expect(await readFile(ws.resolve("a.txt"), "utf-8")).toBe("original a");
+    expect(await fileExists(ws.resolve("new.txt"))).toBe(false);
+  });
+
+  it("rewinds to the state before the chosen turn across later turns", async () => {
+    const { createCheckpointStore } = await import("../../core/checkpoints.js");
+    const store = createCheckpointStore("s1", ws.dir);
+
+    store.begin("first", 0);
+    await store.snapshot(ws.resolve("a.txt"));
+    await writeFile(ws.resolve("a.txt"), "turn 1");
+
+    store.begin("second", 2);
+    await store.snapshot(ws.resolve("a.txt"));
+    await writeFile(ws.resolve("a.txt"), "turn 2");
+    await store.snapshot(ws.resolve("b.txt"));
+    await writeFile(ws.resolve("b.txt"), "turn 2");
+
+    await store.restoreFiles(2);
+    expect(await readFile(ws.resolve("a.txt"), "utf-8")).toBe("turn 1");
+    expect(await readFile(ws.resolve("b.txt"), "utf-8")).toBe("original b");
+
+    await store.restoreFiles(1);
+    expect(await readFile(ws.resolve("a.txt"), "utf-8")).toBe("original a");
+  });
+
+  it("does nothing before the first turn", async () => {
+    const { createCheckpointStore } = await import("../../core/checkpoints.js");
+    const store = createCheckpointStore("s1", ws.dir);
+
+    await store.snapshot(ws.resolve("a.txt"));
+    expect(store.list()).toEqual([]);
+  });
+
+  it("drops conversation positions once the conversation is rewritten", async () => {
+    const { createCheckpointStore } = await import("../../core/checkpoints.js");
+    const store = createCheckpointStore("s1", ws.dir);
+
+    store.begin("first", 0);
+    await store.snapshot(ws.resolve("a.txt"));
+    store.begin("second", 2);
+    store.invalidateConversation();
+
+    // "second" is still the current turn; "first" keeps its file snapshot
+    expect(store.list().map((c) => [c.id, c.messageCount])).toEqual([
+      [1, null],
+      [2, null],
+    ]);
+  });
+});
+
+describe("stored checkpoints", () => {
+  it("lists sessions that saved files and reads their snapshots", async () => {
+    const {
+      createCheckpointStore,
+      listCheckpointSessions,
+      loadCheckpointSession,
+      readCheckpointBlob,
+    } = await import("../../core/checkpoints.js");
+    const store = createCheckpointStore("session-with-files", ws.dir);
+    store.begin("edit a", 0);
+    await store.snapshot(ws.resolve("a.txt"));
+    await store.snapshot(ws.resolve("new.txt"));
+    createCheckpointStore("session-without-files", ws.dir).begin("chat only", 0);
+
+    const sessions = await listCheckpointSessions();
+    expect(sessions.map((s) => s.sessionId)).toEqual(["session-with-files"]);
+
+    const session = await loadCheckpointSession("session-with");
+    expect(session!.cwd).toBe(ws.dir);
+    expect(session!.checkpoints).toHaveLength(1);
+    const [a, created] = session!.checkpoints[0].files;
+    expect(created).toEqual({ path: ws.resolve("new.txt"), blob: null });
+    expect(await readCheckpointBlob(session!.sessionId, a.blob!)).toBe("original a");
+  });
+});
+
+describe("rewindSession", () => {
+  async function createRewindableSession() {
+    const { createCheckpointStore } = await import("../../core/checkpoints.js");
+    const ctx = createTestSessionContext({ cwd: ws.dir });
+    ctx.checkpoints = createCheckpointStore(ctx.sessionId, ws.dir);
+    const messages: ModelMessage[] = [];
+    const session = { ctx, messages, contextTokens: 100 } as unknown as Session;
+
+    const turn = async (prompt: string, content: string) => {
+      ctx.checkpoints!.begin(prompt, session.messages.length);
+      session.messages.push({ role: "user", content: prompt });
+      await ctx.checkpoints!.snapshot(ws.resolve("a.txt"));
+      await writeFile(ws.resolve("a.txt"), content);
+      session.messages.push({ role: "assistant", content: `${prompt} done` });
+    };
+    await turn("one", "1");
+    await turn("two", "2");
+    return session;
+  }
+
+  it("rewinds files and conversation together", async () => {
+    const { rewindSession } = await import("../../core/session.js");
+    const session = await createRewindableSession();
+
+    const result = await rewindSession(session, 2, "all");
+
+    expect(result).toMatchObject({
+      restoredFiles: [ws.resolve("a.txt")],
+      removedMessages: 2,
+      prompt: "two",
+    });
+    expect(session.messages.map((m) => m.content)).toEqual(["one", "one done"]);
+    expect(session.contextTokens).toBe(0);
+    // the screen is redrawn from what the model still has
+    expect(result.transcript?.map((m) => [m.role, m.parts[0]])).toEqual([
+      ["user", expect.objectContaining({ text: "one" })],
+      ["assistant", expect.objectContaining({ text: "one done" })],
+    ]);
+    expect(await readFile(ws.resolve("a.txt"), "utf-8")).toBe("1");
+  });
+
+  it("keeps files when only the conversation is rewound", async () => {
+    const { rewindSession } = await import("../../core/session.js");
+    const session = await createRewindableSession();
+
+    await rewindSession(session, 1, "conversation");
+
+    expect(session.messages).toEqual([]);
+    expect(await readFile(ws.resolve("a.txt"), "utf-8")).toBe("2");
+    // the files can still be put back afterwards
+    const filesOnly = await rewindSession(session, 1, "files");
+    expect(filesOnly.transcript).toBeNull();
+    expect(await readFile(ws.resolve("a.txt"), "utf-8")).toBe("original a");
+  });
+
+  it("refuses to rewind a conversation that was compacted", async () => {
+    const { rewindSession } = await import("../../core/session.js");
+    const session = await createRewindableSession();
+    session.ctx.checkpoints!.invalidateConversation();
+
+    await expect(rewindSession(session, 1, "all")).rejects.toThrow("巻き戻せません");
+    await expect(rewindSession(session, 9, "files")).rejects.toThrow(
+      "チェックポイントが見つかりません",
+    );
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import type { ModelMessage } from "ai";
+import {
+  compactMessages,
+  findCompactionSplit,
+  isCompactionSummary,
+  renderTranscript,
+  shouldCompact,
+} from "../../core/compaction.js";
+import { ANTHROPIC_CACHE_BREAKPOINT } from "../../ai/cache.js";
+import { createMockModel } from "../helpers/mock-model.js";
+
+function conversation(turns: number): ModelMessage[] {
+  const messages: ModelMessage[] = [];
+  for (let i = 1; i <= turns; i++) {
+    messages.push({ role: "user", content: `question ${i}` });
+    messages.push({
+      role: "assistant",
+      content: [
+        {
+          type: "tool-call",
+          toolCallId: `call_${i}`,
+          toolName: "Read",
+          input: { file_path: `/tmp/${i}.txt` },
+        },
+      ],
+    });
+    messages.push({
+      role: "tool",
+      content: [
+        {
+          type: "tool-result",
+          toolCallId: `call_${i}`,
+          toolName: "Read",
+          output: { type: "text", value: `content ${i}` },
+        },
+      ],
+    });
+    messages.push({ role: "assistant", content: `answer ${i}` });
+  }
+  return messages;
+}
+
+describe("shouldCompact", () => {
+  it("triggers once the threshold is reached", () => {
+    expect(shouldCompact(800, 1000, 0.8)).toBe(true);
+    expect(shouldCompact(799, 1000, 0.8)).toBe(false);
+  });
+
+  it("never triggers without usage information", () => {
+    expect(shouldCompact(0, 1000, 0.8)).toBe(false);
+  });
+});
+
+describe("findCompactionSplit", () => {
+  it("splits at the user message that starts the kept turns", () => {
+    const messages = conversation(4);
+    expect(findCompactionSplit(messages, 2)).toBe(8);
+    expect(messages[8]).toEqual({ role: "user", content: "question 3" });
+  });
+
+  it("returns 0 when there are not enough turns", () => {
+    expect(findCompactionSplit(conversation(2), 2)).toBe(0);
+    expect(findCompactionSplit([], 2)).toBe(0);
+  });
+
+  it("does not count a previous summary as a turn", () => {
+    const messages: ModelMessage[] = [
+      { role: "user", content: "<conversation_summary>\n...\n</conversation_summary>" },
+      { role: "assistant", content: "ok" },
+      ...conversation(2),
+    ];
+    expect(findCompactionSplit(messages, 2)).toBe(0);
+    expect(findCompactionSplit(messages, 1)).toBe(6);
+  });
+});
+
+describe("renderTranscript", () => {
+  it("flattens tool calls and results to text", () => {
+    const text = renderTranscript(conversation(1));
+    expect(text).toContain("[user]\nquestion 1");
+    expect(text).toContain('(tool call) Read {"file_path":"/tmp/1.txt"}');
+    expect(text).toContain("(tool result) Read content 1");
+    expect(text).toContain("[assistant]\nanswer 1");
+  });
+});
+
+describe("compactMessages", () => {
+  it("replaces older turns with a summary in place", async () => {
+    const messages = conversation(4);
+    const kept = messages.slice(8);
+    const model = createMockModel([{ text: "ファイル 1 と 2 を読んだ。" }]);
+
+    const result = await compactMessages(messages, { model, keepRecentTurns: 2 });
+
+    expect(result).toEqual({ summary: "ファイル 1 と 2 を読んだ。", removedCount: 8 });
+    expect(messages).toHaveLength(2 + kept.length);
+    expect(isCompactionSummary(messages[0])).toBe(true);
+    expect(messages[0].content).toContain("ファイル 1 と 2 を読んだ。");
+    expect(messages[0].providerOptions).toEqual(ANTHROPIC_CACHE_BREAKPOINT);
+    expect(messages[1].role).toBe("assistant");
+    expect(messages.slice(2)).toEqual(kept);
+  });
+
+  it("leaves short conversations untouched", async () => {
+    const messages = conversation(1);
+    const model = createMockModel([]);
+
+    const result = await compactMessages(messages, { model, keepRecentTurns: 2 });
+
+    expect(result).toBeNull();
+    expect(messages).toHaveLength(4);
+  });
+});
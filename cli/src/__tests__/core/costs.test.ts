@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createTempWorkspace, type TempWorkspace } from "../helpers/temp-workspace.js";
+
+const mockHome = vi.hoisted(() => {
+  let dir = "/tmp/test-home";
+  return { get: () => dir, set: (d: string) => { dir = d; } };
+});
+
+vi.mock("node:os", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("node:os")>();
+  return { ...actual, homedir: () => mockHome.get() };
+});
+
+let testHome: TempWorkspace;
+
+beforeEach(async () => {
+  testHome = await createTempWorkspace();
+  mockHome.set(testHome.dir);
+  vi.resetModules();
+});
+
+afterEach(async () => {
+  await testHome.cleanup();
+});
+
+const usage = { inputTokens: 100_000, outputTokens: 10_000, model: "claude-sonnet-4-6" };
+
+describe("createCostTracker", () => {
+  it("prices requests and appends them to today's ledger", async () => {
+    const { createCostTracker, readCostLedger } = await import("../../core/costs.js");
+    const tracker = createCostTracker({ sessionId: "s1" });
+
+    // 100k × $3 + 10k × $15
+    expect(tracker.add(usage)).toBeCloseTo(0.45);
+    expect(tracker.add({ ...usage, model: "ollama:llama3.2" })).toBeNull();
+    expect(tracker.unpricedModels).toEqual(new Set(["ollama:llama3.2"]));
+
+    await tracker.refreshDaily();
+    const entries = await readCostLedger();
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ session_id: "s1", model: "claude-sonnet-4-6" });
+    expect(tracker.dailyUsd).toBeCloseTo(0.45);
+  });
+
+  it("counts other sessions' spend toward the daily limit", async () => {
+    const { createCostTracker } = await import("../../core/costs.js");
+    const other = createCostTracker({ sessionId: "s1" });
+    other.add(usage);
+    other.add(usage);
+    await other.refreshDaily();
+
+    const tracker = createCostTracker({ sessionId: "s2", limits: { session: 1, daily: 1 } });
+    expect(tracker.exceededLimit()).toBeNull();
+
+    await tracker.refreshDaily();
+    expect(tracker.sessionUsd).toBe(0);
+    expect(tracker.exceededLimit()).toBeNull();
+
+    tracker.add(usage);
+    expect(tracker.exceededLimit()).toBe("daily");
+  });
+
+  it("reports the session limit first", async () => {
+    const { createCostTracker } = await import("../../core/costs.js");
+    const tracker = createCostTracker({
+      sessionId: "s1",
+      limits: { session: 0.4, daily: 0.4 },
+      pricing: { "claude-sonnet-4-6": { input: 3, output: 15 } },
+    });
+    tracker.add(usage);
+    expect(tracker.exceededLimit()).toBe("session");
+  });
+});
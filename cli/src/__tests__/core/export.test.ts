@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import type { ModelMessage } from "ai";
+import { exportSession, type ExportSource } from "../../core/export.js";
+
+const messages: ModelMessage[] = [
+  { role: "user", content: "ファイルを読んで <b>すぐに</b>" },
+  {
+    role: "assistant",
+    content: [
+      { type: "reasoning", text: "考え中" },
+      { type: "tool-call", toolCallId: "c1", toolName: "Read", input: { file_path: "/a.md" } },
+      { type: "tool-call", toolCallId: "c2", toolName: "Bash", input: { command: "rm x" } },
+    ],
+  },
+  {
+    role: "tool",
+    content: [
+      { type: "tool-result", toolCallId: "c1", toolName: "Read", output: { type: "text", value: "```js\ncode\n```" } },
+      { type: "tool-result", toolCallId: "c2", toolName: "Bash", output: { type: "error-text", value: "失敗" } },
+    ],
+  },
+  { role: "assistant", content: [{ type: "text", text: "**読みました** <script>alert(1)</script>" }] },
+];
+
+const source: ExportSource = {
+  sessionId: "s1",
+  agent: "joy",
+  model: "claude-opus-4-6",
+  startedAt: "2026-01-02T03:04:05.000Z",
+  cwd: "/work",
+  messages,
+};
+
+describe("exportSession", () => {
+  it("renders Markdown with tool calls as collapsible blocks", () => {
+    const md = exportSession(source, "md");
+
+    expect(md).toMatch(/^# ファイルを読んで <b>すぐに<\/b>\n/);
+    expect(md).toContain("- エージェント: joy");
+    expect(md).toContain("## ユーザー\n\nファイルを読んで");
+    expect(md).toContain("## joy");
+    expect(md).toContain("<summary>✓ Read: /a.md</summary>");
+    expect(md).toContain("<summary>✗ Bash: rm x</summary>");
+    // Fences grow past backticks in the tool output.
+    expect(md).toContain("````\n```js\ncode\n```\n````");
+    expect(md).toContain("エラー:\n\n```\n失敗\n```");
+    expect(md).toContain("**読みました**");
+  });
+
+  it("renders a standalone HTML page without executing model output", () => {
+    const html = exportSession(source, "html");
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain("<style>");
+    expect(html).toContain('<div class="message user">ファイルを読んで &lt;b&gt;すぐに&lt;/b&gt;</div>');
+    expect(html).toContain("<strong>読みました</strong>");
+    expect(html).not.toContain("<script>");
+    expect(html).toContain('<details class="tool error"><summary>✗ Bash: rm x</summary>');
+  });
+
+  it("keeps only http(s) and mailto links in HTML", () => {
+    const html = exportSession({
+      ...source,
+      messages: [
+        { role: "user", content: "リンク" },
+        {
+          role: "assistant",
+          content: "[x](javascript:alert(document.cookie)) ![i](javascript:alert(1)) [ok](https://example.com) [mail](mailto:a@example.com)",
+        },
+      ],
+    }, "html");
+
+    expect(html).not.toContain("javascript:");
+    expect(html).toContain("<p>x i ");
+    expect(html).toContain('<a href="https://example.com">ok</a>');
+    expect(html).toContain('<a href="mailto:a@example.com">mail</a>');
+    expect(html).toContain(`<meta http-equiv="Content-Security-Policy" content="default-src 'none';`);
+  });
+
+  it("exports JSON with string content expanded to text parts", () => {
+    const json = JSON.parse(exportSession(source, "json"));
+
+    expect(json.session_id).toBe("s1");
+    expect(json.messages).toHaveLength(4);
+    expect(json.messages[0]).toEqual({
+      role: "user",
+      content: [{ type: "text", text: "ファイルを読んで <b>すぐに</b>" }],
+    });
+    expect(json.messages[1]).toEqual(messages[1]);
+  });
+});
@@ -0,0 +1,303 @@
+import { describe, it, expect, vi } from "vitest";
+import { z } from "zod";
+import type { LanguageModel } from "ai";
+import {
+  parseInputMessage,
+  runHeadlessTurn,
+  runStreamJsonSession,
+} from "../../core/headless.js";
+import type { Session } from "../../core/session.js";
+import type { SessionRecorder } from "../../core/history.js";
+import type { WellGrowConfig } from "../../config/types.js";
+import { createOneShotReporter, type OutputEvent } from "../../core/output-format.js";
+import { createHookEngine } from "../../extensions/hooks.js";
+import { defineTool } from "../../tools/definition.js";
+import { AskUserTool } from "../../tools/ask-user.js";
+import {
+  createTestSessionContext,
+  createToolRegistry,
+  createTestPipeline,
+} from "../helpers/test-context.js";
+import { createMockModel } from "../helpers/mock-model.js";
+
+const TouchTool = defineTool({
+  name: "Touch",
+  description: "Pretends to write a file",
+  category: "write",
+  inputSchema: z.object({ path: z.string() }),
+  execute: async (input) => `touched ${input.path}`,
+});
+
+const config = {
+  api: { max_retries: 0, timeout: 60_000 },
+  default: { max_output_tokens: 1000 },
+} as WellGrowConfig;
+
+function createSession(model: LanguageModel): Session {
+  const ctx = createTestSessionContext();
+  return {
+    ctx,
+    messages: [],
+    agent: {
+      name: "test",
+      icon: "🤖",
+      description: "",
+      model,
+      modelId: "mock-model",
+      systemPrompt: "test",
+      registry: createToolRegistry([TouchTool, AskUserTool], ctx),
+      pipeline: createTestPipeline("plan"),
+      mcpManager: null,
+      hookEngine: createHookEngine({}, ctx),
+      maxTurns: 5,
+    },
+    compaction: { auto: false, threshold: 0.8, keepRecentTurns: 2 },
+    contextTokens: 0,
+    pendingContext: [],
+  };
+}
+
+function createRecorder(): SessionRecorder {
+  return {
+    sessionId: "session-1",
+    recordMessages: vi.fn(async () => {}),
+    recordUsage: vi.fn(async () => {}),
+    recordSwitch: vi.fn(async () => {}),
+    recordCompaction: vi.fn(async () => {}),
+    recordRewind: vi.fn(async () => {}),
+    finalize: vi.fn(async () => {}),
+  };
+}
+
+/** NDJSON input the test can keep writing to while the session runs. */
+function createInput() {
+  const lines: string[] = [];
+  let closed = false;
+  let wake: (() => void) | null = null;
+  return {
+    push(message: unknown) {
+      lines.push(typeof message === "string" ? message : JSON.stringify(message));
+      wake?.();
+    },
+    close() {
+      closed = true;
+      wake?.();
+    },
+    async *[Symbol.asyncIterator](): AsyncGenerator<string> {
+      for (;;) {
+        const line = lines.shift();
+        if (line !== undefined) {
+          yield line;
+        } else if (closed) {
+          return;
+        } else {
+          await new Promise<void>((resolve) => {
+            wake = resolve;
+          });
+          wake = null;
+        }
+      }
+    },
+  };
+}
+
+function run(
+  session: Session,
+  input: ReturnType<typeof createInput>,
+  onEvent: (event: OutputEvent) => void = () => {},
+) {
+  const events: OutputEvent[] = [];
+  const results = runStreamJsonSession(session, input, {
+    agentName: "test",
+    config,
+    recorder: createRecorder(),
+    stdout: (text) => {
+      const event = JSON.parse(text) as OutputEvent;
+      events.push(event);
+      onEvent(event);
+    },
+    stderr: () => {},
+  });
+  return { events, results };
+}
+
+describe("parseInputMessage", () => {
+  it("accepts each message type and rejects malformed lines", () => {
+    expect(parseInputMessage('{"type":"user","message":"hi"}')).toEqual({ type: "user", message: "hi" });
+    expect(parseInputMessage('{"type":"approval","tool_call_id":"c1","action":"allow","scope":"session"}'))
+      .toMatchObject({ action: "allow", scope: "session" });
+    expect(() => parseInputMessage("{oops")).toThrow("JSON として解釈できません");
+    expect(() => parseInputMessage('{"type":"user"}')).toThrow("message");
+    expect(() => parseInputMessage('{"type":"shout"}')).toThrow("入力メッセージが不正です");
+  });
+});
+
+describe("runHeadlessTurn", () => {
+  it("points at the interactive chat when the context window is exceeded", async () => {
+    const session = createSession(
+      createMockModel([
+        { error: Object.assign(new Error("context_length exceeded"), { statusCode: 400 }) },
+      ]),
+    );
+    const stderr: string[] = [];
+
+    const result = await runHeadlessTurn(session, "hi", {
+      agentName: "test",
+      config,
+      recorder: createRecorder(),
+      reporter: createOneShotReporter("json", { stdout: () => {}, stderr: () => {} }),
+      stderr: (text) => stderr.push(text),
+    });
+
+    expect(stderr.join("")).toContain("wellgrow -r session-1 で対話モードで再開し、/compact");
+    expect(result.status).toBe("api_error");
+    expect(result.error).toContain("wellgrow -r session-1");
+  });
+
+  it("reports an interrupt as its own status", async () => {
+    const session = createSession(createMockModel([{ text: "途中まで" }]));
+    const reporter = createOneShotReporter("json", { stdout: () => {}, stderr: () => {} });
+
+    const result = await runHeadlessTurn(session, "hi", {
+      agentName: "test",
+      config,
+      recorder: createRecorder(),
+      reporter: {
+        ...reporter,
+        update: () => session.ctx.abort.userAbortController?.abort(),
+      },
+      stderr: () => {},
+    });
+
+    expect(result).toMatchObject({ status: "interrupted", exit_code: 130 });
+    expect(result.error).toBeUndefined();
+  });
+});
+
+describe("runStreamJsonSession", () => {
+  it("runs queued messages as separate turns and takes approvals from the input", async () => {
+    const session = createSession(
+      createMockModel([
+        { toolCalls: [{ name: "Touch", args: { path: "a.txt" } }] },
+        { text: "作成しました" },
+        { text: "二つ目" },
+      ]),
+    );
+    const input = createInput();
+    const { events, results } = run(session, input, (event) => {
+      if (event.type === "approval_request") {
+        input.push({ type: "approval", tool_call_id: event.tool_call_id, action: "allow" });
+      }
+      if (event.type === "result" && event.result === "作成しました") {
+        input.push({ type: "user", message: "次" });
+        input.close();
+      }
+    });
+    input.push({ type: "user", message: "a.txt を作って" });
+
+    const finished = await results;
+
+    expect(finished.map((r) => [r.status, r.result])).toEqual([
+      ["success", "作成しました"],
+      ["success", "二つ目"],
+    ]);
+    expect(events.filter((e) => e.type === "init")).toHaveLength(1);
+    expect(events.find((e) => e.type === "approval_request")).toMatchObject({
+      tool_name: "Touch",
+      input: { path: "a.txt" },
+    });
+    expect(finished[0].tool_calls).toMatchObject([{ name: "Touch", status: "completed" }]);
+    expect(session.messages.filter((m) => m.role === "user")).toHaveLength(2);
+  });
+
+  it("answers AskUser from the input", async () => {
+    const session = createSession(
+      createMockModel([
+        {
+          toolCalls: [
+            {
+              name: "AskUser",
+              args: {
+                questions: [
+                  {
+                    question: "どちら？",
+                    header: "選択",
+                    options: [
+                      { label: "A", description: "a" },
+                      { label: "B", description: "b" },
+                    ],
+                    multiSelect: false,
+                  },
+                ],
+              },
+            },
+          ],
+        },
+        { text: "B ですね" },
+      ]),
+    );
+    const input = createInput();
+    const { events, results } = run(session, input, (event) => {
+      if (event.type === "ask_user") {
+        input.push({
+          type: "ask_user_answer",
+          tool_call_id: event.tool_call_id,
+          answers: { "どちら？": { selected: ["B"] } },
+        });
+        input.close();
+      }
+    });
+    input.push({ type: "user", message: "聞いて" });
+
+    const [result] = await results;
+
+    expect(result.status).toBe("success");
+    expect(events.find((e) => e.type === "ask_user")).toMatchObject({
+      questions: [{ question: "どちら？" }],
+    });
+    expect(JSON.stringify(session.messages)).toContain('"selected":["B"]');
+  });
+
+  it("ends the turn as interrupted when an interrupt arrives during an approval", async () => {
+    const session = createSession(
+      createMockModel([
+        { toolCalls: [{ name: "Touch", args: { path: "a.txt" } }] },
+        { text: "続き" },
+      ]),
+    );
+    const input = createInput();
+    const { events, results } = run(session, input, (event) => {
+      if (event.type === "approval_request") input.push({ type: "interrupt" });
+      if (event.type === "result") input.close();
+    });
+    input.push({ type: "user", message: "a.txt を作って" });
+
+    const [result] = await results;
+
+    expect(result).toMatchObject({ status: "interrupted", exit_code: 130 });
+    expect(result.tool_calls).toMatchObject([{ name: "Touch", status: "denied" }]);
+    expect(events.at(-1)).toMatchObject({ type: "result", status: "interrupted" });
+  });
+
+  it("reports bad lines and denies approvals still pending when the input ends", async () => {
+    const session = createSession(
+      createMockModel([
+        { toolCalls: [{ name: "Touch", args: { path: "a.txt" } }] },
+        { text: "拒否されました" },
+      ]),
+    );
+    const input = createInput();
+    const { events, results } = run(session, input, (event) => {
+      if (event.type === "approval_request") input.close();
+    });
+    input.push("not json");
+    input.push({ type: "approval", tool_call_id: "nope", action: "allow" });
+    input.push({ type: "user", message: "a.txt を作って" });
+
+    const [result] = await results;
+
+    expect(events.filter((e) => e.type === "error")).toHaveLength(2);
+    expect(result.status).toBe("tool_denied");
+    expect(result.exit_code).toBe(4);
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { readFile, readdir } from "node:fs/promises";
+import { readFile, readdir, mkdir, writeFile } from "node:fs/promises";
 import { join } from "node:path";
 import { createTempWorkspace, type TempWorkspace } from "../helpers/temp-workspace.js";
 
@@ -39,10 +39,19 @@ describe("createSessionRecorder", () => {
     expect(years.length).toBeGreaterThan(0);
   });
 
-  it("records user message", async () => {
+  it("records every model message", async () => {
     const { createSessionRecorder } = await import("../../core/history.js");
     const recorder = await createSessionRecorder("claude-opus-4-6", "joy");
-    await recorder.recordUser("こんにちは");
+    await recorder.recordMessages([
+      { role: "user", content: "こんにちは" },
+      {
+        role: "assistant",
+        content: [
+          { type: "text", text: "x".repeat(1000) },
+          { type: "tool-call", toolCallId: "c1", toolName: "Read", input: { file_path: "/a" } },
+        ],
+      },
+    ]);
 
     const sessionsDir = join(testHome.dir, ".wellgrow", "sessions");
     const years = await readdir(sessionsDir);
@@ -53,36 +62,30 @@ describe("createSessionRecorder", () => {
       join(sessionsDir, years[0], months[0], days[0], files[0]),
       "utf-8",
     );
-    const lines = content.trim().split("\n");
-    const userEntry = JSON.parse(lines[1]);
-    expect(userEntry.type).toBe("user");
-    expect(userEntry.content).toBe("こんにちは");
+    const lines = content.trim().split("\n").map((l) => JSON.parse(l));
+    expect(lines[1].type).toBe("message");
+    expect(lines[1].message).toEqual({ role: "user", content: "こんにちは" });
+    expect(lines[2].message.content[0].text).toHaveLength(1000);
+    expect(lines[2].message.content[1].type).toBe("tool-call");
   });
 
-  it("records assistant message truncated to 500 chars", async () => {
-    const { createSessionRecorder } = await import("../../core/history.js");
-    const recorder = await createSessionRecorder("claude-opus-4-6", "joy");
-    const longText = "x".repeat(1000);
-    await recorder.recordAssistant(longText);
+  it("only appends messages added since the last call", async () => {
+    const { createSessionRecorder, getSessionContent } = await import("../../core/history.js");
+    const recorder = await createSessionRecorder("model", "agent");
+    const messages: import("ai").ModelMessage[] = [{ role: "user", content: "one" }];
+    await recorder.recordMessages(messages);
+    messages.push({ role: "assistant", content: "two" });
+    await recorder.recordMessages(messages);
 
-    const sessionsDir = join(testHome.dir, ".wellgrow", "sessions");
-    const years = await readdir(sessionsDir);
-    const months = await readdir(join(sessionsDir, years[0]));
-    const days = await readdir(join(sessionsDir, years[0], months[0]));
-    const files = await readdir(join(sessionsDir, years[0], months[0], days[0]));
-    const content = await readFile(
-      join(sessionsDir, years[0], months[0], days[0], files[0]),
-      "utf-8",
-    );
-    const lines = content.trim().split("\n");
-    const assistantEntry = JSON.parse(lines[1]);
-    expect(assistantEntry.content.length).toBe(500);
+    const content = await getSessionContent(recorder.sessionId);
+    const types = content!.trim().split("\n").map((l) => JSON.parse(l).type);
+    expect(types).toEqual(["meta", "message", "message"]);
   });
 
   it("finalizes session to history file", async () => {
     const { createSessionRecorder } = await import("../../core/history.js");
     const recorder = await createSessionRecorder("claude-opus-4-6", "joy");
-    await recorder.recordUser("テストメッセージ");
+    await recorder.recordMessages([{ role: "user", content: "テストメッセージ" }]);
     await recorder.finalize(3);
 
     const historyFile = join(testHome.dir, ".wellgrow", "history.jsonl");
@@ -95,6 +98,22 @@ describe("createSessionRecorder", () => {
     expect(entry.summary).toBe("テストメッセージ");
   });
 
+  it("totals priced usage into the history entry, across resumes", async () => {
+    const { createSessionRecorder, loadSessionTranscript, listHistory } = await import("../../core/history.js");
+    const first = await createSessionRecorder("model", "agent");
+    await first.recordUsage({ inputTokens: 10, outputTokens: 5, costUsd: 0.25 });
+    await first.recordUsage({ inputTokens: 10, outputTokens: 5 });
+    await first.finalize(1);
+
+    const transcript = await loadSessionTranscript(first.sessionId);
+    const resumed = await createSessionRecorder("model", "agent", { resume: transcript! });
+    await resumed.recordUsage({ inputTokens: 10, outputTokens: 5, costUsd: 0.5 });
+    await resumed.finalize(2);
+
+    const history = await listHistory();
+    expect(history[0].cost_usd).toBeCloseTo(0.75);
+  });
+
   it("uses placeholder summary for empty session", async () => {
     const { createSessionRecorder } = await import("../../core/history.js");
     const recorder = await createSessionRecorder("claude-opus-4-6", "joy");
@@ -118,11 +137,11 @@ describe("listHistory", () => {
     const { createSessionRecorder, listHistory } = await import("../../core/history.js");
 
     const r1 = await createSessionRecorder("model", "agent");
-    await r1.recordUser("first");
+    await r1.recordMessages([{ role: "user", content: "first" }]);
     await r1.finalize(1);
 
     const r2 = await createSessionRecorder("model", "agent");
-    await r2.recordUser("second");
+    await r2.recordMessages([{ role: "user", content: "second" }]);
     await r2.finalize(1);
 
     const history = await listHistory();
@@ -136,7 +155,7 @@ describe("listHistory", () => {
 
     for (let i = 0; i < 5; i++) {
       const r = await createSessionRecorder("model", "agent");
-      await r.recordUser(`msg ${i}`);
+      await r.recordMessages([{ role: "user", content: `msg ${i}` }]);
       await r.finalize(1);
     }
 
@@ -155,11 +174,272 @@ describe("getSessionContent", () => {
   it("returns file content for existing session", async () => {
     const { createSessionRecorder, getSessionContent } = await import("../../core/history.js");
     const recorder = await createSessionRecorder("model", "agent");
-    await recorder.recordUser("hello");
+    await recorder.recordMessages([{ role: "user", content: "hello" }]);
 
     const content = await getSessionContent(recorder.sessionId);
     expect(content).not.toBeNull();
-    expect(content).toContain('"type":"user"');
+    expect(content).toContain('"type":"message"');
     expect(content).toContain("hello");
   });
 });
+
+describe("loadSessionTranscript", () => {
+  it("rebuilds messages and applies recorded switches", async () => {
+    const { createSessionRecorder, loadSessionTranscript } = await import("../../core/history.js");
+    const recorder = await createSessionRecorder("claude-opus-4-6", "joy", {
+      cwd: "/work",
+      mode: "auto",
+    });
+    await recorder.recordMessages([
+      { role: "user", content: "hi" },
+      { role: "assistant", content: "hello" },
+    ]);
+    await recorder.recordUsage({ inputTokens: 10, outputTokens: 5 });
+    await recorder.recordSwitch("model", "claude-sonnet-4-6");
+    await recorder.recordSwitch("mode", "plan");
+
+    const transcript = await loadSessionTranscript(recorder.sessionId);
+    expect(transcript).not.toBeNull();
+    expect(transcript!.messages).toHaveLength(2);
+    expect(transcript!.usage).toEqual([{ inputTokens: 10, outputTokens: 5 }]);
+    expect(transcript!.agent).toBe("joy");
+    expect(transcript!.model).toBe("claude-sonnet-4-6");
+    expect(transcript!.mode).toBe("plan");
+    expect(transcript!.cwd).toBe("/work");
+  });
+
+  it("converts legacy user/assistant entries", async () => {
+    const { loadSessionTranscript } = await import("../../core/history.js");
+    const dir = join(testHome.dir, ".wellgrow", "sessions", "2025", "01", "02");
+    await mkdir(dir, { recursive: true });
+    await writeFile(
+      join(dir, "legacy-id.jsonl"),
+      [
+        JSON.stringify({ type: "meta", agent: "joy", model: "m", timestamp: "2025-01-02T00:00:00.000Z" }),
+        JSON.stringify({ type: "user", timestamp: "t", content: "q" }),
+        JSON.stringify({ type: "assistant", timestamp: "t", content: "a" }),
+      ].join("\n") + "\n",
+      "utf-8",
+    );
+
+    const transcript = await loadSessionTranscript("legacy-id");
+    expect(transcript!.sessionId).toBe("legacy-id");
+    expect(transcript!.messages).toEqual([
+      { role: "user", content: "q" },
+      { role: "assistant", content: "a" },
+    ]);
+  });
+
+  it("drops messages removed by a rewind and records what follows", async () => {
+    const { createSessionRecorder, loadSessionTranscript } = await import("../../core/history.js");
+    const recorder = await createSessionRecorder("model", "agent");
+    const messages = [
+      { role: "user" as const, content: "one" },
+      { role: "assistant" as const, content: "1" },
+      { role: "user" as const, content: "two" },
+      { role: "assistant" as const, content: "2" },
+    ];
+    await recorder.recordMessages(messages);
+    await recorder.recordRewind(2);
+    await recorder.recordMessages([
+      ...messages.slice(0, 2),
+      { role: "user", content: "three" },
+    ]);
+
+    const transcript = await loadSessionTranscript(recorder.sessionId);
+    expect(transcript!.messages.map((m) => m.content)).toEqual(["one", "1", "three"]);
+  });
+
+  it("appends to the same file when resuming", async () => {
+    const { createSessionRecorder, loadSessionTranscript, listHistory } = await import("../../core/history.js");
+    const first = await createSessionRecorder("model", "agent");
+    await first.recordMessages([{ role: "user", content: "first" }]);
+    await first.finalize(1);
+
+    const transcript = await loadSessionTranscript(first.sessionId);
+    const resumed = await createSessionRecorder("model", "agent", { resume: transcript! });
+    expect(resumed.sessionId).toBe(first.sessionId);
+    await resumed.recordMessages([
+      ...transcript!.messages,
+      { role: "user", content: "second" },
+    ]);
+    await resumed.finalize(2);
+
+    const reloaded = await loadSessionTranscript(first.sessionId);
+    expect(reloaded!.messages.map((m) => m.content)).toEqual(["first", "second"]);
+
+    const history = await listHistory();
+    expect(history).toHaveLength(1);
+    expect(history[0].message_count).toBe(2);
+  });
+});
+
+describe("findLatestSession", () => {
+  it("returns the newest session recorded in the given cwd", async () => {
+    const { createSessionRecorder, findLatestSession } = await import("../../core/history.js");
+    const a = await createSessionRecorder("model", "agent", { cwd: "/a" });
+    await a.finalize(0);
+    const b = await createSessionRecorder("model", "agent", { cwd: "/b" });
+    await b.finalize(0);
+
+    expect((await findLatestSession("/a"))?.session_id).toBe(a.sessionId);
+    expect(await findLatestSession("/c")).toBeNull();
+  });
+});
+
+describe("session index", () => {
+  it("records new sessions so lookups skip the directory walk", async () => {
+    const { createSessionRecorder, getSessionContent } = await import("../../core/history.js");
+    const recorder = await createSessionRecorder("model", "agent");
+
+    const index = await readFile(join(testHome.dir, ".wellgrow", "session-index.jsonl"), "utf-8");
+    const entry = JSON.parse(index.trim());
+    expect(entry.session_id).toBe(recorder.sessionId);
+    expect(entry.path).toMatch(new RegExp(`^\\d{4}/\\d{2}/\\d{2}/${recorder.sessionId}\\.jsonl$`));
+
+    expect(await getSessionContent(recorder.sessionId.slice(0, 8))).toContain('"type":"meta"');
+  });
+
+  it("falls back to the directory walk for sessions missing from the index", async () => {
+    const { createSessionRecorder, getSessionContent } = await import("../../core/history.js");
+    await createSessionRecorder("model", "agent");
+    const dir = join(testHome.dir, ".wellgrow", "sessions", "2025", "01", "02");
+    await mkdir(dir, { recursive: true });
+    await writeFile(join(dir, "unindexed.jsonl"), '{"type":"meta"}\n', "utf-8");
+
+    expect(await getSessionContent("unindexed")).toContain("meta");
+    const index = await readFile(join(testHome.dir, ".wellgrow", "session-index.jsonl"), "utf-8");
+    expect(index).toContain('"session_id":"unindexed"');
+  });
+
+  it("rejects ambiguous prefixes", async () => {
+    const { getSessionContent } = await import("../../core/history.js");
+    const dir = join(testHome.dir, ".wellgrow", "sessions", "2025", "01", "02");
+    await mkdir(dir, { recursive: true });
+    await writeFile(join(dir, "abc-1.jsonl"), "", "utf-8");
+    await writeFile(join(dir, "abc-2.jsonl"), "", "utf-8");
+
+    await expect(getSessionContent("abc")).rejects.toThrow("複数");
+  });
+});
+
+describe("history filters and search", () => {
+  async function recordSessions() {
+    const { createSessionRecorder } = await import("../../core/history.js");
+    const sessions = [
+      { agent: "joy", model: "Opus 4.6", cwd: "/work/app", text: "ログインのバグを直したい" },
+      { agent: "coach", model: "Sonnet 4.6", cwd: "/work/other", text: "週報をまとめて" },
+    ];
+    for (const s of sessions) {
+      const recorder = await createSessionRecorder(s.model, s.agent, { cwd: s.cwd });
+      await recorder.recordMessages([
+        { role: "user", content: s.text },
+        { role: "assistant", content: [{ type: "text", text: `了解です: ${s.text}` }] },
+      ]);
+      await recorder.finalize(2);
+    }
+  }
+
+  it("filters the listing by agent, model, cwd and date", async () => {
+    const { listHistory } = await import("../../core/history.js");
+    await recordSessions();
+
+    expect((await listHistory(20, { agent: "joy" })).map((e) => e.agent)).toEqual(["joy"]);
+    expect((await listHistory(20, { model: "sonnet" })).map((e) => e.agent)).toEqual(["coach"]);
+    expect((await listHistory(20, { cwd: "/work" }))).toHaveLength(2);
+    expect((await listHistory(20, { cwd: "/work/app" })).map((e) => e.agent)).toEqual(["joy"]);
+    expect(await listHistory(20, { until: new Date("2000-01-01") })).toEqual([]);
+  });
+
+  it("searches conversation text case-insensitively", async () => {
+    const { searchHistory } = await import("../../core/history.js");
+    await recordSessions();
+
+    const results = await searchHistory("バグ");
+    expect(results.map((r) => r.entry.agent)).toEqual(["joy"]);
+    expect(results[0].snippets[0]).toContain("ログインのバグ");
+    expect(await searchHistory("バグ", { filter: { agent: "coach" } })).toEqual([]);
+  });
+});
+
+describe("deleteSession / pruneSessions", () => {
+  it("deletes the transcript, index line and history entries", async () => {
+    const { createSessionRecorder, deleteSession, getSessionContent, listHistory } =
+      await import("../../core/history.js");
+    const keep = await createSessionRecorder("model", "agent");
+    await keep.finalize(0);
+    const drop = await createSessionRecorder("model", "agent");
+    await drop.finalize(0);
+
+    expect(await deleteSession(drop.sessionId.slice(0, 8))).toBe(drop.sessionId);
+    expect(await getSessionContent(drop.sessionId)).toBeNull();
+    expect((await listHistory()).map((e) => e.session_id)).toEqual([keep.sessionId]);
+    expect(await deleteSession("missing")).toBeNull();
+  });
+
+  it("keeps the most recently used sessions", async () => {
+    const { createSessionRecorder, loadSessionTranscript, pruneSessions, listHistory } =
+      await import("../../core/history.js");
+    const old = await createSessionRecorder("model", "agent");
+    await old.finalize(0);
+    const middle = await createSessionRecorder("model", "agent");
+    await middle.finalize(0);
+    // Resuming the oldest session makes it the most recently used.
+    const resumed = await createSessionRecorder("model", "agent", {
+      resume: (await loadSessionTranscript(old.sessionId))!,
+    });
+    await resumed.finalize(0);
+
+    expect(await pruneSessions(1, { dryRun: true })).toEqual([middle.sessionId]);
+    expect((await listHistory()).length).toBe(2);
+    expect(await pruneSessions(1)).toEqual([middle.sessionId]);
+    expect((await listHistory()).map((e) => e.session_id)).toEqual([old.sessionId]);
+  });
+
+  it("enforces max_sessions on finalize", async () => {
+    const { createSessionRecorder, listHistory } = await import("../../core/history.js");
+    for (let i = 0; i < 3; i++) {
+      const r = await createSessionRecorder("model", "agent", { maxSessions: 2 });
+      await r.recordMessages([{ role: "user", content: `msg ${i}` }]);
+      await r.finalize(1);
+    }
+
+    expect((await listHistory()).map((e) => e.summary)).toEqual(["msg 2", "msg 1"]);
+  });
+
+  it("skips sessions still being written by another process", async () => {
+    const { createSessionRecorder, pruneSessions } = await import("../../core/history.js");
+    const open = await createSessionRecorder("model", "agent");
+    await open.finalize(0);
+    const latest = await createSessionRecorder("model", "agent");
+    await latest.finalize(0);
+    // `open` was last finalized ten minutes ago but its transcript changed since.
+    const historyFile = join(testHome.dir, ".wellgrow", "history.jsonl");
+    const tenMinutesAgo = new Date(Date.now() - 10 * 60 * 1000).toISOString();
+    const lines = (await readFile(historyFile, "utf-8")).trim().split("\n").map((l) => {
+      const entry = JSON.parse(l);
+      return JSON.stringify(
+        entry.session_id === open.sessionId ? { ...entry, updated_at: tenMinutesAgo } : entry,
+      );
+    });
+    await writeFile(historyFile, lines.join("\n") + "\n");
+
+    expect(await pruneSessions(1)).toEqual([]);
+  });
+
+  it("serializes concurrent rewrites and appends without leaving temp files", async () => {
+    const { createSessionRecorder, deleteSession, listHistory } =
+      await import("../../core/history.js");
+    const drop = await createSessionRecorder("model", "agent");
+    await drop.finalize(0);
+    const others = await Promise.all([1, 2, 3].map(() => createSessionRecorder("model", "agent")));
+
+    await Promise.all([deleteSession(drop.sessionId), ...others.map((r) => r.finalize(0))]);
+
+    const ids = (await listHistory()).map((e) => e.session_id).sort();
+    expect(ids).toEqual(others.map((r) => r.sessionId).sort());
+    expect(await readdir(join(testHome.dir, ".wellgrow"))).toEqual(
+      expect.not.arrayContaining([expect.stringMatching(/\.tmp$|\.lock$/)]),
+    );
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect } from "vitest";
+import {
+  EXIT_CODES,
+  createOneShotReporter,
+  resolveOneShotStatus,
+  summarizeToolCalls,
+  type OneShotResult,
+  type OutputFormat,
+} from "../../core/output-format.js";
+import type { MessagePart } from "../../ui/message-list.js";
+
+function createOutput(format: OutputFormat) {
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  const reporter = createOneShotReporter(format, {
+    stdout: (text) => stdout.push(text),
+    stderr: (text) => stderr.push(text),
+  });
+  return { reporter, stdout, stderr };
+}
+
+function createResult(overrides: Partial<OneShotResult> = {}): OneShotResult {
+  return {
+    type: "result",
+    status: "success",
+    exit_code: 0,
+    result: "done",
+    session_id: "s1",
+    agent: "joy",
+    model: "claude-sonnet-4-5",
+    turns: 1,
+    duration_ms: 10,
+    usage: { input_tokens: 1, output_tokens: 2, cache_read_tokens: 0, cache_write_tokens: 0 },
+    tool_calls: [],
+    ...overrides,
+  };
+}
+
+const deniedTool: MessagePart = {
+  type: "tool",
+  toolCallId: "t2",
+  toolName: "Bash",
+  state: "output-denied",
+  input: { command: "rm x" },
+  errorText: "ユーザーがツールの実行を拒否しました",
+};
+
+describe("resolveOneShotStatus", () => {
+  it("ranks errors over cost limits and max turns over denied tools", () => {
+    const toolCalls = summarizeToolCalls([deniedTool]);
+
+    expect(resolveOneShotStatus({ error: { api: true }, maxTurnsReached: true, toolCalls }))
+      .toEqual({ status: "api_error", exitCode: EXIT_CODES.apiError });
+    expect(resolveOneShotStatus({ error: { api: false }, toolCalls }))
+      .toEqual({ status: "error", exitCode: EXIT_CODES.error });
+    expect(resolveOneShotStatus({ error: { api: false }, costLimitReached: true, toolCalls }))
+      .toEqual({ status: "error", exitCode: EXIT_CODES.error });
+    expect(resolveOneShotStatus({ costLimitReached: true, toolCalls }))
+      .toEqual({ status: "cost_limit", exitCode: EXIT_CODES.costLimit });
+    expect(resolveOneShotStatus({ maxTurnsReached: true, toolCalls }))
+      .toEqual({ status: "max_turns", exitCode: EXIT_CODES.maxTurns });
+    expect(resolveOneShotStatus({ toolCalls }))
+      .toEqual({ status: "tool_denied", exitCode: EXIT_CODES.toolDenied });
+    expect(resolveOneShotStatus({ toolCalls: [] }))
+      .toEqual({ status: "success", exitCode: EXIT_CODES.success });
+  });
+
+  it("ranks an interrupt over everything else", () => {
+    expect(resolveOneShotStatus({ interrupted: true, error: { api: true }, toolCalls: [] }))
+      .toEqual({ status: "interrupted", exitCode: EXIT_CODES.interrupted });
+    expect(resolveOneShotStatus({ interrupted: true, toolCalls: [] }))
+      .toEqual({ status: "interrupted", exitCode: 130 });
+  });
+});
+
+describe("summarizeToolCalls", () => {
+  it("maps tool part states to summary statuses", () => {
+    const parts: MessagePart[] = [
+      { type: "text", text: "hi" },
+      { type: "tool", toolCallId: "t1", toolName: "Read", state: "output-available", input: { file_path: "a" } },
+      deniedTool,
+      { type: "tool", toolCallId: "t3", toolName: "Edit", state: "input-available" },
+    ];
+
+    expect(summarizeToolCalls(parts)).toEqual([
+      { id: "t1", name: "Read", status: "completed", input: { file_path: "a" } },
+      {
+        id: "t2",
+        name: "Bash",
+        status: "denied",
+        input: { command: "rm x" },
+        error: "ユーザーがツールの実行を拒否しました",
+      },
+      { id: "t3", name: "Edit", status: "incomplete", input: undefined },
+    ]);
+  });
+});
+
+describe("createOneShotReporter", () => {
+  it("streams text deltas and reports failures on stderr in text mode", () => {
+    const { reporter, stdout, stderr } = createOutput("text");
+    reporter.update([{ type: "text", text: "Hel" }]);
+    reporter.update([{ type: "text", text: "Hello" }]);
+    reporter.finish(createResult({ status: "max_turns", exit_code: EXIT_CODES.maxTurns }));
+
+    expect(stdout.join("")).toBe("Hello\n");
+    expect(stderr.join("")).toContain("最大ターン数");
+  });
+
+  it("prints a single result object in json mode", () => {
+    const { reporter, stdout } = createOutput("json");
+    reporter.update([{ type: "text", text: "Hello" }]);
+    reporter.usage({ inputTokens: 1, outputTokens: 2 });
+    reporter.finish(createResult());
+
+    expect(stdout).toHaveLength(1);
+    expect(JSON.parse(stdout[0])).toMatchObject({ type: "result", result: "done", session_id: "s1" });
+  });
+
+  it("emits an event per changed part and each denial once in stream-json mode", () => {
+    const { reporter, stdout } = createOutput("stream-json");
+    const text: MessagePart = { type: "text", text: "Hi" };
+    reporter.update([text]);
+    reporter.update([text, deniedTool]);
+    reporter.update([text, deniedTool]);
+    reporter.retry(1, 2, 500);
+    reporter.finish(createResult());
+
+    const events = stdout.map((line) => JSON.parse(line));
+    expect(events.map((e) => e.type)).toEqual(["part", "part", "tool_denied", "retry", "result"]);
+    expect(events[1]).toMatchObject({ index: 1, part: { toolCallId: "t2" } });
+    expect(events[2]).toMatchObject({ tool_call_id: "t2", tool_name: "Bash" });
+    expect(stdout.every((line) => line.endsWith("\n"))).toBe(true);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import type { ModelMessage } from "ai";
+import { replayMessages, restoreTodos } from "../../core/transcript.js";
+
+const conversation: ModelMessage[] = [
+  { role: "user", content: "ファイルを読んで" },
+  {
+    role: "assistant",
+    content: [
+      { type: "reasoning", text: "考え中" },
+      { type: "tool-call", toolCallId: "c1", toolName: "Read", input: { file_path: "/a" } },
+      { type: "tool-call", toolCallId: "c2", toolName: "Bash", input: { command: "rm x" } },
+    ],
+  },
+  {
+    role: "tool",
+    content: [
+      { type: "tool-result", toolCallId: "c1", toolName: "Read", output: { type: "json", value: { content: "x" } } },
+      { type: "tool-result", toolCallId: "c2", toolName: "Bash", output: { type: "execution-denied", reason: "拒否" } },
+    ],
+  },
+  { role: "assistant", content: [{ type: "text", text: "読みました" }] },
+  { role: "user", content: [{ type: "text", text: "ありがとう" }] },
+];
+
+describe("replayMessages", () => {
+  it("folds one agent-loop run into a single assistant message", () => {
+    const display = replayMessages(conversation);
+    expect(display.map((m) => m.role)).toEqual(["user", "assistant", "user"]);
+
+    const assistant = display[1];
+    expect(assistant.parts.map((p) => p.type)).toEqual([
+      "reasoning",
+      "tool",
+      "tool",
+      "step-start",
+      "text",
+    ]);
+  });
+
+  it("hides context injected by hooks", () => {
+    const display = replayMessages([
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "テストして" },
+          { type: "text", text: '<hook_context event="UserPromptSubmit">\nbranch: main\n</hook_context>' },
+        ],
+      },
+      { role: "assistant", content: "終わりました" },
+      { role: "user", content: '<hook_context event="Stop">\nテストが失敗しています\n</hook_context>' },
+      { role: "assistant", content: "直しました" },
+    ]);
+
+    expect(display.map((m) => m.role)).toEqual(["user", "assistant"]);
+    expect(display[0].parts).toEqual([{ type: "text", text: "テストして", state: "done" }]);
+    expect(display[1].parts.map((p) => p.type)).toEqual(["text", "step-start", "text"]);
+  });
+
+  it("applies tool results to the matching tool parts", () => {
+    const [, assistant] = replayMessages(conversation);
+    const tools = assistant.parts.filter((p) => p.type === "tool");
+    expect(tools[0]).toMatchObject({ state: "output-available", output: { content: "x" } });
+    expect(tools[1]).toMatchObject({ state: "output-denied", errorText: "拒否" });
+  });
+
+  it("extracts user text from content parts", () => {
+    const display = replayMessages(conversation);
+    expect(display[2].parts).toEqual([{ type: "text", text: "ありがとう", state: "done" }]);
+  });
+});
+
+describe("restoreTodos", () => {
+  it("returns the input of the latest TodoWrite call", () => {
+    const todos = [{ content: "a", status: "pending", activeForm: "a中" }];
+    const messages: ModelMessage[] = [
+      {
+        role: "assistant",
+        content: [{ type: "tool-call", toolCallId: "t1", toolName: "TodoWrite", input: { todos: [] } }],
+      },
+      {
+        role: "assistant",
+        content: [{ type: "tool-call", toolCallId: "t2", toolName: "TodoWrite", input: { todos } }],
+      },
+    ];
+    expect(restoreTodos(messages)).toEqual(todos);
+  });
+
+  it("returns an empty list when TodoWrite was never called", () => {
+    expect(restoreTodos(conversation)).toEqual([]);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import type { ChildProcess } from "node:child_process";
+import { runShellCommand } from "../../extensions/command.js";
+import { createTempWorkspace, type TempWorkspace } from "../helpers/temp-workspace.js";
+
+let ws: TempWorkspace;
+
+beforeEach(async () => {
+  ws = await createTempWorkspace();
+});
+
+afterEach(async () => {
+  await ws.cleanup();
+});
+
+describe("runShellCommand", () => {
+  it("passes the input as JSON on stdin and sets the environment", async () => {
+    const result = await runShellCommand('cat; echo " $WELLGROW_PROJECT_DIR $EXTRA"', {
+      cwd: ws.dir,
+      input: { a: 1 },
+      timeout: 5,
+      env: { EXTRA: "yes" },
+    });
+
+    expect(result).toEqual({
+      exitCode: 0,
+      stdout: `{"a":1} ${ws.dir} yes\n`,
+      stderr: "",
+      timedOut: false,
+    });
+  });
+
+  it("reports the exit code and stderr", async () => {
+    const result = await runShellCommand("echo oops >&2; exit 3", {
+      cwd: ws.dir,
+      input: {},
+      timeout: 5,
+    });
+
+    expect(result.exitCode).toBe(3);
+    expect(result.stderr).toBe("oops\n");
+  });
+
+  it("kills the whole pipeline on timeout", async () => {
+    const started = Date.now();
+    const result = await runShellCommand("sleep 5 | sleep 5", {
+      cwd: ws.dir,
+      input: {},
+      timeout: 0.2,
+    });
+
+    expect(result.timedOut).toBe(true);
+    expect(Date.now() - started).toBeLessThan(3000);
+  });
+
+  it("kills the command on abort and tracks it while running", async () => {
+    const ac = new AbortController();
+    const running = new Set<ChildProcess>();
+    const pending = runShellCommand("sleep 5", {
+      cwd: ws.dir,
+      input: {},
+      timeout: 10,
+      abortSignal: ac.signal,
+      running,
+    });
+    expect(running.size).toBe(1);
+
+    ac.abort();
+    const result = await pending;
+
+    expect(result.exitCode).toBeNull();
+    expect(running.size).toBe(0);
+  });
+
+  it("stops collecting stdout past the limit", async () => {
+    const result = await runShellCommand("yes | head -c 200000", {
+      cwd: ws.dir,
+      input: {},
+      timeout: 5,
+      maxStdoutChars: 10,
+    });
+
+    expect(result.stdout.length).toBeLessThan(200000);
+  });
+});
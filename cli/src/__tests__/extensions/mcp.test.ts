@@ -6,8 +6,14 @@ import { randomUUID } from "node:crypto";
 import {
   loadMcpConfigFile,
   mergeMcpConfigs,
+  loadMcpServerSources,
   McpManager,
+  parseResourceMentions,
+  formatResourceContents,
+  resolveResourceMentions,
+  promptToText,
   type McpConfig,
+  type McpManagerEvent,
 } from "../../extensions/mcp.js";
 
 // --- loadMcpConfigFile ---
@@ -233,6 +239,37 @@ describe("mergeMcpConfigs", () => {
   });
 });
 
+// --- loadMcpServerSources ---
+
+describe("loadMcpServerSources", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = join(tmpdir(), `mcp-test-${randomUUID()}`);
+    await mkdir(tempDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("records the file each server came from, later files winning", async () => {
+    const first = join(tempDir, "first.json");
+    const second = join(tempDir, "second.json");
+    await writeFile(first, JSON.stringify({
+      mcpServers: { shared: { command: "old" }, only: { command: "only" } },
+    }));
+    await writeFile(second, JSON.stringify({ shared: { command: "new" } }));
+
+    const sources = await loadMcpServerSources([first, second, join(tempDir, "missing.json")]);
+
+    expect(sources).toEqual([
+      { name: "shared", config: { command: "new" }, source: second },
+      { name: "only", config: { command: "only" }, source: first },
+    ]);
+  });
+});
+
 // --- McpManager ---
 
 describe("McpManager", () => {
@@ -329,3 +366,270 @@ describe("McpManager", () => {
     ).rejects.toThrow("sse transport requires 'url'");
   });
 });
+
+// --- Resources & prompts ---
+
+function withClients(clients: Record<string, object>): McpManager {
+  const manager = new McpManager();
+  const map = (manager as unknown as { clients: Map<string, object> }).clients;
+  for (const [name, client] of Object.entries(clients)) {
+    map.set(name, client);
+  }
+  return manager;
+}
+
+const unsupported = (kind: string) => async () => {
+  throw new Error(`Server does not support ${kind}`);
+};
+
+describe("McpManager resources and prompts", () => {
+  it("listResources follows pages and tags each resource with its server", async () => {
+    const manager = withClients({
+      docs: {
+        listResources: async (options?: { params?: { cursor?: string } }) =>
+          options?.params?.cursor === "p2"
+            ? { resources: [{ uri: "docs://b", name: "b" }] }
+            : { resources: [{ uri: "docs://a", name: "a" }], nextCursor: "p2" },
+      },
+    });
+
+    const { resources, errors } = await manager.listResources();
+
+    expect(resources.map((r) => [r.server, r.uri])).toEqual([
+      ["docs", "docs://a"],
+      ["docs", "docs://b"],
+    ]);
+    expect(errors).toEqual([]);
+  });
+
+  it("listResources skips servers without resources and reports failures", async () => {
+    const manager = withClients({
+      tools_only: { listResources: unsupported("resources") },
+      broken: { listResources: async () => { throw new Error("boom"); } },
+    });
+
+    const { resources, errors } = await manager.listResources();
+
+    expect(resources).toEqual([]);
+    expect(errors).toEqual([
+      { name: "broken", success: false, error: "リソース取得失敗: boom" },
+    ]);
+  });
+
+  it("readResource rejects unknown servers", async () => {
+    const manager = withClients({});
+
+    await expect(manager.readResource("nope", "x://y")).rejects.toThrow(
+      "MCP サーバー 'nope' に接続していません",
+    );
+  });
+
+  it("listPrompts normalizes arguments", async () => {
+    const manager = withClients({
+      wellgrow: {
+        experimental_listPrompts: async () => ({
+          prompts: [{
+            name: "review",
+            description: "レビューする",
+            arguments: [{ name: "file", required: true }, { name: "focus" }],
+          }],
+        }),
+      },
+      tools_only: { experimental_listPrompts: unsupported("prompts") },
+    });
+
+    const { prompts, errors } = await manager.listPrompts();
+
+    expect(prompts).toEqual([{
+      server: "wellgrow",
+      name: "review",
+      description: "レビューする",
+      args: [
+        { name: "file", description: undefined, required: true },
+        { name: "focus", description: undefined, required: false },
+      ],
+    }]);
+    expect(errors).toEqual([]);
+  });
+});
+
+describe("parseResourceMentions", () => {
+  it("finds mentions of connected servers only", () => {
+    const mentions = parseResourceMentions(
+      "@docs:docs://guide と @other:x://y を読んで。mail@docs:z は無視",
+      ["docs"],
+    );
+
+    expect(mentions).toEqual([{ server: "docs", uri: "docs://guide" }]);
+  });
+
+  it("drops trailing punctuation and duplicates", () => {
+    const mentions = parseResourceMentions(
+      "見て @docs:file:///a.md, それと @docs:file:///a.md。",
+      ["docs"],
+    );
+
+    expect(mentions).toEqual([{ server: "docs", uri: "file:///a.md" }]);
+  });
+});
+
+describe("formatResourceContents", () => {
+  it("keeps text and summarizes binary contents", () => {
+    const text = formatResourceContents({
+      contents: [
+        { uri: "a://1", text: "本文" },
+        { uri: "a://2", mimeType: "image/png", blob: "AAAA" },
+      ],
+    });
+
+    expect(text).toBe("本文\n\n[バイナリ: a://2 (image/png), 3 バイト]");
+  });
+});
+
+describe("resolveResourceMentions", () => {
+  it("attaches each mentioned resource, including read errors", async () => {
+    const manager = withClients({
+      docs: {
+        readResource: async ({ uri }: { uri: string }) => {
+          if (uri === "docs://missing") throw new Error("not found");
+          return { contents: [{ uri, text: "ガイド本文" }] };
+        },
+      },
+    });
+
+    const attachments = await resolveResourceMentions(
+      manager,
+      "@docs:docs://guide と @docs:docs://missing",
+    );
+
+    expect(attachments).toEqual([
+      '<mcp_resource server="docs" uri="docs://guide">\nガイド本文\n</mcp_resource>',
+      '<mcp_resource server="docs" uri="docs://missing">\n読み込みに失敗しました: not found\n</mcp_resource>',
+    ]);
+  });
+});
+
+describe("promptToText", () => {
+  it("joins the prompt messages", () => {
+    const text = promptToText({
+      messages: [
+        { role: "user", content: { type: "text", text: "このファイルを見て" } },
+        {
+          role: "user",
+          content: { type: "resource", resource: { uri: "f://a", text: "const a = 1;" } },
+        },
+      ],
+    });
+
+    expect(text).toBe("このファイルを見て\n\nconst a = 1;");
+  });
+});
+
+// --- Health & reconnect ---
+
+// A stdio server whose "crash" tool exits the process and whose "grow" tool
+// adds a tool and sends notifications/tools/list_changed.
+const FAKE_SERVER = `
+import { createInterface } from "node:readline";
+const tools = [{ name: "crash", inputSchema: { type: "object" }, annotations: { destructiveHint: true } }, { name: "grow", inputSchema: { type: "object" } }];
+const send = (m) => process.stdout.write(JSON.stringify(m) + "\\n");
+createInterface({ input: process.stdin }).on("line", (line) => {
+  const msg = JSON.parse(line);
+  if (msg.id === undefined) return;
+  if (msg.method === "tools/call" && msg.params.name === "crash") process.exit(1);
+  if (msg.method === "tools/call" && msg.params.name === "grow") {
+    tools.push({ name: "extra", inputSchema: { type: "object" } });
+    send({ jsonrpc: "2.0", method: "notifications/tools/list_changed" });
+  }
+  const results = {
+    initialize: { protocolVersion: msg.params?.protocolVersion, capabilities: { tools: {} }, serverInfo: { name: "fake", version: "1" } },
+    "tools/list": { tools },
+    "tools/call": { content: [{ type: "text", text: "ok" }] },
+  };
+  send({ jsonrpc: "2.0", id: msg.id, result: results[msg.method] ?? {} });
+});
+`;
+
+describe("McpManager health", () => {
+  let tempDir: string;
+  let manager: McpManager;
+
+  beforeEach(async () => {
+    tempDir = join(tmpdir(), `mcp-test-${randomUUID()}`);
+    await mkdir(tempDir, { recursive: true });
+    await writeFile(join(tempDir, "server.mjs"), FAKE_SERVER);
+    manager = new McpManager();
+  });
+
+  afterEach(async () => {
+    await manager.disconnectAll();
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  const connectFake = () =>
+    manager.connect("fake", { command: process.execPath, args: [join(tempDir, "server.mjs")] });
+
+  function nextEvent(match: (event: McpManagerEvent) => boolean): Promise<McpManagerEvent> {
+    return new Promise((resolve) => {
+      const unsubscribe = manager.subscribe((event) => {
+        if (match(event)) {
+          unsubscribe();
+          resolve(event);
+        }
+      });
+    });
+  }
+
+  it("records failed connections", async () => {
+    await manager.connectAll({ bad: { command: "nonexistent-command-xyz" } });
+
+    expect(manager.getServerState("bad")).toMatchObject({ status: "failed", retries: 0 });
+  });
+
+  it("keeps tool annotations in the tool set", async () => {
+    await connectFake();
+
+    const tools = await manager.getToolSet("fake");
+
+    expect(tools.crash.annotations).toEqual({ destructiveHint: true });
+    expect(tools.grow.annotations).toBeUndefined();
+  });
+
+  it("reconnects after the server process dies", async () => {
+    await connectFake();
+    expect(manager.getServerState("fake")?.status).toBe("connected");
+
+    const reconnecting = nextEvent((e) => e.type === "status" && e.state.status === "connecting");
+    const reconnected = nextEvent((e) => e.type === "status" && e.state.status === "connected");
+    const tools = await manager.getToolSet("fake");
+    await tools.crash.execute?.({}, { toolCallId: "1", messages: [] }).catch(() => {});
+
+    expect(await reconnecting).toMatchObject({ state: { retries: 1, error: "接続が切れました" } });
+    await reconnected;
+    expect(manager.getServerState("fake")).toMatchObject({ status: "connected", retries: 0 });
+    expect(Object.keys(await manager.getToolSet("fake"))).toEqual(["crash", "grow"]);
+  }, 15_000);
+
+  it("reports tools/list_changed notifications", async () => {
+    await connectFake();
+
+    const changed = nextEvent((e) => e.type === "tools-changed");
+    const tools = await manager.getToolSet("fake");
+    await tools.grow.execute?.({}, { toolCallId: "1", messages: [] });
+
+    expect(await changed).toEqual({ type: "tools-changed", server: "fake" });
+    expect(Object.keys(await manager.getToolSet("fake"))).toContain("extra");
+  });
+
+  it("disable disconnects until reconnect", async () => {
+    await connectFake();
+
+    await manager.disable("fake");
+    expect(manager.getServerState("fake")?.status).toBe("disabled");
+    expect(manager.getConnectedServers()).toEqual([]);
+
+    const result = await manager.reconnect("fake");
+    expect(result.success).toBe(true);
+    expect(manager.getConnectedServers()).toEqual(["fake"]);
+  });
+});
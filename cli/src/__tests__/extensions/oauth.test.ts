@@ -2,7 +2,7 @@ import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import { readFile } from "node:fs/promises";
 import { join } from "node:path";
 import { request } from "node:http";
-import { CliOAuthProvider } from "../../extensions/oauth.js";
+import { CliOAuthProvider, clearOAuthCredentials } from "../../extensions/oauth.js";
 import {
   createTempWorkspace,
   type TempWorkspace,
@@ -286,4 +286,27 @@ describe("CliOAuthProvider", () => {
       expect(body).toContain("認証コードが見つかりません");
     });
   });
+
+  // --- Logout ---
+
+  describe("clearOAuthCredentials", () => {
+    it("removes the server's directory", async () => {
+      await provider.saveTokens({ access_token: "abc", token_type: "bearer" });
+
+      expect(await clearOAuthCredentials("test-server", { baseDir: ws.dir })).toBe(true);
+      expect(await provider.tokens()).toBeUndefined();
+    });
+
+    it("returns false when nothing is stored", async () => {
+      expect(await clearOAuthCredentials("test-server", { baseDir: ws.dir })).toBe(false);
+    });
+
+    it("refuses names that leave the OAuth directory", async () => {
+      for (const name of ["..", "../..", "a/../..", "", "."]) {
+        await expect(clearOAuthCredentials(name, { baseDir: ws.resolve("oauth") })).rejects.toThrow(
+          "MCP サーバー名が不正です",
+        );
+      }
+    });
+  });
 });
@@ -0,0 +1,316 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { readFile } from "node:fs/promises";
+import { z } from "zod";
+import {
+  createHookEngine,
+  loadHooksConfig,
+  matchesHook,
+  mergeHooksConfigs,
+  type HooksConfig,
+} from "../extensions/hooks.js";
+import { executeToolCalls } from "../core/tool-executor.js";
+import { defineTool } from "../tools/definition.js";
+import {
+  createTestSessionContext,
+  createToolRegistry,
+  createTestPipeline,
+} from "./helpers/test-context.js";
+import { createNoopCallbacks } from "./helpers/mock-model.js";
+import {
+  createTempWorkspace,
+  type TempWorkspace,
+} from "./helpers/temp-workspace.js";
+import type { MessagePart } from "../ui/message-list.js";
+
+function command(cmd: string, matcher?: string) {
+  return [{ matcher, hooks: [{ type: "command" as const, command: cmd }] }];
+}
+
+const EchoTool = defineTool({
+  name: "Echo",
+  description: "Echoes the input message back",
+  category: "write",
+  inputSchema: z.object({ message: z.string() }),
+  execute: async (input) => `echo: ${input.message}`,
+});
+
+let ws: TempWorkspace;
+
+beforeEach(async () => {
+  ws = await createTempWorkspace();
+});
+
+afterEach(async () => {
+  await ws.cleanup();
+});
+
+// ---------------------------------------------------------------------------
+// Config loading
+// ---------------------------------------------------------------------------
+
+describe("loadHooksConfig", () => {
+  it("loads hooks.json files and keeps hooks from every file", async () => {
+    const a = await createTempWorkspace({
+      "a.json": JSON.stringify({
+        hooks: {
+          PreToolUse: [{ matcher: "Bash", hooks: [{ type: "command", command: "a" }] }],
+        },
+      }),
+      "b.json": JSON.stringify({
+        PreToolUse: [{ hooks: [{ type: "command", command: "b" }] }],
+        Unknown: [{ hooks: [{ type: "command", command: "c" }] }],
+      }),
+    });
+
+    const config = await loadHooksConfig([
+      a.resolve("a.json"),
+      a.resolve("b.json"),
+      a.resolve("missing.json"),
+    ]);
+    await a.cleanup();
+
+    expect(config.PreToolUse?.map((m) => m.hooks[0].command)).toEqual(["a", "b"]);
+    expect(Object.keys(config)).toEqual(["PreToolUse"]);
+  });
+
+  it("drops malformed entries", async () => {
+    const ws2 = await createTempWorkspace({
+      "hooks.json": JSON.stringify({
+        hooks: {
+          Stop: [{ hooks: [{ type: "prompt", command: "x" }, { type: "command" }] }],
+        },
+      }),
+    });
+    const config = await loadHooksConfig([ws2.resolve("hooks.json")]);
+    await ws2.cleanup();
+    expect(config).toEqual({});
+  });
+
+  it("merges per event", () => {
+    const merged = mergeHooksConfigs(
+      { Stop: command("one") },
+      { Stop: command("two"), SessionStart: command("three") },
+    );
+    expect(merged.Stop).toHaveLength(2);
+    expect(merged.SessionStart).toHaveLength(1);
+  });
+});
+
+describe("matchesHook", () => {
+  it("matches everything without a matcher", () => {
+    expect(matchesHook(undefined, "Bash")).toBe(true);
+    expect(matchesHook("", "Bash")).toBe(true);
+    expect(matchesHook("*", "Bash")).toBe(true);
+  });
+
+  it("matches the whole target as a regex", () => {
+    expect(matchesHook("Edit|Write", "Write")).toBe(true);
+    expect(matchesHook("Edit", "MultiEdit")).toBe(false);
+    expect(matchesHook("mcp__github__.*", "mcp__github__create_issue")).toBe(true);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Engine
+// ---------------------------------------------------------------------------
+
+describe("createHookEngine", () => {
+  function engine(config: HooksConfig) {
+    return createHookEngine(config, { sessionId: "session-1", cwd: ws.dir });
+  }
+
+  it("passes the payload as JSON on stdin", async () => {
+    const hooks = engine({ PreToolUse: command("cat > payload.json") });
+
+    await hooks.run(
+      "PreToolUse",
+      { tool_name: "Bash", tool_input: { command: "ls" } },
+      { target: "Bash" },
+    );
+
+    const payload = JSON.parse(await readFile(ws.resolve("payload.json"), "utf-8"));
+    expect(payload).toEqual({
+      hook_event_name: "PreToolUse",
+      session_id: "session-1",
+      cwd: ws.dir,
+      tool_name: "Bash",
+      tool_input: { command: "ls" },
+    });
+  });
+
+  it("only runs hooks whose matcher matches", async () => {
+    const hooks = engine({ PreToolUse: command("echo blocked >&2; exit 2", "Bash") });
+
+    const read = await hooks.run("PreToolUse", { tool_name: "Read" }, { target: "Read" });
+    const bash = await hooks.run("PreToolUse", { tool_name: "Bash" }, { target: "Bash" });
+
+    expect(read.blocked).toBe(false);
+    expect(bash.blocked).toBe(true);
+    expect(bash.reason).toBe("blocked");
+  });
+
+  it("reads decisions, rewritten input and context from JSON output", async () => {
+    const output = JSON.stringify({
+      decision: "allow",
+      updated_input: { command: "ls -la" },
+      additional_context: "note",
+    });
+    const hooks = engine({ PreToolUse: command(`echo '${output}'`) });
+
+    const outcome = await hooks.run("PreToolUse", { tool_name: "Bash" });
+
+    expect(outcome.allowed).toBe(true);
+    expect(outcome.updatedInput).toEqual({ command: "ls -la" });
+    expect(outcome.additionalContext).toEqual(["note"]);
+  });
+
+  it("treats plain stdout as context only for prompt and session events", async () => {
+    const hooks = engine({
+      UserPromptSubmit: command("echo 'today is friday'"),
+      PostToolUse: command("echo 'ignored'"),
+    });
+
+    const prompt = await hooks.run("UserPromptSubmit", { prompt: "hi" });
+    const post = await hooks.run("PostToolUse", { tool_name: "Bash" });
+
+    expect(prompt.additionalContext).toEqual(["today is friday"]);
+    expect(post.additionalContext).toEqual([]);
+  });
+
+  it("reports other failures without blocking", async () => {
+    const hooks = engine({ Stop: command("echo boom >&2; exit 1") });
+
+    const outcome = await hooks.run("Stop", {});
+
+    expect(outcome.blocked).toBe(false);
+    expect(outcome.errors).toEqual(["echo boom >&2; exit 1: boom"]);
+  });
+
+  it("a block wins over an allow from another hook", async () => {
+    const hooks = engine({
+      PreToolUse: [
+        ...command(`echo '{"decision":"allow"}'`),
+        ...command(`echo '{"decision":"block","reason":"no"}'`),
+      ],
+    });
+
+    const outcome = await hooks.run("PreToolUse", { tool_name: "Bash" });
+
+    expect(outcome.blocked).toBe(true);
+    expect(outcome.allowed).toBe(false);
+    expect(outcome.reason).toBe("no");
+  });
+
+  it("kills hooks that exceed their timeout", async () => {
+    const hooks = engine({
+      Stop: [{ hooks: [{ type: "command", command: "sleep 5", timeout: 0.2 }] }],
+    });
+
+    const outcome = await hooks.run("Stop", {});
+
+    expect(outcome.blocked).toBe(false);
+    expect(outcome.errors[0]).toContain("タイムアウト");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Tool executor integration
+// ---------------------------------------------------------------------------
+
+describe("executeToolCalls with hooks", () => {
+  function setup(config: HooksConfig) {
+    const ctx = createTestSessionContext({ cwd: ws.dir });
+    const registry = createToolRegistry([EchoTool], ctx);
+    const hooks = createHookEngine(config, ctx);
+    const parts: MessagePart[] = [
+      {
+        type: "tool",
+        toolCallId: "call_1",
+        toolName: "Echo",
+        state: "input-available",
+        input: { message: "hi" },
+      },
+    ];
+    return { registry, hooks, parts };
+  }
+
+  const call = () => ({
+    toolCallId: "call_1",
+    toolName: "Echo",
+    args: { message: "hi" } as Record<string, unknown>,
+  });
+
+  it("blocks the call when a PreToolUse hook exits with 2", async () => {
+    const { registry, hooks, parts } = setup({
+      PreToolUse: command("echo 'not allowed' >&2; exit 2", "Echo"),
+    });
+
+    const [result] = await executeToolCalls(
+      [call()],
+      parts,
+      { registry, pipeline: createTestPipeline(), hooks },
+      createNoopCallbacks(),
+    );
+
+    expect(result.output).toEqual({
+      type: "execution-denied",
+      reason: "フックによりブロックされました: not allowed",
+    });
+  });
+
+  it("runs the tool with the input rewritten by a PreToolUse hook", async () => {
+    const { registry, hooks, parts } = setup({
+      PreToolUse: command(`echo '{"updated_input":{"message":"rewritten"}}'`),
+    });
+
+    const [result] = await executeToolCalls(
+      [call()],
+      parts,
+      { registry, pipeline: createTestPipeline(), hooks },
+      createNoopCallbacks(),
+    );
+
+    expect(result.output).toEqual({ type: "text", value: "echo: rewritten" });
+    expect(parts[0]).toMatchObject({ input: { message: "rewritten" } });
+  });
+
+  it("skips the approval prompt when a PreToolUse hook allows", async () => {
+    const { registry, hooks, parts } = setup({
+      PreToolUse: command(`echo '{"decision":"allow"}'`),
+    });
+    const callbacks = createNoopCallbacks();
+    let asked = false;
+    callbacks.onApprovalRequest = async () => {
+      asked = true;
+      return { action: "deny" };
+    };
+
+    const [result] = await executeToolCalls(
+      [call()],
+      parts,
+      { registry, pipeline: createTestPipeline("plan"), hooks },
+      callbacks,
+    );
+
+    expect(asked).toBe(false);
+    expect(result.output).toEqual({ type: "text", value: "echo: hi" });
+  });
+
+  it("appends PostToolUse feedback to the tool result", async () => {
+    const { registry, hooks, parts } = setup({
+      PostToolUse: command("echo 'lint failed' >&2; exit 2"),
+    });
+
+    const [result] = await executeToolCalls(
+      [call()],
+      parts,
+      { registry, pipeline: createTestPipeline(), hooks },
+      createNoopCallbacks(),
+    );
+
+    expect(result.output).toEqual({
+      type: "text",
+      value: 'echo: hi\n\n<hook_context event="PostToolUse">\nlint failed\n</hook_context>',
+    });
+  });
+});
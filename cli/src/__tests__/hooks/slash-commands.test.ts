@@ -1,9 +1,28 @@
 import { describe, it, expect, vi } from "vitest";
+import { readFile } from "node:fs/promises";
+import { z } from "zod";
+import { createToolRegistryBuilder } from "../../tools/registry.js";
+import { defineTool } from "../../tools/definition.js";
+import { createTestSessionContext } from "../helpers/test-context.js";
+import { createTempWorkspace } from "../helpers/temp-workspace.js";
 import {
   handleSlashCommand,
   type SlashCommandContext,
 } from "../../hooks/slash-commands.js";
 
+const background = vi.hoisted(() => ({
+  jobs: [] as Array<{ id: string; command: string; status: string }>,
+  killBackgroundJob: vi.fn(async () => true),
+}));
+
+vi.mock("../../tools/background.js", async (importOriginal) => ({
+  ...(await importOriginal<object>()),
+  listBackgroundJobs: () => background.jobs.filter((j) => j.status === "running"),
+  getBackgroundJob: (id: string) => background.jobs.find((j) => j.id === id),
+  getJobRuntime: () => 65_000,
+  killBackgroundJob: background.killBackgroundJob,
+}));
+
 function createMockContext(
   overrides: Partial<SlashCommandContext> = {},
 ): SlashCommandContext {
@@ -29,6 +48,11 @@ function createMockContext(
     setMode: vi.fn(),
     switchModel: vi.fn(() => ({ message: "モデルを切り替えました" })),
     switchAgent: vi.fn(async () => ({ success: true, message: "切り替え完了" })),
+    compact: vi.fn(async () => ({ success: true, message: "要約しました" })),
+    rewind: vi.fn(async () => ({ success: true, message: "巻き戻しました" })),
+    openRewindPicker: vi.fn(),
+    reloadInstructions: vi.fn(async () => []),
+    openEditor: vi.fn(async () => ({ success: true })),
     addSystemMessage: vi.fn(),
     submitPrompt: vi.fn(),
     onExit: vi.fn(),
@@ -167,6 +191,434 @@ describe("handleSlashCommand", () => {
     });
   });
 
+  describe("/compact", () => {
+    it("compacts the conversation", async () => {
+      const ctx = createMockContext();
+      const result = await handleSlashCommand("/compact", ctx);
+      expect(result).toBe(true);
+      expect(ctx.compact).toHaveBeenCalledWith(undefined);
+      expect(ctx.addSystemMessage).toHaveBeenCalledWith("要約しました");
+    });
+
+    it("passes custom instructions", async () => {
+      const ctx = createMockContext();
+      await handleSlashCommand("/compact  テストの結果を重点的に", ctx);
+      expect(ctx.compact).toHaveBeenCalledWith("テストの結果を重点的に");
+    });
+
+    it("blocks compaction during streaming", async () => {
+      const ctx = createMockContext({ status: "streaming" });
+      await handleSlashCommand("/compact", ctx);
+      expect(ctx.compact).not.toHaveBeenCalled();
+      expect(ctx.addSystemMessage).toHaveBeenCalledWith(
+        expect.stringContaining("推論中"),
+      );
+    });
+  });
+
+  describe("/rewind", () => {
+    function withCheckpoints(
+      checkpoints: Array<{ id: number; messageCount: number | null }>,
+      overrides: Partial<SlashCommandContext> = {},
+    ): SlashCommandContext {
+      return createMockContext({
+        session: {
+          ctx: { checkpoints: { list: () => checkpoints } },
+        } as unknown as SlashCommandContext["session"],
+        ...overrides,
+      });
+    }
+
+    it("opens the picker", async () => {
+      const ctx = withCheckpoints([{ id: 1, messageCount: 0 }]);
+      await handleSlashCommand("/rewind", ctx);
+      expect(ctx.openRewindPicker).toHaveBeenCalled();
+    });
+
+    it("rewinds directly to a numbered checkpoint", async () => {
+      const ctx = withCheckpoints([
+        { id: 1, messageCount: null },
+        { id: 2, messageCount: 2 },
+      ]);
+      await handleSlashCommand("/rewind 2", ctx);
+      expect(ctx.rewind).toHaveBeenCalledWith(2, "all");
+      await handleSlashCommand("/rewind #1", ctx);
+      expect(ctx.rewind).toHaveBeenCalledWith(1, "files");
+      expect(ctx.addSystemMessage).toHaveBeenCalledWith("巻き戻しました");
+    });
+
+    it("reports when there is nothing to rewind", async () => {
+      const ctx = withCheckpoints([]);
+      await handleSlashCommand("/rewind", ctx);
+      expect(ctx.openRewindPicker).not.toHaveBeenCalled();
+      expect(ctx.addSystemMessage).toHaveBeenCalledWith(
+        "巻き戻せるチェックポイントはありません。",
+      );
+    });
+
+    it("blocks rewinding during streaming", async () => {
+      const ctx = withCheckpoints([{ id: 1, messageCount: 0 }], { status: "streaming" });
+      await handleSlashCommand("/rewind", ctx);
+      expect(ctx.openRewindPicker).not.toHaveBeenCalled();
+      expect(ctx.addSystemMessage).toHaveBeenCalledWith(
+        expect.stringContaining("推論中"),
+      );
+    });
+  });
+
+  describe("/memory", () => {
+    const files = [
+      { path: "/home/u/.wellgrow/WELLGROW.md", scope: "user" as const, content: "a" },
+      { path: "/repo/WELLGROW.md", scope: "project" as const, content: "b" },
+      {
+        path: "/repo/docs/style.md",
+        scope: "project" as const,
+        content: "c",
+        includedFrom: "/repo/WELLGROW.md",
+      },
+    ];
+
+    function withInstructions(overrides: Partial<SlashCommandContext> = {}): SlashCommandContext {
+      return createMockContext({
+        session: { ctx: { cwd: "/tmp" } } as unknown as SlashCommandContext["session"],
+        reloadInstructions: vi.fn(async () => files),
+        ...overrides,
+      });
+    }
+
+    it("lists the loaded instruction files", async () => {
+      const ctx = withInstructions();
+      await handleSlashCommand("/memory", ctx);
+
+      const message = vi.mocked(ctx.addSystemMessage).mock.calls[0][0];
+      expect(message).toContain("1. [user] /home/u/.wellgrow/WELLGROW.md");
+      expect(message).toContain("3. [project] /repo/docs/style.md  ← /repo/WELLGROW.md");
+    });
+
+    it("opens a numbered file in the editor and reloads", async () => {
+      const ctx = withInstructions();
+      await handleSlashCommand("/memory edit 2", ctx);
+
+      expect(ctx.openEditor).toHaveBeenCalledWith("/repo/WELLGROW.md");
+      expect(ctx.reloadInstructions).toHaveBeenCalledTimes(2);
+      expect(ctx.addSystemMessage).toHaveBeenCalledWith(
+        expect.stringContaining("指示ファイル 3 件をシステムプロンプトに反映しました"),
+      );
+    });
+
+    it("reports editor failures without reloading", async () => {
+      const ctx = withInstructions({
+        openEditor: vi.fn(async () => ({ success: false, message: "起動失敗" })),
+      });
+      await handleSlashCommand("/memory edit user", ctx);
+
+      expect(ctx.openEditor).toHaveBeenCalledWith(
+        expect.stringMatching(/\.wellgrow\/WELLGROW\.md$/),
+      );
+      expect(ctx.reloadInstructions).not.toHaveBeenCalled();
+      expect(ctx.addSystemMessage).toHaveBeenCalledWith("起動失敗");
+    });
+
+    it("rejects unknown targets and editing during streaming", async () => {
+      const ctx = withInstructions();
+      await handleSlashCommand("/memory edit 9", ctx);
+      expect(ctx.addSystemMessage).toHaveBeenCalledWith("指示ファイルが見つかりません: 9");
+
+      const streaming = withInstructions({ status: "streaming" });
+      await handleSlashCommand("/memory edit", streaming);
+      expect(streaming.openEditor).not.toHaveBeenCalled();
+      expect(streaming.addSystemMessage).toHaveBeenCalledWith(
+        expect.stringContaining("推論中"),
+      );
+    });
+  });
+
+  describe("/bashes", () => {
+    it("lists running background jobs with their runtime", async () => {
+      background.jobs = [
+        { id: "1", command: "npm run dev", status: "running" },
+        { id: "2", command: "make", status: "completed" },
+      ];
+      const ctx = createMockContext();
+      await handleSlashCommand("/bashes", ctx);
+
+      const message = vi.mocked(ctx.addSystemMessage).mock.calls[0][0];
+      expect(message).toContain("npm run dev");
+      expect(message).toContain("1分5秒");
+      expect(message).not.toContain("make");
+    });
+
+    it("reports when nothing is running", async () => {
+      background.jobs = [];
+      const ctx = createMockContext();
+      await handleSlashCommand("/bashes ", ctx);
+      expect(ctx.addSystemMessage).toHaveBeenCalledWith(
+        "実行中のバックグラウンドプロセスはありません。",
+      );
+    });
+
+    it("kills a job by id", async () => {
+      background.jobs = [{ id: "3", command: "sleep 100", status: "running" }];
+      const ctx = createMockContext();
+      await handleSlashCommand("/bashes kill 3", ctx);
+      expect(background.killBackgroundJob).toHaveBeenCalledWith(background.jobs[0]);
+      expect(ctx.addSystemMessage).toHaveBeenCalledWith(
+        expect.stringContaining("#3 を停止しました"),
+      );
+    });
+
+    it("reports unknown ids", async () => {
+      background.jobs = [];
+      const ctx = createMockContext();
+      await handleSlashCommand("/bashes kill 9", ctx);
+      expect(ctx.addSystemMessage).toHaveBeenCalledWith(
+        expect.stringContaining("見つかりません"),
+      );
+    });
+  });
+
+  describe("/think", () => {
+    it("raises the thinking budget for the next message", async () => {
+      const ctx = createMockContext();
+      await handleSlashCommand("/think", ctx);
+      expect(ctx.session.nextThinkingBudget).toBe(16_000);
+
+      await handleSlashCommand("/think 32000", ctx);
+      expect(ctx.session.nextThinkingBudget).toBe(32_000);
+      expect(ctx.addSystemMessage).toHaveBeenLastCalledWith(expect.stringContaining("32,000"));
+    });
+
+    it("rejects invalid budgets", async () => {
+      const ctx = createMockContext();
+      await handleSlashCommand("/think many", ctx);
+      expect(ctx.session.nextThinkingBudget).toBeUndefined();
+      expect(ctx.addSystemMessage).toHaveBeenCalledWith("使い方: /think [思考トークン数]");
+    });
+  });
+
+  describe("/export", () => {
+    async function exportContext() {
+      const ws = await createTempWorkspace();
+      const ctx = createMockContext({
+        session: {
+          ctx: { cwd: ws.dir, sessionId: "0123456789" },
+          agent: { modelId: "claude-opus-4-6" },
+          messages: [
+            { role: "user", content: "こんにちは" },
+            { role: "assistant", content: "やあ" },
+          ],
+        } as unknown as SlashCommandContext["session"],
+      });
+      return { ws, ctx };
+    }
+
+    it("writes Markdown to the working directory by default", async () => {
+      const { ws, ctx } = await exportContext();
+      await handleSlashCommand("/export", ctx);
+
+      const content = await readFile(ws.resolve("wellgrow-01234567.md"), "utf-8");
+      expect(content).toContain("## ユーザー\n\nこんにちは");
+      expect(ctx.addSystemMessage).toHaveBeenCalledWith(expect.stringContaining("書き出しました"));
+      await ws.cleanup();
+    });
+
+    it("takes the format from the argument or the file extension", async () => {
+      const { ws, ctx } = await exportContext();
+      await handleSlashCommand("/export json out/../chat.txt", ctx);
+      await handleSlashCommand("/export page.html", ctx);
+
+      expect(JSON.parse(await readFile(ws.resolve("chat.txt"), "utf-8")).messages).toHaveLength(2);
+      expect(await readFile(ws.resolve("page.html"), "utf-8")).toMatch(/^<!DOCTYPE html>/);
+
+      await handleSlashCommand("/export notes", ctx);
+      expect(ctx.addSystemMessage).toHaveBeenLastCalledWith("使い方: /export [md|html|json] [ファイル]");
+      await ws.cleanup();
+    });
+  });
+
+  describe("/cost", () => {
+    it("shows session and daily spend against the limits", async () => {
+      const cost = {
+        sessionUsd: 0.1234,
+        dailyUsd: 3.5,
+        limits: { daily: 10 },
+        unpricedModels: new Set(["ollama:llama3.2"]),
+        refreshDaily: vi.fn(async () => {}),
+      };
+      const ctx = createMockContext({
+        session: { ctx: { cost } } as unknown as SlashCommandContext["session"],
+      });
+
+      await handleSlashCommand("/cost", ctx);
+
+      expect(cost.refreshDaily).toHaveBeenCalled();
+      const message = vi.mocked(ctx.addSystemMessage).mock.calls[0][0];
+      expect(message).toContain("このセッション: $0.1234");
+      expect(message).toContain("$3.50 / 上限 $10.00");
+      expect(message).toContain("ollama:llama3.2");
+    });
+  });
+
+  describe("/help", () => {
+    it("lists the agent's custom tools", async () => {
+      const registry = createToolRegistryBuilder(createTestSessionContext())
+        .addCustomTools([
+          defineTool({
+            name: "Weather",
+            description: "天気を調べる",
+            category: "read",
+            inputSchema: z.object({}),
+            execute: () => "晴れ",
+          }),
+        ])
+        .build();
+      const ctx = createMockContext({
+        session: { agent: { registry } } as unknown as SlashCommandContext["session"],
+      });
+
+      await handleSlashCommand("/help", ctx);
+
+      const message = vi.mocked(ctx.addSystemMessage).mock.calls[0][0];
+      expect(message).toContain("カスタムツール:");
+      expect(message).toMatch(/Weather\s+天気を調べる \(read\)/);
+    });
+  });
+
+  describe("/mcp", () => {
+    function createMcpStatusContext() {
+      const mcpManager = {
+        getServerStates: () => [
+          { name: "wellgrow", status: "connected", retries: 0 },
+          { name: "fs", status: "connecting", retries: 2, error: "接続が切れました" },
+          { name: "notion", status: "needs-auth", retries: 0, error: "Unauthorized" },
+        ],
+        reconnect: vi.fn(async (name: string) => ({ name, success: true })),
+        disable: vi.fn(async () => {}),
+      };
+      const registry = createToolRegistryBuilder(createTestSessionContext())
+        .addMcpTools({
+          search: { description: "", inputSchema: z.object({}) },
+        } as unknown as Record<string, never>, "wellgrow")
+        .build();
+      const ctx = createMockContext({
+        session: { agent: { mcpManager, registry } } as unknown as SlashCommandContext["session"],
+      });
+      return { ctx, mcpManager };
+    }
+
+    it("shows each server's state", async () => {
+      const { ctx } = createMcpStatusContext();
+
+      await handleSlashCommand("/mcp", ctx);
+
+      const message = vi.mocked(ctx.addSystemMessage).mock.calls[0][0];
+      expect(message).toMatch(/wellgrow\s+✓ 接続済み {2}ツール 1 個/);
+      expect(message).toMatch(/fs\s+⋯ 接続中 {2}再接続 2 回目 \(接続が切れました\)/);
+      expect(message).toMatch(/notion\s+🔑 要認証 {2}Unauthorized/);
+    });
+
+    it("reconnects and disables servers", async () => {
+      const { ctx, mcpManager } = createMcpStatusContext();
+
+      await handleSlashCommand("/mcp reconnect notion", ctx);
+      await handleSlashCommand("/mcp disable fs", ctx);
+
+      expect(mcpManager.reconnect).toHaveBeenCalledWith("notion");
+      expect(mcpManager.disable).toHaveBeenCalledWith("fs");
+      expect(ctx.addSystemMessage).toHaveBeenCalledWith("✓ notion に接続しました。");
+    });
+
+    it("rejects unknown servers and actions", async () => {
+      const { ctx, mcpManager } = createMcpStatusContext();
+
+      await handleSlashCommand("/mcp reconnect nope", ctx);
+      await handleSlashCommand("/mcp restart fs", ctx);
+
+      expect(mcpManager.reconnect).not.toHaveBeenCalled();
+      expect(ctx.addSystemMessage).toHaveBeenCalledWith("MCP サーバーが見つかりません: nope");
+      expect(ctx.addSystemMessage).toHaveBeenCalledWith(
+        "使い方: /mcp [reconnect|disable|enable <サーバー名>]",
+      );
+    });
+  });
+
+  describe("MCP prompts", () => {
+    function createMcpContext() {
+      const mcpManager = {
+        hasConnections: () => true,
+        getConnectedServers: () => ["wellgrow"],
+        listPrompts: vi.fn(async () => ({
+          prompts: [{
+            server: "wellgrow",
+            name: "review",
+            description: "レビューする",
+            args: [
+              { name: "file", required: true },
+              { name: "focus", required: false },
+            ],
+          }],
+          errors: [],
+        })),
+        getPrompt: vi.fn(async () => ({
+          messages: [{ role: "user", content: { type: "text", text: "レビューして" } }],
+        })),
+      };
+      const ctx = createMockContext({
+        session: {
+          agent: {
+            mcpManager,
+            registry: createToolRegistryBuilder(createTestSessionContext()).build(),
+          },
+        } as unknown as SlashCommandContext["session"],
+      });
+      return { ctx, mcpManager };
+    }
+
+    it("submits the prompt with positional args mapped to its arguments", async () => {
+      const { ctx, mcpManager } = createMcpContext();
+
+      const result = await handleSlashCommand("/mcp__wellgrow__review src/a.ts 命名 と 型", ctx);
+
+      expect(result).toBe(true);
+      expect(mcpManager.getPrompt).toHaveBeenCalledWith("wellgrow", "review", {
+        file: "src/a.ts",
+        focus: "命名 と 型",
+      });
+      expect(ctx.submitPrompt).toHaveBeenCalledWith("レビューして");
+    });
+
+    it("shows usage when a required argument is missing", async () => {
+      const { ctx, mcpManager } = createMcpContext();
+
+      await handleSlashCommand("/mcp__wellgrow__review", ctx);
+
+      expect(mcpManager.getPrompt).not.toHaveBeenCalled();
+      expect(ctx.addSystemMessage).toHaveBeenCalledWith(
+        '必須引数 "file" が不足しています\n\n使い方: /mcp__wellgrow__review <file> [focus]',
+      );
+    });
+
+    it("reports unknown servers", async () => {
+      const { ctx } = createMcpContext();
+
+      await handleSlashCommand("/mcp__other__review", ctx);
+
+      expect(ctx.addSystemMessage).toHaveBeenCalledWith(
+        "MCP サーバー 'other' に接続していません。",
+      );
+    });
+
+    it("lists prompts in /help", async () => {
+      const { ctx } = createMcpContext();
+
+      await handleSlashCommand("/help", ctx);
+
+      const message = vi.mocked(ctx.addSystemMessage).mock.calls[0][0];
+      expect(message).toContain("MCP プロンプト:");
+      expect(message).toContain("/mcp__wellgrow__review レビューする <file> [focus]");
+    });
+  });
+
   describe("unknown commands", () => {
     it("returns false for non-slash text", async () => {
       const ctx = createMockContext();
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, afterEach } from "vitest";
-import { evaluateRetry, sleep, formatErrorMessage } from "../ai/retry.js";
+import { evaluateRetry, sleep, formatErrorMessage, isModelUnavailableError } from "../ai/retry.js";
 
 describe("evaluateRetry", () => {
   afterEach(() => {
@@ -264,6 +264,16 @@ describe("evaluateRetry", () => {
   });
 });
 
+describe("isModelUnavailableError", () => {
+  it("accepts overload, rate-limit and 5xx errors only", () => {
+    const status = (statusCode: number) => ({ statusCode, message: "" });
+    expect([529, 503, 500, 429].map((c) => isModelUnavailableError(status(c)))).toEqual([true, true, true, true]);
+    expect([400, 401, 404].map((c) => isModelUnavailableError(status(c)))).toEqual([false, false, false]);
+    expect(isModelUnavailableError(new Error("connect ECONNREFUSED"))).toBe(false);
+    expect(isModelUnavailableError({ reason: "maxRetriesExceeded", lastError: status(529) })).toBe(true);
+  });
+});
+
 describe("formatErrorMessage", () => {
   it("returns friendly message for 529 Overloaded", () => {
     const error = Object.assign(new Error("Overloaded"), { statusCode: 529 });
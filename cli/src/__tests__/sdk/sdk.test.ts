@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { z } from "zod";
+import type { LanguageModel } from "ai";
+import { createTempWorkspace, type TempWorkspace } from "../helpers/temp-workspace.js";
+import { createMockModel } from "../helpers/mock-model.js";
+
+const mockHome = vi.hoisted(() => {
+  let dir = "/tmp/test-home";
+  return { get: () => dir, set: (d: string) => { dir = d; } };
+});
+
+const mockModel = vi.hoisted(() => ({ current: null as LanguageModel | null }));
+
+vi.mock("node:os", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("node:os")>();
+  return { ...actual, homedir: () => mockHome.get() };
+});
+
+vi.mock("../../ai/providers.js", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../../ai/providers.js")>();
+  return { ...actual, getModel: () => mockModel.current };
+});
+
+let testHome: TempWorkspace;
+let workspace: TempWorkspace;
+
+beforeEach(async () => {
+  testHome = await createTempWorkspace({});
+  workspace = await createTempWorkspace({});
+  mockHome.set(testHome.dir);
+  vi.resetModules();
+});
+
+afterEach(async () => {
+  await workspace.cleanup();
+  await testHome.cleanup();
+});
+
+const agent = {
+  agent: { name: "bot", description: "SDK test agent", mode: "plan" as const },
+  tools: { builtin: ["Read"] },
+  system_prompt: "You are a helpful bot.",
+};
+
+async function loadSdk() {
+  const sdk = await import("../../sdk/index.js");
+  const lookup = vi.fn(async (input: { key: string }) => `value of ${input.key}`);
+  const tools = [
+    sdk.defineTool({
+      name: "Lookup",
+      description: "Looks up a key",
+      category: "read",
+      inputSchema: z.object({ key: z.string() }),
+      execute: lookup,
+    }),
+    sdk.defineTool({
+      name: "Store",
+      description: "Stores a value",
+      category: "write",
+      inputSchema: z.object({ key: z.string() }),
+      execute: async () => "stored",
+    }),
+  ];
+  return { ...sdk, lookup, tools };
+}
+
+describe("sdk", () => {
+  it("runs an inline agent with in-process tools and yields events", async () => {
+    mockModel.current = createMockModel([
+      { toolCalls: [{ name: "Lookup", args: { key: "a" } }] },
+      { text: "a は value です" },
+    ]);
+    const { createSession, sendMessage, closeSession, lookup, tools } = await loadSdk();
+
+    const session = await createSession({ agent, tools, cwd: workspace.dir });
+    expect(session).toMatchObject({ agent: "bot", mode: "plan" });
+    expect(session.session.ctx.cwd).toBe(workspace.dir);
+    expect(session.session.agent.systemPrompt).toContain("You are a helpful bot.");
+    expect(Object.keys(session.session.agent.registry.schemas).sort())
+      .toEqual(["Lookup", "Read", "Store"]);
+
+    const events = [];
+    for await (const event of sendMessage(session, "a を調べて")) {
+      events.push(event);
+    }
+
+    expect(lookup).toHaveBeenCalledWith({ key: "a" }, expect.anything());
+    expect(events.at(-1)).toMatchObject({
+      type: "result",
+      status: "success",
+      result: "a は value です",
+      tool_calls: [{ name: "Lookup", status: "completed" }],
+    });
+    expect(events.some((e) => e.type === "part")).toBe(true);
+    await closeSession(session);
+  });
+
+  it("asks onApprovalRequest for tools that need approval and denies without it", async () => {
+    mockModel.current = createMockModel([
+      { toolCalls: [{ name: "Store", args: { key: "a" } }] },
+      { text: "保存しました" },
+      { toolCalls: [{ name: "Store", args: { key: "b" } }] },
+      { text: "拒否されました" },
+    ]);
+    const { createSession, sendMessage, tools } = await loadSdk();
+    const onApprovalRequest = vi.fn(async () => ({ action: "allow" as const }));
+
+    const approving = await createSession({ agent, tools, cwd: workspace.dir, onApprovalRequest });
+    const denying = await createSession({ agent, tools, cwd: workspace.dir });
+
+    const results = [];
+    for (const session of [approving, denying]) {
+      for await (const event of sendMessage(session, "保存して")) {
+        if (event.type === "result") results.push(event);
+      }
+    }
+
+    expect(onApprovalRequest).toHaveBeenCalledWith(
+      expect.objectContaining({ toolName: "Store", args: { key: "a" } }),
+    );
+    expect(results.map((r) => r.status)).toEqual(["success", "tool_denied"]);
+  });
+
+  it("keeps a session's checkpoints under its history id and lists them on resume", async () => {
+    const file = workspace.resolve("note.txt");
+    mockModel.current = createMockModel([
+      { toolCalls: [{ name: "Write", args: { file_path: file, content: "memo" } }] },
+      { text: "書きました" },
+    ]);
+    const { createSession, sendMessage, closeSession } = await loadSdk();
+    const writer = {
+      ...agent,
+      agent: { ...agent.agent, mode: "auto" as const },
+      tools: { builtin: ["Write"] },
+    };
+
+    const first = await createSession({ agent: writer, cwd: workspace.dir });
+    expect(first.session.ctx.sessionId).toBe(first.id);
+    const events = [];
+    for await (const event of sendMessage(first, "メモを書いて")) events.push(event);
+    expect(events.at(-1)).toMatchObject({ type: "result", status: "success" });
+    await closeSession(first);
+
+    const resumed = await createSession({ agent: writer, cwd: workspace.dir, resume: first.id });
+    expect(resumed.id).toBe(first.id);
+    expect(resumed.session.ctx.checkpoints?.list()).toEqual([
+      expect.objectContaining({
+        id: 1,
+        prompt: "メモを書いて",
+        messageCount: null,
+        files: [{ path: file, blob: null }],
+      }),
+    ]);
+    await closeSession(resumed);
+  });
+});
@@ -0,0 +1,312 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { z } from "zod";
+import type { LanguageModel } from "ai";
+import { request as httpRequest } from "node:http";
+import { createTempWorkspace, type TempWorkspace } from "../helpers/temp-workspace.js";
+import type { HeadlessSession } from "../../core/headless.js";
+import type { SessionRecorder } from "../../core/history.js";
+import type { WellGrowConfig } from "../../config/types.js";
+import type { OutputEvent } from "../../core/output-format.js";
+import type { WellGrowServer } from "../../server/server.js";
+import { createHookEngine } from "../../extensions/hooks.js";
+import { defineTool } from "../../tools/definition.js";
+import {
+  createTestSessionContext,
+  createToolRegistry,
+  createTestPipeline,
+} from "../helpers/test-context.js";
+import { createMockModel } from "../helpers/mock-model.js";
+
+const mockHome = vi.hoisted(() => {
+  let dir = "/tmp/test-home";
+  return { get: () => dir, set: (d: string) => { dir = d; } };
+});
+
+vi.mock("node:os", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("node:os")>();
+  return { ...actual, homedir: () => mockHome.get() };
+});
+
+const TouchTool = defineTool({
+  name: "Touch",
+  description: "Pretends to write a file",
+  category: "write",
+  inputSchema: z.object({ path: z.string() }),
+  execute: async (input) => `touched ${input.path}`,
+});
+
+const config = {
+  api: { max_retries: 0, timeout: 60_000 },
+  default: { max_output_tokens: 1000 },
+} as WellGrowConfig;
+
+function createRecorder(sessionId: string): SessionRecorder {
+  return {
+    sessionId,
+    recordMessages: vi.fn(async () => {}),
+    recordUsage: vi.fn(async () => {}),
+    recordSwitch: vi.fn(async () => {}),
+    recordCompaction: vi.fn(async () => {}),
+    recordRewind: vi.fn(async () => {}),
+    finalize: vi.fn(async () => {}),
+  };
+}
+
+function createSetup(model: LanguageModel, sessionId = "session-1"): HeadlessSession {
+  const ctx = createTestSessionContext();
+  return {
+    config,
+    agentName: "test",
+    mode: "plan",
+    recorder: createRecorder(sessionId),
+    session: {
+      ctx,
+      messages: [],
+      agent: {
+        name: "test",
+        icon: "🤖",
+        description: "",
+        model,
+        modelId: "mock-model",
+        systemPrompt: "test",
+        registry: createToolRegistry([TouchTool], ctx),
+        pipeline: createTestPipeline("plan"),
+        mcpManager: null,
+        hookEngine: createHookEngine({}, ctx),
+        maxTurns: 5,
+      },
+      compaction: { auto: false, threshold: 0.8, keepRecentTurns: 2 },
+      contextTokens: 0,
+      pendingContext: [],
+    },
+  };
+}
+
+/** Reads an SSE response and resolves once an event matches. */
+function listen(res: Response) {
+  const events: OutputEvent[] = [];
+  const waiters: { match: (e: OutputEvent) => boolean; resolve: (e: OutputEvent) => void }[] = [];
+  const reader = res.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  void (async () => {
+    for (;;) {
+      const { value, done } = await reader.read().catch(() => ({ value: undefined, done: true }));
+      if (done) return;
+      buffer += decoder.decode(value, { stream: true });
+      let end: number;
+      while ((end = buffer.indexOf("\n\n")) !== -1) {
+        const block = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        const data = block.split("\n").find((line) => line.startsWith("data: "));
+        if (!data) continue;
+        const event = JSON.parse(data.slice(6)) as OutputEvent;
+        events.push(event);
+        for (const waiter of waiters.filter((w) => w.match(event))) {
+          waiters.splice(waiters.indexOf(waiter), 1);
+          waiter.resolve(event);
+        }
+      }
+    }
+  })();
+
+  return {
+    events,
+    next<T extends OutputEvent["type"]>(type: T): Promise<Extract<OutputEvent, { type: T }>> {
+      const seen = events.find((e) => e.type === type);
+      if (seen) return Promise.resolve(seen as Extract<OutputEvent, { type: T }>);
+      return new Promise((resolve) => {
+        waiters.push({
+          match: (e) => e.type === type,
+          resolve: resolve as (e: OutputEvent) => void,
+        });
+      });
+    },
+    close: () => reader.cancel(),
+  };
+}
+
+let testHome: TempWorkspace;
+let server: WellGrowServer;
+let baseUrl: string;
+
+async function startServer(setups: HeadlessSession[]) {
+  const { createWellGrowServer } = await import("../../server/server.js");
+  server = createWellGrowServer({
+    openSession: async () => {
+      const setup = setups.shift();
+      if (!setup) throw new Error("no more sessions");
+      return setup;
+    },
+  });
+  const address = await server.listen(0);
+  baseUrl = `http://127.0.0.1:${address.port}`;
+}
+
+function authHeaders(): Record<string, string> {
+  return { Authorization: `Bearer ${server.token}` };
+}
+
+function request(method: string, path: string, body?: unknown) {
+  return fetch(`${baseUrl}${path}`, {
+    method,
+    headers: body === undefined
+      ? authHeaders()
+      : { ...authHeaders(), "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+/** node:http, since fetch won't let a test choose the Host header. */
+function rawRequest(path: string, headers: Record<string, string>): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const req = httpRequest(`${baseUrl}${path}`, { method: "POST", headers }, (res) => {
+      res.resume();
+      resolve(res.statusCode ?? 0);
+    });
+    req.on("error", reject);
+    req.end("{}");
+  });
+}
+
+beforeEach(async () => {
+  testHome = await createTempWorkspace({});
+  mockHome.set(testHome.dir);
+  vi.resetModules();
+});
+
+afterEach(async () => {
+  await server?.close();
+  await testHome.cleanup();
+});
+
+describe("wellgrow serve", () => {
+  it("runs a message, streams its events and takes the approval over HTTP", async () => {
+    const setup = createSetup(
+      createMockModel([
+        { toolCalls: [{ name: "Touch", args: { path: "a.txt" } }] },
+        { text: "作成しました" },
+      ]),
+    );
+    await startServer([setup]);
+
+    const created = await request("POST", "/sessions", { mode: "plan" });
+    expect(created.status).toBe(201);
+    expect(await created.json()).toMatchObject({ session_id: "session-1", busy: false });
+
+    const stream = listen(await fetch(`${baseUrl}/sessions/session-1/events`, { headers: authHeaders() }));
+    expect(await stream.next("init")).toMatchObject({ session_id: "session-1", model: "mock-model" });
+
+    expect((await request("POST", "/sessions/session-1/messages", { message: "a.txt を作って" })).status)
+      .toBe(202);
+    const approval = await stream.next("approval_request");
+    expect(approval).toMatchObject({ tool_name: "Touch", input: { path: "a.txt" } });
+
+    expect((await request("POST", "/sessions/session-1/messages", { message: "もう一つ" })).status)
+      .toBe(409);
+    const status = await (await request("GET", "/sessions/session-1")).json();
+    expect(status).toMatchObject({ busy: true, pending: [{ tool_call_id: approval.tool_call_id }] });
+
+    const decided = await request("POST", `/sessions/session-1/approvals/${approval.tool_call_id}`, {
+      action: "allow",
+    });
+    expect(decided.status).toBe(200);
+
+    const result = await stream.next("result");
+    expect(result).toMatchObject({ status: "success", result: "作成しました" });
+    expect(stream.events.some((e) => e.type === "part")).toBe(true);
+    await stream.close();
+
+    const listed = (await (await request("GET", "/sessions")).json()) as {
+      active: unknown[];
+      history: unknown[];
+    };
+    expect(listed.active).toMatchObject([
+      { session_id: "session-1", busy: false, last_result: { status: "success" } },
+    ]);
+    expect(listed.history).toEqual([]);
+  });
+
+  it("rejects bad requests with JSON errors", async () => {
+    await startServer([createSetup(createMockModel([]))]);
+    await request("POST", "/sessions", {});
+
+    const missing = await request("GET", "/sessions/nope");
+    expect(missing.status).toBe(404);
+    expect(((await missing.json()) as { error: string }).error).toContain("nope");
+
+    expect((await request("POST", "/sessions", { mode: "yolo" })).status).toBe(400);
+    expect((await request("POST", "/sessions/session-1/messages", {})).status).toBe(400);
+    expect((await request("POST", "/sessions/session-1/approvals/c1", { action: "allow" })).status)
+      .toBe(404);
+    expect((await request("POST", "/sessions", { resume: "unknown" })).status).toBe(404);
+    expect((await request("PUT", "/sessions/session-1")).status).toBe(405);
+  });
+
+  it("refuses requests without the token, from other hosts or origins, or without JSON", async () => {
+    await startServer([createSetup(createMockModel([]))]);
+    const json = { "Content-Type": "application/json" };
+
+    expect((await fetch(`${baseUrl}/sessions`)).status).toBe(401);
+    expect(
+      (await fetch(`${baseUrl}/sessions`, { headers: { Authorization: "Bearer wrong" } })).status,
+    ).toBe(401);
+    expect(
+      await rawRequest("/sessions", { ...authHeaders(), ...json, Host: "evil.example:4317" }),
+    ).toBe(403);
+    expect(
+      await rawRequest("/sessions", { ...authHeaders(), ...json, Origin: "http://evil.example" }),
+    ).toBe(403);
+    expect(await rawRequest("/sessions", { ...authHeaders(), "Content-Type": "text/plain" }))
+      .toBe(415);
+    expect((await request("GET", "/sessions")).status).toBe(200);
+    expect(await rawRequest("/sessions", {
+      ...authHeaders(),
+      ...json,
+      Host: new URL(baseUrl).host,
+      Origin: baseUrl,
+    })).toBe(201);
+  });
+
+  it("denies waiting approvals and ends the turn on interrupt", async () => {
+    const setup = createSetup(
+      createMockModel([
+        { toolCalls: [{ name: "Touch", args: { path: "a.txt" } }] },
+        { text: "続き" },
+        { text: "次の応答" },
+      ]),
+    );
+    await startServer([setup]);
+    await request("POST", "/sessions", {});
+    const stream = listen(await fetch(`${baseUrl}/sessions/session-1/events`, { headers: authHeaders() }));
+    await request("POST", "/sessions/session-1/messages", { message: "a.txt を作って" });
+    await stream.next("approval_request");
+
+    expect((await request("POST", "/sessions/session-1/interrupt", {})).status).toBe(200);
+
+    expect(await stream.next("result")).toMatchObject({ status: "interrupted" });
+    expect((await request("POST", "/sessions/session-1/messages", { message: "次" })).status)
+      .toBe(202);
+  });
+
+  it("denies waiting approvals and finalizes the session on DELETE", async () => {
+    const setup = createSetup(
+      createMockModel([
+        { toolCalls: [{ name: "Touch", args: { path: "a.txt" } }] },
+        { text: "拒否されました" },
+      ]),
+    );
+    await startServer([setup]);
+    await request("POST", "/sessions", {});
+    const stream = listen(await fetch(`${baseUrl}/sessions/session-1/events`, { headers: authHeaders() }));
+    await request("POST", "/sessions/session-1/messages", { message: "a.txt を作って" });
+    await stream.next("approval_request");
+
+    expect((await request("DELETE", "/sessions/session-1")).status).toBe(204);
+
+    expect(await stream.next("result")).toMatchObject({ status: "interrupted" });
+    expect(setup.recorder.finalize).toHaveBeenCalled();
+    expect((await request("GET", "/sessions/session-1")).status).toBe(404);
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { writeFile } from "node:fs/promises";
+import { executeBash, type BashState } from "../../tools/bash.js";
+import { BashOutputTool, type BashOutputResult } from "../../tools/bash-output.js";
+import { KillShellTool } from "../../tools/kill-shell.js";
+import {
+  appendJobOutput,
+  getBackgroundJob,
+  listBackgroundJobs,
+  readNewOutput,
+} from "../../tools/background.js";
+import { MAX_BASH_OUTPUT_BYTES } from "../../tools/constants.js";
+import { ToolError } from "../../tools/errors.js";
+import { createTestToolContext } from "../helpers/test-context.js";
+import {
+  createTempWorkspace,
+  type TempWorkspace,
+} from "../helpers/temp-workspace.js";
+
+function waitFor(check: () => boolean, timeoutMs = 5000): Promise<void> {
+  const started = Date.now();
+  return new Promise((resolve, reject) => {
+    const poll = () => {
+      if (check()) return resolve();
+      if (Date.now() - started > timeoutMs) return reject(new Error("timed out"));
+      setTimeout(poll, 20);
+    };
+    poll();
+  });
+}
+
+describe("background jobs", () => {
+  let ws: TempWorkspace;
+  let state: BashState;
+
+  beforeEach(async () => {
+    ws = await createTempWorkspace({});
+    state = { cwd: ws.dir, nextTerminalId: 1000 };
+  });
+
+  afterEach(async () => {
+    const ctx = createTestToolContext();
+    for (const job of listBackgroundJobs({ runningOnly: true })) {
+      await KillShellTool.execute({ backgroundTaskId: job.id }, ctx);
+    }
+    await ws.cleanup();
+  });
+
+  async function startJob(command: string): Promise<string> {
+    const result = await executeBash(state, { command, run_in_background: true });
+    expect(result.backgroundTaskId).toBeDefined();
+    return result.backgroundTaskId!;
+  }
+
+  async function readOutput(id: string): Promise<BashOutputResult> {
+    return BashOutputTool.execute({ backgroundTaskId: id }, createTestToolContext());
+  }
+
+  it("returns only output produced since the previous read", async () => {
+    const id = await startJob(
+      "echo first; while [ ! -f go ]; do sleep 0.05; done; echo second",
+    );
+    const job = getBackgroundJob(id)!;
+    await waitFor(() => job.output.includes("first"));
+
+    const first = await readOutput(id);
+    expect(first.status).toBe("running");
+    expect(first.output).toMatch(/first\n$/);
+    expect(first.output).not.toContain("second");
+
+    await writeFile(ws.resolve("go"), "");
+    await waitFor(() => job.status !== "running");
+    const second = await readOutput(id);
+    expect(second.output).toBe("second\n");
+  });
+
+  it("reports the exit status once the job has finished", async () => {
+    const id = await startJob("echo done; exit 3");
+    const job = getBackgroundJob(id)!;
+    await waitFor(() => job.status !== "running");
+
+    const result = await readOutput(id);
+    expect(result.status).toBe("failed");
+    expect(result.exitCode).toBe(3);
+    expect(result.output).toMatch(/done\n$/);
+  });
+
+  it("stops a running job together with its children", async () => {
+    const id = await startJob("sleep 30 & wait");
+
+    const message = await KillShellTool.execute(
+      { backgroundTaskId: id },
+      createTestToolContext(),
+    );
+    expect(message).toContain("停止しました");
+
+    const job = getBackgroundJob(id)!;
+    await waitFor(() => job.child.exitCode !== null || job.child.signalCode !== null);
+    expect(job.status).toBe("killed");
+    expect(listBackgroundJobs({ runningOnly: true }).map((j) => j.id)).not.toContain(id);
+
+    const second = await KillShellTool.execute(
+      { backgroundTaskId: id },
+      createTestToolContext(),
+    );
+    expect(second).toContain("すでに終了しています");
+  }, 10_000);
+
+  it("does not reuse the id of a job that is still registered", async () => {
+    const first = await startJob("sleep 30");
+    state.nextTerminalId = Number(first);
+    const second = await startJob("sleep 30");
+
+    expect(second).not.toBe(first);
+  }, 10_000);
+
+  it("rejects unknown ids", async () => {
+    await expect(readOutput("no-such-job")).rejects.toThrow(ToolError);
+    await expect(
+      KillShellTool.execute({ backgroundTaskId: "no-such-job" }, createTestToolContext()),
+    ).rejects.toThrow("バックグラウンドタスクが見つかりません");
+  });
+
+  async function finishedJob() {
+    const job = getBackgroundJob(await startJob("true"))!;
+    await waitFor(() => job.status !== "running");
+    // drop whatever the shell's startup files printed
+    job.output = "";
+    job.readOffset = 0;
+    return job;
+  }
+
+  it("keeps a rolling tail of the output and moves the read offset with it", async () => {
+    const job = await finishedJob();
+    const half = MAX_BASH_OUTPUT_BYTES / 2;
+
+    appendJobOutput(job, "a".repeat(half));
+    expect(readNewOutput(job).length).toBe(half);
+
+    appendJobOutput(job, "b".repeat(half));
+    appendJobOutput(job, "c".repeat(10));
+    expect(job.output.length).toBe(MAX_BASH_OUTPUT_BYTES);
+    expect(job.output.startsWith("a".repeat(half - 10) + "b")).toBe(true);
+    const unread = readNewOutput(job);
+    expect(unread.length).toBe(half + 10);
+    expect(unread === "b".repeat(half) + "c".repeat(10)).toBe(true);
+
+    // Unread output that falls off the front is reported as dropped.
+    appendJobOutput(job, "d".repeat(MAX_BASH_OUTPUT_BYTES + 5));
+    const latest = readNewOutput(job);
+    expect(latest.split("\n")[0]).toContain("古い出力 5 文字を破棄しました");
+    expect(latest.endsWith("d".repeat(MAX_BASH_OUTPUT_BYTES))).toBe(true);
+    expect(Buffer.byteLength(job.output, "utf-8")).toBe(MAX_BASH_OUTPUT_BYTES);
+  });
+
+  it("never splits a multi-byte character when trimming the tail", async () => {
+    const job = await finishedJob();
+
+    appendJobOutput(job, "あ".repeat(MAX_BASH_OUTPUT_BYTES / 4));
+    appendJobOutput(job, "あ".repeat(MAX_BASH_OUTPUT_BYTES / 4));
+    appendJobOutput(job, "x");
+
+    expect(job.output[0]).toBe("あ");
+    expect(job.output.at(-1)).toBe("x");
+    expect(Buffer.byteLength(job.output, "utf-8")).toBeLessThanOrEqual(MAX_BASH_OUTPUT_BYTES);
+  });
+});
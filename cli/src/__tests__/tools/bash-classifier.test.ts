@@ -0,0 +1,149 @@
+import { describe, it, expect } from "vitest";
+import { homedir } from "node:os";
+import {
+  findDangerousCommand,
+  isBashReadOnly,
+} from "../../tools/bash-classifier.js";
+
+describe("isBashReadOnly (flag-aware)", () => {
+  it("rejects side-effecting flags on whitelisted commands", () => {
+    expect(isBashReadOnly("find . -name '*.log' -delete")).toBe(false);
+    expect(isBashReadOnly("find . -exec rm {} +")).toBe(false);
+    expect(isBashReadOnly("sed -i 's/a/b/' file")).toBe(false);
+    expect(isBashReadOnly("sed -ni 's/a/b/p' file")).toBe(false);
+    expect(isBashReadOnly("sed 's/a/b/w out.txt' file")).toBe(false);
+    expect(isBashReadOnly("tee file.txt")).toBe(false);
+    expect(isBashReadOnly("sort -o out.txt in.txt")).toBe(false);
+    expect(isBashReadOnly("awk '{ system(\"rm x\") }' file")).toBe(false);
+  });
+
+  it("keeps the same commands read-only without those flags", () => {
+    expect(isBashReadOnly("find . -name '*.ts' -type f")).toBe(true);
+    expect(isBashReadOnly("sed -n 's/a/b/p' file")).toBe(true);
+    expect(isBashReadOnly("ls | tee /dev/null")).toBe(true);
+    expect(isBashReadOnly("sort -u file | uniq -c")).toBe(true);
+    expect(isBashReadOnly("awk '{ print $1 }' file")).toBe(true);
+  });
+
+  it("looks through xargs and env to the command they run", () => {
+    expect(isBashReadOnly("find . -name '*.tmp' | xargs rm")).toBe(false);
+    expect(isBashReadOnly("git ls-files | xargs -n 1 wc -l")).toBe(true);
+    expect(isBashReadOnly("env FOO=1 npm install")).toBe(false);
+    expect(isBashReadOnly("env")).toBe(true);
+    expect(isBashReadOnly("LD_PRELOAD=x.so ls")).toBe(false);
+    expect(isBashReadOnly("LANG=C ls")).toBe(true);
+    expect(isBashReadOnly("sudo cat /etc/shadow")).toBe(false);
+    expect(isBashReadOnly("./env ls")).toBe(false);
+  });
+
+  it("distinguishes listing from mutating git subcommands", () => {
+    expect(isBashReadOnly("git branch -D main")).toBe(false);
+    expect(isBashReadOnly("git branch feature")).toBe(false);
+    expect(isBashReadOnly("git branch --list 'feat/*'")).toBe(true);
+    expect(isBashReadOnly("git tag v1.0")).toBe(false);
+    expect(isBashReadOnly("git tag -l")).toBe(true);
+    expect(isBashReadOnly("git stash")).toBe(false);
+    expect(isBashReadOnly("git stash list")).toBe(true);
+    expect(isBashReadOnly("git config user.name")).toBe(true);
+    expect(isBashReadOnly("git config user.name bob")).toBe(false);
+    expect(isBashReadOnly("git remote add origin url")).toBe(false);
+    expect(isBashReadOnly("git diff --output=patch.diff")).toBe(false);
+    expect(isBashReadOnly("git -C sub log --oneline")).toBe(true);
+    expect(isBashReadOnly("git -c core.pager=sh log")).toBe(false);
+  });
+
+  it("checks every command, including substitutions and chains", () => {
+    expect(isBashReadOnly("echo $(rm -rf build)")).toBe(false);
+    expect(isBashReadOnly("ls && rm x")).toBe(false);
+    expect(isBashReadOnly("cat \"$(ls | head -1)\"")).toBe(true);
+    expect(isBashReadOnly("for f in *.ts; do wc -l \"$f\"; done")).toBe(true);
+  });
+
+  it("allows harmless redirects but not writes to files", () => {
+    expect(isBashReadOnly("grep -r foo . 2>/dev/null")).toBe(true);
+    expect(isBashReadOnly("ls 2>&1 | head")).toBe(true);
+    expect(isBashReadOnly("cat <<EOF\nhello\nEOF")).toBe(true);
+    expect(isBashReadOnly("echo x 2> err.log")).toBe(false);
+  });
+
+  it("does not trust expanded arguments for flag-checked commands", () => {
+    expect(isBashReadOnly("find . $ACTION")).toBe(false);
+    expect(isBashReadOnly("cat $FILE")).toBe(true);
+    expect(isBashReadOnly("$CMD")).toBe(false);
+  });
+
+  it("rejects commands that do not parse", () => {
+    expect(isBashReadOnly("cat 'unterminated")).toBe(false);
+  });
+});
+
+describe("findDangerousCommand", () => {
+  it("detects recursive deletion of root and home however it is written", () => {
+    for (const command of [
+      "rm -rf /",
+      "rm -fr /*",
+      "rm -r -f ~",
+      "rm -rf ~/",
+      "rm --recursive --force $HOME",
+      'rm -rf "$HOME"/',
+      `rm -rf ${homedir()}`,
+      "rm -rf --no-preserve-root /",
+      "rm -rf -- /usr",
+    ]) {
+      expect(findDangerousCommand(command), command).not.toBeNull();
+    }
+  });
+
+  it("sees through sudo, env, chains, substitutions and bash -c", () => {
+    for (const command of [
+      "sudo rm -rf /",
+      "sudo -u root rm -rf /",
+      "env X=1 rm -rf ~",
+      "cd /tmp && rm -rf /",
+      "echo $(rm -rf /)",
+      "bash -c 'rm -rf /'",
+      "eval rm -rf /",
+      "timeout 10 rm -rf ~",
+      "/usr/bin/sudo rm -rf /",
+    ]) {
+      expect(findDangerousCommand(command), command).not.toBeNull();
+    }
+  });
+
+  it("matches commands named by path", () => {
+    for (const command of [
+      "/bin/rm -rf /",
+      "./rm -rf ~",
+      "/usr/bin/find / -delete",
+      "/bin/chmod 777 /etc",
+      "/sbin/mkfs.ext4 /dev/sda1",
+      "/bin/dd if=/dev/zero of=/dev/sda",
+    ]) {
+      expect(findDangerousCommand(command), command).not.toBeNull();
+    }
+  });
+
+  it("detects other destructive commands", () => {
+    expect(findDangerousCommand("chmod -R 777 /var/www")).not.toBeNull();
+    expect(findDangerousCommand("mkfs.ext4 /dev/sda1")).not.toBeNull();
+    expect(findDangerousCommand("dd if=/dev/zero of=/dev/nvme0n1")).not.toBeNull();
+    expect(findDangerousCommand("cat image > /dev/sda")).not.toBeNull();
+    expect(findDangerousCommand("find ~ -name '*' -delete")).not.toBeNull();
+    expect(findDangerousCommand(":(){ :|:& };:")).not.toBeNull();
+  });
+
+  it("leaves ordinary commands alone", () => {
+    for (const command of [
+      "rm -rf build",
+      "rm -rf ./node_modules /tmp/cache",
+      "rm ~/notes.txt",
+      "echo 'rm -rf /'",
+      "git commit -m 'rm -rf /'",
+      "dd if=/dev/zero of=disk.img bs=1M count=1",
+      "find . -name '*.tmp' -delete",
+      "ls > /dev/null",
+    ]) {
+      expect(findDangerousCommand(command), command).toBeNull();
+    }
+  });
+});
@@ -56,6 +56,17 @@ describe("Bash tool", () => {
     expect(state.cwd).toBe(ws.resolve("subdir"));
   });
 
+  it("follows cd through chains but not subshells or pipelines", async () => {
+    const state = createBashState(ws.dir);
+    await executeBash(state, { command: "mkdir -p a/b c" });
+
+    await executeBash(state, { command: "cd a && ls | cat; (cd c)" });
+    expect(state.cwd).toBe(ws.resolve("a"));
+
+    await executeBash(state, { command: "cd 'b' # nested" });
+    expect(state.cwd).toBe(ws.resolve("a/b"));
+  });
+
   it("uses working_directory parameter", async () => {
     const state = createBashState(ws.dir);
     const result = await executeBash(state, {
@@ -0,0 +1,92 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { loadCustomTools } from "../../tools/custom.js";
+import { ToolError } from "../../tools/errors.js";
+import { createTempWorkspace, type TempWorkspace } from "../helpers/temp-workspace.js";
+import { createTestToolContext } from "../helpers/test-context.js";
+
+let tools: TempWorkspace;
+
+afterEach(async () => {
+  await tools?.cleanup();
+});
+
+describe("loadCustomTools", () => {
+  it("returns nothing for a missing directory", async () => {
+    expect(await loadCustomTools("/nonexistent/tools")).toEqual({ tools: [], errors: [] });
+  });
+
+  it("runs manifest commands with the input as JSON on stdin", async () => {
+    tools = await createTempWorkspace({
+      "echo.toml": [
+        'name = "Echo"',
+        'description = "入力をそのまま返す"',
+        'category = "read"',
+        'command = "cat"',
+        "",
+        "[input_schema]",
+        'type = "object"',
+        "properties = { city = { type = \"string\" } }",
+      ].join("\n"),
+      "where.json": JSON.stringify({
+        name: "Where",
+        description: "ツールの場所",
+        command: 'printf "%s|%s" "$WELLGROW_TOOL_DIR" "$PWD"',
+      }),
+    });
+
+    const { tools: loaded, errors } = await loadCustomTools(tools.dir);
+
+    expect(errors).toEqual([]);
+    expect(loaded.map((t) => [t.name, t.category])).toEqual([
+      ["Echo", "read"],
+      ["Where", "execute"],
+    ]);
+    expect(loaded[0].jsonSchema).toEqual({
+      type: "object",
+      properties: { city: { type: "string" } },
+    });
+
+    const ctx = createTestToolContext({ cwd: tools.dir });
+    expect(await loaded[0].execute({ city: "東京" }, ctx)).toBe('{"city":"東京"}');
+    expect(await loaded[1].execute({}, ctx)).toBe(`${tools.dir}|${tools.dir}`);
+  });
+
+  it("turns a failing command into a ToolError", async () => {
+    tools = await createTempWorkspace({
+      "fail.toml": 'name = "Fail"\ndescription = ""\ncommand = "echo boom >&2; exit 3"',
+    });
+    const [fail] = (await loadCustomTools(tools.dir)).tools;
+
+    const error = await Promise.resolve(fail.execute({}, createTestToolContext())).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ToolError);
+    expect(error.code).toBe("COMMAND_FAILED");
+    expect(error.message).toContain("終了コード 3");
+    expect(error.message).toContain("boom");
+  });
+
+  it("loads tools exported from ES modules and reports broken files", async () => {
+    tools = await createTempWorkspace({
+      "tools.mjs": [
+        "const schema = { parse: (value) => value };",
+        "const echo = { name: 'Shout', description: 'upper', category: 'read', inputSchema: schema,",
+        "  execute: (input) => input.text.toUpperCase() };",
+        "export default echo;",
+        "export const shadow = { ...echo, name: 'Read' };",
+      ].join("\n"),
+      "empty.mjs": "export const answer = 42;",
+      "bad.toml": 'name = "1bad"\ndescription = ""\ncommand = "true"',
+      "notes.md": "ignored",
+    });
+
+    const { tools: loaded, errors } = await loadCustomTools(tools.dir);
+
+    expect(loaded.map((t) => t.name)).toEqual(["Shout"]);
+    expect(await loaded[0].execute({ text: "hi" }, createTestToolContext())).toBe("HI");
+    expect(errors.map((e) => [e.file.slice(tools.dir.length + 1), e.error])).toEqual([
+      ["bad.toml", expect.stringContaining("name")],
+      ["empty.mjs", expect.stringContaining("export されていません")],
+      ["tools.mjs", expect.stringContaining("Read: ビルトインツール")],
+    ]);
+  });
+});
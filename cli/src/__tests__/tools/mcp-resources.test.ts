@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { ListMcpResourcesTool, ReadMcpResourceTool } from "../../tools/mcp-resources.js";
+import { ToolError } from "../../tools/errors.js";
+import type { McpManager } from "../../extensions/mcp.js";
+import { createTestToolContext } from "../helpers/test-context.js";
+
+function contextWith(manager: Partial<McpManager> | null) {
+  const ctx = createTestToolContext();
+  ctx.session.mcpManager = manager as McpManager | null;
+  return ctx;
+}
+
+const manager: Partial<McpManager> = {
+  hasConnections: () => true,
+  getConnectedServers: () => ["docs"],
+  listResources: async () => ({
+    resources: [
+      { server: "docs", uri: "docs://guide", name: "guide", title: "ガイド", mimeType: "text/markdown" },
+    ],
+    errors: [],
+  }),
+  readResource: async (_server, uri) => ({ contents: [{ uri, text: "# ガイド" }] }),
+};
+
+describe("ListMcpResources", () => {
+  it("lists resources of connected servers", async () => {
+    const result = await ListMcpResourcesTool.execute({}, contextWith(manager));
+
+    expect(result).toEqual({
+      resources: [
+        { server: "docs", uri: "docs://guide", name: "ガイド", description: undefined, mimeType: "text/markdown" },
+      ],
+    });
+  });
+
+  it("says so when no server is connected", async () => {
+    const result = await ListMcpResourcesTool.execute({}, contextWith(null));
+
+    expect(result).toBe("接続中の MCP サーバーはありません");
+  });
+
+  it("rejects unknown servers", async () => {
+    await expect(
+      ListMcpResourcesTool.execute({ server: "other" }, contextWith(manager)),
+    ).rejects.toThrow(ToolError);
+  });
+});
+
+describe("ReadMcpResource", () => {
+  it("returns the resource text", async () => {
+    const result = await ReadMcpResourceTool.execute(
+      { server: "docs", uri: "docs://guide" },
+      contextWith(manager),
+    );
+
+    expect(result).toBe("# ガイド");
+  });
+
+  it("rejects unknown servers with a hint", async () => {
+    await expect(
+      ReadMcpResourceTool.execute({ server: "other", uri: "x://y" }, contextWith(manager)),
+    ).rejects.toThrow("ListMcpResources ツール");
+  });
+});
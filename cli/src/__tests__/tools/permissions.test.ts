@@ -0,0 +1,141 @@
+import { describe, it, expect } from "vitest";
+import {
+  commandPrefix,
+  compilePermissionRules,
+  matchPermissionRules,
+  parsePermissionRule,
+  pathGlobToRegExp,
+  denySegments,
+  suggestProjectRule,
+} from "../../tools/permissions.js";
+
+describe("parsePermissionRule", () => {
+  it("parses tool names with and without specifiers", () => {
+    expect(parsePermissionRule("Bash")).toMatchObject({ raw: "Bash", specifier: undefined });
+    expect(parsePermissionRule(" Bash(git commit:*) ")).toMatchObject({
+      raw: "Bash(git commit:*)",
+      specifier: "git commit:*",
+    });
+  });
+
+  it("parses category rules", () => {
+    const rule = parsePermissionRule("category:read");
+    expect(rule?.category).toBe("read");
+    expect(rule?.tool).toBeUndefined();
+  });
+
+  it("treats * in tool names as a wildcard", () => {
+    const rule = parsePermissionRule("mcp__notion__delete_*");
+    expect(rule?.tool?.test("mcp__notion__delete_page")).toBe(true);
+    expect(rule?.tool?.test("mcp__notion__search")).toBe(false);
+  });
+
+  it("rejects rules with unbalanced parentheses", () => {
+    expect(parsePermissionRule("Bash(git")).toBeNull();
+  });
+});
+
+describe("pathGlobToRegExp", () => {
+  it("lets ** cross directories and * stay within one", () => {
+    expect(pathGlobToRegExp("/p/src/**").test("/p/src/a/b.ts")).toBe(true);
+    expect(pathGlobToRegExp("/p/src/*.ts").test("/p/src/a.ts")).toBe(true);
+    expect(pathGlobToRegExp("/p/src/*.ts").test("/p/src/a/b.ts")).toBe(false);
+    expect(pathGlobToRegExp("/p/**/*.md").test("/p/README.md")).toBe(true);
+    expect(pathGlobToRegExp("/p/**/*.md").test("/p/docs/a.md")).toBe(true);
+  });
+});
+
+describe("denySegments", () => {
+  it("splits on chain and pipe operators outside quotes", () => {
+    expect(denySegments("git add . && git commit -m 'a && b' | cat; ls")).toEqual([
+      "git add .",
+      "git commit -m a && b",
+      "cat",
+      "ls",
+    ]);
+  });
+
+  it("adds each command without wrappers and git's global options", () => {
+    expect(denySegments("sudo -u me rm x")).toEqual(["sudo -u me rm x", "rm x"]);
+    expect(denySegments("git -C . -c a=b push origin")).toEqual([
+      "git -C . -c a=b push origin",
+      "git push origin",
+    ]);
+  });
+
+  it("looks inside bash -c and eval strings", () => {
+    expect(denySegments("bash -c 'git push && rm x'")).toEqual([
+      "bash -c git push && rm x",
+      "git push",
+      "rm x",
+    ]);
+    expect(denySegments("eval 'rm' x")).toEqual(["eval rm x", "rm x"]);
+  });
+
+  it("adds each command named by its base name", () => {
+    expect(denySegments("/bin/rm -rf x")).toEqual(["/bin/rm -rf x", "rm -rf x"]);
+    expect(denySegments("/usr/bin/env /usr/bin/git -C . push")).toEqual([
+      "/usr/bin/env /usr/bin/git -C . push",
+      "/usr/bin/git -C . push",
+      "git push",
+    ]);
+  });
+
+  it("adds the commands run by find -exec", () => {
+    const command = "find . -name '*.log' -exec rm -f {} \\; -execdir /bin/chmod +x {} +";
+    expect(denySegments(command)).toEqual([
+      "find . -name *.log -exec rm -f {} ; -execdir /bin/chmod +x {} +",
+      "rm -f {}",
+      "/bin/chmod +x {}",
+      "chmod +x {}",
+    ]);
+  });
+
+  it("removes quotes and escapes from the words", () => {
+    expect(denySegments(`'rm' x; \\rm y; "git" commit`)).toEqual([
+      "rm x",
+      "rm y",
+      "git commit",
+    ]);
+  });
+});
+
+describe("matchPermissionRules", () => {
+  const bash = (command: string) => ({ toolName: "Bash", args: { command }, cwd: "/work" });
+
+  it("denies a command named by path or run by find -exec", () => {
+    const rules = compilePermissionRules({ deny: ["Bash(rm:*)"] });
+    for (const command of ["/bin/rm -rf x", "find . -exec rm {} \\;", "sudo find . -ok ./rm {} \\;"]) {
+      expect(matchPermissionRules(rules, bash(command)), command).toEqual({
+        behavior: "deny",
+        rule: "Bash(rm:*)",
+      });
+    }
+  });
+
+  it("allows find -exec only when the command it runs is allowed too", () => {
+    const rules = compilePermissionRules({ allow: ["Bash(find:*)", "Bash(wc:*)"] });
+    expect(matchPermissionRules(rules, bash("find . -exec wc -l {} +"))?.behavior).toBe("allow");
+    expect(matchPermissionRules(rules, bash("find . -exec rm {} \\;"))).toBeNull();
+    expect(matchPermissionRules(rules, bash("find . -exec sh -c 'wc x' \\;"))).toBeNull();
+  });
+});
+
+describe("suggestProjectRule", () => {
+  it("generalizes a command to its subcommand prefix", () => {
+    expect(commandPrefix("git commit -m 'wip'")).toBe("git commit");
+    expect(commandPrefix("ls -la src")).toBe("ls");
+    expect(suggestProjectRule("Bash", { command: "npm run build" })).toBe("Bash(npm run:*)");
+  });
+
+  it("offers nothing for chained or substituted commands", () => {
+    expect(suggestProjectRule("Bash", { command: "npm test && git push" })).toBeNull();
+    expect(suggestProjectRule("Bash", { command: "echo $(whoami)" })).toBeNull();
+    expect(suggestProjectRule("Bash", { command: "bash -c 'npm test'" })).toBeNull();
+  });
+
+  it("covers the whole MCP server or the tool", () => {
+    expect(suggestProjectRule("mcp__notion__search", {})).toBe("mcp__notion__*");
+    expect(suggestProjectRule("Edit", { file_path: "/a" })).toBe("Edit");
+  });
+});
@@ -3,6 +3,7 @@ import { z } from "zod";
 import { createToolRegistryBuilder } from "../../tools/registry.js";
 import { defineTool } from "../../tools/definition.js";
 import { createTestSessionContext } from "../helpers/test-context.js";
+import type { McpToolAnnotations, McpToolSet } from "../../extensions/mcp.js";
 
 const dummyReadTool = defineTool({
   name: "Read",
@@ -124,6 +125,76 @@ describe("createToolRegistryBuilder", () => {
     expect(registry.schemas).toHaveProperty("mcp__srv__tool");
   });
 
+  it("maps MCP tool annotations to categories", () => {
+    const ctx = createTestSessionContext();
+    const mcpTool = (annotations?: McpToolAnnotations) => ({
+      description: "",
+      inputSchema: z.object({}),
+      annotations,
+    });
+
+    const registry = createToolRegistryBuilder(ctx)
+      .addMcpTools({
+        search: mcpTool({ readOnlyHint: true }),
+        save: mcpTool({ destructiveHint: false }),
+        delete: mcpTool({ destructiveHint: true }),
+        unknown: mcpTool(),
+      } as unknown as McpToolSet, "srv")
+      .build();
+
+    expect(registry.getMeta("mcp__srv__search")?.category).toBe("read");
+    expect(registry.getMeta("mcp__srv__save")?.category).toBe("write");
+    expect(registry.getMeta("mcp__srv__delete")?.category).toBe("execute");
+    expect(registry.getMeta("mcp__srv__unknown")?.category).toBe("execute");
+  });
+
+  it("replaceMcpTools swaps one server's tools in the built registry", () => {
+    const ctx = createTestSessionContext();
+    const mcpTool = (description: string) => ({
+      description,
+      inputSchema: z.object({}),
+      execute: async () => ({}),
+    });
+
+    const registry = createToolRegistryBuilder(ctx)
+      .addBuiltinTools([dummyReadTool])
+      .addMcpTools({ old: mcpTool("Old"), kept: mcpTool("Kept") } as unknown as Record<string, never>, "srv")
+      .addMcpTools({ other: mcpTool("Other") } as unknown as Record<string, never>, "srv2")
+      .build();
+
+    registry.replaceMcpTools("srv", { fresh: mcpTool("Fresh") } as unknown as Record<string, never>);
+
+    expect(Object.keys(registry.schemas).sort()).toEqual([
+      "Read",
+      "mcp__srv2__other",
+      "mcp__srv__fresh",
+    ]);
+    expect(registry.handlers).not.toHaveProperty("mcp__srv__old");
+    expect(registry.getMeta("mcp__srv__old")).toBeUndefined();
+    expect(registry.getMeta("mcp__srv__fresh")?.source).toBe("mcp");
+
+    registry.replaceMcpTools("srv", {});
+    expect(Object.keys(registry.schemas)).not.toContain("mcp__srv__fresh");
+  });
+
+  it("adds custom tools with custom source and keeps them when filtering builtins", async () => {
+    const ctx = createTestSessionContext();
+    const registry = createToolRegistryBuilder(ctx)
+      .addBuiltinTools([dummyReadTool])
+      .addCustomTools([dummyWriteTool])
+      .filterBuiltins([])
+      .build();
+
+    expect(Object.keys(registry.schemas)).toEqual(["Write"]);
+    expect(registry.getMeta("Write")).toEqual({
+      category: "write",
+      source: "custom",
+      uiHooks: undefined,
+    });
+    expect(await registry.handlers.Write({ path: "a", content: "" }, { toolCallId: "t1" }))
+      .toEqual({ written: "a" });
+  });
+
   it("returns undefined for unknown tool meta", () => {
     const ctx = createTestSessionContext();
     const registry = createToolRegistryBuilder(ctx).build();
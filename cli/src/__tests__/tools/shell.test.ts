@@ -0,0 +1,133 @@
+import { describe, it, expect } from "vitest";
+import {
+  collectCommands,
+  hasFileWriteRedirect,
+  hasSubstitution,
+  listCurrentShellCommands,
+  parseShell,
+  tryParseShell,
+  ShellParseError,
+  type SimpleCommand,
+} from "../../tools/shell.js";
+
+function commandTexts(source: string): string[] {
+  return collectCommands(parseShell(source)).map((c) => c.text);
+}
+
+function values(command: SimpleCommand): string[] {
+  return command.words.map((w) => w.value);
+}
+
+describe("parseShell", () => {
+  it("removes quotes and escapes from words", () => {
+    const [command] = collectCommands(
+      parseShell(`git commit -m "it's done" 'a && b' c\\ d`),
+    );
+
+    expect(values(command)).toEqual(["git", "commit", "-m", "it's done", "a && b", "c d"]);
+    expect(command.words[3].quoted).toBe(true);
+  });
+
+  it("splits lists, and-or chains and pipelines", () => {
+    const script = parseShell("a && b || c; d | e & f\ng");
+
+    expect(script.items).toHaveLength(4);
+    expect(script.items[0].operators).toEqual(["&&", "||"]);
+    expect(script.items[1].background).toBe(true);
+    expect(script.items[1].pipelines[0].commands).toHaveLength(2);
+    expect(commandTexts("a && b || c; d | e & f\ng")).toEqual(["a", "b", "c", "d", "e", "f", "g"]);
+  });
+
+  it("separates env-prefix assignments from the command", () => {
+    const [command] = collectCommands(parseShell("FOO=1 BAR='x y' npm test"));
+
+    expect(command.assignments.map((a) => a.raw)).toEqual(["FOO=1", "BAR='x y'"]);
+    expect(command.text).toBe("npm test");
+  });
+
+  it("finds commands inside command and process substitutions", () => {
+    expect(commandTexts("echo $(rm -rf build) `touch x` <(ls)")).toEqual([
+      "echo $(rm -rf build) `touch x` <(ls)",
+      "rm -rf build",
+      "touch x",
+      "ls",
+    ]);
+    expect(commandTexts(`echo "\${HOME:-$(whoami)}"`)).toContain("whoami");
+    expect(hasSubstitution(parseShell("echo $HOME"))).toBe(false);
+    expect(hasSubstitution(parseShell("echo \"$(date)\""))).toBe(true);
+    expect(hasSubstitution(parseShell("echo '$(date)'"))).toBe(false);
+  });
+
+  it("parses redirects with file descriptors", () => {
+    const [command] = collectCommands(parseShell("make 2>&1 > build.log < input"));
+
+    expect(command.redirects).toMatchObject([
+      { op: ">&", fd: 2, target: { value: "1" } },
+      { op: ">", target: { value: "build.log" } },
+      { op: "<", target: { value: "input" } },
+    ]);
+    expect(values(command)).toEqual(["make"]);
+  });
+
+  it("tells file writes apart from harmless redirects", () => {
+    expect(hasFileWriteRedirect(parseShell("ls 2>&1 >/dev/null"))).toBe(false);
+    expect(hasFileWriteRedirect(parseShell("ls > out.txt"))).toBe(true);
+    expect(hasFileWriteRedirect(parseShell("ls &>> out.txt"))).toBe(true);
+    expect(hasFileWriteRedirect(parseShell("ls > $OUT"))).toBe(true);
+  });
+
+  it("reads here-document bodies without treating them as commands", () => {
+    const script = parseShell("cat <<EOF > out.txt\nrm -rf /\n$(whoami)\nEOF\necho done");
+
+    expect(collectCommands(script).map((c) => c.text)).toEqual(["cat <<EOF > out.txt", "whoami", "echo done"]);
+    expect(collectCommands(parseShell("cat <<'EOF'\n$(whoami)\nEOF")).map((c) => c.text)).toEqual([
+      "cat <<'EOF'",
+    ]);
+  });
+
+  it("parses compound commands", () => {
+    expect(
+      commandTexts(
+        "if test -f a; then cat a; elif [[ -d b && -n x ]]; then ls b; else echo no; fi",
+      ),
+    ).toEqual(["test -f a", "cat a", "[[ -d b && -n x ]]", "ls b", "echo no"]);
+    expect(commandTexts("for f in *.ts; do wc -l $f; done")).toEqual(["wc -l $f"]);
+    expect(commandTexts("while read l; do echo $l; done < list")).toEqual(["read l", "echo $l"]);
+    expect(commandTexts("case $x in a|b) echo ab;; *) echo other;; esac")).toEqual([
+      "echo ab",
+      "echo other",
+    ]);
+    expect(commandTexts("(cd sub && make) ; { ls; }")).toEqual(["cd sub", "make", "ls"]);
+    expect(commandTexts("f() { rm -rf x; }; f")).toEqual(["rm -rf x", "f"]);
+    expect(commandTexts("((i++)) && echo $((i + 1))")).toEqual(["echo $((i + 1))"]);
+  });
+
+  it("ignores comments and line continuations", () => {
+    expect(commandTexts("ls \\\n  -la # list everything\necho a#b")).toEqual([
+      "ls \\\n  -la",
+      "echo a#b",
+    ]);
+  });
+
+  it("rejects invalid syntax", () => {
+    expect(() => parseShell("echo 'unterminated")).toThrow(ShellParseError);
+    expect(() => parseShell("echo $(ls")).toThrow(ShellParseError);
+    expect(() => parseShell("ls &&")).toThrow(ShellParseError);
+    expect(() => parseShell("if true; then ls")).toThrow(ShellParseError);
+    expect(tryParseShell("echo )")).toBeNull();
+  });
+});
+
+describe("listCurrentShellCommands", () => {
+  it("skips pipelines, subshells, substitutions and background jobs", () => {
+    const script = parseShell(
+      "cd a && ls | cd b; (cd c); echo $(cd d); cd e & { cd f; }",
+    );
+
+    expect(listCurrentShellCommands(script).map((c) => c.text)).toEqual([
+      "cd a",
+      "echo $(cd d)",
+      "cd f",
+    ]);
+  });
+});
@@ -14,6 +14,11 @@ export function getAgentDir(agentName: string): string {
   return join(AGENTS_DIR, agentName);
 }
 
+/** Custom tool manifests and modules, see loadCustomTools. */
+export function getAgentToolsDir(agentName: string): string {
+  return join(AGENTS_DIR, agentName, "tools");
+}
+
 export async function loadAgentConfig(agentName: string): Promise<AgentConfig> {
   const tomlPath = join(AGENTS_DIR, agentName, "agent.toml");
   const raw = await readFile(tomlPath, "utf-8");
@@ -1,23 +1,44 @@
 import { join } from "node:path";
 import type { LanguageModel } from "ai";
-import { loadAgentConfig, getAgentDir } from "./loader.js";
-import type { AgentConfig } from "./types.js";
+import { loadAgentConfig, getAgentDir, getAgentToolsDir, listAgents } from "./loader.js";
+import { createSubagentRunner } from "./subagent.js";
+import {
+  agentDefinitionSchema,
+  type AgentConfig,
+  type AgentDefinition,
+  type GenerationSettings,
+} from "./types.js";
 import { buildTemplateVars } from "../ai/template-vars.js";
 import { detectEnvironment } from "../ai/environment.js";
 import { buildSystemPrompt } from "../ai/system-prompt.js";
+import { loadProjectInstructions } from "../ai/project-instructions.js";
 import { createToolRegistryBuilder, type ToolRegistry } from "../tools/registry.js";
 import { builtinTools } from "../tools/index.js";
+import type { ErasedToolDefinition } from "../tools/definition.js";
+import { createTaskTool } from "../tools/task.js";
+import { loadCustomTools } from "../tools/custom.js";
 import { createToolPipeline, type ToolPipeline, type Mode } from "../tools/pipeline.js";
 import { getModel } from "../ai/providers.js";
 import { loadConfig } from "../config/index.js";
+import { isProjectTrusted, loadProjectPermissions } from "../config/project-permissions.js";
 import type { WellGrowConfig } from "../config/types.js";
 import type { SessionContext } from "../core/context.js";
+import type { AgentLoopFallbackConfig } from "../core/agent-loop.js";
+import type { CostLimits } from "../core/costs.js";
 import {
   McpManager,
   loadGlobalMcpConfig,
   type McpConnectionResult,
+  type McpServerState,
 } from "../extensions/mcp.js";
 import { discoverSkills } from "../extensions/skills.js";
+import {
+  createHookEngine,
+  loadHooksConfig,
+  type HookEngine,
+} from "../extensions/hooks.js";
+
+const DEFAULT_FALLBACK_COOLDOWN_MS = 60_000;
 
 export interface ResolvedAgent {
   name: string;
@@ -29,7 +50,11 @@ export interface ResolvedAgent {
   registry: ToolRegistry;
   pipeline: ToolPipeline;
   mcpManager: McpManager | null;
+  hookEngine: HookEngine;
   maxTurns: number;
+  fallback?: AgentLoopFallbackConfig;
+  costLimits?: CostLimits;
+  generation?: GenerationSettings;
 }
 
 export interface ResolveAgentOptions {
@@ -37,6 +62,12 @@ export interface ResolveAgentOptions {
   modelOverride?: string;
   modeOverride?: Mode;
   config?: WellGrowConfig;
+  /** Use this instead of loading ~/.wellgrow/agents/<agentName>/. */
+  definition?: AgentDefinition;
+  /** Tools of the embedding program, added next to the built-in ones. */
+  tools?: ErasedToolDefinition[];
+  /** Resolving for the Task tool: no AskUser and no further Task. */
+  subagent?: boolean;
   onMcpConnection?: (result: McpConnectionResult) => void;
 }
 
@@ -47,23 +78,42 @@ export async function resolveAgent(
   const config = options.config ?? await loadConfig();
 
   let agentConfig: AgentConfig;
-  try {
-    agentConfig = await loadAgentConfig(options.agentName);
-  } catch {
-    agentConfig = {
-      agent: {
-        name: options.agentName,
-        description: "",
-        icon: "🤖",
-      },
-    };
+  let inlinePrompt: string | undefined;
+  if (options.definition) {
+    const { system_prompt, ...definition } = agentDefinitionSchema.parse(options.definition);
+    agentConfig = definition;
+    inlinePrompt = system_prompt ?? "";
+  } else {
+    try {
+      agentConfig = await loadAgentConfig(options.agentName);
+    } catch {
+      agentConfig = {
+        agent: {
+          name: options.agentName,
+          description: "",
+          icon: "🤖",
+        },
+      };
+    }
   }
 
   const modelId = options.modelOverride ?? agentConfig.agent.model ?? config.default.model;
   const mode: Mode = options.modeOverride ?? agentConfig.agent.mode ?? config.default.mode;
   const maxTurns = agentConfig.agent.max_turns ?? config.default.max_turns;
+  const costLimits: CostLimits = {
+    session: agentConfig.agent.max_cost_usd ?? config.default.max_cost_usd,
+    daily: agentConfig.agent.max_daily_cost_usd ?? config.default.max_daily_cost_usd,
+  };
 
   const model = getModel(modelId, config);
+  const fallbackIds = (agentConfig.agent.fallback_models ?? config.default.fallback_models ?? [])
+    .filter((id) => id !== modelId);
+  const fallback: AgentLoopFallbackConfig | undefined = fallbackIds.length > 0
+    ? {
+        models: fallbackIds.map((id) => ({ id, model: getModel(id, config) })),
+        cooldownMs: config.api.fallback_cooldown ?? DEFAULT_FALLBACK_COOLDOWN_MS,
+      }
+    : undefined;
   const agentDir = getAgentDir(options.agentName);
 
   const environment = await detectEnvironment();
@@ -81,19 +131,59 @@ export async function resolveAgent(
     ...(agentConfig.skills?.paths ?? []),
   ];
   const skills = await discoverSkills(skillPaths);
+  const instructions = await loadProjectInstructions(sessionCtx.cwd, {
+    agentsMd: config.instructions?.agents_md,
+  });
 
   const systemPrompt = await buildSystemPrompt({
     agentName: options.agentName,
+    prompt: inlinePrompt,
     templateVars,
     skills,
+    instructions,
   });
 
   // --- Build tool registry ---
-  const builder = createToolRegistryBuilder(sessionCtx).addBuiltinTools(builtinTools);
+  const builder = createToolRegistryBuilder(sessionCtx);
+  if (options.subagent) {
+    builder.addBuiltinTools(builtinTools.filter((t) => t.name !== "AskUser"));
+  } else {
+    const agents = (await listAgents()).filter((a) => a.id !== options.agentName);
+    const runSubagent = createSubagentRunner({
+      defaultAgent: options.agentName,
+      agents: agents.map((a) => a.id),
+      resolve: (agentName, ctx, subMode) =>
+        resolveAgent(
+          {
+            agentName,
+            config,
+            modeOverride: subMode,
+            subagent: true,
+            // The default sub-agent is this agent, inline definition included.
+            ...(agentName === options.agentName
+              ? { definition: options.definition, tools: options.tools }
+              : {}),
+          },
+          ctx,
+        ),
+      getMode: () => pipeline.mode,
+      maxRetries: config.api.max_retries,
+      maxOutputTokens: config.default.max_output_tokens,
+    });
+    builder.addBuiltinTools([...builtinTools, createTaskTool(runSubagent, agents)]);
+  }
 
   if (agentConfig.tools?.builtin) {
     builder.filterBuiltins(agentConfig.tools.builtin);
   }
+  if (!options.definition) {
+    // Broken files are reported by `wellgrow doctor`.
+    const custom = await loadCustomTools(getAgentToolsDir(options.agentName));
+    builder.addCustomTools(custom.tools);
+  }
+  if (options.tools) {
+    builder.addCustomTools(options.tools);
+  }
 
   // --- MCP ---
   let mcpManager: McpManager | null = null;
@@ -105,24 +195,19 @@ export async function resolveAgent(
   const mcpConfig = await loadGlobalMcpConfig(mcpPaths);
   const serverCount = Object.keys(mcpConfig.mcpServers).length;
 
-  const mcpFailures: string[] = [];
+  // Tool loading errors of connected servers, by server name
+  const mcpToolErrors = new Map<string, string>();
 
   if (serverCount > 0) {
     mcpManager = new McpManager();
-    const connectionResults = await mcpManager.connectAll(mcpConfig.mcpServers, options.onMcpConnection);
-
-    for (const r of connectionResults) {
-      if (!r.success) {
-        mcpFailures.push(`${r.name}: 接続失敗 (${r.error})`);
-      }
-    }
+    await mcpManager.connectAll(mcpConfig.mcpServers, options.onMcpConnection);
 
     const { toolSets, errors: toolErrors } = await mcpManager.getAllToolSets();
     for (const [serverName, toolSet] of toolSets) {
       builder.addMcpTools(toolSet, serverName);
     }
     for (const e of toolErrors) {
-      mcpFailures.push(`${e.name}: ${e.error}`);
+      mcpToolErrors.set(e.name, e.error ?? "");
     }
 
     sessionCtx.mcpManager = mcpManager;
@@ -130,26 +215,107 @@ export async function resolveAgent(
 
   const registry = builder.build();
 
+  // --- Hooks ---
+  const hooksConfig = await loadHooksConfig([
+    ...config.hooks.paths,
+    ...(agentConfig.hooks?.paths ?? []),
+  ]);
+  const hookEngine = createHookEngine(hooksConfig, sessionCtx);
+
+  const projectPermissions = await loadProjectPermissions(sessionCtx.projectDir);
+  const projectAllow = isProjectTrusted(config, sessionCtx.projectDir)
+    ? projectPermissions.allow
+    : [];
   const pipeline = createToolPipeline({
     mode,
     allowedMcps: config.permissions.allowed_mcps,
+    allow: [
+      ...config.permissions.allow,
+      ...(agentConfig.permissions?.allow ?? []),
+      ...projectAllow,
+    ],
+    deny: [
+      ...config.permissions.deny,
+      ...(agentConfig.permissions?.deny ?? []),
+      ...projectPermissions.deny,
+    ],
+    getCwd: () => sessionCtx.cwd,
   });
 
-  let finalSystemPrompt = systemPrompt;
-  if (mcpFailures.length > 0) {
-    finalSystemPrompt += `\n\n<mcp_status>\n以下の MCP サーバーは利用できません。これらのツールは使用しないでください:\n${mcpFailures.map((f) => `- ${f}`).join("\n")}\n</mcp_status>`;
-  }
+  const mcpFailures = (): string[] => [
+    ...(mcpManager?.getServerStates() ?? [])
+      .map(describeMcpState)
+      .filter((f): f is string => f !== null),
+    ...[...mcpToolErrors].map(([name, error]) => `${name}: ${error}`),
+  ];
 
-  return {
+  const resolved: ResolvedAgent = {
     name: agentConfig.agent.name,
     icon: agentConfig.agent.icon,
     description: agentConfig.agent.description,
     model,
     modelId,
-    systemPrompt: finalSystemPrompt,
+    systemPrompt: withMcpStatus(systemPrompt, mcpFailures()),
     registry,
     pipeline,
     mcpManager,
+    hookEngine,
     maxTurns,
+    fallback,
+    costLimits,
+    generation: agentConfig.agent.generation,
   };
+
+  // Servers reconnect, get disabled or change their tool lists mid-session;
+  // keep the registry and the <mcp_status> section in step.
+  if (mcpManager) {
+    const manager = mcpManager;
+    const refresh = async (server: string): Promise<void> => {
+      if (manager.getServerState(server)?.status === "connected") {
+        try {
+          registry.replaceMcpTools(server, await manager.getToolSet(server));
+          mcpToolErrors.delete(server);
+        } catch (error) {
+          registry.replaceMcpTools(server, {});
+          mcpToolErrors.set(
+            server,
+            `ツール読み込み失敗: ${error instanceof Error ? error.message : String(error)}`,
+          );
+        }
+      } else {
+        registry.replaceMcpTools(server, {});
+        mcpToolErrors.delete(server);
+      }
+      resolved.systemPrompt = withMcpStatus(resolved.systemPrompt, mcpFailures());
+    };
+    manager.subscribe((event) => {
+      void refresh(event.server);
+    });
+  }
+
+  return resolved;
+}
+
+const MCP_STATUS_PATTERN = /\n\n<mcp_status>[\s\S]*?<\/mcp_status>/;
+
+/** Replace (or drop) the note listing MCP servers the model must not use. */
+function withMcpStatus(systemPrompt: string, failures: string[]): string {
+  const base = systemPrompt.replace(MCP_STATUS_PATTERN, "");
+  if (failures.length === 0) return base;
+  return `${base}\n\n<mcp_status>\n以下の MCP サーバーは利用できません。これらのツールは使用しないでください:\n${failures.map((f) => `- ${f}`).join("\n")}\n</mcp_status>`;
+}
+
+function describeMcpState(state: McpServerState): string | null {
+  switch (state.status) {
+    case "connected":
+      return null;
+    case "connecting":
+      return `${state.name}: 再接続中`;
+    case "failed":
+      return `${state.name}: 接続失敗 (${state.error})`;
+    case "needs-auth":
+      return `${state.name}: 認証が必要 (${state.error})`;
+    case "disabled":
+      return `${state.name}: このセッションでは無効`;
+  }
 }
@@ -0,0 +1,106 @@
+import type { ModelMessage } from "ai";
+import { runAgentLoop } from "../core/agent-loop.js";
+import { createAgentContext, type SessionContext } from "../core/context.js";
+import type { Mode } from "../tools/pipeline.js";
+import type { SubagentRunner } from "../tools/task.js";
+import type { ResolvedAgent } from "./resolver.js";
+
+export interface SubagentRunnerOptions {
+  /** Agent used when the call names none (the parent agent). */
+  defaultAgent: string;
+  /** Other agents that may be named. */
+  agents: string[];
+  /** Resolves an agent against the sub-agent's own context. */
+  resolve: (agentName: string, ctx: SessionContext, mode: Mode) => Promise<ResolvedAgent>;
+  /** Sub-agents follow the parent's current mode. */
+  getMode: () => Mode;
+  maxRetries?: number;
+  maxOutputTokens?: number;
+}
+
+/**
+ * Fresh agent state (read files, todos) and MCP connections; the working
+ * directory starts where the parent is. Abort state and terminal ids stay
+ * shared so that Esc stops both and background output files don't collide.
+ */
+export function createSubagentContext(parent: SessionContext): SessionContext {
+  return {
+    ...parent,
+    mcpManager: null,
+    agent: createAgentContext(),
+    get nextTerminalId() {
+      return parent.nextTerminalId;
+    },
+    set nextTerminalId(id: number) {
+      parent.nextTerminalId = id;
+    },
+  };
+}
+
+function lastAssistantText(messages: ModelMessage[]): string {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i];
+    if (message.role !== "assistant") continue;
+    const text =
+      typeof message.content === "string"
+        ? message.content
+        : message.content
+            .map((p) => (p.type === "text" ? p.text : ""))
+            .join("");
+    if (text.trim()) return text.trim();
+  }
+  return "";
+}
+
+export function createSubagentRunner(options: SubagentRunnerOptions): SubagentRunner {
+  return async (input, ctx) => {
+    const agentName = input.agent ?? options.defaultAgent;
+    if (agentName !== options.defaultAgent && !options.agents.includes(agentName)) {
+      const available = [options.defaultAgent, ...options.agents].join(", ");
+      throw new Error(`エージェントが見つかりません: ${agentName}（利用可能: ${available}）`);
+    }
+
+    const subCtx = createSubagentContext(ctx.session);
+    const agent = await options.resolve(agentName, subCtx, options.getMode());
+    const messages: ModelMessage[] = [{ role: "user", content: input.prompt }];
+    const onApprovalRequest = ctx.onApprovalRequest;
+
+    try {
+      await runAgentLoop(
+        messages,
+        {
+          model: agent.model,
+          modelId: agent.modelId,
+          fallback: agent.fallback,
+          system: agent.systemPrompt,
+          registry: agent.registry,
+          pipeline: agent.pipeline,
+          hooks: agent.hookEngine,
+          projectDir: subCtx.projectDir,
+          abortSignal: ctx.abortSignal,
+          maxTurns: agent.maxTurns,
+          maxRetries: options.maxRetries,
+          maxOutputTokens: options.maxOutputTokens,
+          generation: agent.generation,
+          logFile: subCtx.logFile,
+          isAbortedByUser: () =>
+            subCtx.abort.userAbortController?.signal.aborted ?? false,
+          isCostLimitReached: () => subCtx.cost?.exceededLimit() != null,
+        },
+        {
+          onMessageUpdate: (parts) => ctx.onNestedUpdate?.(parts),
+          // Shares the parent's tracker, so the spending limits cover it too.
+          onUsage: (usage) => subCtx.cost?.add(usage),
+          onApprovalRequest: onApprovalRequest
+            ? (request) => onApprovalRequest({ ...request, subagent: agent.name })
+            : undefined,
+          onNotice: ctx.onNotice,
+        },
+      );
+    } finally {
+      await agent.mcpManager?.disconnectAll().catch(() => {});
+    }
+
+    return lastAssistantText(messages) || "（サブエージェントは結果を返しませんでした）";
+  };
+}
@@ -1,13 +1,30 @@
 import { z } from "zod";
 
+/** `[agent.generation]`: sampling and reasoning settings for every request. */
+export const generationSettingsSchema = z.object({
+  /** Tokens the model may spend thinking (Anthropic, Google). */
+  thinking_budget: z.number().int().positive().optional(),
+  /** Reasoning effort (OpenAI reasoning models, Anthropic effort, Gemini thinking level). */
+  reasoning_effort: z.enum(["low", "medium", "high"]).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  top_p: z.number().gt(0).max(1).optional(),
+  stop_sequences: z.array(z.string()).optional(),
+});
+
+export type GenerationSettings = z.infer<typeof generationSettingsSchema>;
+
 export const agentConfigSchema = z.object({
   agent: z.object({
     name: z.string(),
     description: z.string(),
     icon: z.string().optional().default("🤖"),
     model: z.string().optional(),
+    fallback_models: z.array(z.string()).optional(),
     mode: z.enum(["plan", "auto"]).optional(),
     max_turns: z.number().int().positive().optional(),
+    max_cost_usd: z.number().positive().optional(),
+    max_daily_cost_usd: z.number().positive().optional(),
+    generation: generationSettingsSchema.optional(),
   }),
   tools: z
     .object({
@@ -24,10 +41,31 @@ export const agentConfigSchema = z.object({
       paths: z.array(z.string()).optional(),
     })
     .optional(),
+  hooks: z
+    .object({
+      paths: z.array(z.string()).optional(),
+    })
+    .optional(),
+  permissions: z
+    .object({
+      allow: z.array(z.string()).optional(),
+      deny: z.array(z.string()).optional(),
+    })
+    .optional(),
 });
 
 export type AgentConfig = z.infer<typeof agentConfigSchema>;
 
+/**
+ * An agent defined in code rather than in ~/.wellgrow/agents/<name>/:
+ * agent.toml fields plus the system prompt that system-prompt.md would hold.
+ */
+export const agentDefinitionSchema = agentConfigSchema.extend({
+  system_prompt: z.string().optional(),
+});
+
+export type AgentDefinition = z.input<typeof agentDefinitionSchema>;
+
 export interface AgentSummary {
   id: string;
   name: string;
@@ -1,6 +1,6 @@
 import type { ModelMessage } from "ai";
 
-const ANTHROPIC_CACHE_BREAKPOINT = {
+export const ANTHROPIC_CACHE_BREAKPOINT = {
   anthropic: { cacheControl: { type: "ephemeral" as const } },
 };
 
@@ -9,6 +9,10 @@ export interface TurnUsage {
   outputTokens: number;
   cacheWriteTokens?: number;
   cacheReadTokens?: number;
+  /** Model that served the request, after any fallback. */
+  model?: string;
+  /** Priced by the session's cost tracker; absent when the price is unknown. */
+  costUsd?: number;
 }
 
 /**
@@ -19,6 +23,9 @@ export interface TurnUsage {
  * up to each breakpoint):
  *   1. system message  — static per session
  *   2. last user/tool  — growing conversation prefix
+ *
+ * Messages that already carry a breakpoint (the compaction summary) keep
+ * it, so a compacted prefix stays cached across turns.
  */
 export function prepareCachedMessages(
   system: string,
@@ -52,3 +59,11 @@ export function prepareCachedMessages(
 
   return [systemMessage, ...cached];
 }
+
+/**
+ * Rough context size after a turn: everything sent plus what came back.
+ * `inputTokens` already includes cache reads and writes.
+ */
+export function estimateContextTokens(usage: TurnUsage): number {
+  return usage.inputTokens + usage.outputTokens;
+}
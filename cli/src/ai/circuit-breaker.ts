@@ -0,0 +1,37 @@
+// ---------------------------------------------------------------------------
+// Circuit breaker — skips models that recently failed after retries
+// ---------------------------------------------------------------------------
+
+export interface CircuitBreaker {
+  /** The model failed within its cooldown and should be skipped. */
+  isOpen: (key: string) => boolean;
+  trip: (key: string, cooldownMs: number) => void;
+  reset: (key: string) => void;
+  clear: () => void;
+}
+
+export function createCircuitBreaker(now: () => number = Date.now): CircuitBreaker {
+  const openUntil = new Map<string, number>();
+
+  return {
+    isOpen(key) {
+      const until = openUntil.get(key);
+      if (until === undefined) return false;
+      if (now() < until) return true;
+      openUntil.delete(key);
+      return false;
+    },
+    trip(key, cooldownMs) {
+      if (cooldownMs > 0) openUntil.set(key, now() + cooldownMs);
+    },
+    reset(key) {
+      openUntil.delete(key);
+    },
+    clear() {
+      openUntil.clear();
+    },
+  };
+}
+
+/** Shared by every session in the process, sub-agents included. */
+export const modelCircuitBreaker = createCircuitBreaker();
@@ -0,0 +1,66 @@
+import type { streamText } from "ai";
+import type { GenerationSettings } from "../agents/types.js";
+
+/** Thinking budget /think asks for when no size is given. */
+export const THINK_BUDGET_TOKENS = 16_000;
+
+type StreamTextOptions = Parameters<typeof streamText>[0];
+
+export type GenerationCallOptions = Pick<
+  StreamTextOptions,
+  "temperature" | "topP" | "stopSequences" | "providerOptions"
+>;
+
+/** OpenAI has no token budget, so /think maps the budget onto an effort. */
+function effortForBudget(budget: number): "low" | "medium" | "high" {
+  if (budget < 4_096) return "low";
+  if (budget < THINK_BUDGET_TOKENS) return "medium";
+  return "high";
+}
+
+/** The agent's settings with the thinking budget raised to at least `budget`. */
+export function raiseThinkingBudget(
+  settings: GenerationSettings | undefined,
+  budget: number,
+): GenerationSettings {
+  return {
+    ...settings,
+    thinking_budget: Math.max(settings?.thinking_budget ?? 0, budget),
+  };
+}
+
+/**
+ * Map `[agent.generation]` onto streamText options. Provider options are
+ * set for every provider at once; each provider only reads its own key, so
+ * this holds across fallback models of different providers.
+ */
+export function buildGenerationOptions(
+  settings: GenerationSettings | undefined,
+): GenerationCallOptions {
+  if (!settings) return {};
+  const budget = settings.thinking_budget;
+  const effort = settings.reasoning_effort ?? (budget ? effortForBudget(budget) : undefined);
+
+  const anthropic = {
+    ...(budget ? { thinking: { type: "enabled" as const, budgetTokens: budget } } : {}),
+    ...(settings.reasoning_effort ? { effort: settings.reasoning_effort } : {}),
+  };
+  const openai = effort ? { reasoningEffort: effort } : {};
+  // Gemini rejects a budget and a level together; an explicit effort wins.
+  const google = settings.reasoning_effort
+    ? { thinkingConfig: { thinkingLevel: settings.reasoning_effort, includeThoughts: true } }
+    : budget
+      ? { thinkingConfig: { thinkingBudget: budget, includeThoughts: true } }
+      : {};
+
+  const providerOptions = Object.fromEntries(
+    Object.entries({ anthropic, openai, google }).filter(([, v]) => Object.keys(v).length > 0),
+  );
+
+  return {
+    ...(settings.temperature !== undefined ? { temperature: settings.temperature } : {}),
+    ...(settings.top_p !== undefined ? { topP: settings.top_p } : {}),
+    ...(settings.stop_sequences?.length ? { stopSequences: settings.stop_sequences } : {}),
+    ...(Object.keys(providerOptions).length > 0 ? { providerOptions } : {}),
+  };
+}
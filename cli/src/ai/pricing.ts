@@ -0,0 +1,48 @@
+import type { TurnUsage } from "./cache.js";
+import type { WellGrowConfig } from "../config/types.js";
+
+/** USD per million tokens. Cache rates default to the input rate. */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  cache_read?: number;
+  cache_write?: number;
+}
+
+/** List prices at the time of writing; `[pricing."<model>"]` overrides them. */
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  "claude-opus-4-6": { input: 5, output: 25, cache_read: 0.5, cache_write: 6.25 },
+  "claude-sonnet-4-6": { input: 3, output: 15, cache_read: 0.3, cache_write: 3.75 },
+  "claude-haiku-4-5-20251001": { input: 1, output: 5, cache_read: 0.1, cache_write: 1.25 },
+  "gemini-3.1-pro-preview": { input: 2, output: 12, cache_read: 0.2 },
+  "gpt-5.2": { input: 1.75, output: 14, cache_read: 0.175 },
+};
+
+/**
+ * Config overrides first, then the built-in table; `provider:model` IDs
+ * fall back to the price of the bare model.
+ */
+export function getModelPricing(
+  modelId: string,
+  overrides: WellGrowConfig["pricing"] = {},
+): ModelPricing | null {
+  const bare = modelId.slice(modelId.indexOf(":") + 1);
+  return overrides[modelId] ?? MODEL_PRICING[modelId] ?? overrides[bare] ?? MODEL_PRICING[bare] ?? null;
+}
+
+/** `inputTokens` includes cached tokens, which are billed at their own rates. */
+export function calculateCost(usage: TurnUsage, pricing: ModelPricing): number {
+  const cacheRead = usage.cacheReadTokens ?? 0;
+  const cacheWrite = usage.cacheWriteTokens ?? 0;
+  const uncached = Math.max(usage.inputTokens - cacheRead - cacheWrite, 0);
+  return (
+    uncached * pricing.input +
+    cacheRead * (pricing.cache_read ?? pricing.input) +
+    cacheWrite * (pricing.cache_write ?? pricing.input) +
+    usage.outputTokens * pricing.output
+  ) / 1_000_000;
+}
+
+export function formatUsd(usd: number): string {
+  return `$${usd < 1 ? usd.toFixed(4) : usd.toFixed(2)}`;
+}
@@ -0,0 +1,237 @@
+import { readFile, realpath, stat } from "node:fs/promises";
+import { dirname, isAbsolute, join, relative, resolve, sep } from "node:path";
+import { homedir } from "node:os";
+
+export const INSTRUCTIONS_FILENAME = "WELLGROW.md";
+export const AGENTS_MD_FILENAME = "AGENTS.md";
+
+const MAX_INCLUDE_DEPTH = 5;
+const MAX_FILE_CHARS = 40_000;
+
+const SECTION_START = "<project_instructions>";
+const SECTION_END = "</project_instructions>";
+
+// ---------------------------------------------------------------------------
+// Types
+//
+// Instruction files are read in this order, later ones taking precedence:
+//
+//   ~/.wellgrow/WELLGROW.md                  user-wide
+//   <git root>/WELLGROW.md, AGENTS.md        project
+//   ...each directory down to the cwd
+//
+// An `@path` mention includes another file, resolved relative to
+// the file that mentions it. Included files are listed right after it.
+// Project files can only include files inside the project (the git root,
+// else the cwd); `~/` and absolute paths elsewhere work from the user file.
+// ---------------------------------------------------------------------------
+
+export type InstructionScope = "user" | "project";
+
+export interface InstructionFile {
+  path: string;
+  scope: InstructionScope;
+  content: string;
+  /** Set for files pulled in with `@path`: the file that included it. */
+  includedFrom?: string;
+}
+
+export interface LoadInstructionsOptions {
+  /** Also read AGENTS.md next to each WELLGROW.md. Default true. */
+  agentsMd?: boolean;
+}
+
+export function getUserInstructionsPath(): string {
+  return join(homedir(), ".wellgrow", INSTRUCTIONS_FILENAME);
+}
+
+async function isDirectory(path: string): Promise<boolean> {
+  try {
+    return (await stat(path)).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+async function readTextFile(path: string): Promise<string | null> {
+  try {
+    if (!(await stat(path)).isFile()) return null;
+    return await readFile(path, "utf-8");
+  } catch {
+    return null;
+  }
+}
+
+/** The nearest directory at or above `cwd` that contains `.git`, or null. */
+export async function findGitRoot(cwd: string): Promise<string | null> {
+  let dir = resolve(cwd);
+  for (;;) {
+    try {
+      await stat(join(dir, ".git"));
+      return dir;
+    } catch {
+      // keep walking up
+    }
+    const parent = dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+/** Directories from the git root (or `cwd` outside a repository) down to `cwd`. */
+async function projectDirectories(cwd: string): Promise<string[]> {
+  const start = resolve(cwd);
+  const root = await findGitRoot(start);
+  if (!root) return [start];
+
+  const dirs: string[] = [];
+  for (let dir = start; ; dir = dirname(dir)) {
+    dirs.unshift(dir);
+    if (dir === root || dirname(dir) === dir) break;
+  }
+  return dirs;
+}
+
+/** Where `/memory edit project` writes: the git root, else `cwd`. */
+export async function getProjectInstructionsPath(cwd: string): Promise<string> {
+  const root = await findGitRoot(cwd);
+  return join(root ?? resolve(cwd), INSTRUCTIONS_FILENAME);
+}
+
+// ---------------------------------------------------------------------------
+// @path includes
+// ---------------------------------------------------------------------------
+
+const INCLUDE_PATTERN = /(?:^|\s)@((?:~\/|\.{1,2}\/|\/)?[\w.\-/]+)/g;
+
+function expandHome(p: string): string {
+  return p.startsWith("~/") ? join(homedir(), p.slice(2)) : p;
+}
+
+/** `@path` mentions outside fenced and inline code. */
+export function findIncludes(content: string): string[] {
+  const includes: string[] = [];
+  let inFence = false;
+  for (const line of content.split("\n")) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+    const text = line.replace(/`[^`]*`/g, "");
+    for (const match of text.matchAll(INCLUDE_PATTERN)) {
+      const target = match[1].replace(/[.,;:]+$/, "");
+      if (target && !includes.includes(target)) includes.push(target);
+    }
+  }
+  return includes;
+}
+
+/** Whether `path`, symlinks resolved, is inside `root`. */
+async function isWithin(root: string, path: string): Promise<boolean> {
+  try {
+    const rel = relative(await realpath(root), await realpath(path));
+    return rel !== ".." && !rel.startsWith(`..${sep}`) && !isAbsolute(rel);
+  } catch {
+    return false;
+  }
+}
+
+function truncate(content: string): string {
+  if (content.length <= MAX_FILE_CHARS) return content;
+  return `${content.slice(0, MAX_FILE_CHARS)}\n\n（${content.length - MAX_FILE_CHARS} 文字省略）`;
+}
+
+/** `root` confines includes; null for the user file, which may include anything. */
+async function collectFile(
+  path: string,
+  scope: InstructionScope,
+  root: string | null,
+  seen: Set<string>,
+  files: InstructionFile[],
+  includedFrom?: string,
+  depth = 0,
+): Promise<void> {
+  if (seen.has(path)) return;
+  if (includedFrom && root && !(await isWithin(root, path))) return;
+  const content = await readTextFile(path);
+  if (content === null) return;
+  seen.add(path);
+  files.push({ path, scope, content: truncate(content.trim()), includedFrom });
+
+  if (depth >= MAX_INCLUDE_DEPTH) return;
+  for (const include of findIncludes(content)) {
+    const expanded = expandHome(include);
+    const target = isAbsolute(expanded) ? expanded : resolve(dirname(path), expanded);
+    await collectFile(target, scope, root, seen, files, path, depth + 1);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Loading
+// ---------------------------------------------------------------------------
+
+export async function loadProjectInstructions(
+  cwd: string,
+  options: LoadInstructionsOptions = {},
+): Promise<InstructionFile[]> {
+  const filenames = options.agentsMd === false
+    ? [INSTRUCTIONS_FILENAME]
+    : [INSTRUCTIONS_FILENAME, AGENTS_MD_FILENAME];
+  const seen = new Set<string>();
+  const files: InstructionFile[] = [];
+
+  await collectFile(getUserInstructionsPath(), "user", null, seen, files);
+
+  if (!(await isDirectory(cwd))) return files;
+  const dirs = await projectDirectories(cwd);
+  for (const dir of dirs) {
+    for (const filename of filenames) {
+      await collectFile(join(dir, filename), "project", dirs[0], seen, files);
+    }
+  }
+  return files.filter((f) => f.content.length > 0);
+}
+
+// ---------------------------------------------------------------------------
+// System prompt section
+// ---------------------------------------------------------------------------
+
+export function buildInstructionsSection(files: InstructionFile[]): string {
+  const entries = files
+    .map((f) => `<file path="${f.path}" scope="${f.scope}">\n${f.content}\n</file>`)
+    .join("\n");
+
+  return `## Project Instructions
+
+ユーザーとプロジェクトが用意した指示ファイル（WELLGROW.md / AGENTS.md）の内容が <project_instructions> にある。
+後に並んでいるファイルほどカレントディレクトリに近く、内容が食い違う場合はそちらを優先すること。
+これらの指示はエージェントの既定の振る舞いより優先して従うこと。
+
+${SECTION_START}
+${entries}
+${SECTION_END}`;
+}
+
+const SECTION_PATTERN = new RegExp(
+  `(\\n\\n)?## Project Instructions\\n[\\s\\S]*?${SECTION_END}`,
+);
+
+/**
+ * Swap the instructions section of an already built system prompt, e.g.
+ * after /memory edit. Appends it when the prompt has none yet.
+ */
+export function replaceInstructionsSection(
+  systemPrompt: string,
+  files: InstructionFile[],
+): string {
+  const section = files.length > 0 ? buildInstructionsSection(files) : "";
+  if (SECTION_PATTERN.test(systemPrompt)) {
+    return systemPrompt.replace(
+      SECTION_PATTERN,
+      (_, separator: string | undefined) => (section ? `${separator ?? ""}${section}` : ""),
+    );
+  }
+  if (!section) return systemPrompt;
+  return systemPrompt ? `${systemPrompt}\n\n${section}` : section;
+}
@@ -2,7 +2,7 @@ import { createAnthropic } from "@ai-sdk/anthropic";
 import { createGoogleGenerativeAI } from "@ai-sdk/google";
 import { createOpenAI } from "@ai-sdk/openai";
 import type { LanguageModel } from "ai";
-import type { WellGrowConfig } from "../config/types.js";
+import type { ProviderConfig, ProviderType, WellGrowConfig } from "../config/types.js";
 
 type Provider = "anthropic" | "google" | "openai";
 
@@ -19,6 +19,27 @@ export const MODEL_LIST: ModelEntry[] = [
   { id: "gpt-5.2", label: "GPT-5.2" },
 ];
 
+/** Built-in models plus the `models` of every `[providers.<name>]` entry. */
+export function getModelList(config: WellGrowConfig): ModelEntry[] {
+  const configured = Object.entries(config.providers).flatMap(([name, entry]) =>
+    (entry?.models ?? []).map((model) => ({ id: `${name}:${model}`, label: `${model} (${name})` })),
+  );
+  return [...MODEL_LIST, ...configured];
+}
+
+const DEFAULT_CONTEXT_WINDOW = 200_000;
+
+const CONTEXT_WINDOWS: Record<Provider, number> = {
+  anthropic: 200_000,
+  google: 1_048_576,
+  openai: 400_000,
+};
+
+export function getContextWindow(modelId: string): number {
+  const provider = inferProvider(modelId.slice(modelId.indexOf(":") + 1));
+  return provider ? CONTEXT_WINDOWS[provider] : DEFAULT_CONTEXT_WINDOW;
+}
+
 function inferProvider(modelId: string): Provider | null {
   if (modelId.startsWith("claude-")) return "anthropic";
   if (modelId.startsWith("gemini-")) return "google";
@@ -27,50 +48,101 @@ function inferProvider(modelId: string): Provider | null {
   return null;
 }
 
+function isBuiltinProvider(name: string): name is Provider {
+  return name === "anthropic" || name === "google" || name === "openai";
+}
+
+export interface ModelTarget {
+  /** Key under `[providers]`, or a built-in provider name. */
+  provider: string;
+  type: ProviderType;
+  /** The model ID sent to the provider, without the `provider:` prefix. */
+  model: string;
+}
+
+/**
+ * Resolves which provider serves `modelId`, in order:
+ *   1. `provider:model` where `provider` is a `[providers]` key or built-in name
+ *   2. a `[providers.<name>]` entry whose `models` lists it
+ *   3. the built-in prefixes (claude-*, gemini-*, gpt-*, o1-*, o3-*)
+ */
+export function resolveModelTarget(modelId: string, config: WellGrowConfig): ModelTarget | null {
+  const target = (provider: string, model: string): ModelTarget | null => {
+    const type = config.providers[provider]?.type ?? (isBuiltinProvider(provider) ? provider : null);
+    return type ? { provider, type, model } : null;
+  };
+
+  const separator = modelId.indexOf(":");
+  if (separator > 0) {
+    const prefix = modelId.slice(0, separator);
+    if (prefix in config.providers || isBuiltinProvider(prefix)) {
+      return target(prefix, modelId.slice(separator + 1));
+    }
+  }
+
+  for (const [name, entry] of Object.entries(config.providers)) {
+    if (entry?.models?.includes(modelId)) return target(name, modelId);
+  }
+
+  const inferred = inferProvider(modelId);
+  return inferred ? target(inferred, modelId) : null;
+}
+
 function resolveApiKey(
-  providerConfig: { api_key?: string; api_key_env: string } | undefined,
-  defaultEnv: string,
+  providerConfig: ProviderConfig | undefined,
+  defaultEnv?: string,
 ): string | undefined {
   if (providerConfig?.api_key) return providerConfig.api_key;
   const envName = providerConfig?.api_key_env ?? defaultEnv;
-  return process.env[envName];
+  return envName ? process.env[envName] : undefined;
 }
 
 export function getModel(
   modelId: string,
   config: WellGrowConfig,
 ): LanguageModel {
-  const inferred = inferProvider(modelId);
-  if (!inferred) {
+  const target = resolveModelTarget(modelId, config);
+  if (!target) {
     throw new Error(
       `不明なモデル: ${modelId}\n` +
-      `利用可能なモデル形式: claude-*, gemini-*, gpt-*, o1-*, o3-*`,
+      `利用可能なモデル形式: claude-*, gemini-*, gpt-*, o1-*, o3-*, <プロバイダー名>:<モデル>`,
     );
   }
 
-  switch (inferred) {
+  const providerConfig = config.providers[target.provider];
+  const baseURL = providerConfig?.base_url;
+  const headers = providerConfig?.headers;
+
+  switch (target.type) {
     case "anthropic": {
-      const key = resolveApiKey(config.providers?.anthropic, "ANTHROPIC_API_KEY");
+      const key = resolveApiKey(providerConfig, "ANTHROPIC_API_KEY");
       const isOAuth = key?.startsWith("sk-ant-oat01-");
       const anthropic = createAnthropic(
         isOAuth
-          ? { authToken: key, headers: { "anthropic-beta": "oauth-2025-04-20" } }
-          : { apiKey: key },
+          ? { authToken: key, baseURL, headers: { ...headers, "anthropic-beta": "oauth-2025-04-20" } }
+          : { apiKey: key, baseURL, headers },
       );
-      return anthropic(modelId);
+      return anthropic(target.model);
     }
     case "google": {
-      const apiKey = resolveApiKey(config.providers?.google, "GOOGLE_GENERATIVE_AI_API_KEY");
-      const google = createGoogleGenerativeAI({ apiKey });
-      return google(modelId);
+      const apiKey = resolveApiKey(providerConfig, "GOOGLE_GENERATIVE_AI_API_KEY");
+      const google = createGoogleGenerativeAI({ apiKey, baseURL, headers });
+      return google(target.model);
     }
     case "openai": {
-      const apiKey = resolveApiKey(config.providers?.openai, "OPENAI_API_KEY");
-      const openai = createOpenAI({ apiKey });
-      return openai(modelId);
+      const apiKey = resolveApiKey(providerConfig, "OPENAI_API_KEY");
+      const openai = createOpenAI({ apiKey, baseURL, headers });
+      return openai(target.model);
+    }
+    case "openai-compatible": {
+      // Local servers (Ollama, LM Studio, vLLM) need no key; an empty one
+      // keeps the SDK from falling back to OPENAI_API_KEY.
+      const apiKey = resolveApiKey(providerConfig) ?? "";
+      const compatible = createOpenAI({ name: target.provider, apiKey, baseURL, headers });
+      return compatible.chat(target.model);
     }
     default:
-      throw new Error(`不明なプロバイダー: ${inferred satisfies never}`);
+      throw new Error(`不明なプロバイダー: ${target.type satisfies never}`);
   }
 }
 
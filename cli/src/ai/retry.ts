@@ -78,6 +78,28 @@ export function formatErrorMessage(error: unknown): string {
   return str || "不明なエラーが発生しました";
 }
 
+/**
+ * Whether the error came from the model API (HTTP status, network, timeout)
+ * rather than from wellgrow itself.
+ */
+export function isApiError(error: unknown): boolean {
+  const unwrapped = unwrapError(error);
+  return (
+    getErrorStatusCode(unwrapped) !== undefined ||
+    isRetryableError(unwrapped) ||
+    isAbortError(unwrapped)
+  );
+}
+
+/**
+ * Overload, rate-limit and 5xx errors: another model may still answer,
+ * unlike auth or request errors that would fail the same way.
+ */
+export function isModelUnavailableError(error: unknown): boolean {
+  const status = getErrorStatusCode(unwrapError(error));
+  return status !== undefined && (status === 429 || status >= 500);
+}
+
 function isContextLengthError(error: unknown): boolean {
   if (!error || typeof error !== "object") return false;
 
@@ -1,5 +1,6 @@
 import { loadAgentPrompt } from "../agents/loader.js";
 import { expandTemplate } from "./template-vars.js";
+import { buildInstructionsSection, type InstructionFile } from "./project-instructions.js";
 
 export interface SkillMetadata {
   name: string;
@@ -9,8 +10,12 @@ export interface SkillMetadata {
 
 export interface SystemPromptOptions {
   agentName: string;
+  /** Used instead of the agent's system-prompt.md (inline agent definitions). */
+  prompt?: string;
   templateVars: Record<string, string>;
   skills?: SkillMetadata[];
+  /** WELLGROW.md / AGENTS.md files, see loadProjectInstructions. */
+  instructions?: InstructionFile[];
 }
 
 function buildAvailableSkillsSection(skills: SkillMetadata[]): string {
@@ -35,7 +40,10 @@ ${entries}
 export async function buildSystemPrompt(
   options: SystemPromptOptions,
 ): Promise<string> {
-  const rawPrompt = await loadAgentPrompt(options.agentName);
+  const rawPrompt =
+    options.prompt !== undefined
+      ? options.prompt.trim() || null
+      : await loadAgentPrompt(options.agentName);
 
   const parts: string[] = [];
 
@@ -47,5 +55,9 @@ export async function buildSystemPrompt(
     parts.push(buildAvailableSkillsSection(options.skills));
   }
 
+  if (options.instructions?.length) {
+    parts.push(buildInstructionsSection(options.instructions));
+  }
+
   return parts.join("\n\n");
 }
@@ -0,0 +1,102 @@
+import { Command } from "commander";
+import { readFile } from "node:fs/promises";
+import { createTwoFilesPatch } from "diff";
+import {
+  listCheckpointSessions,
+  loadCheckpointSession,
+  readCheckpointBlob,
+  type StoredCheckpoint,
+  type StoredCheckpointSession,
+} from "../core/checkpoints.js";
+
+async function readCurrent(path: string): Promise<string | null> {
+  try {
+    return await readFile(path, "utf-8");
+  } catch {
+    return null;
+  }
+}
+
+function printSession(session: StoredCheckpointSession): void {
+  console.log(`セッション: ${session.sessionId}`);
+  console.log(`ディレクトリ: ${session.cwd}`);
+  for (const checkpoint of session.checkpoints) {
+    const date = new Date(checkpoint.timestamp).toLocaleString("ja-JP");
+    const rewound = session.rewinds.includes(checkpoint.id) ? "  (巻き戻し済み)" : "";
+    console.log("");
+    console.log(`#${checkpoint.id}  ${date}  ${checkpoint.prompt.split("\n")[0]}${rewound}`);
+    for (const file of checkpoint.files) {
+      console.log(`  ${file.blob ? "変更" : "新規"}  ${file.path}`);
+    }
+  }
+}
+
+/** Diff from each file's snapshot to what is on disk now. */
+async function printCheckpointDiff(
+  session: StoredCheckpointSession,
+  checkpoint: StoredCheckpoint,
+): Promise<void> {
+  for (const file of checkpoint.files) {
+    const before = file.blob ? await readCheckpointBlob(session.sessionId, file.blob) : "";
+    const after = (await readCurrent(file.path)) ?? "";
+    const patch = createTwoFilesPatch(
+      file.path,
+      file.path,
+      before,
+      after,
+      `#${checkpoint.id} 以前`,
+      "現在",
+    );
+    console.log(patch);
+  }
+}
+
+export function registerCheckpointsCommand(program: Command): void {
+  program
+    .command("checkpoints")
+    .description("Write / Edit 前に保存されたファイルのチェックポイント")
+    .argument("[session-id]", "セッションIDで詳細表示（前方一致）")
+    .argument("[checkpoint]", "チェックポイント番号を指定すると現在のファイルとの差分を表示")
+    .action(async (sessionId?: string, checkpointId?: string) => {
+      if (!sessionId) {
+        const sessions = await listCheckpointSessions();
+        if (sessions.length === 0) {
+          console.log("チェックポイントがありません");
+          return;
+        }
+        for (const session of sessions) {
+          const date = new Date(session.timestamp).toLocaleString("ja-JP");
+          const files = new Set(
+            session.checkpoints.flatMap((c) => c.files.map((f) => f.path)),
+          );
+          console.log(
+            `${date}  ${session.cwd}  チェックポイント ${session.checkpoints.length} 件 / ファイル ${files.size} 件`,
+          );
+          console.log(`  ID: ${session.sessionId}`);
+        }
+        return;
+      }
+
+      const session = await loadCheckpointSession(sessionId);
+      if (!session) {
+        console.error(`セッション ${sessionId} のチェックポイントが見つかりません`);
+        process.exitCode = 1;
+        return;
+      }
+
+      if (!checkpointId) {
+        printSession(session);
+        return;
+      }
+
+      const checkpoint = session.checkpoints.find(
+        (c) => c.id === Number(checkpointId.replace(/^#/, "")),
+      );
+      if (!checkpoint) {
+        console.error(`チェックポイント ${checkpointId} が見つかりません`);
+        process.exitCode = 1;
+        return;
+      }
+      await printCheckpointDiff(session, checkpoint);
+    });
+}
@@ -1,6 +1,9 @@
 import { Command } from "commander";
 import { platform } from "node:os";
+import { basename } from "node:path";
 import { checkRecommendedTools, type DoctorResult } from "../config/recommended-tools.js";
+import { getAgentToolsDir, listAgents } from "../agents/loader.js";
+import { loadCustomTools } from "../tools/custom.js";
 
 function getPackageManagerKey(): string {
   const os = platform();
@@ -76,16 +79,43 @@ function formatDoctorResult(result: DoctorResult): string {
   return lines.join("\n");
 }
 
+/** Custom tools of every agent, or null when no agent has any. */
+async function formatCustomTools(): Promise<string | null> {
+  const lines: string[] = ["🧰 カスタムツール (~/.wellgrow/agents/<名前>/tools/)\n"];
+  let found = false;
+
+  for (const agent of await listAgents()) {
+    const { tools, errors } = await loadCustomTools(getAgentToolsDir(agent.id));
+    if (tools.length === 0 && errors.length === 0) continue;
+    found = true;
+    lines.push(`  ${agent.icon} ${agent.id}`);
+    for (const tool of tools) {
+      lines.push(`    ✅ ${tool.name} (${tool.category}) — ${tool.description}`);
+    }
+    for (const error of errors) {
+      lines.push(`    ❌ ${basename(error.file)} — ${error.error}`);
+    }
+    lines.push("");
+  }
+
+  return found ? lines.join("\n") : null;
+}
+
 export async function runDoctor(): Promise<DoctorResult> {
   const result = await checkRecommendedTools();
   process.stdout.write(formatDoctorResult(result) + "\n");
+
+  const customTools = await formatCustomTools();
+  if (customTools) {
+    process.stdout.write(`\n${customTools}`);
+  }
   return result;
 }
 
 export function registerDoctorCommand(program: Command): void {
   program
     .command("doctor")
-    .description("推奨ツールのインストール状況を確認する")
+    .description("推奨ツールのインストール状況とカスタムツールを確認する")
     .action(async () => {
       await runDoctor();
     });
@@ -1,5 +1,85 @@
+import { writeFile } from "node:fs/promises";
+import { extname } from "node:path";
 import { Command } from "commander";
-import { listHistory, getSessionContent } from "../core/history.js";
+import {
+  listHistory,
+  getSessionContent,
+  loadSessionTranscript,
+  searchHistory,
+  deleteSession,
+  pruneSessions,
+  type HistoryEntry,
+  type HistoryFilter,
+} from "../core/history.js";
+import { loadConfig } from "../config/index.js";
+import { EXPORT_FORMATS, exportSession, isExportFormat } from "../core/export.js";
+
+interface FilterOptions {
+  agent?: string;
+  model?: string;
+  cwd?: string;
+  since?: string;
+  until?: string;
+  limit?: string;
+}
+
+/** `YYYY-MM-DD` as local midnight; anything else Date can parse as-is. */
+function parseDate(value: string, name: string): Date {
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(value)
+    ? new Date(`${value}T00:00:00`)
+    : new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`${name} の日付が不正です: ${value}`);
+  }
+  return date;
+}
+
+function toFilter(opts: FilterOptions): HistoryFilter {
+  const until = opts.until ? parseDate(opts.until, "--until") : undefined;
+  // A bare date includes that whole day.
+  if (until && opts.until && /^\d{4}-\d{2}-\d{2}$/.test(opts.until)) {
+    until.setDate(until.getDate() + 1);
+  }
+  return {
+    agent: opts.agent,
+    model: opts.model,
+    cwd: opts.cwd,
+    since: opts.since ? parseDate(opts.since, "--since") : undefined,
+    until,
+  };
+}
+
+function withFilterOptions(command: Command): Command {
+  return command
+    .option("-a, --agent <name>", "エージェントで絞り込み")
+    .option("-m, --model <name>", "モデル名（部分一致）で絞り込み")
+    .option("--cwd <dir>", "このディレクトリ以下で開始したセッションに絞り込み")
+    .option("--since <date>", "この日以降に開始したセッション (YYYY-MM-DD)")
+    .option("--until <date>", "この日までに開始したセッション (YYYY-MM-DD)")
+    .option("-n, --limit <count>", "表示する件数", "20");
+}
+
+function printEntry(entry: HistoryEntry): void {
+  const date = new Date(entry.timestamp).toLocaleString("ja-JP");
+  console.log(`${date}  ${entry.agent}  ${entry.model}  ${entry.summary}`);
+  console.log(`  ID: ${entry.session_id}`);
+}
+
+function fail(error: unknown): void {
+  console.error(error instanceof Error ? error.message : String(error));
+  process.exitCode = 1;
+}
+
+async function showList(opts: FilterOptions = {}): Promise<void> {
+  const entries = await listHistory(Number(opts.limit ?? 20), toFilter(opts));
+  if (entries.length === 0) {
+    console.log("履歴がありません");
+    return;
+  }
+  for (const entry of entries) {
+    printEntry(entry);
+  }
+}
 
 export function registerHistoryCommand(program: Command): void {
   const historyCmd = program
@@ -9,26 +89,140 @@ export function registerHistoryCommand(program: Command): void {
   historyCmd
     .argument("[session-id]", "セッションIDで詳細表示")
     .action(async (sessionId?: string) => {
-      if (sessionId) {
+      if (!sessionId) {
+        await showList();
+        return;
+      }
+      try {
         const content = await getSessionContent(sessionId);
         if (content) {
           console.log(content);
         } else {
           console.error(`セッション ${sessionId} が見つかりません`);
         }
+      } catch (error) {
+        fail(error);
+      }
+    });
+
+  // --- list ---
+  withFilterOptions(
+    historyCmd
+      .command("list")
+      .alias("ls")
+      .description("セッション履歴を絞り込んで表示"),
+  ).action(async (opts: FilterOptions) => {
+    try {
+      await showList(opts);
+    } catch (error) {
+      fail(error);
+    }
+  });
+
+  // --- search ---
+  withFilterOptions(
+    historyCmd
+      .command("search <text>")
+      .description("会話の本文を全文検索"),
+  ).action(async (text: string, opts: FilterOptions) => {
+    try {
+      const results = await searchHistory(text, {
+        filter: toFilter(opts),
+        limit: Number(opts.limit),
+      });
+      if (results.length === 0) {
+        console.log(`"${text}" を含むセッションはありません`);
         return;
       }
+      for (const { entry, snippets } of results) {
+        printEntry(entry);
+        for (const snippet of snippets) {
+          console.log(`    ${snippet}`);
+        }
+      }
+    } catch (error) {
+      fail(error);
+    }
+  });
 
-      const entries = await listHistory();
-      if (entries.length === 0) {
-        console.log("履歴がありません");
+  // --- export ---
+  historyCmd
+    .command("export <session-id>")
+    .description("セッションを Markdown / HTML / JSON に書き出す")
+    .option("-f, --format <format>", `出力形式 (${EXPORT_FORMATS.join(", ")})。省略時は出力ファイルの拡張子、なければ md`)
+    .option("-o, --output <file>", "書き出すファイル（省略時は標準出力）")
+    .action(async (sessionId: string, opts: { format?: string; output?: string }) => {
+      const extension = opts.output ? extname(opts.output).slice(1) : "";
+      const format = opts.format ?? (isExportFormat(extension) ? extension : "md");
+      if (!isExportFormat(format)) {
+        fail(new Error(`無効な形式です: ${format}（有効な値: ${EXPORT_FORMATS.join(", ")}）`));
         return;
       }
+      try {
+        const transcript = await loadSessionTranscript(sessionId);
+        if (!transcript) {
+          fail(new Error(`セッション ${sessionId} が見つかりません`));
+          return;
+        }
+        const content = exportSession(transcript, format);
+        if (opts.output) {
+          await writeFile(opts.output, content, "utf-8");
+          console.log(`✓ ${opts.output} に書き出しました`);
+        } else {
+          process.stdout.write(content);
+        }
+      } catch (error) {
+        fail(error);
+      }
+    });
 
-      for (const entry of entries) {
-        const date = new Date(entry.timestamp).toLocaleString("ja-JP");
-        console.log(`${date}  ${entry.model}  ${entry.summary}`);
-        console.log(`  ID: ${entry.session_id}`);
+  // --- rm ---
+  historyCmd
+    .command("rm <session-id...>")
+    .alias("remove")
+    .description("セッションを削除（IDは前方一致）")
+    .action(async (sessionIds: string[]) => {
+      for (const sessionId of sessionIds) {
+        try {
+          const deleted = await deleteSession(sessionId);
+          if (deleted) {
+            console.log(`✓ ${deleted} を削除しました`);
+          } else {
+            console.error(`セッション ${sessionId} が見つかりません`);
+            process.exitCode = 1;
+          }
+        } catch (error) {
+          fail(error);
+        }
+      }
+    });
+
+  // --- prune ---
+  historyCmd
+    .command("prune")
+    .description("古いセッションを削除して history.max_sessions 件に揃える")
+    .option("-k, --keep <count>", "残す件数（既定は history.max_sessions）")
+    .option("--dry-run", "削除せずに対象を表示")
+    .action(async (opts: { keep?: string; dryRun?: boolean }) => {
+      const keep = opts.keep !== undefined
+        ? Number(opts.keep)
+        : (await loadConfig()).history.max_sessions;
+      if (!Number.isInteger(keep) || keep < 0) {
+        fail(new Error(`--keep の値が不正です: ${opts.keep}`));
+        return;
+      }
+      const pruned = await pruneSessions(keep, { dryRun: opts.dryRun });
+      if (pruned.length === 0) {
+        console.log("削除するセッションはありません");
+        return;
+      }
+      for (const id of pruned) {
+        console.log(`  ${id}`);
       }
+      console.log(
+        opts.dryRun
+          ? `${pruned.length} 件のセッションが削除されます`
+          : `✓ ${pruned.length} 件のセッションを削除しました`,
+      );
     });
 }
@@ -0,0 +1,313 @@
+import { Command } from "commander";
+import { readFile, writeFile, mkdir, rm } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import { loadConfig, updateConfigField } from "../config/index.js";
+import { loadAgentConfig } from "../agents/loader.js";
+import {
+  McpManager,
+  loadMcpServerSources,
+  mcpPromptCommandName,
+  resolveTildePath,
+  type McpServerConfig,
+  type McpServerSource,
+} from "../extensions/mcp.js";
+import { clearOAuthCredentials } from "../extensions/oauth.js";
+
+const TRANSPORT_TYPES = ["stdio", "http", "sse"] as const;
+
+/** Names end up in file paths (`~/.wellgrow/mcp/<name>.json`, `~/.wellgrow/oauth/<name>/`). */
+const SERVER_NAME_PATTERN = /^[\w-]+$/;
+
+export function assertServerName(name: string): void {
+  if (!SERVER_NAME_PATTERN.test(name)) {
+    throw new Error(`サーバー名に使えるのは英数字・_・- だけです: ${name}`);
+  }
+}
+
+/** `~/.wellgrow/mcp/<name>.json`, the file `add` writes by default. */
+export function defaultServerFile(name: string): string {
+  return `~/.wellgrow/mcp/${name}.json`;
+}
+
+interface AddOptions {
+  url?: string;
+  type?: string;
+  env: string[];
+  header: string[];
+  file?: string;
+}
+
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+function fail(error: unknown): void {
+  process.stderr.write(`✗ ${error instanceof Error ? error.message : String(error)}\n`);
+  process.exitCode = 1;
+}
+
+/** Turn `add` arguments into a server entry; throws on a bad combination. */
+export function buildServerConfig(
+  command: string[],
+  opts: AddOptions,
+): McpServerConfig {
+  if (opts.url && command.length > 0) {
+    throw new Error("--url とコマンドは同時に指定できません");
+  }
+  if (!opts.url && command.length === 0) {
+    throw new Error("-- の後に起動コマンド、または --url を指定してください");
+  }
+  const type = opts.type ?? (opts.url ? "http" : "stdio");
+  if (!(TRANSPORT_TYPES as readonly string[]).includes(type)) {
+    throw new Error(`無効な type です: ${type}（有効な値: ${TRANSPORT_TYPES.join(", ")}）`);
+  }
+  if (type === "stdio" && opts.url) {
+    throw new Error("stdio ではコマンドを指定してください");
+  }
+  if (type !== "stdio" && !opts.url) {
+    throw new Error(`${type} では --url を指定してください`);
+  }
+
+  const config: McpServerConfig = opts.url
+    ? { type: type as "http" | "sse", url: opts.url }
+    : { command: command[0], ...(command.length > 1 ? { args: command.slice(1) } : {}) };
+
+  if (opts.env.length > 0) {
+    config.env = Object.fromEntries(opts.env.map((pair) => {
+      const eq = pair.indexOf("=");
+      if (eq <= 0) throw new Error(`--env は KEY=VALUE の形式で指定してください: ${pair}`);
+      return [pair.slice(0, eq), pair.slice(eq + 1)];
+    }));
+  }
+  if (opts.header.length > 0) {
+    config.headers = Object.fromEntries(opts.header.map((header) => {
+      const colon = header.indexOf(":");
+      if (colon <= 0) throw new Error(`--header は "Name: value" の形式で指定してください: ${header}`);
+      return [header.slice(0, colon).trim(), header.slice(colon + 1).trim()];
+    }));
+  }
+  return config;
+}
+
+// --- .mcp.json editing ---
+//
+// Both layouts loadMcpConfigFile accepts are kept as they are: servers
+// under "mcpServers", or the flat plugin-style file.
+
+async function readServerFile(
+  filePath: string,
+): Promise<{ root: Record<string, unknown>; servers: Record<string, McpServerConfig> }> {
+  let root: Record<string, unknown>;
+  try {
+    root = JSON.parse(await readFile(filePath, "utf-8")) as Record<string, unknown>;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      root = {};
+    } else {
+      throw new Error(`${filePath} を読み込めません: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  if (root.mcpServers && typeof root.mcpServers === "object") {
+    return { root, servers: root.mcpServers as Record<string, McpServerConfig> };
+  }
+  if (Object.keys(root).length > 0) {
+    return { root, servers: root as Record<string, McpServerConfig> };
+  }
+  root.mcpServers = {};
+  return { root, servers: root.mcpServers as Record<string, McpServerConfig> };
+}
+
+export async function addServerToFile(
+  filePath: string,
+  name: string,
+  config: McpServerConfig,
+): Promise<void> {
+  const { root, servers } = await readServerFile(filePath);
+  servers[name] = config;
+  await mkdir(dirname(filePath), { recursive: true });
+  await writeFile(filePath, JSON.stringify(root, null, 2) + "\n", "utf-8");
+}
+
+/** Returns the number of servers left in the file, or null when `name` was not in it. */
+export async function removeServerFromFile(
+  filePath: string,
+  name: string,
+): Promise<number | null> {
+  const { root, servers } = await readServerFile(filePath);
+  if (!(name in servers)) return null;
+  delete servers[name];
+  await writeFile(filePath, JSON.stringify(root, null, 2) + "\n", "utf-8");
+  return Object.keys(servers).length;
+}
+
+// --- Helpers ---
+
+async function mcpPaths(agentName?: string): Promise<string[]> {
+  const config = await loadConfig();
+  if (!agentName) return config.mcp.paths;
+  const agentConfig = await loadAgentConfig(agentName);
+  return [...config.mcp.paths, ...(agentConfig.mcp?.paths ?? [])];
+}
+
+async function findServer(name: string, agentName?: string): Promise<McpServerSource> {
+  const servers = await loadMcpServerSources(await mcpPaths(agentName));
+  const server = servers.find((s) => s.name === name);
+  if (!server) {
+    throw new Error(`MCP サーバー "${name}" は設定されていません`);
+  }
+  return server;
+}
+
+function describeTarget(config: McpServerConfig): string {
+  const type = config.type ?? "stdio";
+  return type === "stdio"
+    ? `stdio  ${[config.command, ...(config.args ?? [])].join(" ")}`
+    : `${type}  ${config.url}`;
+}
+
+export function registerMcpCommand(program: Command): void {
+  const mcp = program
+    .command("mcp")
+    .description("MCP サーバーの管理");
+
+  // --- list ---
+  mcp
+    .command("list")
+    .alias("ls")
+    .description("設定されている MCP サーバーと読み込み元のファイルを表示")
+    .option("-a, --agent <name>", "エージェントの agent.toml の [mcp] も含める")
+    .action(async (opts: { agent?: string }) => {
+      try {
+        const servers = await loadMcpServerSources(await mcpPaths(opts.agent));
+        if (servers.length === 0) {
+          process.stdout.write("設定されている MCP サーバーはありません。\n");
+          return;
+        }
+        process.stdout.write(`\n${servers.length} 個の MCP サーバー:\n\n`);
+        for (const server of servers) {
+          process.stdout.write(
+            `  ${server.name}  ${describeTarget(server.config)}\n    ${server.source}\n\n`,
+          );
+        }
+      } catch (error) {
+        fail(error);
+      }
+    });
+
+  // --- add ---
+  mcp
+    .command("add <name> [command...]")
+    .description("MCP サーバーを追加（例: wellgrow mcp add fs -- npx -y @modelcontextprotocol/server-filesystem .）")
+    .option("--url <url>", "http / sse サーバーの URL")
+    .option("-t, --type <type>", `接続方式 (${TRANSPORT_TYPES.join(", ")})。省略時は --url なら http、それ以外は stdio`)
+    .option("-e, --env <KEY=VALUE>", "stdio サーバーの環境変数（複数指定可）", collect, [])
+    .option("-H, --header <header>", "http / sse の HTTP ヘッダー \"Name: value\"（複数指定可）", collect, [])
+    .option("-f, --file <path>", "書き込む .mcp.json（省略時は ~/.wellgrow/mcp/<name>.json）")
+    .action(async (name: string, command: string[], opts: AddOptions) => {
+      try {
+        assertServerName(name);
+        const server = buildServerConfig(command, opts);
+        const paths = await mcpPaths();
+        const existing = (await loadMcpServerSources(paths)).find((s) => s.name === name);
+        if (existing) {
+          throw new Error(`"${name}" は既に ${existing.source} に設定されています。先に wellgrow mcp remove ${name} で削除してください`);
+        }
+
+        const target = opts.file ? resolve(opts.file) : defaultServerFile(name);
+        await addServerToFile(resolveTildePath(target), name, server);
+        if (!paths.includes(target)) {
+          await updateConfigField("mcp", "paths", [...paths, target]);
+        }
+        process.stdout.write(`✓ ${name} を ${target} に追加しました。\n`);
+      } catch (error) {
+        fail(error);
+      }
+    });
+
+  // --- remove ---
+  mcp
+    .command("remove <name>")
+    .alias("rm")
+    .description("MCP サーバーを設定ファイルから削除")
+    .action(async (name: string) => {
+      try {
+        const paths = await mcpPaths();
+        const server = await findServer(name);
+        const remaining = await removeServerFromFile(resolveTildePath(server.source), name);
+        if (remaining === null) {
+          throw new Error(`${server.source} から "${name}" を削除できませんでした`);
+        }
+        // A file created by `add` goes away with its only server.
+        if (remaining === 0 && server.source === defaultServerFile(name)) {
+          await rm(resolveTildePath(server.source), { force: true });
+          await updateConfigField("mcp", "paths", paths.filter((p) => p !== server.source));
+        }
+        process.stdout.write(`✓ ${name} を ${server.source} から削除しました。\n`);
+      } catch (error) {
+        fail(error);
+      }
+    });
+
+  // --- get ---
+  mcp
+    .command("get <name>")
+    .description("MCP サーバーに接続して、ツール・リソース・プロンプトと応答時間を表示")
+    .option("-a, --agent <name>", "エージェントの agent.toml の [mcp] も含める")
+    .action(async (name: string, opts: { agent?: string }) => {
+      const manager = new McpManager();
+      try {
+        const server = await findServer(name, opts.agent);
+        process.stdout.write(`\n${name}  ${describeTarget(server.config)}\n  ${server.source}\n\n`);
+
+        const started = Date.now();
+        await manager.connect(name, server.config);
+        process.stdout.write(`✓ 接続しました (${Date.now() - started}ms)\n`);
+
+        const { toolSets, errors: toolErrors } = await manager.getAllToolSets();
+        const { resources, errors: resourceErrors } = await manager.listResources(name);
+        const { prompts, errors: promptErrors } = await manager.listPrompts(name);
+
+        const tools = Object.entries(toolSets.get(name) ?? {});
+        process.stdout.write(`\nツール (${tools.length}):\n`);
+        for (const [toolName, tool] of tools) {
+          process.stdout.write(`  mcp__${name}__${toolName}  ${tool.description?.split("\n")[0] ?? ""}\n`);
+        }
+        process.stdout.write(`\nリソース (${resources.length}):\n`);
+        for (const resource of resources) {
+          process.stdout.write(`  @${name}:${resource.uri}  ${resource.title ?? resource.name}\n`);
+        }
+        process.stdout.write(`\nプロンプト (${prompts.length}):\n`);
+        for (const prompt of prompts) {
+          process.stdout.write(`  /${mcpPromptCommandName(name, prompt.name)}  ${prompt.description ?? ""}\n`);
+        }
+        for (const e of [...toolErrors, ...resourceErrors, ...promptErrors]) {
+          process.stderr.write(`⚠ ${e.error}\n`);
+        }
+        process.stdout.write("\n");
+      } catch (error) {
+        fail(error);
+      } finally {
+        await manager.disconnectAll();
+      }
+    });
+
+  // --- logout ---
+  mcp
+    .command("logout <name>")
+    .description("MCP サーバーの OAuth 認証情報を削除")
+    .option("-a, --agent <name>", "エージェントの agent.toml の [mcp] も含める")
+    .action(async (name: string, opts: { agent?: string }) => {
+      try {
+        assertServerName(name);
+        await findServer(name, opts.agent);
+        const cleared = await clearOAuthCredentials(name);
+        process.stdout.write(
+          cleared
+            ? `✓ ${name} の認証情報を削除しました。次回の接続時に再度ログインします。\n`
+            : `${name} の認証情報は保存されていません。\n`,
+        );
+      } catch (error) {
+        fail(error);
+      }
+    });
+}
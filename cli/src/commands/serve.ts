@@ -0,0 +1,40 @@
+import { Command } from "commander";
+import { createWellGrowServer } from "../server/server.js";
+import { registerShutdownHandler, setupSignalHandlers } from "../signals.js";
+import { formatErrorMessage } from "../ai/retry.js";
+
+const DEFAULT_PORT = 4317;
+
+export function registerServeCommand(program: Command): void {
+  program
+    .command("serve")
+    .description("ローカル HTTP サーバーを起動し、セッションを API で操作する")
+    .option("--port <port>", "待ち受けるポート", String(DEFAULT_PORT))
+    .option("--host <host>", "待ち受けるアドレス", "127.0.0.1")
+    .option("--token <token>", "クライアントが送る Bearer トークン（省略時は WELLGROW_SERVE_TOKEN、なければ自動生成）")
+    .action(async (opts: { port: string; host: string; token?: string }) => {
+      const port = Number(opts.port);
+      if (!Number.isInteger(port) || port < 0 || port > 65535) {
+        process.stderr.write(`Error: 無効なポートです: ${opts.port}\n`);
+        process.exit(1);
+      }
+
+      setupSignalHandlers();
+      const server = createWellGrowServer({
+        token: opts.token ?? (process.env.WELLGROW_SERVE_TOKEN || undefined),
+      });
+      registerShutdownHandler(() => server.close());
+
+      try {
+        const address = await server.listen(port, opts.host);
+        process.stdout.write(
+          `WellGrow サーバーを起動しました: http://${address.address}:${address.port}\n` +
+            `トークン: ${server.token}\n` +
+            `（リクエストには Authorization: Bearer <トークン> を付けてください）\n`,
+        );
+      } catch (error) {
+        process.stderr.write(`Error: ${formatErrorMessage(error)}\n`);
+        process.exit(1);
+      }
+    });
+}
@@ -33,6 +33,8 @@ const DEFAULT_CONFIG: WellGrowConfig = {
   },
   permissions: {
     allowed_mcps: [],
+    allow: [],
+    deny: [],
   },
   providers: {
     anthropic: { api_key_env: "ANTHROPIC_API_KEY" },
@@ -49,6 +51,9 @@ const DEFAULT_CONFIG: WellGrowConfig = {
   mcp: {
     paths: [],
   },
+  hooks: {
+    paths: [],
+  },
   logging: {
     verbose: false,
     log_dir: "~/.wellgrow/logs",
@@ -57,6 +62,14 @@ const DEFAULT_CONFIG: WellGrowConfig = {
     storage: "local",
     max_sessions: 1000,
   },
+  compaction: {
+    auto: true,
+    threshold: 0.8,
+    keep_recent_turns: 2,
+  },
+  instructions: {
+    agents_md: true,
+  },
 };
 
 export async function loadConfig(): Promise<WellGrowConfig> {
@@ -0,0 +1,96 @@
+import { readFile, writeFile, mkdir } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import { parse, stringify } from "smol-toml";
+import { z } from "zod";
+import { ConfigLoadError, loadConfig, updateConfigField } from "./index.js";
+import type { WellGrowConfig } from "./types.js";
+
+const PROJECT_CONFIG_DIR = ".wellgrow";
+const PERMISSIONS_FILENAME = "permissions.toml";
+
+export const projectPermissionsSchema = z.object({
+  allow: z.array(z.string()).default([]),
+  deny: z.array(z.string()).default([]),
+});
+
+export type ProjectPermissions = z.infer<typeof projectPermissionsSchema>;
+
+export function getProjectPermissionsPath(projectDir: string): string {
+  return join(projectDir, PROJECT_CONFIG_DIR, PERMISSIONS_FILENAME);
+}
+
+/**
+ * Rules saved from the approval prompt ("always allow in this project").
+ * A missing file means no rules; a broken one is an error so that deny
+ * rules are never silently dropped.
+ *
+ * The file lives in the project, so it may come from a cloned repository.
+ * Callers honour its `allow` rules only for trusted projects (see
+ * isProjectTrusted); its `deny` rules always apply.
+ */
+export async function loadProjectPermissions(
+  projectDir: string,
+): Promise<ProjectPermissions> {
+  const filePath = getProjectPermissionsPath(projectDir);
+
+  let content: string;
+  try {
+    content = await readFile(filePath, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return { allow: [], deny: [] };
+    }
+    throw new ConfigLoadError(
+      `プロジェクトの権限ファイルを読み込めませんでした: ${filePath}`,
+      error,
+    );
+  }
+
+  try {
+    return projectPermissionsSchema.parse(parse(content));
+  } catch (error) {
+    throw new ConfigLoadError(
+      `プロジェクトの権限ファイルの内容が不正です: ${filePath}`,
+      error,
+    );
+  }
+}
+
+export async function addProjectAllowRule(
+  projectDir: string,
+  rule: string,
+): Promise<void> {
+  const current = await loadProjectPermissions(projectDir);
+  if (current.allow.includes(rule)) return;
+
+  const filePath = getProjectPermissionsPath(projectDir);
+  await mkdir(join(projectDir, PROJECT_CONFIG_DIR), { recursive: true });
+  await writeFile(
+    filePath,
+    stringify({ ...current, allow: [...current.allow, rule] }),
+    "utf-8",
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Trust
+//
+// config.toml lists the projects whose allow rules are honoured:
+//
+//   [permissions]
+//   trusted_projects = ["/home/me/work/app"]
+//
+// A project becomes trusted when the user saves a rule for it from the
+// approval prompt.
+// ---------------------------------------------------------------------------
+
+export function isProjectTrusted(config: WellGrowConfig, projectDir: string): boolean {
+  return (config.permissions.trusted_projects ?? []).includes(resolve(projectDir));
+}
+
+export async function trustProject(projectDir: string): Promise<void> {
+  const config = await loadConfig();
+  if (isProjectTrusted(config, projectDir)) return;
+  const trusted = [...(config.permissions.trusted_projects ?? []), resolve(projectDir)];
+  await updateConfigField("permissions", "trusted_projects", trusted);
+}
@@ -1,30 +1,65 @@
 import { z } from "zod";
 
+const BUILTIN_PROVIDERS = ["anthropic", "google", "openai"];
+
+const providerTypeSchema = z.enum(["anthropic", "google", "openai", "openai-compatible"]);
+
 const providerConfigSchema = z.object({
+  /** Defaults to the entry name for anthropic / google / openai. */
+  type: providerTypeSchema.optional(),
   api_key: z.string().optional(),
-  api_key_env: z.string(),
+  api_key_env: z.string().optional(),
+  base_url: z.string().url().optional(),
+  headers: z.record(z.string()).optional(),
+  /** Model IDs that resolve to this provider without a `name:` prefix. */
+  models: z.array(z.string()).optional(),
+});
+
+const modelPricingSchema = z.object({
+  input: z.number().nonnegative(),
+  output: z.number().nonnegative(),
+  cache_read: z.number().nonnegative().optional(),
+  cache_write: z.number().nonnegative().optional(),
 });
 
 export const wellGrowConfigSchema = z.object({
   default: z.object({
     model: z.string(),
+    /** Tried in order when `model` is overloaded or unavailable. */
+    fallback_models: z.array(z.string()).optional(),
     provider: z.string(),
     agent: z.string(),
     mode: z.enum(["plan", "auto"]),
     max_turns: z.number().int().positive(),
     max_output_tokens: z.number().int().positive(),
+    /** USD; the agent stops before its next request once a session spent this much. */
+    max_cost_usd: z.number().positive().optional(),
+    /** USD across all sessions of the local day. */
+    max_daily_cost_usd: z.number().positive().optional(),
   }),
   permissions: z.object({
     allowed_mcps: z.array(z.string()),
+    allow: z.array(z.string()),
+    deny: z.array(z.string()),
+    /** Projects whose .wellgrow/permissions.toml allow rules are honoured. */
+    trusted_projects: z.array(z.string()).optional(),
   }),
-  providers: z.object({
-    anthropic: providerConfigSchema.optional(),
-    google: providerConfigSchema.optional(),
-    openai: providerConfigSchema.optional(),
+  providers: z.record(providerConfigSchema).superRefine((providers, ctx) => {
+    for (const [name, entry] of Object.entries(providers)) {
+      if (!entry.type && !BUILTIN_PROVIDERS.includes(name)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [name, "type"],
+          message: `providers.${name} には type を指定してください`,
+        });
+      }
+    }
   }),
   api: z.object({
     max_retries: z.number().int().nonnegative(),
     timeout: z.number().int().positive(),
+    /** Milliseconds a model that ran out of retries is skipped. */
+    fallback_cooldown: z.number().int().nonnegative().optional(),
   }),
   skills: z.object({
     paths: z.array(z.string()),
@@ -32,6 +67,9 @@ export const wellGrowConfigSchema = z.object({
   mcp: z.object({
     paths: z.array(z.string()),
   }),
+  hooks: z.object({
+    paths: z.array(z.string()),
+  }),
   user: z.object({
     name: z.string().optional(),
   }).optional(),
@@ -43,6 +81,18 @@ export const wellGrowConfigSchema = z.object({
     storage: z.string(),
     max_sessions: z.number().int().positive(),
   }),
+  compaction: z.object({
+    auto: z.boolean(),
+    threshold: z.number().gt(0).max(1),
+    keep_recent_turns: z.number().int().positive(),
+  }),
+  instructions: z.object({
+    agents_md: z.boolean(),
+  }).optional(),
+  /** USD per million tokens by model ID, overriding the built-in table. */
+  pricing: z.record(modelPricingSchema).optional(),
 });
 
 export type WellGrowConfig = z.infer<typeof wellGrowConfigSchema>;
+export type ProviderConfig = z.infer<typeof providerConfigSchema>;
+export type ProviderType = z.infer<typeof providerTypeSchema>;
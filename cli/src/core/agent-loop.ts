@@ -5,14 +5,29 @@ import {
 } from "ai";
 import type { LanguageModel } from "ai";
 import type { MessagePart } from "../ui/message-list.js";
-import { evaluateRetry, sleep } from "../ai/retry.js";
-import { prepareCachedMessages, type TurnUsage } from "../ai/cache.js";
+import { evaluateRetry, isModelUnavailableError, sleep } from "../ai/retry.js";
+import { modelCircuitBreaker, type CircuitBreaker } from "../ai/circuit-breaker.js";
+import { buildGenerationOptions } from "../ai/generation.js";
+import type { GenerationSettings } from "../agents/types.js";
+import {
+  prepareCachedMessages,
+  estimateContextTokens,
+  type TurnUsage,
+} from "../ai/cache.js";
 import {
   logRequest,
   logResponse,
   logUsage,
   logRetry,
+  logModelFallback,
+  logCompaction,
 } from "../logging.js";
+import {
+  compactMessages,
+  shouldCompact,
+  type CompactionResult,
+  type CompactionSettings,
+} from "./compaction.js";
 import {
   executeToolCalls,
   type ToolExecutorConfig,
@@ -33,40 +48,111 @@ const TEXT_PART_SPLIT_THRESHOLD = 1500;
 
 export interface AgentLoopCallbacks extends ToolExecutorCallbacks {
   onRetry?: (attempt: number, maxRetries: number, delayMs: number) => void;
+  /** Retries on `from` ran out and the turn continues on `to`. */
+  onModelFallback?: (from: string, to: string, reason: string) => void;
   onContextExceeded?: () => void;
   onUsage?: (usage: TurnUsage) => void;
+  onCompactStart?: () => void;
+  onCompact?: (result: CompactionResult | null) => void;
+}
+
+export interface AgentLoopCompactionConfig extends CompactionSettings {
+  contextWindow: number;
+  /** Context size reported by the last turn of the previous run. */
+  contextTokens?: number;
+}
+
+export interface FallbackModel {
+  id: string;
+  model: LanguageModel;
+}
+
+export interface AgentLoopFallbackConfig {
+  /** Tried in order when the current model stays overloaded or unavailable. */
+  models: FallbackModel[];
+  /** How long a model that ran out of retries is skipped. */
+  cooldownMs: number;
+  /** Defaults to the process-wide breaker. */
+  breaker?: CircuitBreaker;
 }
 
 export interface AgentLoopConfig extends ToolExecutorConfig {
   model: LanguageModel;
+  /** ID of `model` as configured, for fallback notices and the breaker. */
+  modelId?: string;
+  fallback?: AgentLoopFallbackConfig;
   system: string;
   maxTurns?: number;
   maxRetries?: number;
   maxOutputTokens?: number;
+  generation?: GenerationSettings;
   isAbortedByUser?: () => boolean;
+  /** Checked before every model request; true stops the loop there. */
+  isCostLimitReached?: () => boolean;
+  compaction?: AgentLoopCompactionConfig;
+}
+
+export interface AgentLoopResult {
+  fullText: string;
+  parts: MessagePart[];
+  /** Model requests made, one per assistant response. */
+  turns: number;
+  /** The loop stopped at maxTurns while the model still wanted to call tools. */
+  maxTurnsReached: boolean;
+  /** The loop stopped because the spending limit was reached. */
+  costLimitReached: boolean;
 }
 
 export async function runAgentLoop(
   messages: ModelMessage[],
   config: AgentLoopConfig,
   callbacks: AgentLoopCallbacks,
-): Promise<{ fullText: string; parts: MessagePart[] }> {
+): Promise<AgentLoopResult> {
   let turnsUsed = 0;
   const maxTurns = config.maxTurns ?? DEFAULT_MAX_TURNS;
   let fullText = "";
   const parts: MessagePart[] = [];
+  let contextTokens = config.compaction?.contextTokens ?? 0;
+  let turns = 0;
+  let finished = false;
+  let costLimitReached = false;
 
   while (turnsUsed < maxTurns) {
+    if (config.isCostLimitReached?.()) {
+      costLimitReached = true;
+      break;
+    }
+
     if (turnsUsed > 0) {
       parts.push({ type: "step-start" });
       callbacks.onMessageUpdate([...parts]);
     }
 
+    const compaction = config.compaction;
+    if (
+      compaction?.auto &&
+      shouldCompact(contextTokens, compaction.contextWindow, compaction.threshold)
+    ) {
+      if (await compactConversation(messages, config, callbacks)) {
+        contextTokens = 0;
+      }
+      // The summary request is paid for too.
+      if (config.isCostLimitReached?.()) {
+        costLimitReached = true;
+        break;
+      }
+    }
+
     const turnResult = await executeTurn(messages, config, callbacks, parts);
+    turns++;
 
     fullText += turnResult.text;
+    if (turnResult.usage) {
+      contextTokens = estimateContextTokens(turnResult.usage);
+    }
 
     if (turnResult.finishReason !== "tool-calls") {
+      finished = true;
       break;
     }
 
@@ -86,7 +172,48 @@ export async function runAgentLoop(
     turnsUsed++;
   }
 
-  return { fullText, parts };
+  return {
+    fullText,
+    parts,
+    turns,
+    maxTurnsReached: !finished && !costLimitReached,
+    costLimitReached,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Compaction
+// ---------------------------------------------------------------------------
+
+async function compactConversation(
+  messages: ModelMessage[],
+  config: AgentLoopConfig,
+  callbacks: AgentLoopCallbacks,
+): Promise<boolean> {
+  if (!config.compaction || config.isCostLimitReached?.()) return false;
+
+  callbacks.onCompactStart?.();
+  let result: CompactionResult | null = null;
+  try {
+    result = await compactMessages(messages, {
+      model: config.model,
+      modelId: modelCandidates(config)[0].id,
+      keepRecentTurns: config.compaction.keepRecentTurns,
+      abortSignal: config.abortSignal,
+      onUsage: (usage) => {
+        callbacks.onUsage?.(usage);
+        if (config.logFile) logUsage(config.logFile, usage);
+      },
+    });
+  } catch {
+    // Summarization failed; carry on with the full history.
+  }
+  callbacks.onCompact?.(result);
+
+  if (result && config.logFile) {
+    logCompaction(config.logFile, result.removedCount);
+  }
+  return result !== null;
 }
 
 // ---------------------------------------------------------------------------
@@ -97,6 +224,13 @@ interface TurnResult {
   text: string;
   finishReason: string;
   toolCalls: ToolCall[];
+  usage?: TurnUsage;
+}
+
+function modelCandidates(config: AgentLoopConfig): FallbackModel[] {
+  const id = config.modelId ??
+    (typeof config.model === "string" ? config.model : config.model.modelId);
+  return [{ id, model: config.model }, ...(config.fallback?.models ?? [])];
 }
 
 async function executeTurn(
@@ -106,11 +240,26 @@ async function executeTurn(
   parts: MessagePart[],
 ): Promise<TurnResult> {
   const maxRetries = config.maxRetries ?? 2;
+  const candidates = modelCandidates(config);
+  const breaker = config.fallback?.breaker ?? modelCircuitBreaker;
+  const nextAvailable = (from: number) =>
+    candidates.findIndex((c, i) => i > from && !breaker.isOpen(c.id));
+
+  // Models still cooling down from an earlier failure are skipped, unless
+  // every one of them is.
+  let current = config.fallback ? Math.max(nextAvailable(-1), 0) : 0;
+  if (current > 0 && config.logFile) {
+    logModelFallback(config.logFile, candidates[0].id, candidates[current].id, "circuit-open");
+  }
   let attempt = 0;
+  let compacted = false;
 
   while (true) {
+    const { id, model } = candidates[current];
     try {
-      return await streamTurn(messages, config, callbacks, parts);
+      const result = await streamTurn(messages, { ...config, model, modelId: id }, callbacks, parts);
+      if (config.fallback) breaker.reset(id);
+      return result;
     } catch (error) {
       const retryResult = evaluateRetry(error, attempt, {
         maxRetries,
@@ -122,6 +271,12 @@ async function executeTurn(
       }
 
       if (retryResult.isContextExceeded) {
+        if (!compacted && config.compaction) {
+          compacted = true;
+          if (await compactConversation(messages, config, callbacks)) {
+            continue;
+          }
+        }
         callbacks.onContextExceeded?.();
         return {
           text: retryResult.errorMessage,
@@ -131,7 +286,21 @@ async function executeTurn(
       }
 
       if (!retryResult.shouldRetry) {
-        throw error;
+        if (!config.fallback || !isModelUnavailableError(error)) {
+          throw error;
+        }
+        breaker.trip(id, config.fallback.cooldownMs);
+        const next = nextAvailable(current);
+        if (next === -1) {
+          throw error;
+        }
+        callbacks.onModelFallback?.(id, candidates[next].id, retryResult.errorMessage);
+        if (config.logFile) {
+          logModelFallback(config.logFile, id, candidates[next].id, retryResult.errorMessage);
+        }
+        current = next;
+        attempt = 0;
+        continue;
       }
 
       callbacks.onRetry?.(attempt + 1, maxRetries, retryResult.delay);
@@ -215,10 +384,8 @@ async function streamTurn(
   parts: MessagePart[],
 ): Promise<TurnResult> {
   const turnStart = Date.now();
-  const modelId =
-    typeof config.model === "string"
-      ? config.model
-      : config.model.modelId;
+  const modelId = config.modelId ??
+    (typeof config.model === "string" ? config.model : config.model.modelId);
 
   if (config.logFile) {
     logRequest(config.logFile, modelId);
@@ -231,6 +398,7 @@ async function streamTurn(
     messages: cachedMessages,
     tools: config.registry.schemas,
     maxOutputTokens: config.maxOutputTokens,
+    ...buildGenerationOptions(config.generation),
     abortSignal: config.abortSignal,
     maxRetries: 0,
   });
@@ -326,6 +494,7 @@ async function streamTurn(
     outputTokens: usage.outputTokens ?? 0,
     cacheWriteTokens: usage.inputTokenDetails.cacheWriteTokens ?? undefined,
     cacheReadTokens: usage.inputTokenDetails.cacheReadTokens ?? undefined,
+    model: modelId,
   };
   callbacks.onUsage?.(turnUsage);
 
@@ -334,5 +503,5 @@ async function streamTurn(
     logUsage(config.logFile, turnUsage);
   }
 
-  return { text, finishReason, toolCalls };
+  return { text, finishReason, toolCalls, usage: turnUsage };
 }
@@ -0,0 +1,406 @@
+import { appendFile, mkdir, readFile, readdir, rm, writeFile, access } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { homedir } from "node:os";
+import { createHash } from "node:crypto";
+
+const CHECKPOINTS_DIR = join(homedir(), ".wellgrow", "checkpoints");
+const INDEX_FILE = "index.jsonl";
+const PROMPT_PREVIEW_LENGTH = 200;
+
+// ---------------------------------------------------------------------------
+// Types
+//
+// One checkpoint per user turn. Before Write/Edit first touches a file in a
+// turn, its content is saved as a blob so the file can be put back later.
+// Only checkpoints that saved a file are written to disk:
+//
+//   ~/.wellgrow/checkpoints/<session-id>/index.jsonl
+//   ~/.wellgrow/checkpoints/<session-id>/blobs/<sha256>
+// ---------------------------------------------------------------------------
+
+export interface FileSnapshot {
+  path: string;
+  /** Content before the turn changed it; null when the file did not exist. */
+  blob: string | null;
+}
+
+export interface Checkpoint {
+  id: number;
+  prompt: string;
+  timestamp: string;
+  /**
+   * Length of the conversation before this turn's prompt. Null once it no
+   * longer lines up with the messages (compaction, agent switch, rewind).
+   */
+  messageCount: number | null;
+  files: FileSnapshot[];
+}
+
+export type CheckpointEntry =
+  | { type: "meta"; session_id: string; cwd: string; timestamp: string }
+  | { type: "checkpoint"; id: number; prompt: string; timestamp: string }
+  | { type: "file"; checkpoint: number; path: string; blob: string | null }
+  | { type: "rewind"; checkpoint: number; timestamp: string };
+
+export interface CheckpointStore {
+  readonly sessionId: string;
+  /** Start the checkpoint for a new user turn. */
+  begin: (prompt: string, messageCount: number) => Checkpoint;
+  /** Save a file's current content unless this turn already has. */
+  snapshot: (path: string) => Promise<void>;
+  /** Oldest first. */
+  list: () => Checkpoint[];
+  get: (id: number) => Checkpoint | undefined;
+  /** The conversation was rewritten; earlier positions no longer apply. */
+  invalidateConversation: () => void;
+  /**
+   * Put every file changed since the start of checkpoint `id` back the way
+   * it was then. Returns the restored paths.
+   */
+  restoreFiles: (id: number) => Promise<string[]>;
+  /** Forget conversation positions from checkpoint `id` on. */
+  markConversationRewound: (id: number) => void;
+}
+
+export function getCheckpointsDir(): string {
+  return CHECKPOINTS_DIR;
+}
+
+function hashContent(content: Buffer): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Store
+// ---------------------------------------------------------------------------
+
+/**
+ * `stored` are the entries already on disk for a resumed session; their
+ * checkpoints can restore files but no longer know their place in the
+ * conversation.
+ */
+export function createCheckpointStore(
+  sessionId: string,
+  cwd: string,
+  stored: CheckpointEntry[] = [],
+): CheckpointStore {
+  const sessionDir = join(CHECKPOINTS_DIR, sessionId);
+  const blobsDir = join(sessionDir, "blobs");
+  const checkpoints: Checkpoint[] = [];
+  const persisted = new Set<number>();
+  let nextId = 1;
+  let current: Checkpoint | null = null;
+  const pending = new Map<string, Promise<void>>();
+  let metaWritten = false;
+
+  for (const entry of stored) {
+    switch (entry.type) {
+      case "meta":
+        metaWritten = true;
+        break;
+      case "checkpoint":
+        checkpoints.push({
+          id: entry.id,
+          prompt: entry.prompt,
+          timestamp: entry.timestamp,
+          messageCount: null,
+          files: [],
+        });
+        persisted.add(entry.id);
+        nextId = Math.max(nextId, entry.id + 1);
+        break;
+      case "file":
+        checkpoints
+          .find((c) => c.id === entry.checkpoint)
+          ?.files.push({ path: entry.path, blob: entry.blob });
+        break;
+      case "rewind":
+        for (const checkpoint of checkpoints) {
+          if (checkpoint.id >= entry.checkpoint) checkpoint.files = [];
+        }
+        break;
+    }
+  }
+
+  // Appends are chained so entries land in the file in call order.
+  let writeChain: Promise<void> = Promise.resolve();
+  const write = (entry: CheckpointEntry): Promise<void> => {
+    writeChain = writeChain
+      .catch(() => {})
+      .then(async () => {
+        await mkdir(sessionDir, { recursive: true });
+        await appendFile(join(sessionDir, INDEX_FILE), JSON.stringify(entry) + "\n", "utf-8");
+      });
+    return writeChain;
+  };
+
+  const persistCheckpoint = (checkpoint: Checkpoint): void => {
+    if (persisted.has(checkpoint.id)) return;
+    persisted.add(checkpoint.id);
+    if (!metaWritten) {
+      metaWritten = true;
+      void write({
+        type: "meta",
+        session_id: sessionId,
+        cwd,
+        timestamp: new Date().toISOString(),
+      });
+    }
+    void write({
+      type: "checkpoint",
+      id: checkpoint.id,
+      prompt: checkpoint.prompt,
+      timestamp: checkpoint.timestamp,
+    });
+  };
+
+  const saveBlob = async (content: Buffer): Promise<string> => {
+    const hash = hashContent(content);
+    const blobPath = join(blobsDir, hash);
+    if (!(await exists(blobPath))) {
+      await mkdir(blobsDir, { recursive: true });
+      await writeFile(blobPath, content);
+    }
+    return hash;
+  };
+
+  const takeSnapshot = async (checkpoint: Checkpoint, path: string): Promise<void> => {
+    let content: Buffer | null = null;
+    try {
+      content = await readFile(path);
+    } catch {
+      // new file: restoring deletes it
+    }
+    const snapshot: FileSnapshot = {
+      path,
+      blob: content === null ? null : await saveBlob(content),
+    };
+    checkpoint.files.push(snapshot);
+
+    persistCheckpoint(checkpoint);
+    await write({ type: "file", checkpoint: checkpoint.id, path, blob: snapshot.blob });
+  };
+
+  const prune = () => {
+    for (let i = checkpoints.length - 1; i >= 0; i--) {
+      const checkpoint = checkpoints[i];
+      if (checkpoint !== current && checkpoint.files.length === 0 && checkpoint.messageCount === null) {
+        checkpoints.splice(i, 1);
+      }
+    }
+  };
+
+  return {
+    sessionId,
+
+    begin(prompt, messageCount) {
+      current = {
+        id: nextId++,
+        prompt: prompt.slice(0, PROMPT_PREVIEW_LENGTH),
+        timestamp: new Date().toISOString(),
+        messageCount,
+        files: [],
+      };
+      checkpoints.push(current);
+      return current;
+    },
+
+    async snapshot(path) {
+      const checkpoint = current;
+      if (!checkpoint) return;
+      // parallel writes to one file share a single snapshot
+      const key = `${checkpoint.id}:${path}`;
+      let task = pending.get(key);
+      if (!task) {
+        task = takeSnapshot(checkpoint, path);
+        pending.set(key, task);
+      }
+      await task;
+    },
+
+    list() {
+      return [...checkpoints];
+    },
+
+    get(id) {
+      return checkpoints.find((c) => c.id === id);
+    },
+
+    invalidateConversation() {
+      for (const checkpoint of checkpoints) checkpoint.messageCount = null;
+      prune();
+    },
+
+    async restoreFiles(id) {
+      // The oldest snapshot of each file is its state before checkpoint `id`.
+      const originals = new Map<string, string | null>();
+      for (const checkpoint of checkpoints) {
+        if (checkpoint.id < id) continue;
+        for (const file of checkpoint.files) {
+          if (!originals.has(file.path)) originals.set(file.path, file.blob);
+        }
+      }
+
+      for (const [path, blob] of originals) {
+        if (blob === null) {
+          await rm(path, { force: true });
+        } else {
+          const content = await readFile(join(blobsDir, blob));
+          await mkdir(dirname(path), { recursive: true });
+          await writeFile(path, content);
+        }
+      }
+
+      for (const checkpoint of checkpoints) {
+        if (checkpoint.id >= id) checkpoint.files = [];
+      }
+      current = null;
+      pending.clear();
+      prune();
+      await write({ type: "rewind", checkpoint: id, timestamp: new Date().toISOString() });
+      return [...originals.keys()];
+    },
+
+    markConversationRewound(id) {
+      for (const checkpoint of checkpoints) {
+        if (checkpoint.id >= id) checkpoint.messageCount = null;
+      }
+      if (current && current.id >= id) current = null;
+      prune();
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Reading stored checkpoints (wellgrow checkpoints)
+// ---------------------------------------------------------------------------
+
+export interface StoredCheckpoint {
+  id: number;
+  prompt: string;
+  timestamp: string;
+  files: FileSnapshot[];
+}
+
+export interface StoredCheckpointSession {
+  sessionId: string;
+  cwd: string;
+  timestamp: string;
+  checkpoints: StoredCheckpoint[];
+  /** Checkpoint ids whose files were restored with /rewind. */
+  rewinds: number[];
+}
+
+export function parseCheckpointEntries(content: string): CheckpointEntry[] {
+  const entries: CheckpointEntry[] = [];
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as CheckpointEntry);
+    } catch {
+      // a crash can leave a truncated last line; skip it
+    }
+  }
+  return entries;
+}
+
+/** The session's index entries in write order; empty when it has none. */
+export async function readCheckpointEntries(sessionId: string): Promise<CheckpointEntry[]> {
+  try {
+    const content = await readFile(join(CHECKPOINTS_DIR, sessionId, INDEX_FILE), "utf-8");
+    return parseCheckpointEntries(content);
+  } catch {
+    return [];
+  }
+}
+
+async function readCheckpointSession(
+  sessionId: string,
+): Promise<StoredCheckpointSession | null> {
+  const entries = await readCheckpointEntries(sessionId);
+  if (entries.length === 0) return null;
+
+  const session: StoredCheckpointSession = {
+    sessionId,
+    cwd: "",
+    timestamp: "",
+    checkpoints: [],
+    rewinds: [],
+  };
+  for (const entry of entries) {
+    switch (entry.type) {
+      case "meta":
+        session.cwd = entry.cwd;
+        session.timestamp = entry.timestamp;
+        break;
+      case "checkpoint":
+        session.checkpoints.push({
+          id: entry.id,
+          prompt: entry.prompt,
+          timestamp: entry.timestamp,
+          files: [],
+        });
+        break;
+      case "file":
+        session.checkpoints
+          .find((c) => c.id === entry.checkpoint)
+          ?.files.push({ path: entry.path, blob: entry.blob });
+        break;
+      case "rewind":
+        session.rewinds.push(entry.checkpoint);
+        break;
+    }
+  }
+  return session;
+}
+
+/** Newest first. */
+export async function listCheckpointSessions(
+  limit = 20,
+): Promise<StoredCheckpointSession[]> {
+  let ids: string[];
+  try {
+    ids = await readdir(CHECKPOINTS_DIR);
+  } catch {
+    return [];
+  }
+
+  const sessions: StoredCheckpointSession[] = [];
+  for (const id of ids) {
+    const session = await readCheckpointSession(id);
+    if (session) sessions.push(session);
+  }
+  return sessions
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+    .slice(0, limit);
+}
+
+/** Accepts a unique prefix of the session id. */
+export async function loadCheckpointSession(
+  sessionId: string,
+): Promise<StoredCheckpointSession | null> {
+  let ids: string[];
+  try {
+    ids = await readdir(CHECKPOINTS_DIR);
+  } catch {
+    return null;
+  }
+  const matches = ids.filter((id) => id.startsWith(sessionId));
+  return matches.length === 1 ? readCheckpointSession(matches[0]) : null;
+}
+
+export async function readCheckpointBlob(
+  sessionId: string,
+  blob: string,
+): Promise<string> {
+  return readFile(join(CHECKPOINTS_DIR, sessionId, "blobs", blob), "utf-8");
+}
@@ -0,0 +1,199 @@
+import { streamText, type LanguageModel, type ModelMessage } from "ai";
+import { ANTHROPIC_CACHE_BREAKPOINT, type TurnUsage } from "../ai/cache.js";
+
+const SUMMARY_MAX_OUTPUT_TOKENS = 8192;
+const TOOL_IO_PREVIEW_CHARS = 2000;
+
+const SUMMARY_OPEN_TAG = "<conversation_summary>";
+const SUMMARY_CLOSE_TAG = "</conversation_summary>";
+
+const COMPACTION_SYSTEM_PROMPT = `あなたは会話履歴を要約するアシスタントです。
+以下の会話は、この後も続くエージェントとユーザーのやり取りの前半部分です。
+会話を継続するために必要な情報を失わないよう、次の観点で簡潔かつ具体的に要約してください:
+- ユーザーの目的・依頼内容と、その変化
+- これまでに行った作業（読んだ・編集したファイル、実行したコマンドとその結果）
+- 決定事項、ユーザーの好みや制約
+- 未完了のタスクと次にやるべきこと
+要約本文のみを出力してください。`;
+
+export interface CompactionSettings {
+  /** Compact automatically before a turn once the threshold is crossed. */
+  auto: boolean;
+  /** Fraction of the context window (0-1) that triggers auto compaction. */
+  threshold: number;
+  /** Number of most recent user turns kept verbatim. */
+  keepRecentTurns: number;
+}
+
+export interface CompactionOptions {
+  model: LanguageModel;
+  /** ID of `model` as configured, so the summary request can be priced. */
+  modelId?: string;
+  keepRecentTurns: number;
+  instructions?: string;
+  abortSignal?: AbortSignal;
+  /** Called with the usage of the summary request, like a normal turn's. */
+  onUsage?: (usage: TurnUsage) => void;
+}
+
+export interface CompactionResult {
+  summary: string;
+  removedCount: number;
+}
+
+export function isCompactionSummary(message: ModelMessage): boolean {
+  return (
+    message.role === "user" &&
+    typeof message.content === "string" &&
+    message.content.startsWith(SUMMARY_OPEN_TAG)
+  );
+}
+
+export function shouldCompact(
+  contextTokens: number,
+  contextWindow: number,
+  threshold: number,
+): boolean {
+  return contextTokens > 0 && contextTokens >= contextWindow * threshold;
+}
+
+/**
+ * Index of the first message to keep verbatim. The split always lands on a
+ * user message so tool-call / tool-result pairs are never separated.
+ * Returns 0 when there is nothing worth summarizing.
+ */
+export function findCompactionSplit(
+  messages: readonly ModelMessage[],
+  keepRecentTurns: number,
+): number {
+  const userIndices: number[] = [];
+  for (let i = 0; i < messages.length; i++) {
+    const m = messages[i];
+    if (m.role === "user" && !isCompactionSummary(m)) userIndices.push(i);
+  }
+
+  const keep = Math.max(1, keepRecentTurns);
+  if (userIndices.length <= keep) return 0;
+  return userIndices[userIndices.length - keep];
+}
+
+// ---------------------------------------------------------------------------
+// Transcript rendering — older messages are flattened to text so the
+// summarization request carries no tool_use blocks (which would require the
+// tool schemas to be sent along).
+// ---------------------------------------------------------------------------
+
+function preview(value: unknown): string {
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  if (text === undefined) return "";
+  return text.length > TOOL_IO_PREVIEW_CHARS
+    ? `${text.slice(0, TOOL_IO_PREVIEW_CHARS)}…(省略)`
+    : text;
+}
+
+function renderMessage(message: ModelMessage): string {
+  if (typeof message.content === "string") {
+    return `[${message.role}]\n${message.content}`;
+  }
+
+  const lines: string[] = [];
+  for (const part of message.content) {
+    switch (part.type) {
+      case "text":
+        lines.push(part.text);
+        break;
+      case "reasoning":
+        break;
+      case "tool-call":
+        lines.push(`(tool call) ${part.toolName} ${preview(part.input)}`);
+        break;
+      case "tool-result": {
+        const output = part.output;
+        const value =
+          output.type === "execution-denied"
+            ? `denied: ${output.reason ?? ""}`
+            : "value" in output
+              ? output.value
+              : "";
+        lines.push(`(tool result) ${part.toolName} ${preview(value)}`);
+        break;
+      }
+    }
+  }
+  return `[${message.role}]\n${lines.join("\n")}`;
+}
+
+export function renderTranscript(messages: readonly ModelMessage[]): string {
+  return messages.map(renderMessage).join("\n\n");
+}
+
+// ---------------------------------------------------------------------------
+// Summarize and splice
+// ---------------------------------------------------------------------------
+
+export async function summarizeMessages(
+  messages: readonly ModelMessage[],
+  options: Omit<CompactionOptions, "keepRecentTurns" | "onUsage">,
+): Promise<{ summary: string; usage: TurnUsage }> {
+  const instructions = options.instructions
+    ? `\n\n要約の際は次の指示にも従ってください:\n${options.instructions}`
+    : "";
+
+  const result = streamText({
+    model: options.model,
+    system: COMPACTION_SYSTEM_PROMPT,
+    messages: [
+      {
+        role: "user",
+        content: `<conversation>\n${renderTranscript(messages)}\n</conversation>${instructions}`,
+      },
+    ],
+    maxOutputTokens: SUMMARY_MAX_OUTPUT_TOKENS,
+    abortSignal: options.abortSignal,
+  });
+
+  const [text, usage] = await Promise.all([result.text, result.usage]);
+  return {
+    summary: text.trim(),
+    usage: {
+      inputTokens: usage.inputTokens ?? 0,
+      outputTokens: usage.outputTokens ?? 0,
+      cacheWriteTokens: usage.inputTokenDetails.cacheWriteTokens ?? undefined,
+      cacheReadTokens: usage.inputTokenDetails.cacheReadTokens ?? undefined,
+      model: options.modelId,
+    },
+  };
+}
+
+/**
+ * Replace older turns in `messages` (in place) with a model-written summary.
+ * The summary message carries its own cache breakpoint so the compacted
+ * prefix is reused by prepareCachedMessages on every following turn.
+ */
+export async function compactMessages(
+  messages: ModelMessage[],
+  options: CompactionOptions,
+): Promise<CompactionResult | null> {
+  const split = findCompactionSplit(messages, options.keepRecentTurns);
+  if (split <= 0) return null;
+
+  const older = messages.slice(0, split);
+  const { summary, usage } = await summarizeMessages(older, options);
+  options.onUsage?.(usage);
+  if (!summary) return null;
+
+  const summaryMessages: ModelMessage[] = [
+    {
+      role: "user",
+      content: `${SUMMARY_OPEN_TAG}\nこれまでの会話の要約です:\n\n${summary}\n${SUMMARY_CLOSE_TAG}`,
+      providerOptions: ANTHROPIC_CACHE_BREAKPOINT,
+    },
+    {
+      role: "assistant",
+      content: "要約を確認しました。会話を続けます。",
+    },
+  ];
+  messages.splice(0, split, ...summaryMessages);
+
+  return { summary, removedCount: older.length };
+}
@@ -2,6 +2,8 @@ import { randomUUID } from "node:crypto";
 import { createAskUserState, type AskUserState } from "../tools/ask-user.js";
 import type { TodoItem } from "../tools/todo-write.js";
 import type { McpManager } from "../extensions/mcp.js";
+import type { CheckpointStore } from "./checkpoints.js";
+import type { CostTracker } from "./costs.js";
 
 export interface AgentContext {
   readFiles: Map<string, string>;
@@ -18,11 +20,17 @@ export interface AbortState {
 export interface SessionContext {
   sessionId: string;
   cwd: string;
+  /** Directory the session started in; project-scoped files live here. */
+  projectDir: string;
   nextTerminalId: number;
   logFile: string | null;
 
   abort: AbortState;
   mcpManager: McpManager | null;
+  /** File snapshots taken before Write/Edit, for /rewind. */
+  checkpoints: CheckpointStore | null;
+  /** Spend of this session; sub-agents add to the same tracker. */
+  cost: CostTracker | null;
 
   agent: AgentContext;
 }
@@ -43,14 +51,20 @@ export function createAgentContext(): AgentContext {
   };
 }
 
-export function createSessionContext(): SessionContext {
+export function createSessionContext(
+  cwd = process.cwd(),
+  sessionId: string = randomUUID(),
+): SessionContext {
   return {
-    sessionId: randomUUID(),
-    cwd: process.cwd(),
+    sessionId,
+    cwd,
+    projectDir: cwd,
     nextTerminalId: 1,
     logFile: null,
     abort: createAbortState(),
     mcpManager: null,
+    checkpoints: null,
+    cost: null,
     agent: createAgentContext(),
   };
 }
@@ -0,0 +1,154 @@
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { homedir } from "node:os";
+import type { TurnUsage } from "../ai/cache.js";
+import { calculateCost, formatUsd, getModelPricing } from "../ai/pricing.js";
+import type { WellGrowConfig } from "../config/types.js";
+
+const COSTS_DIR = join(homedir(), ".wellgrow", "costs");
+
+// ---------------------------------------------------------------------------
+// Types
+//
+// Every priced model request is appended to a ledger per local day, shared
+// by all sessions, so the daily limit sees spend from other terminals too:
+//
+//   ~/.wellgrow/costs/<YYYY-MM-DD>.jsonl
+// ---------------------------------------------------------------------------
+
+export interface CostLedgerEntry {
+  timestamp: string;
+  session_id: string;
+  model: string;
+  cost_usd: number;
+}
+
+export interface CostLimits {
+  /** USD per session (max_cost_usd). */
+  session?: number;
+  /** USD per local day across all sessions (max_daily_cost_usd). */
+  daily?: number;
+}
+
+export type CostLimitKind = "session" | "daily";
+
+export interface CostTracker {
+  /** USD spent in this session, sub-agents and earlier runs included. */
+  sessionUsd: number;
+  /** USD spent today across all sessions, as of the last refresh. */
+  dailyUsd: number;
+  limits: CostLimits;
+  /** Models whose price is unknown; their requests count as $0. */
+  unpricedModels: Set<string>;
+  /** Price one request and add it to the totals and the ledger; null when the price is unknown. */
+  add: (usage: TurnUsage) => number | null;
+  /** Re-read today's ledger, picking up other sessions' spend. */
+  refreshDaily: () => Promise<void>;
+  exceededLimit: () => CostLimitKind | null;
+}
+
+export interface CostTrackerOptions {
+  sessionId: string;
+  pricing?: WellGrowConfig["pricing"];
+  limits?: CostLimits;
+}
+
+// ---------------------------------------------------------------------------
+// Ledger
+// ---------------------------------------------------------------------------
+
+function ledgerPath(date: Date): string {
+  const day = [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0"),
+  ].join("-");
+  return join(COSTS_DIR, `${day}.jsonl`);
+}
+
+export async function readCostLedger(date = new Date()): Promise<CostLedgerEntry[]> {
+  let content: string;
+  try {
+    content = await readFile(ledgerPath(date), "utf-8");
+  } catch {
+    return [];
+  }
+  const entries: CostLedgerEntry[] = [];
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as CostLedgerEntry);
+    } catch {
+      // a crash can leave a truncated last line; skip it
+    }
+  }
+  return entries;
+}
+
+export async function getDailyCost(date = new Date()): Promise<number> {
+  const entries = await readCostLedger(date);
+  return entries.reduce((sum, e) => sum + e.cost_usd, 0);
+}
+
+// ---------------------------------------------------------------------------
+// Tracker
+// ---------------------------------------------------------------------------
+
+export function createCostTracker(options: CostTrackerOptions): CostTracker {
+  // Appends are chained so refreshDaily sees this session's own entries.
+  let writeChain: Promise<void> = Promise.resolve();
+
+  const tracker: CostTracker = {
+    sessionUsd: 0,
+    dailyUsd: 0,
+    limits: options.limits ?? {},
+    unpricedModels: new Set(),
+
+    add(usage) {
+      const model = usage.model ?? "unknown";
+      const pricing = getModelPricing(model, options.pricing);
+      if (!pricing) {
+        tracker.unpricedModels.add(model);
+        return null;
+      }
+      const cost = calculateCost(usage, pricing);
+      tracker.sessionUsd += cost;
+      tracker.dailyUsd += cost;
+      if (cost > 0) {
+        const now = new Date();
+        const entry: CostLedgerEntry = {
+          timestamp: now.toISOString(),
+          session_id: options.sessionId,
+          model,
+          cost_usd: cost,
+        };
+        writeChain = writeChain
+          .then(async () => {
+            await mkdir(COSTS_DIR, { recursive: true });
+            await appendFile(ledgerPath(now), JSON.stringify(entry) + "\n", "utf-8");
+          })
+          .catch(() => {});
+      }
+      return cost;
+    },
+
+    async refreshDaily() {
+      await writeChain;
+      tracker.dailyUsd = await getDailyCost();
+    },
+
+    exceededLimit() {
+      const { session, daily } = tracker.limits;
+      if (session !== undefined && tracker.sessionUsd >= session) return "session";
+      if (daily !== undefined && tracker.dailyUsd >= daily) return "daily";
+      return null;
+    },
+  };
+  return tracker;
+}
+
+export function describeCostLimit(kind: CostLimitKind, tracker: CostTracker): string {
+  return kind === "session"
+    ? `このセッションの利用料金が上限（${formatUsd(tracker.limits.session ?? 0)}）に達したため停止しました。max_cost_usd で変更できます。`
+    : `今日の利用料金が上限（${formatUsd(tracker.limits.daily ?? 0)}）に達したため停止しました。max_daily_cost_usd で変更できます。`;
+}
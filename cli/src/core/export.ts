@@ -0,0 +1,305 @@
+import { Marked } from "marked";
+import type { ModelMessage } from "ai";
+import type { DisplayMessage, MessagePart } from "../ui/message-list.js";
+import { colors } from "../ui/colors.js";
+import { replayMessages } from "./transcript.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export const EXPORT_FORMATS = ["md", "html", "json"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/** A recorded transcript or the live session. */
+export interface ExportSource {
+  sessionId: string;
+  agent: string;
+  model: string;
+  startedAt?: string;
+  cwd?: string;
+  messages: readonly ModelMessage[];
+}
+
+type ToolPart = Extract<MessagePart, { type: "tool" }>;
+
+const TOOL_ICONS: Record<ToolPart["state"], string> = {
+  "input-streaming": "⋯",
+  "input-available": "⋯",
+  "output-available": "✓",
+  "output-error": "✗",
+  "output-denied": "⊘",
+};
+
+const TITLE_LENGTH = 50;
+const TOOL_HINT_LENGTH = 60;
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+export function exportSession(source: ExportSource, format: ExportFormat): string {
+  switch (format) {
+    case "md":
+      return exportMarkdown(source);
+    case "html":
+      return exportHtml(source);
+    case "json":
+      return exportJson(source);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Shared helpers
+// ---------------------------------------------------------------------------
+
+function messageText(message: DisplayMessage): string {
+  return message.parts
+    .map((p) => (p.type === "text" ? p.text : ""))
+    .join("");
+}
+
+function title(display: DisplayMessage[]): string {
+  const first = display.find((m) => m.role === "user");
+  const text = first ? messageText(first).replace(/\s+/g, " ").trim() : "";
+  return text.slice(0, TITLE_LENGTH) || "(空セッション)";
+}
+
+function metadata(source: ExportSource): Array<[string, string]> {
+  const rows: Array<[string, string]> = [
+    ["セッション", source.sessionId],
+    ["エージェント", source.agent],
+    ["モデル", source.model],
+  ];
+  if (source.startedAt) {
+    rows.push(["開始", new Date(source.startedAt).toLocaleString("ja-JP")]);
+  }
+  if (source.cwd) rows.push(["ディレクトリ", source.cwd]);
+  return rows;
+}
+
+/** The tool name plus its first string argument (path, command, pattern…). */
+function toolSummary(part: ToolPart): string {
+  const input = (part.input ?? {}) as Record<string, unknown>;
+  const hint = Object.values(input).find((v): v is string => typeof v === "string");
+  const short = hint && hint.length > TOOL_HINT_LENGTH
+    ? `${hint.slice(0, TOOL_HINT_LENGTH)}…`
+    : hint;
+  return `${TOOL_ICONS[part.state]} ${part.toolName}${short ? `: ${short.replace(/\s+/g, " ")}` : ""}`;
+}
+
+function stringify(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value, null, 2);
+}
+
+function toolResult(part: ToolPart): string | undefined {
+  if (part.state === "output-available") {
+    return part.output === undefined ? undefined : stringify(part.output);
+  }
+  return part.errorText;
+}
+
+// ---------------------------------------------------------------------------
+// Markdown — tool calls as collapsible <details> blocks
+// ---------------------------------------------------------------------------
+
+/** A code fence longer than any backtick run inside the text. */
+function fenced(text: string, lang = ""): string {
+  const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = "`".repeat(longest + 1);
+  return `${fence}${lang}\n${text}\n${fence}`;
+}
+
+function markdownPart(part: MessagePart): string | null {
+  switch (part.type) {
+    case "text":
+      return part.text || null;
+    case "reasoning":
+      return part.text
+        ? `<details>\n<summary>思考</summary>\n\n${part.text.split("\n").map((l) => `> ${l}`).join("\n")}\n\n</details>`
+        : null;
+    case "tool": {
+      const lines = [
+        "<details>",
+        `<summary>${escapeHtml(toolSummary(part))}</summary>`,
+        "",
+        "入力:",
+        "",
+        fenced(stringify(part.input ?? {}), "json"),
+      ];
+      const result = toolResult(part);
+      if (result !== undefined) {
+        lines.push("", part.state === "output-available" ? "結果:" : "エラー:", "", fenced(result));
+      }
+      lines.push("", "</details>");
+      return lines.join("\n");
+    }
+    case "step-start":
+      return null;
+    case "source-url":
+      return `📎 [${part.title ?? part.url}](${part.url})`;
+  }
+}
+
+function exportMarkdown(source: ExportSource): string {
+  const display = replayMessages(source.messages);
+  const sections = [
+    `# ${title(display)}`,
+    metadata(source).map(([key, value]) => `- ${key}: ${value}`).join("\n"),
+  ];
+  for (const message of display) {
+    const blocks = message.parts
+      .map(markdownPart)
+      .filter((b): b is string => b !== null);
+    if (blocks.length === 0) continue;
+    sections.push(
+      `## ${message.role === "user" ? "ユーザー" : source.agent}`,
+      ...blocks,
+    );
+  }
+  return sections.join("\n\n") + "\n";
+}
+
+// ---------------------------------------------------------------------------
+// HTML — a standalone page styled like MessageItem in the terminal
+// ---------------------------------------------------------------------------
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+const SAFE_URL_PATTERN = /^(?:https?:|mailto:)/i;
+
+/** Links and images may only point at http(s) and mailto — never `javascript:`. */
+function isSafeUrl(url: string): boolean {
+  return SAFE_URL_PATTERN.test(url.trim());
+}
+
+// Raw HTML in model output is shown as text, never rendered; links to any
+// other scheme keep only their text.
+const htmlMarked = new Marked({
+  renderer: {
+    html: ({ text }) => escapeHtml(text),
+    link(token) {
+      return isSafeUrl(token.href) ? false : this.parser.parseInline(token.tokens);
+    },
+    image(token) {
+      return isSafeUrl(token.href) ? false : escapeHtml(token.text);
+    },
+  },
+});
+
+const CONTENT_SECURITY_POLICY =
+  "default-src 'none'; style-src 'unsafe-inline'; img-src http: https:";
+
+const STYLE = `
+body { background: #1e1e1e; color: #e6e6e6; font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; font-size: 14px; line-height: 1.6; max-width: 960px; margin: 0 auto; padding: 24px; }
+header { color: ${colors.fog}; border-bottom: 1px solid #333; margin-bottom: 24px; }
+header h1 { color: ${colors.signature}; font-size: 18px; }
+header dl { display: grid; grid-template-columns: max-content 1fr; gap: 2px 16px; }
+header dd { margin: 0; color: #e6e6e6; }
+.message { margin: 16px 0; }
+.user { border-left: 3px solid ${colors.joy}; padding-left: 8px; white-space: pre-wrap; }
+.text h1, .text h2, .text h3 { color: ${colors.growth}; font-size: 1em; }
+.text code { color: #e5c07b; }
+.text pre { background: #252526; padding: 8px; overflow-x: auto; }
+.text a { color: #569cd6; }
+.text blockquote { color: ${colors.fog}; font-style: italic; margin-left: 0; padding-left: 12px; border-left: 2px solid #444; }
+.reasoning { color: ${colors.fog}; opacity: 0.8; white-space: pre-wrap; }
+.step { color: ${colors.fog}; }
+details.tool { color: ${colors.fog}; }
+details.tool.error, details.tool.error summary { color: ${colors.energy}; }
+details.tool summary { cursor: pointer; }
+details.tool pre { background: #252526; color: #cccccc; padding: 8px; overflow-x: auto; white-space: pre-wrap; }
+.source { color: ${colors.fog}; }
+`;
+
+function htmlPart(part: MessagePart, index: number): string | null {
+  switch (part.type) {
+    case "text":
+      return part.text
+        ? `<div class="text">${htmlMarked.parse(part.text, { async: false })}</div>`
+        : null;
+    case "reasoning":
+      return part.text ? `<div class="reasoning">${escapeHtml(part.text)}</div>` : null;
+    case "tool": {
+      const result = toolResult(part);
+      const error = part.state === "output-error" ? " error" : "";
+      return [
+        `<details class="tool${error}">`,
+        `<summary>${escapeHtml(toolSummary(part))}</summary>`,
+        `<pre>${escapeHtml(stringify(part.input ?? {}))}</pre>`,
+        result !== undefined ? `<pre>${escapeHtml(result)}</pre>` : "",
+        "</details>",
+      ].join("");
+    }
+    case "step-start":
+      return index > 0 ? `<div class="step">✦</div>` : null;
+    case "source-url": {
+      const label = escapeHtml(part.title ?? part.url);
+      return isSafeUrl(part.url)
+        ? `<div class="source">📎 <a href="${escapeHtml(part.url)}">${label}</a></div>`
+        : `<div class="source">📎 ${label}</div>`;
+    }
+  }
+}
+
+function exportHtml(source: ExportSource): string {
+  const display = replayMessages(source.messages);
+  const heading = escapeHtml(title(display));
+  const rows = metadata(source)
+    .map(([key, value]) => `<dt>${escapeHtml(key)}</dt><dd>${escapeHtml(value)}</dd>`)
+    .join("");
+  const body = display.map((message) =>
+    message.role === "user"
+      ? `<div class="message user">${escapeHtml(messageText(message))}</div>`
+      : `<div class="message assistant">${message.parts
+          .map(htmlPart)
+          .filter((p): p is string => p !== null)
+          .join("\n")}</div>`,
+  );
+
+  return `<!DOCTYPE html>
+<html lang="ja">
+<head>
+<meta charset="utf-8">
+<meta http-equiv="Content-Security-Policy" content="${CONTENT_SECURITY_POLICY}">
+<title>${heading}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<header><h1>${heading}</h1><dl>${rows}</dl></header>
+${body.join("\n")}
+</body>
+</html>
+`;
+}
+
+// ---------------------------------------------------------------------------
+// JSON — ModelMessages with string content expanded to text parts
+// ---------------------------------------------------------------------------
+
+function normalizeMessage(message: ModelMessage): ModelMessage {
+  if (message.role === "system" || typeof message.content !== "string") return message;
+  return { ...message, content: [{ type: "text", text: message.content }] } as ModelMessage;
+}
+
+function exportJson(source: ExportSource): string {
+  return JSON.stringify(
+    {
+      session_id: source.sessionId,
+      agent: source.agent,
+      model: source.model,
+      started_at: source.startedAt,
+      cwd: source.cwd,
+      messages: source.messages.map(normalizeMessage),
+    },
+    null,
+    2,
+  ) + "\n";
+}
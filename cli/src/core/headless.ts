@@ -0,0 +1,541 @@
+import { createInterface } from "node:readline";
+import { randomUUID } from "node:crypto";
+import { z } from "zod";
+import {
+  createSession,
+  restoreSession,
+  sendMessage,
+  startSession,
+  type Session,
+  type SendMessageResult,
+} from "./session.js";
+import {
+  createSessionRecorder,
+  type SessionRecorder,
+  type SessionTranscript,
+} from "./history.js";
+import type { AgentLoopCallbacks } from "./agent-loop.js";
+import { loadConfig } from "../config/index.js";
+import type { WellGrowConfig } from "../config/types.js";
+import { getModelDisplayName } from "../ai/providers.js";
+import { initLogger } from "../logging.js";
+import type { Mode } from "../tools/pipeline.js";
+import type { ErasedToolDefinition } from "../tools/definition.js";
+import type { AgentDefinition } from "../agents/types.js";
+import type { MessagePart } from "../ui/message-list.js";
+import type { ApprovalDecision } from "../ui/approval-prompt.js";
+import { formatErrorMessage, isApiError } from "../ai/retry.js";
+import { clearAbortState, createAbortController } from "../signals.js";
+import {
+  cancelAllPendingAskUser,
+  resolveAskUser,
+  type AskUserAnswer,
+} from "../tools/ask-user.js";
+import {
+  addUsage,
+  createOneShotReporter,
+  createUsageTotals,
+  resolveOneShotStatus,
+  serializeEvent,
+  summarizeToolCalls,
+  type OneShotReporter,
+  type OneShotResult,
+  type OutputEvent,
+} from "./output-format.js";
+
+// ---------------------------------------------------------------------------
+// Session setup without the Ink UI
+// ---------------------------------------------------------------------------
+
+export interface HeadlessSessionOptions {
+  agent?: string;
+  /** Inline agent used instead of loading `agent` from disk. */
+  definition?: AgentDefinition;
+  tools?: ErasedToolDefinition[];
+  model?: string;
+  mode?: Mode;
+  cwd?: string;
+  resume?: SessionTranscript;
+  verbose?: boolean;
+}
+
+export interface HeadlessSession {
+  config: WellGrowConfig;
+  session: Session;
+  recorder: SessionRecorder;
+  agentName: string;
+  mode: Mode;
+}
+
+/**
+ * Create, optionally restore, and start a session with its history
+ * recorder. Options fall back to the resumed session, then the agent and
+ * the config.
+ */
+export async function createHeadlessSession(
+  options: HeadlessSessionOptions = {},
+): Promise<HeadlessSession> {
+  const { resume } = options;
+  const config = await loadConfig();
+  const agentName =
+    resume?.agent ?? options.agent ?? options.definition?.agent.name ?? config.default.agent;
+
+  const session = await createSession({
+    agentName,
+    definition: options.definition,
+    tools: options.tools,
+    modelOverride: options.model ?? resume?.model,
+    modeOverride: options.mode ?? resume?.mode,
+    cwd: options.cwd,
+    sessionId: resume?.sessionId,
+  });
+  if (resume) restoreSession(session, resume);
+  const mode = session.agent.pipeline.mode;
+
+  if (options.verbose ?? config.logging.verbose) {
+    session.ctx.logFile = await initLogger(randomUUID(), config.logging.log_dir);
+  }
+
+  const recorder = await createSessionRecorder(
+    getModelDisplayName(session.agent.modelId),
+    agentName,
+    {
+      sessionId: session.ctx.sessionId,
+      cwd: session.ctx.cwd,
+      mode,
+      resume,
+      maxSessions: config.history.max_sessions,
+    },
+  );
+
+  await startSession(session, resume ? "resume" : "startup");
+  return { config, session, recorder, agentName, mode };
+}
+
+// ---------------------------------------------------------------------------
+// One turn without the Ink UI (one-shot and stream-json input)
+// ---------------------------------------------------------------------------
+
+export interface HeadlessTurnOptions {
+  agentName: string;
+  config: WellGrowConfig;
+  recorder: SessionRecorder;
+  reporter: OneShotReporter;
+  stderr: (text: string) => void;
+  onApprovalRequest?: AgentLoopCallbacks["onApprovalRequest"];
+  onToolUIEvent?: AgentLoopCallbacks["onToolUIEvent"];
+}
+
+/** Slash commands don't exist here, so point at the interactive chat. */
+function contextExceededMessage(sessionId: string): string {
+  return `コンテキストウィンドウの上限に達しました。入力を短くするか、wellgrow -r ${sessionId} で対話モードで再開し、/compact で会話を要約してから再試行してください。`;
+}
+
+/**
+ * Send one prompt and report it through `reporter`. Failures end up in the
+ * returned result rather than being thrown.
+ */
+export async function runHeadlessTurn(
+  session: Session,
+  prompt: string,
+  options: HeadlessTurnOptions,
+): Promise<OneShotResult> {
+  const { config, recorder, reporter, stderr } = options;
+  const startedAt = Date.now();
+  const usage = createUsageTotals();
+  const costBefore = session.ctx.cost?.sessionUsd ?? 0;
+  let priced = false;
+  let parts: MessagePart[] = [];
+  let contextExceeded = false;
+  let interrupted = false;
+  let sendResult: SendMessageResult | null = null;
+  let failure: unknown;
+
+  const ac = createAbortController(session.ctx.abort, config.api.timeout);
+  try {
+    sendResult = await sendMessage(session, prompt, {
+      onMessageUpdate: (next) => {
+        parts = next;
+        reporter.update(next);
+      },
+      onUsage: (turnUsage) => {
+        addUsage(usage, turnUsage);
+        if (turnUsage.costUsd !== undefined) priced = true;
+        reporter.usage(turnUsage);
+        recorder.recordUsage(turnUsage).catch(() => {});
+      },
+      onRetry: reporter.retry,
+      onModelFallback: reporter.fallback,
+      onCompactStart: () => {
+        stderr("⟳ 会話履歴を要約中...\n");
+      },
+      onCompact: (result) => {
+        if (result) {
+          recorder.recordCompaction(session.messages).catch(() => {});
+        }
+      },
+      onContextExceeded: () => {
+        contextExceeded = true;
+        stderr(contextExceededMessage(recorder.sessionId) + "\n");
+      },
+      onToolUIEvent: options.onToolUIEvent,
+      onApprovalRequest: options.onApprovalRequest,
+      onNotice: (message) => {
+        stderr(message + "\n");
+      },
+    }, {
+      abortSignal: ac.signal,
+      maxRetries: config.api.max_retries,
+      maxOutputTokens: config.default.max_output_tokens,
+    });
+  } catch (error) {
+    failure = error;
+  } finally {
+    // Ctrl-C, or an interrupt message with --input-format stream-json.
+    interrupted = session.ctx.abort.userAbortController?.signal.aborted ?? false;
+    clearAbortState(session.ctx.abort);
+  }
+  await recorder.recordMessages(session.messages).catch(() => {});
+
+  const toolCalls = summarizeToolCalls(sendResult?.parts ?? parts);
+  const { status, exitCode } = resolveOneShotStatus({
+    interrupted,
+    error:
+      failure !== undefined
+        ? { api: isApiError(failure) }
+        : contextExceeded
+          ? { api: true }
+          : undefined,
+    maxTurnsReached: sendResult?.maxTurnsReached,
+    costLimitReached: sendResult?.costLimit != null,
+    toolCalls,
+  });
+  const result: OneShotResult = {
+    type: "result",
+    status,
+    exit_code: exitCode,
+    result: sendResult?.fullText ?? "",
+    session_id: recorder.sessionId,
+    agent: options.agentName,
+    model: session.agent.modelId,
+    turns: sendResult?.turns ?? 0,
+    duration_ms: Date.now() - startedAt,
+    usage,
+    ...(priced ? { cost_usd: (session.ctx.cost?.sessionUsd ?? 0) - costBefore } : {}),
+    tool_calls: toolCalls,
+    ...(status === "error" || status === "api_error"
+      ? {
+          error:
+            failure !== undefined
+              ? formatErrorMessage(failure)
+              : contextExceededMessage(recorder.sessionId),
+        }
+      : {}),
+  };
+  reporter.finish(result);
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// --input-format stream-json
+//
+// stdin carries one JSON object per line:
+//
+//   {"type":"user","message":"..."}
+//   {"type":"ask_user_answer","tool_call_id":"...","answers":{"<question>":{"selected":["..."]}}}
+//   {"type":"approval","tool_call_id":"...","action":"allow","scope":"session"}
+//   {"type":"approval","tool_call_id":"...","action":"deny","feedback":"..."}
+//   {"type":"interrupt"}
+//
+// User messages are queued and run one at a time; answers and approvals
+// are applied as soon as they arrive, while a turn is waiting for them.
+// ---------------------------------------------------------------------------
+
+const askUserAnswerSchema = z.object({
+  selected: z.array(z.string()),
+  otherText: z.string().optional(),
+});
+
+export const inputMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("user"), message: z.string().min(1) }),
+  z.object({
+    type: z.literal("ask_user_answer"),
+    tool_call_id: z.string(),
+    answers: z.record(askUserAnswerSchema),
+  }),
+  z.object({
+    type: z.literal("approval"),
+    tool_call_id: z.string(),
+    action: z.enum(["allow", "deny"]),
+    scope: z.enum(["once", "session", "tool", "project"]).optional(),
+    feedback: z.string().optional(),
+  }),
+  z.object({ type: z.literal("interrupt") }),
+]);
+
+export type InputMessage = z.infer<typeof inputMessageSchema>;
+
+export function parseInputMessage(line: string): InputMessage {
+  let json: unknown;
+  try {
+    json = JSON.parse(line);
+  } catch {
+    throw new Error(`JSON として解釈できません: ${line.slice(0, 100)}`);
+  }
+  const result = inputMessageSchema.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(
+      `入力メッセージが不正です: ${issue.path.join(".") || "type"}: ${issue.message}`,
+    );
+  }
+  return result.data;
+}
+
+export function toApprovalDecision(
+  message: Extract<InputMessage, { type: "approval" }>,
+): ApprovalDecision {
+  return message.action === "allow"
+    ? { action: "allow", scope: message.scope }
+    : { action: "deny", feedback: message.feedback };
+}
+
+export interface StreamJsonSessionOptions {
+  agentName: string;
+  config: WellGrowConfig;
+  recorder: SessionRecorder;
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  /** Run before the first message from the input, e.g. the CLI prompt argument. */
+  initialPrompt?: string;
+}
+
+/**
+ * Drive a multi-turn conversation from NDJSON lines until the input ends
+ * and every queued message has run. Returns each turn's result.
+ */
+export async function runStreamJsonSession(
+  session: Session,
+  input: AsyncIterable<string>,
+  options: StreamJsonSessionOptions,
+): Promise<OneShotResult[]> {
+  const { stdout, stderr } = options;
+  const emit = (event: OutputEvent) => stdout(serializeEvent(event));
+  const broker = createInteractionBroker(session, emit);
+  const prompts: string[] = options.initialPrompt ? [options.initialPrompt] : [];
+  const results: OneShotResult[] = [];
+  let inputClosed = false;
+  let wake: (() => void) | null = null;
+
+  const notify = () => {
+    wake?.();
+    wake = null;
+  };
+
+  const handle = (message: InputMessage) => {
+    switch (message.type) {
+      case "user":
+        prompts.push(message.message);
+        notify();
+        return;
+      case "ask_user_answer":
+        broker.answer(message.tool_call_id, message.answers);
+        return;
+      case "approval":
+        broker.decide(message.tool_call_id, toApprovalDecision(message));
+        return;
+      case "interrupt":
+        broker.interrupt();
+        return;
+    }
+  };
+
+  const reader = (async () => {
+    for await (const raw of input) {
+      const line = raw.trim();
+      if (!line) continue;
+      try {
+        handle(parseInputMessage(line));
+      } catch (error) {
+        emit({ type: "error", message: formatErrorMessage(error) });
+      }
+    }
+    inputClosed = true;
+    // Nobody is left to answer: let waiting tools fail instead of hanging.
+    broker.close("入力が終了したため自動的に拒否しました");
+    notify();
+  })();
+
+  let initialized = false;
+  for (;;) {
+    const prompt = prompts.shift();
+    if (prompt === undefined) {
+      if (inputClosed) break;
+      await new Promise<void>((resolve) => {
+        wake = resolve;
+      });
+      continue;
+    }
+
+    const reporter = createOneShotReporter("stream-json", { stdout, stderr });
+    if (!initialized) {
+      initialized = true;
+      reporter.init({
+        session_id: options.recorder.sessionId,
+        agent: options.agentName,
+        model: session.agent.modelId,
+        mode: session.agent.pipeline.mode,
+        cwd: session.ctx.cwd,
+      });
+    }
+
+    results.push(
+      await runHeadlessTurn(session, prompt, {
+        agentName: options.agentName,
+        config: options.config,
+        recorder: options.recorder,
+        reporter,
+        stderr,
+        ...broker.callbacks,
+      }),
+    );
+  }
+
+  await reader;
+  return results;
+}
+
+// ---------------------------------------------------------------------------
+// Interactions answered by a client (stream-json input, `wellgrow serve`)
+// ---------------------------------------------------------------------------
+
+export interface InteractionBroker {
+  /** Pass to runHeadlessTurn so approvals and AskUser are routed here. */
+  callbacks: Pick<HeadlessTurnOptions, "onApprovalRequest" | "onToolUIEvent">;
+  decide: (toolCallId: string, decision: ApprovalDecision) => void;
+  answer: (toolCallId: string, answers: Record<string, AskUserAnswer>) => void;
+  /** approval_request and ask_user events still waiting for a reply. */
+  pending: () => OutputEvent[];
+  /**
+   * Abort the running turn. What it is waiting for is denied or cancelled,
+   * and so is anything it asks before it ends.
+   */
+  interrupt: () => void;
+  /** Deny or cancel everything waiting now and everything asked later. */
+  close: (reason: string) => void;
+}
+
+const INTERRUPTED_REASON = "中断されたため自動的に拒否しました";
+
+/**
+ * Emits approval_request / ask_user events and holds the tool calls until
+ * decide() or answer() is called with their tool_call_id.
+ */
+export function createInteractionBroker(
+  session: Session,
+  emit: (event: OutputEvent) => void,
+): InteractionBroker {
+  const askUser = session.ctx.agent.askUser;
+  const approvals = new Map<
+    string,
+    { event: OutputEvent; resolve: (decision: ApprovalDecision) => void }
+  >();
+  const questions = new Map<string, OutputEvent>();
+  let closedReason: string | null = null;
+  // A new controller is created per turn, so this only refuses the aborted one.
+  const refusal = () =>
+    closedReason ??
+    (session.ctx.abort.userAbortController?.signal.aborted ? INTERRUPTED_REASON : null);
+
+  const settleAll = (reason: string) => {
+    for (const entry of approvals.values()) {
+      entry.resolve({ action: "deny", feedback: reason });
+    }
+    approvals.clear();
+    questions.clear();
+    cancelAllPendingAskUser(askUser);
+  };
+
+  return {
+    callbacks: {
+      onToolUIEvent: (event) => {
+        if (event.type !== "askUser") return;
+        if (refusal() !== null) {
+          cancelAllPendingAskUser(askUser);
+          return;
+        }
+        const request: OutputEvent = {
+          type: "ask_user",
+          tool_call_id: event.toolCallId,
+          questions: event.questions,
+        };
+        questions.set(event.toolCallId, request);
+        emit(request);
+      },
+      onApprovalRequest: (request) => {
+        const refused = refusal();
+        if (refused !== null) {
+          return Promise.resolve({ action: "deny" as const, feedback: refused });
+        }
+        const event: OutputEvent = {
+          type: "approval_request",
+          tool_call_id: request.toolCallId,
+          tool_name: request.toolName,
+          input: request.args,
+          category: request.category,
+          source: request.source,
+          ...(request.projectRule ? { project_rule: request.projectRule } : {}),
+          ...(request.subagent ? { subagent: request.subagent } : {}),
+        };
+        const decision = new Promise<ApprovalDecision>((resolve) => {
+          approvals.set(request.toolCallId, { event, resolve });
+        });
+        emit(event);
+        return decision;
+      },
+    },
+
+    decide(toolCallId, decision) {
+      const entry = approvals.get(toolCallId);
+      if (!entry) {
+        throw new Error(`承認待ちのツール呼び出しがありません: ${toolCallId}`);
+      }
+      approvals.delete(toolCallId);
+      entry.resolve(decision);
+    },
+
+    answer(toolCallId, answers) {
+      if (!askUser.pendingMap.has(toolCallId)) {
+        throw new Error(`回答待ちの AskUser がありません: ${toolCallId}`);
+      }
+      questions.delete(toolCallId);
+      resolveAskUser(askUser, toolCallId, answers);
+    },
+
+    pending() {
+      for (const id of questions.keys()) {
+        // Cancelled by an interrupt rather than answered.
+        if (!askUser.pendingMap.has(id)) questions.delete(id);
+      }
+      return [
+        ...[...approvals.values()].map((entry) => entry.event),
+        ...questions.values(),
+      ];
+    },
+
+    interrupt() {
+      session.ctx.abort.userAbortController?.abort();
+      settleAll(INTERRUPTED_REASON);
+    },
+
+    close(reason) {
+      closedReason = reason;
+      settleAll(reason);
+    },
+  };
+}
+
+/** Lines of a readable stream, e.g. process.stdin. */
+export function readLines(stream: NodeJS.ReadableStream): AsyncIterable<string> {
+  return createInterface({ input: stream, crlfDelay: Infinity });
+}
@@ -1,10 +1,19 @@
-import { appendFile, readFile, mkdir, readdir } from "node:fs/promises";
-import { join } from "node:path";
+import { appendFile, readFile, mkdir, readdir, rename, rm, stat, writeFile } from "node:fs/promises";
+import { join, relative, resolve, sep } from "node:path";
 import { homedir } from "node:os";
 import { randomUUID } from "node:crypto";
+import type { ModelMessage } from "ai";
+import type { TurnUsage } from "../ai/cache.js";
+import type { Mode } from "../tools/pipeline.js";
+import { isHookContext } from "../extensions/hooks.js";
 
 const WELLGROW_DIR = join(homedir(), ".wellgrow");
 const HISTORY_FILE = join(WELLGROW_DIR, "history.jsonl");
+const SESSIONS_DIR = join(WELLGROW_DIR, "sessions");
+// Where each session file lives, so lookups don't walk the date directories.
+const INDEX_FILE = join(WELLGROW_DIR, "session-index.jsonl");
+// Held while history.jsonl or session-index.jsonl is appended to or rewritten.
+const LOCK_FILE = join(WELLGROW_DIR, "history.lock");
 
 export interface HistoryEntry {
   session_id: string;
@@ -13,112 +22,628 @@ export interface HistoryEntry {
   timestamp: string;
   summary: string;
   message_count: number;
+  cwd?: string;
+  /** USD for the session's own requests, when any were priced. */
+  cost_usd?: number;
+  /** When the session was last finalized; `timestamp` is when it started. */
+  updated_at?: string;
+}
+
+export interface HistoryFilter {
+  agent?: string;
+  /** Case-insensitive substring of the model name. */
+  model?: string;
+  /** Sessions started in this directory or below it. */
+  cwd?: string;
+  since?: Date;
+  until?: Date;
+}
+
+export type SwitchKind = "mode" | "agent" | "model";
+
+/**
+ * One line of a session JSONL file.
+ * `user` / `assistant` are the legacy text-only entries written before
+ * full transcripts were recorded; they are still accepted when loading.
+ */
+export type SessionEntry =
+  | {
+      type: "meta";
+      session_id?: string;
+      agent: string;
+      model: string;
+      mode?: Mode;
+      cwd?: string;
+      timestamp: string;
+    }
+  | { type: "message"; timestamp: string; message: ModelMessage }
+  | { type: "usage"; timestamp: string; usage: TurnUsage }
+  | { type: "switch"; timestamp: string; kind: SwitchKind; value: string }
+  | { type: "compaction"; timestamp: string; messages: ModelMessage[] }
+  | { type: "rewind"; timestamp: string; message_count: number }
+  | { type: "user"; timestamp: string; content: string }
+  | { type: "assistant"; timestamp: string; content: string };
+
+export interface SessionTranscript {
+  sessionId: string;
+  filePath: string;
+  agent: string;
+  model: string;
+  mode?: Mode;
+  cwd?: string;
+  startedAt: string;
+  messages: ModelMessage[];
+  usage: TurnUsage[];
 }
 
 export interface SessionRecorder {
   sessionId: string;
-  recordUser: (content: string) => Promise<void>;
-  recordAssistant: (content: string) => Promise<void>;
+  recordMessages: (messages: readonly ModelMessage[]) => Promise<void>;
+  recordUsage: (usage: TurnUsage) => Promise<void>;
+  recordSwitch: (kind: SwitchKind, value: string) => Promise<void>;
+  /** Snapshot the whole conversation after older turns were summarized. */
+  recordCompaction: (messages: readonly ModelMessage[]) => Promise<void>;
+  /** The conversation was cut back to its first `messageCount` messages. */
+  recordRewind: (messageCount: number) => Promise<void>;
   finalize: (messageCount: number) => Promise<void>;
 }
 
+export interface SessionRecorderOptions {
+  /** ID for a new session file; use the session context's so checkpoints and hooks agree. */
+  sessionId?: string;
+  cwd?: string;
+  mode?: Mode;
+  /** Continue appending to an existing session file instead of creating one. */
+  resume?: SessionTranscript;
+  /** history.max_sessions: older sessions are pruned on finalize. */
+  maxSessions?: number;
+}
+
+function extractUserText(message: ModelMessage): string {
+  if (message.role !== "user") return "";
+  if (typeof message.content === "string") {
+    return isHookContext(message.content) ? "" : message.content;
+  }
+  return message.content
+    .map((p) => (p.type === "text" && !isHookContext(p.text) ? p.text : ""))
+    .join("");
+}
+
 export async function createSessionRecorder(
   model: string,
   agent: string,
+  options: SessionRecorderOptions = {},
 ): Promise<SessionRecorder> {
-  const sessionId = randomUUID();
-  const now = new Date();
-  const dateDir = join(
-    WELLGROW_DIR,
-    "sessions",
-    String(now.getFullYear()),
-    String(now.getMonth() + 1).padStart(2, "0"),
-    String(now.getDate()).padStart(2, "0"),
-  );
-  await mkdir(dateDir, { recursive: true });
+  const resume = options.resume;
+  const sessionId = resume?.sessionId ?? options.sessionId ?? randomUUID();
+  const now = resume ? new Date(resume.startedAt) : new Date();
+  const cwd = options.cwd ?? resume?.cwd ?? process.cwd();
 
-  const sessionFile = join(dateDir, `${sessionId}.jsonl`);
-  let firstUserMessage = "";
+  let sessionFile: string;
+  if (resume) {
+    sessionFile = resume.filePath;
+  } else {
+    const dateDir = join(
+      SESSIONS_DIR,
+      String(now.getFullYear()),
+      String(now.getMonth() + 1).padStart(2, "0"),
+      String(now.getDate()).padStart(2, "0"),
+    );
+    await mkdir(dateDir, { recursive: true });
+    sessionFile = join(dateDir, `${sessionId}.jsonl`);
+    await appendSessionIndex({
+      session_id: sessionId,
+      path: relative(SESSIONS_DIR, sessionFile),
+      timestamp: now.toISOString(),
+    });
+  }
 
-  const meta = JSON.stringify({
-    type: "meta",
-    agent,
-    model,
-    timestamp: now.toISOString(),
-  });
-  await appendFile(sessionFile, meta + "\n", "utf-8");
+  let firstUserMessage = resume
+    ? (resume.messages.map(extractUserText).find(Boolean) ?? "").slice(0, 50)
+    : "";
+  let currentAgent = agent;
+  let currentModel = model;
+  let recordedCount = resume?.messages.length ?? 0;
+  let costUsd = (resume?.usage ?? []).reduce((sum, u) => sum + (u.costUsd ?? 0), 0);
+
+  // Appends are chained so entries land in the file in call order.
+  let writeChain: Promise<void> = Promise.resolve();
+  const write = (entry: SessionEntry): Promise<void> => {
+    writeChain = writeChain
+      .catch(() => {})
+      .then(() => appendFile(sessionFile, JSON.stringify(entry) + "\n", "utf-8"));
+    return writeChain;
+  };
+
+  if (!resume) {
+    await write({
+      type: "meta",
+      session_id: sessionId,
+      agent,
+      model,
+      mode: options.mode,
+      cwd,
+      timestamp: now.toISOString(),
+    });
+  }
 
   return {
     sessionId,
 
-    async recordUser(content: string) {
-      if (!firstUserMessage) {
-        firstUserMessage = content.slice(0, 50);
+    async recordMessages(messages) {
+      // The conversation may have been reset underneath us (e.g. /clear);
+      // never re-record or skip past the end of the array.
+      if (recordedCount > messages.length) recordedCount = messages.length;
+      const pending = messages.slice(recordedCount);
+      recordedCount = messages.length;
+
+      for (const message of pending) {
+        if (!firstUserMessage) {
+          firstUserMessage = extractUserText(message).slice(0, 50);
+        }
+        await write({
+          type: "message",
+          timestamp: new Date().toISOString(),
+          message,
+        });
       }
-      const entry = JSON.stringify({
-        type: "user",
+    },
+
+    async recordUsage(usage) {
+      costUsd += usage.costUsd ?? 0;
+      await write({ type: "usage", timestamp: new Date().toISOString(), usage });
+    },
+
+    async recordSwitch(kind, value) {
+      if (kind === "agent") currentAgent = value;
+      if (kind === "model") currentModel = value;
+      await write({
+        type: "switch",
+        timestamp: new Date().toISOString(),
+        kind,
+        value,
+      });
+    },
+
+    async recordCompaction(messages) {
+      recordedCount = messages.length;
+      await write({
+        type: "compaction",
         timestamp: new Date().toISOString(),
-        content,
+        messages: [...messages],
       });
-      await appendFile(sessionFile, entry + "\n", "utf-8");
     },
 
-    async recordAssistant(content: string) {
-      const entry = JSON.stringify({
-        type: "assistant",
+    async recordRewind(messageCount) {
+      recordedCount = Math.min(recordedCount, messageCount);
+      await write({
+        type: "rewind",
         timestamp: new Date().toISOString(),
-        content: content.slice(0, 500),
+        message_count: messageCount,
       });
-      await appendFile(sessionFile, entry + "\n", "utf-8");
     },
 
     async finalize(messageCount: number) {
+      await writeChain.catch(() => {});
       await mkdir(WELLGROW_DIR, { recursive: true });
       const historyEntry = JSON.stringify({
         session_id: sessionId,
-        agent,
-        model,
+        agent: currentAgent,
+        model: currentModel,
         timestamp: now.toISOString(),
         summary: firstUserMessage || "(空セッション)",
         message_count: messageCount,
+        cwd,
+        cost_usd: costUsd > 0 ? costUsd : undefined,
+        updated_at: new Date().toISOString(),
       } satisfies HistoryEntry);
-      await appendFile(HISTORY_FILE, historyEntry + "\n", "utf-8");
+      await withHistoryLock(() => appendFile(HISTORY_FILE, historyEntry + "\n", "utf-8"));
+      if (options.maxSessions !== undefined) {
+        await pruneSessions(options.maxSessions).catch(() => {});
+      }
     },
   };
 }
 
-export async function listHistory(limit = 20): Promise<HistoryEntry[]> {
+// ---------------------------------------------------------------------------
+// Session index
+//
+// One line per session file, appended when the session starts:
+//
+//   ~/.wellgrow/session-index.jsonl
+//   {"session_id":"…","path":"2026/10/19/<id>.jsonl","timestamp":"…"}
+//
+// Built by walking sessions/ the first time it is missing; a lookup that
+// misses the index (e.g. a line lost to a concurrent rewrite) walks once more.
+//
+// Appends and rewrites of history.jsonl and the index happen under
+// ~/.wellgrow/history.lock, and rewrites go through a temp file and rename,
+// so another wellgrow process never sees (or appends to) a half-written file.
+// ---------------------------------------------------------------------------
+
+const LOCK_RETRY_MS = 50;
+const LOCK_TIMEOUT_MS = 5_000;
+// A lock older than this was left by a crashed process.
+const LOCK_STALE_MS = 30_000;
+
+async function withHistoryLock<T>(fn: () => Promise<T>): Promise<T> {
+  await mkdir(WELLGROW_DIR, { recursive: true });
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  for (;;) {
+    try {
+      await writeFile(LOCK_FILE, String(process.pid), { flag: "wx" });
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+      const age = await stat(LOCK_FILE).then((s) => Date.now() - s.mtimeMs, () => 0);
+      if (age > LOCK_STALE_MS) {
+        await rm(LOCK_FILE, { force: true });
+        continue;
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`履歴ファイルのロックを取得できませんでした: ${LOCK_FILE}`);
+      }
+      await new Promise((r) => setTimeout(r, LOCK_RETRY_MS));
+    }
+  }
+  try {
+    return await fn();
+  } finally {
+    await rm(LOCK_FILE, { force: true });
+  }
+}
+
+interface SessionIndexEntry {
+  session_id: string;
+  /** Relative to ~/.wellgrow/sessions. */
+  path: string;
+  timestamp: string;
+}
+
+async function readJsonLines<T>(file: string): Promise<T[] | null> {
+  let content: string;
   try {
-    const content = await readFile(HISTORY_FILE, "utf-8");
-    const lines = content.trim().split("\n").filter(Boolean);
-    return lines
-      .map((line) => JSON.parse(line) as HistoryEntry)
-      .reverse()
-      .slice(0, limit);
+    content = await readFile(file, "utf-8");
   } catch {
-    return [];
+    return null;
   }
+  const entries: T[] = [];
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as T);
+    } catch {
+      // a crash can leave a truncated last line; skip it
+    }
+  }
+  return entries;
 }
 
-export async function getSessionContent(sessionId: string): Promise<string | null> {
-  const sessionsDir = join(WELLGROW_DIR, "sessions");
+async function writeJsonLines(file: string, entries: unknown[]): Promise<void> {
+  await mkdir(WELLGROW_DIR, { recursive: true });
+  const tmp = `${file}.${process.pid}.${randomUUID()}.tmp`;
   try {
-    const years = await readdir(sessionsDir);
-    for (const year of years) {
-      const months = await readdir(join(sessionsDir, year));
-      for (const month of months) {
-        const days = await readdir(join(sessionsDir, year, month));
-        for (const day of days) {
-          const files = await readdir(join(sessionsDir, year, month, day));
-          const match = files.find((f) => f.startsWith(sessionId));
-          if (match) {
-            return readFile(join(sessionsDir, year, month, day, match), "utf-8");
-          }
+    await writeFile(tmp, entries.map((e) => JSON.stringify(e) + "\n").join(""), "utf-8");
+    await rename(tmp, file);
+  } catch (error) {
+    await rm(tmp, { force: true });
+    throw error;
+  }
+}
+
+async function walkSessionFiles(): Promise<SessionIndexEntry[]> {
+  const found: SessionIndexEntry[] = [];
+  const list = (dir: string) => readdir(dir).catch(() => [] as string[]);
+  for (const year of await list(SESSIONS_DIR)) {
+    for (const month of await list(join(SESSIONS_DIR, year))) {
+      for (const day of await list(join(SESSIONS_DIR, year, month))) {
+        const started = new Date(Number(year), Number(month) - 1, Number(day));
+        for (const file of await list(join(SESSIONS_DIR, year, month, day))) {
+          if (!file.endsWith(".jsonl")) continue;
+          found.push({
+            session_id: file.slice(0, -".jsonl".length),
+            path: join(year, month, day, file),
+            timestamp: started.toISOString(),
+          });
         }
       }
     }
-  } catch {
-    // ignore
   }
-  return null;
+  return found;
+}
+
+async function readSessionIndex(): Promise<SessionIndexEntry[]> {
+  const entries = await readJsonLines<SessionIndexEntry>(INDEX_FILE);
+  if (entries) return entries;
+  const walked = await walkSessionFiles();
+  await writeJsonLines(INDEX_FILE, walked);
+  return walked;
+}
+
+async function appendSessionIndex(entry: SessionIndexEntry): Promise<void> {
+  await withHistoryLock(async () => {
+    // Index the existing sessions first so they are not lost from it.
+    await readSessionIndex();
+    await appendFile(INDEX_FILE, JSON.stringify(entry) + "\n", "utf-8");
+  });
+}
+
+/** Full session ID for an ID or unique prefix; throws when ambiguous. */
+async function resolveSessionEntry(sessionId: string): Promise<SessionIndexEntry | null> {
+  const lookup = (entries: SessionIndexEntry[]) => {
+    const exact = entries.find((e) => e.session_id === sessionId);
+    if (exact) return exact;
+    const matches = entries.filter((e) => e.session_id.startsWith(sessionId));
+    if (matches.length > 1) {
+      throw new Error(`セッション ID ${sessionId} に一致するセッションが複数あります`);
+    }
+    return matches[0] ?? null;
+  };
+
+  const indexed = lookup(await readSessionIndex());
+  if (indexed) return indexed;
+  const walked = lookup(await walkSessionFiles());
+  if (walked) {
+    await withHistoryLock(() => appendFile(INDEX_FILE, JSON.stringify(walked) + "\n", "utf-8"));
+  }
+  return walked;
+}
+
+async function findSessionFile(sessionId: string): Promise<string | null> {
+  const entry = await resolveSessionEntry(sessionId);
+  return entry ? join(SESSIONS_DIR, entry.path) : null;
+}
+
+export async function getSessionContent(sessionId: string): Promise<string | null> {
+  const filePath = await findSessionFile(sessionId);
+  return filePath ? readFile(filePath, "utf-8") : null;
+}
+
+// ---------------------------------------------------------------------------
+// Listing and search
+// ---------------------------------------------------------------------------
+
+async function readHistoryEntries(): Promise<HistoryEntry[]> {
+  return (await readJsonLines<HistoryEntry>(HISTORY_FILE)) ?? [];
+}
+
+function matchesFilter(entry: HistoryEntry, filter: HistoryFilter): boolean {
+  if (filter.agent && entry.agent !== filter.agent) return false;
+  if (filter.model && !entry.model.toLowerCase().includes(filter.model.toLowerCase())) {
+    return false;
+  }
+  if (filter.cwd) {
+    const dir = resolve(filter.cwd);
+    if (!entry.cwd || (entry.cwd !== dir && !entry.cwd.startsWith(dir + sep))) return false;
+  }
+  const started = new Date(entry.timestamp);
+  if (filter.since && started < filter.since) return false;
+  if (filter.until && started >= filter.until) return false;
+  return true;
+}
+
+/**
+ * Newest first. A resumed session is finalized again under the same id,
+ * so only its most recent entry is kept.
+ */
+export async function listHistory(
+  limit = 20,
+  filter: HistoryFilter = {},
+): Promise<HistoryEntry[]> {
+  const entries = (await readHistoryEntries()).reverse();
+  const seen = new Set<string>();
+  const unique: HistoryEntry[] = [];
+  for (const entry of entries) {
+    if (seen.has(entry.session_id)) continue;
+    seen.add(entry.session_id);
+    if (matchesFilter(entry, filter)) unique.push(entry);
+  }
+  return unique.slice(0, limit);
+}
+
+export async function findLatestSession(cwd: string): Promise<HistoryEntry | null> {
+  const entries = (await readHistoryEntries()).reverse();
+  return entries.find((e) => e.cwd === cwd) ?? null;
+}
+
+export interface HistorySearchResult {
+  entry: HistoryEntry;
+  /** Matching lines from the conversation, shortened around the match. */
+  snippets: string[];
+}
+
+const SNIPPET_RADIUS = 40;
+const MAX_SNIPPETS = 3;
+
+function messageText(message: ModelMessage): string {
+  if (message.role === "user") return extractUserText(message);
+  if (message.role !== "assistant") return "";
+  if (typeof message.content === "string") return message.content;
+  return message.content
+    .map((p) => (p.type === "text" ? p.text : ""))
+    .join("");
+}
+
+function findSnippets(text: string, query: string): string[] {
+  const lower = text.toLowerCase();
+  const snippets: string[] = [];
+  let from = 0;
+  while (snippets.length < MAX_SNIPPETS) {
+    const at = lower.indexOf(query, from);
+    if (at === -1) break;
+    const start = Math.max(at - SNIPPET_RADIUS, 0);
+    const end = Math.min(at + query.length + SNIPPET_RADIUS, text.length);
+    const body = text.slice(start, end).replace(/\s+/g, " ").trim();
+    snippets.push(`${start > 0 ? "…" : ""}${body}${end < text.length ? "…" : ""}`);
+    from = end;
+  }
+  return snippets;
+}
+
+/** Case-insensitive full-text search over the user and assistant text of each transcript. */
+export async function searchHistory(
+  query: string,
+  options: { filter?: HistoryFilter; limit?: number } = {},
+): Promise<HistorySearchResult[]> {
+  const needle = query.toLowerCase();
+  const limit = options.limit ?? 20;
+  const results: HistorySearchResult[] = [];
+  for (const entry of await listHistory(Infinity, options.filter)) {
+    const transcript = await loadSessionTranscript(entry.session_id);
+    if (!transcript) continue;
+    const snippets = transcript.messages
+      .flatMap((m) => findSnippets(messageText(m), needle))
+      .slice(0, MAX_SNIPPETS);
+    if (snippets.length === 0) continue;
+    results.push({ entry, snippets });
+    if (results.length >= limit) break;
+  }
+  return results;
+}
+
+// ---------------------------------------------------------------------------
+// Deletion
+// ---------------------------------------------------------------------------
+
+async function removeSessions(ids: Set<string>): Promise<void> {
+  await withHistoryLock(async () => {
+    const index = await readSessionIndex();
+    for (const entry of index) {
+      if (ids.has(entry.session_id)) {
+        await rm(join(SESSIONS_DIR, entry.path), { force: true });
+      }
+    }
+    await writeJsonLines(INDEX_FILE, index.filter((e) => !ids.has(e.session_id)));
+    const history = await readHistoryEntries();
+    await writeJsonLines(HISTORY_FILE, history.filter((e) => !ids.has(e.session_id)));
+  });
+}
+
+/** Delete a session's transcript and history entries; returns its full ID. */
+export async function deleteSession(sessionId: string): Promise<string | null> {
+  const entry = await resolveSessionEntry(sessionId);
+  if (!entry) return null;
+  await removeSessions(new Set([entry.session_id]));
+  return entry.session_id;
+}
+
+// A transcript written to this recently, after its last finalize, is
+// probably open in another terminal.
+const ACTIVE_SESSION_MS = 60 * 60 * 1000;
+// File timestamps are coarser than, and may run slightly ahead of, Date.now().
+const MTIME_SLACK_MS = 1000;
+
+/**
+ * Keep the `keep` most recently used sessions and delete the rest. Sessions
+ * never finalized (still open, or crashed) count from when they started.
+ * Sessions that look open elsewhere are never deleted. Returns the deleted
+ * IDs, oldest last.
+ */
+export async function pruneSessions(
+  keep: number,
+  options: { dryRun?: boolean } = {},
+): Promise<string[]> {
+  // Ties (same millisecond) go to whichever was written later.
+  const lastUsed = new Map<string, { at: string; seq: number; path: string }>();
+  let seq = 0;
+  for (const entry of await readSessionIndex()) {
+    lastUsed.set(entry.session_id, { at: entry.timestamp, seq: seq++, path: entry.path });
+  }
+  for (const entry of await readHistoryEntries()) {
+    const used = lastUsed.get(entry.session_id);
+    if (used) {
+      used.at = entry.updated_at ?? entry.timestamp;
+      used.seq = seq++;
+    }
+  }
+
+  const isActive = async ({ at, path }: { at: string; path: string }) => {
+    const modified = await stat(join(SESSIONS_DIR, path)).then((s) => s.mtimeMs, () => 0);
+    return (
+      modified - Date.parse(at) > MTIME_SLACK_MS && Date.now() - modified < ACTIVE_SESSION_MS
+    );
+  };
+  const stale: string[] = [];
+  const candidates = [...lastUsed]
+    .sort(([, a], [, b]) => b.at.localeCompare(a.at) || b.seq - a.seq)
+    .slice(keep);
+  for (const [id, used] of candidates) {
+    if (!(await isActive(used))) stale.push(id);
+  }
+  if (stale.length > 0 && !options.dryRun) {
+    await removeSessions(new Set(stale));
+  }
+  return stale;
+}
+
+// ---------------------------------------------------------------------------
+// Transcripts
+// ---------------------------------------------------------------------------
+
+export function parseSessionEntries(content: string): SessionEntry[] {
+  const entries: SessionEntry[] = [];
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as SessionEntry);
+    } catch {
+      // a crash can leave a truncated last line; skip it
+    }
+  }
+  return entries;
+}
+
+export async function loadSessionTranscript(
+  sessionId: string,
+): Promise<SessionTranscript | null> {
+  const filePath = await findSessionFile(sessionId);
+  if (!filePath) return null;
+
+  const entries = parseSessionEntries(await readFile(filePath, "utf-8"));
+  const meta = entries.find(
+    (e): e is Extract<SessionEntry, { type: "meta" }> => e.type === "meta",
+  );
+  if (!meta) return null;
+
+  const transcript: SessionTranscript = {
+    sessionId: meta.session_id ?? sessionId,
+    filePath,
+    agent: meta.agent,
+    model: meta.model,
+    mode: meta.mode,
+    cwd: meta.cwd,
+    startedAt: meta.timestamp,
+    messages: [],
+    usage: [],
+  };
+
+  for (const entry of entries) {
+    switch (entry.type) {
+      case "message":
+        transcript.messages.push(entry.message);
+        break;
+      case "usage":
+        transcript.usage.push(entry.usage);
+        break;
+      case "compaction":
+        transcript.messages = [...entry.messages];
+        break;
+      case "rewind":
+        transcript.messages = transcript.messages.slice(0, entry.message_count);
+        break;
+      case "switch":
+        if (entry.kind === "agent") transcript.agent = entry.value;
+        if (entry.kind === "model") transcript.model = entry.value;
+        if (entry.kind === "mode") transcript.mode = entry.value as Mode;
+        break;
+      case "user":
+        transcript.messages.push({ role: "user", content: entry.content });
+        break;
+      case "assistant":
+        transcript.messages.push({ role: "assistant", content: entry.content });
+        break;
+    }
+  }
+
+  return transcript;
 }
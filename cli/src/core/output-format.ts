@@ -0,0 +1,324 @@
+import type { MessagePart } from "../ui/message-list.js";
+import type { TurnUsage } from "../ai/cache.js";
+import type { Mode } from "../tools/pipeline.js";
+import type { AskUserQuestion } from "../tools/ask-user.js";
+
+export type OutputFormat = "text" | "json" | "stream-json";
+
+export const OUTPUT_FORMATS: OutputFormat[] = ["text", "json", "stream-json"];
+
+/** Process exit codes of one-shot runs, so scripts can tell failures apart. */
+export const EXIT_CODES = {
+  success: 0,
+  error: 1,
+  apiError: 2,
+  maxTurns: 3,
+  toolDenied: 4,
+  costLimit: 5,
+  /** Same as a shell command stopped by SIGINT. */
+  interrupted: 130,
+} as const;
+
+// ---------------------------------------------------------------------------
+// Types
+//
+// `json` prints a single OneShotResult when the run ends. `stream-json`
+// prints one OutputEvent per line (NDJSON) as the run progresses and ends
+// with the same result object. With `--input-format stream-json` every
+// user message gets its own run and result; ask_user, approval_request and
+// error events only occur there.
+// ---------------------------------------------------------------------------
+
+export type OneShotStatus =
+  | "success"
+  | "error"
+  | "api_error"
+  | "max_turns"
+  | "tool_denied"
+  | "cost_limit"
+  | "interrupted";
+
+export interface UsageTotals {
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_tokens: number;
+  cache_write_tokens: number;
+}
+
+export interface ToolCallSummary {
+  id: string;
+  name: string;
+  status: "completed" | "error" | "denied" | "incomplete";
+  input?: unknown;
+  error?: string;
+}
+
+export interface OneShotResult {
+  type: "result";
+  status: OneShotStatus;
+  exit_code: number;
+  result: string;
+  session_id: string;
+  agent: string;
+  model: string;
+  turns: number;
+  duration_ms: number;
+  usage: UsageTotals;
+  /** USD of this run; absent when no request had a known price. */
+  cost_usd?: number;
+  tool_calls: ToolCallSummary[];
+  error?: string;
+}
+
+export type OutputEvent =
+  | {
+      type: "init";
+      session_id: string;
+      agent: string;
+      model: string;
+      mode: Mode;
+      cwd: string;
+    }
+  | { type: "part"; index: number; part: MessagePart }
+  | {
+      type: "tool_denied";
+      tool_call_id: string;
+      tool_name: string;
+      input?: unknown;
+      reason?: string;
+    }
+  | { type: "retry"; attempt: number; max_retries: number; delay_ms: number }
+  | { type: "model_fallback"; from: string; to: string; reason: string }
+  | { type: "usage"; usage: TurnUsage }
+  | { type: "ask_user"; tool_call_id: string; questions: AskUserQuestion[] }
+  | {
+      type: "approval_request";
+      tool_call_id: string;
+      tool_name: string;
+      input: Record<string, unknown>;
+      category: string;
+      source: string;
+      project_rule?: string;
+      subagent?: string;
+    }
+  | { type: "error"; message: string }
+  | OneShotResult;
+
+export function serializeEvent(event: OutputEvent): string {
+  return JSON.stringify(event) + "\n";
+}
+
+// ---------------------------------------------------------------------------
+// Result
+// ---------------------------------------------------------------------------
+
+export function createUsageTotals(): UsageTotals {
+  return {
+    input_tokens: 0,
+    output_tokens: 0,
+    cache_read_tokens: 0,
+    cache_write_tokens: 0,
+  };
+}
+
+export function addUsage(totals: UsageTotals, usage: TurnUsage): void {
+  totals.input_tokens += usage.inputTokens;
+  totals.output_tokens += usage.outputTokens;
+  totals.cache_read_tokens += usage.cacheReadTokens ?? 0;
+  totals.cache_write_tokens += usage.cacheWriteTokens ?? 0;
+}
+
+type ToolPart = Extract<MessagePart, { type: "tool" }>;
+
+function toolStatus(part: ToolPart): ToolCallSummary["status"] {
+  switch (part.state) {
+    case "output-available":
+      return "completed";
+    case "output-error":
+      return "error";
+    case "output-denied":
+      return "denied";
+    default:
+      return "incomplete";
+  }
+}
+
+/** Top-level tool calls of a run; sub-agent activity is not repeated. */
+export function summarizeToolCalls(parts: MessagePart[]): ToolCallSummary[] {
+  return parts
+    .filter((p): p is ToolPart => p.type === "tool")
+    .map((p) => ({
+      id: p.toolCallId,
+      name: p.toolName,
+      status: toolStatus(p),
+      input: p.input,
+      ...(p.errorText ? { error: p.errorText } : {}),
+    }));
+}
+
+/**
+ * An interrupt wins over everything (an abort can surface as any error).
+ * Errors win over spending limits and max turns, which win over denied tools.
+ */
+export function resolveOneShotStatus(outcome: {
+  interrupted?: boolean;
+  error?: { api: boolean };
+  maxTurnsReached?: boolean;
+  costLimitReached?: boolean;
+  toolCalls: ToolCallSummary[];
+}): { status: OneShotStatus; exitCode: number } {
+  if (outcome.interrupted) {
+    return { status: "interrupted", exitCode: EXIT_CODES.interrupted };
+  }
+  if (outcome.error) {
+    return outcome.error.api
+      ? { status: "api_error", exitCode: EXIT_CODES.apiError }
+      : { status: "error", exitCode: EXIT_CODES.error };
+  }
+  if (outcome.costLimitReached) {
+    return { status: "cost_limit", exitCode: EXIT_CODES.costLimit };
+  }
+  if (outcome.maxTurnsReached) {
+    return { status: "max_turns", exitCode: EXIT_CODES.maxTurns };
+  }
+  if (outcome.toolCalls.some((t) => t.status === "denied")) {
+    return { status: "tool_denied", exitCode: EXIT_CODES.toolDenied };
+  }
+  return { status: "success", exitCode: EXIT_CODES.success };
+}
+
+// ---------------------------------------------------------------------------
+// Reporter — writes one run's progress in the chosen format
+// ---------------------------------------------------------------------------
+
+export interface OneShotReporter {
+  init: (event: Omit<Extract<OutputEvent, { type: "init" }>, "type">) => void;
+  update: (parts: MessagePart[]) => void;
+  retry: (attempt: number, maxRetries: number, delayMs: number) => void;
+  fallback: (from: string, to: string, reason: string) => void;
+  usage: (usage: TurnUsage) => void;
+  finish: (result: OneShotResult) => void;
+}
+
+export interface ReporterOutput {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+function joinText(parts: MessagePart[]): string {
+  return parts
+    .filter((p): p is Extract<MessagePart, { type: "text" }> => p.type === "text")
+    .map((p) => p.text)
+    .join("");
+}
+
+function describeFailure(result: OneShotResult): string | null {
+  switch (result.status) {
+    case "error":
+    case "api_error":
+      return `Error: ${result.error ?? ""}`;
+    case "max_turns":
+      return "最大ターン数に達したため、作業の途中で終了しました。";
+    case "cost_limit":
+      return "利用料金の上限に達したため、作業の途中で終了しました。";
+    case "interrupted":
+      return "中断しました。";
+    case "tool_denied": {
+      const names = result.tool_calls
+        .filter((t) => t.status === "denied")
+        .map((t) => t.name);
+      return `ツールの実行が拒否されました: ${[...new Set(names)].join(", ")}`;
+    }
+    default:
+      return null;
+  }
+}
+
+export function createOneShotReporter(
+  format: OutputFormat,
+  output: ReporterOutput,
+): OneShotReporter {
+  const emit = (event: OutputEvent) => output.stdout(serializeEvent(event));
+  const retryNotice = (attempt: number, maxRetries: number, delayMs: number) =>
+    output.stderr(
+      `⟳ API エラー。リトライ中... (${attempt}/${maxRetries}, ${Math.round(delayMs / 1000)}秒後)\n`,
+    );
+  const fallbackNotice = (from: string, to: string, reason: string) =>
+    output.stderr(`⇄ ${from} が利用できないため ${to} に切り替えました (${reason})\n`);
+
+  if (format === "text") {
+    let lastText = "";
+    return {
+      init: () => {},
+      update(parts) {
+        const text = joinText(parts);
+        const delta = text.slice(lastText.length);
+        if (delta) output.stdout(delta);
+        lastText = text;
+      },
+      retry: retryNotice,
+      fallback: fallbackNotice,
+      usage: () => {},
+      finish(result) {
+        output.stdout("\n");
+        const failure = describeFailure(result);
+        if (failure) output.stderr(`\n${failure}\n`);
+      },
+    };
+  }
+
+  if (format === "json") {
+    return {
+      init: () => {},
+      update: () => {},
+      retry: retryNotice,
+      fallback: fallbackNotice,
+      usage: () => {},
+      finish: (result) => emit(result),
+    };
+  }
+
+  return createEventReporter(emit);
+}
+
+/**
+ * Reports a run as OutputEvents: one per changed part, in order. Used for
+ * stream-json and by the HTTP server's event stream.
+ */
+export function createEventReporter(
+  emit: (event: OutputEvent) => void,
+): OneShotReporter {
+  const sentParts: string[] = [];
+  const reportedDenials = new Set<string>();
+  return {
+    init: (event) => emit({ type: "init", ...event }),
+    update(parts) {
+      parts.forEach((part, index) => {
+        const serialized = JSON.stringify(part);
+        if (sentParts[index] === serialized) return;
+        sentParts[index] = serialized;
+        emit({ type: "part", index, part });
+
+        if (
+          part.type === "tool" &&
+          part.state === "output-denied" &&
+          !reportedDenials.has(part.toolCallId)
+        ) {
+          reportedDenials.add(part.toolCallId);
+          emit({
+            type: "tool_denied",
+            tool_call_id: part.toolCallId,
+            tool_name: part.toolName,
+            input: part.input,
+            reason: part.errorText,
+          });
+        }
+      });
+    },
+    retry: (attempt, maxRetries, delayMs) =>
+      emit({ type: "retry", attempt, max_retries: maxRetries, delay_ms: delayMs }),
+    fallback: (from, to, reason) => emit({ type: "model_fallback", from, to, reason }),
+    usage: (usage) => emit({ type: "usage", usage }),
+    finish: (result) => emit(result),
+  };
+}
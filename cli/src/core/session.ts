@@ -1,5 +1,9 @@
 import { type ModelMessage } from "ai";
-import { runAgentLoop, type AgentLoopCallbacks } from "./agent-loop.js";
+import {
+  runAgentLoop,
+  type AgentLoopCallbacks,
+  type AgentLoopResult,
+} from "./agent-loop.js";
 import { loadConfig } from "../config/index.js";
 import { createSessionContext, createAgentContext, type SessionContext } from "./context.js";
 import {
@@ -7,8 +11,42 @@ import {
   type ResolvedAgent,
 } from "../agents/resolver.js";
 import type { Mode } from "../tools/pipeline.js";
-import type { McpConnectionResult } from "../extensions/mcp.js";
-import type { MessagePart } from "../ui/message-list.js";
+import type { ErasedToolDefinition } from "../tools/definition.js";
+import type { AgentDefinition } from "../agents/types.js";
+import {
+  resolveResourceMentions,
+  type McpConnectionResult,
+} from "../extensions/mcp.js";
+import type { DisplayMessage, MessagePart } from "../ui/message-list.js";
+import type { SessionTranscript } from "./history.js";
+import { replayMessages, restoreTodos } from "./transcript.js";
+import { createCheckpointStore, readCheckpointEntries } from "./checkpoints.js";
+import { createCostTracker, describeCostLimit, type CostLimitKind } from "./costs.js";
+import {
+  compactMessages,
+  type CompactionResult,
+  type CompactionSettings,
+} from "./compaction.js";
+import { estimateContextTokens, type TurnUsage } from "../ai/cache.js";
+import { getContextWindow } from "../ai/providers.js";
+import { raiseThinkingBudget } from "../ai/generation.js";
+import type { GenerationSettings } from "../agents/types.js";
+import {
+  loadProjectInstructions,
+  replaceInstructionsSection,
+  type InstructionFile,
+} from "../ai/project-instructions.js";
+import {
+  HookBlockedError,
+  formatHookContext,
+  type HookEvent,
+  type HookOutcome,
+  type SessionStartSource,
+} from "../extensions/hooks.js";
+import { logHookError } from "../logging.js";
+
+/** Upper bound on how many times Stop hooks can send the agent back to work. */
+const MAX_STOP_HOOK_CONTINUATIONS = 3;
 
 export type { ResolvedAgent } from "../agents/resolver.js";
 
@@ -16,12 +54,26 @@ export interface Session {
   ctx: SessionContext;
   messages: ModelMessage[];
   agent: ResolvedAgent;
+  compaction: CompactionSettings;
+  /** Context size reported by the most recent turn (0 when unknown). */
+  contextTokens: number;
+  /** SessionStart hook output waiting to be attached to the next prompt. */
+  pendingContext: string[];
+  /** Thinking budget set by /think, used for the next message only. */
+  nextThinkingBudget?: number;
 }
 
 export interface CreateSessionOptions {
   agentName?: string;
+  /** Inline agent, see ResolveAgentOptions.definition. */
+  definition?: AgentDefinition;
+  tools?: ErasedToolDefinition[];
   modelOverride?: string;
   modeOverride?: Mode;
+  /** Working directory for tools; defaults to process.cwd(). */
+  cwd?: string;
+  /** ID of a recorded session being resumed; its checkpoints are loaded. */
+  sessionId?: string;
   onMcpConnection?: (result: McpConnectionResult) => void;
 }
 
@@ -29,12 +81,20 @@ export async function createSession(
   options: CreateSessionOptions,
 ): Promise<Session> {
   const config = await loadConfig();
-  const agentName = options.agentName ?? config.default.agent;
+  const agentName =
+    options.agentName ?? options.definition?.agent.name ?? config.default.agent;
 
-  const ctx = createSessionContext();
+  const ctx = createSessionContext(options.cwd, options.sessionId);
+  ctx.checkpoints = createCheckpointStore(
+    ctx.sessionId,
+    ctx.cwd,
+    options.sessionId ? await readCheckpointEntries(options.sessionId) : [],
+  );
   const agent = await resolveAgent(
     {
       agentName,
+      definition: options.definition,
+      tools: options.tools,
       modelOverride: options.modelOverride,
       modeOverride: options.modeOverride,
       config,
@@ -42,8 +102,24 @@ export async function createSession(
     },
     ctx,
   );
+  ctx.cost = createCostTracker({
+    sessionId: ctx.sessionId,
+    pricing: config.pricing,
+    limits: agent.costLimits,
+  });
 
-  return { ctx, messages: [], agent };
+  return {
+    ctx,
+    messages: [],
+    agent,
+    compaction: {
+      auto: config.compaction.auto,
+      threshold: config.compaction.threshold,
+      keepRecentTurns: config.compaction.keep_recent_turns,
+    },
+    contextTokens: 0,
+    pendingContext: [],
+  };
 }
 
 export async function switchAgent(
@@ -59,7 +135,10 @@ export async function switchAgent(
   }
 
   session.ctx.agent = createAgentContext();
+  session.ctx.checkpoints?.invalidateConversation();
   session.messages = [];
+  session.contextTokens = 0;
+  session.pendingContext = [];
 
   const config = await loadConfig();
   session.agent = await resolveAgent(
@@ -70,6 +149,163 @@ export async function switchAgent(
     },
     session.ctx,
   );
+  if (session.ctx.cost) session.ctx.cost.limits = session.agent.costLimits ?? {};
+}
+
+/**
+ * Load a recorded transcript into a freshly created session so the next
+ * sendMessage continues the conversation where it left off.
+ */
+export function restoreSession(
+  session: Session,
+  transcript: SessionTranscript,
+): void {
+  session.messages = [...transcript.messages];
+  session.ctx.agent.todos = restoreTodos(transcript.messages);
+  const lastUsage = transcript.usage[transcript.usage.length - 1];
+  session.contextTokens = lastUsage ? estimateContextTokens(lastUsage) : 0;
+  if (session.ctx.cost) {
+    session.ctx.cost.sessionUsd = transcript.usage.reduce((sum, u) => sum + (u.costUsd ?? 0), 0);
+  }
+}
+
+/** Attach the request's price, adding it to the session's spend. */
+function priceUsage(ctx: SessionContext, usage: TurnUsage): TurnUsage {
+  const cost = ctx.cost?.add(usage);
+  return cost == null ? usage : { ...usage, costUsd: cost };
+}
+
+function logHookErrors(session: Session, event: HookEvent, outcome: HookOutcome): void {
+  if (!session.ctx.logFile) return;
+  for (const error of outcome.errors) {
+    logHookError(session.ctx.logFile, event, error);
+  }
+}
+
+/**
+ * Run SessionStart hooks. Their output is attached to the next prompt, so
+ * call this once the session (and any restored transcript) is in place.
+ */
+export async function startSession(
+  session: Session,
+  source: SessionStartSource,
+): Promise<void> {
+  const hooks = session.agent.hookEngine;
+  if (!hooks.hasHooks("SessionStart")) return;
+
+  const outcome = await hooks.run("SessionStart", { source }, { target: source });
+  logHookErrors(session, "SessionStart", outcome);
+  if (outcome.additionalContext.length > 0) {
+    session.pendingContext.push(
+      formatHookContext("SessionStart", outcome.additionalContext),
+    );
+  }
+}
+
+/**
+ * Manually summarize older turns (the /compact command). The summary request
+ * is priced like a turn and refused once a spending limit is reached.
+ */
+export async function compactSession(
+  session: Session,
+  options?: {
+    instructions?: string;
+    abortSignal?: AbortSignal;
+    onUsage?: (usage: TurnUsage) => void;
+  },
+): Promise<CompactionResult | null> {
+  const cost = session.ctx.cost;
+  if (cost?.limits.daily !== undefined) {
+    await cost.refreshDaily();
+  }
+  const limit = cost?.exceededLimit();
+  if (cost && limit) {
+    throw new Error(describeCostLimit(limit, cost));
+  }
+
+  const result = await compactMessages(session.messages, {
+    model: session.agent.model,
+    modelId: session.agent.modelId,
+    keepRecentTurns: session.compaction.keepRecentTurns,
+    instructions: options?.instructions,
+    abortSignal: options?.abortSignal,
+    onUsage: (usage) => options?.onUsage?.(priceUsage(session.ctx, usage)),
+  });
+  if (result) {
+    session.contextTokens = 0;
+    session.ctx.checkpoints?.invalidateConversation();
+  }
+  return result;
+}
+
+/**
+ * Re-read WELLGROW.md / AGENTS.md and swap them into the system prompt, so
+ * edits made with /memory apply from the next turn.
+ */
+export async function reloadInstructions(
+  session: Session,
+): Promise<InstructionFile[]> {
+  const config = await loadConfig();
+  const files = await loadProjectInstructions(session.ctx.cwd, {
+    agentsMd: config.instructions?.agents_md,
+  });
+  session.agent.systemPrompt = replaceInstructionsSection(
+    session.agent.systemPrompt,
+    files,
+  );
+  return files;
+}
+
+/** What /rewind puts back. */
+export type RewindTarget = "all" | "files" | "conversation";
+
+export interface RewindResult {
+  /** Files written back or deleted. */
+  restoredFiles: string[];
+  /** Number of conversation messages dropped. */
+  removedMessages: number;
+  /** The prompt that started the checkpoint, for putting back in the input. */
+  prompt: string;
+  /** What the screen should show once the conversation is rewound; null when only files were. */
+  transcript: DisplayMessage[] | null;
+}
+
+/**
+ * Undo everything from the start of a checkpoint's turn: file changes made
+ * by Write/Edit, the conversation, or both.
+ */
+export async function rewindSession(
+  session: Session,
+  checkpointId: number,
+  target: RewindTarget,
+): Promise<RewindResult> {
+  const store = session.ctx.checkpoints;
+  const checkpoint = store?.get(checkpointId);
+  if (!store || !checkpoint) {
+    throw new Error(`チェックポイントが見つかりません: #${checkpointId}`);
+  }
+  const messageCount = checkpoint.messageCount;
+  if (target !== "files" && messageCount === null) {
+    throw new Error(
+      `チェックポイント #${checkpointId} の会話は要約またはエージェント切り替えのため巻き戻せません`,
+    );
+  }
+
+  const restoredFiles =
+    target === "conversation" ? [] : await store.restoreFiles(checkpointId);
+
+  let removedMessages = 0;
+  let transcript: DisplayMessage[] | null = null;
+  if (target !== "files" && messageCount !== null) {
+    removedMessages = session.messages.length - messageCount;
+    session.messages = session.messages.slice(0, messageCount);
+    session.ctx.agent.todos = restoreTodos(session.messages);
+    session.contextTokens = 0;
+    store.markConversationRewound(checkpointId);
+    transcript = replayMessages(session.messages);
+  }
+
+  return { restoredFiles, removedMessages, prompt: checkpoint.prompt, transcript };
 }
 
 export interface SendMessageOptions {
@@ -82,6 +318,11 @@ export interface SendMessageOptions {
 export interface SendMessageResult {
   fullText: string;
   parts: MessagePart[];
+  /** Model requests made, including ones after a Stop hook continued. */
+  turns: number;
+  maxTurnsReached: boolean;
+  /** The spending limit that stopped the agent, if any. */
+  costLimit: CostLimitKind | null;
 }
 
 export async function sendMessage(
@@ -90,23 +331,149 @@ export async function sendMessage(
   callbacks: AgentLoopCallbacks,
   options?: SendMessageOptions,
 ): Promise<SendMessageResult> {
-  session.messages.push({ role: "user", content: userMessage });
+  const hooks = session.agent.hookEngine;
+
+  const context = [...session.pendingContext];
+  const mcpManager = session.agent.mcpManager;
+  if (mcpManager) {
+    context.push(...await resolveResourceMentions(mcpManager, userMessage));
+  }
+  if (hooks.hasHooks("UserPromptSubmit")) {
+    const outcome = await hooks.run(
+      "UserPromptSubmit",
+      { prompt: userMessage },
+      { abortSignal: options?.abortSignal },
+    );
+    logHookErrors(session, "UserPromptSubmit", outcome);
+    if (outcome.blocked) {
+      throw new HookBlockedError("UserPromptSubmit", outcome.reason ?? "");
+    }
+    if (outcome.additionalContext.length > 0) {
+      context.push(formatHookContext("UserPromptSubmit", outcome.additionalContext));
+    }
+  }
+  session.pendingContext = [];
+
+  session.ctx.checkpoints?.begin(userMessage, session.messages.length);
+  session.messages.push(
+    context.length > 0
+      ? {
+          role: "user",
+          content: [
+            { type: "text", text: userMessage },
+            ...context.map((text) => ({ type: "text" as const, text })),
+          ],
+        }
+      : { role: "user", content: userMessage },
+  );
+
+  let fullText = "";
+  let parts: MessagePart[] = [];
+  let turns = 0;
+  let maxTurnsReached = false;
+  let costLimit: CostLimitKind | null = null;
+  let continuations = 0;
+
+  const cost = session.ctx.cost;
+  if (cost?.limits.daily !== undefined) {
+    await cost.refreshDaily();
+  }
+
+  const generation = session.nextThinkingBudget
+    ? raiseThinkingBudget(session.agent.generation, session.nextThinkingBudget)
+    : session.agent.generation;
+  session.nextThinkingBudget = undefined;
+
+  while (true) {
+    // Parts from earlier runs stay on screen when a Stop hook continues.
+    const previousParts = parts;
+    const withPrevious = (next: MessagePart[]): MessagePart[] =>
+      previousParts.length > 0
+        ? [...previousParts, { type: "step-start" }, ...next]
+        : next;
+
+    const result = await runSessionLoop(session, {
+      ...callbacks,
+      onMessageUpdate: (next) => callbacks.onMessageUpdate(withPrevious(next)),
+    }, generation, options);
+    fullText += result.fullText;
+    parts = withPrevious(result.parts);
+    turns += result.turns;
+    maxTurnsReached = result.maxTurnsReached;
+    if (result.costLimitReached) {
+      costLimit = cost?.exceededLimit() ?? "session";
+      break;
+    }
+
+    const aborted =
+      options?.abortSignal?.aborted ||
+      session.ctx.abort.userAbortController?.signal.aborted;
+    if (aborted || !hooks.hasHooks("Stop")) break;
+    if (continuations >= MAX_STOP_HOOK_CONTINUATIONS) break;
+
+    const outcome = await hooks.run(
+      "Stop",
+      { stop_hook_active: continuations > 0 },
+      { abortSignal: options?.abortSignal },
+    );
+    logHookErrors(session, "Stop", outcome);
+    if (!outcome.blocked) break;
 
+    continuations++;
+    session.messages.push({
+      role: "user",
+      content: formatHookContext("Stop", [outcome.reason ?? ""]),
+    });
+  }
+
+  return { fullText, parts, turns, maxTurnsReached, costLimit };
+}
+
+function runSessionLoop(
+  session: Session,
+  callbacks: AgentLoopCallbacks,
+  generation: GenerationSettings | undefined,
+  options?: SendMessageOptions,
+): Promise<AgentLoopResult> {
   return runAgentLoop(
     session.messages,
     {
       model: session.agent.model,
+      modelId: session.agent.modelId,
+      fallback: session.agent.fallback,
       system: session.agent.systemPrompt,
       registry: session.agent.registry,
       pipeline: session.agent.pipeline,
+      hooks: session.agent.hookEngine,
+      projectDir: session.ctx.projectDir,
       abortSignal: options?.abortSignal,
       maxTurns: options?.maxTurns ?? session.agent.maxTurns,
       maxRetries: options?.maxRetries,
       maxOutputTokens: options?.maxOutputTokens,
+      generation,
       logFile: session.ctx.logFile,
       isAbortedByUser: () =>
         session.ctx.abort.userAbortController?.signal.aborted ?? false,
+      isCostLimitReached: () => session.ctx.cost?.exceededLimit() != null,
+      compaction: {
+        ...session.compaction,
+        contextWindow: getContextWindow(session.agent.modelId),
+        contextTokens: session.contextTokens,
+      },
+    },
+    {
+      ...callbacks,
+      onUsage: (usage) => {
+        session.contextTokens = estimateContextTokens(usage);
+        callbacks.onUsage?.(priceUsage(session.ctx, usage));
+      },
+      onCompact: (result) => {
+        if (result) {
+          session.contextTokens = 0;
+          session.ctx.checkpoints?.invalidateConversation();
+        }
+        callbacks.onCompact?.(result);
+      },
     },
-    callbacks,
   );
 }
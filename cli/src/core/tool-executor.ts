@@ -3,10 +3,22 @@ import type { ToolRegistry, ToolHandlerContext } from "../tools/registry.js";
 import type { ToolUIEvent } from "../tools/definition.js";
 import type { ToolPipeline } from "../tools/pipeline.js";
 import type { MessagePart } from "../ui/message-list.js";
-import type { ApprovalRequest, ApprovalDecision } from "../ui/approval-prompt.js";
-import { addAllowedMcp } from "../config/index.js";
+import type {
+  ApprovalRequest,
+  ApprovalDecision,
+  ApprovalScope,
+} from "../ui/approval-prompt.js";
+import { addProjectAllowRule, trustProject } from "../config/project-permissions.js";
+import { suggestProjectRule } from "../tools/permissions.js";
 import { formatToolError } from "../tools/errors.js";
-import { logToolCall, logToolResult } from "../logging.js";
+import { formatErrorMessage } from "../ai/retry.js";
+import { logToolCall, logToolResult, logHookError } from "../logging.js";
+import {
+  formatHookContext,
+  type HookEngine,
+  type HookEvent,
+  type HookOutcome,
+} from "../extensions/hooks.js";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -23,12 +35,17 @@ export interface ToolExecutorConfig {
   pipeline: ToolPipeline;
   abortSignal?: AbortSignal;
   logFile?: string | null;
+  hooks?: HookEngine;
+  /** Where "always allow in this project" rules are saved. */
+  projectDir?: string;
 }
 
 export interface ToolExecutorCallbacks {
   onMessageUpdate: (parts: MessagePart[]) => void;
   onToolUIEvent?: (event: ToolUIEvent) => void;
   onApprovalRequest?: (request: ApprovalRequest) => Promise<ApprovalDecision>;
+  /** Something the user should know that is not part of the conversation. */
+  onNotice?: (message: string) => void;
 }
 
 // ---------------------------------------------------------------------------
@@ -51,33 +68,105 @@ function updateToolPart(
   }
 }
 
+function updateToolChildren(
+  parts: MessagePart[],
+  toolCallId: string,
+  children: MessagePart[],
+): void {
+  const idx = parts.findIndex(
+    (p) => p.type === "tool" && p.toolCallId === toolCallId,
+  );
+  if (idx >= 0) {
+    const part = parts[idx] as Extract<MessagePart, { type: "tool" }>;
+    parts[idx] = { ...part, children };
+  }
+}
+
+/**
+ * Sub-agents running in parallel may ask at the same time; the UI shows
+ * one prompt at a time, so requests wait for the previous answer.
+ */
+function withQueuedApprovals(callbacks: ToolExecutorCallbacks): ToolExecutorCallbacks {
+  const onApprovalRequest = callbacks.onApprovalRequest;
+  if (!onApprovalRequest) return callbacks;
+
+  let queue: Promise<unknown> = Promise.resolve();
+  return {
+    ...callbacks,
+    onApprovalRequest: (request) => {
+      const decision = queue.then(() => onApprovalRequest(request));
+      queue = decision.catch(() => {});
+      return decision;
+    },
+  };
+}
+
 async function requestApproval(
   tc: ToolCall,
   meta: { category: string; source: string },
-  pipeline: ToolPipeline,
+  config: ToolExecutorConfig,
   callbacks: ToolExecutorCallbacks,
-): Promise<boolean> {
+): Promise<ApprovalDecision> {
   if (!callbacks.onApprovalRequest) {
-    return true;
+    return { action: "allow" };
   }
 
+  const projectRule = config.projectDir
+    ? suggestProjectRule(tc.toolName, tc.args)
+    : null;
+
   const decision = await callbacks.onApprovalRequest({
     toolCallId: tc.toolCallId,
     toolName: tc.toolName,
     args: tc.args,
     source: meta.source,
     category: meta.category,
+    projectRule: projectRule ?? undefined,
   });
 
-  if (decision.action === "allow" && meta.source === "mcp") {
-    const serverName = tc.toolName.split("__")[1];
-    if (serverName) {
-      pipeline.markMcpAllowed(serverName);
-      await addAllowedMcp(serverName).catch(() => {});
-    }
+  if (decision.action === "allow") {
+    await applyApprovalScope(tc, decision.scope ?? "once", projectRule, config, callbacks);
+  }
+  return decision;
+}
+
+async function applyApprovalScope(
+  tc: ToolCall,
+  scope: ApprovalScope,
+  projectRule: string | null,
+  config: ToolExecutorConfig,
+  callbacks: ToolExecutorCallbacks,
+): Promise<void> {
+  switch (scope) {
+    case "once":
+      return;
+    case "session":
+      config.pipeline.allowForSession(tc.toolName, tc.args);
+      return;
+    case "tool":
+      config.pipeline.allowToolForSession(tc.toolName);
+      return;
+    case "project":
+      if (!projectRule || !config.projectDir) return;
+      config.pipeline.addAllowRule(projectRule);
+      try {
+        await addProjectAllowRule(config.projectDir, projectRule);
+        // Saving a rule is what makes the project's own allow rules count.
+        await trustProject(config.projectDir);
+      } catch (error) {
+        callbacks.onNotice?.(
+          `ルール ${projectRule} を保存できませんでした（このセッション中は許可します）: ${formatErrorMessage(error)}`,
+        );
+      }
+      return;
   }
+}
 
-  return decision.action === "allow";
+function deniedReason(decision: Extract<ApprovalDecision, { action: "deny" }>): string {
+  const feedback = decision.feedback?.trim();
+  return feedback
+    ? `ユーザーがツールの実行を拒否しました。ユーザーからのフィードバック: ${feedback}`
+    : "ユーザーがツールの実行を拒否しました";
 }
 
 function toToolOutput(value: unknown): ToolResultPart["output"] {
@@ -87,6 +176,84 @@ function toToolOutput(value: unknown): ToolResultPart["output"] {
   return { type: "json" as const, value: value as import("ai").JSONValue };
 }
 
+function logHookErrors(
+  config: ToolExecutorConfig,
+  event: HookEvent,
+  outcome: HookOutcome,
+): void {
+  if (!config.logFile) return;
+  for (const error of outcome.errors) {
+    logHookError(config.logFile, event, error);
+  }
+}
+
+function withHookContext(
+  output: ToolResultPart["output"],
+  context: string,
+): ToolResultPart["output"] {
+  switch (output.type) {
+    case "text":
+      return { type: "text", value: `${output.value}\n\n${context}` };
+    case "json":
+      return { type: "text", value: `${JSON.stringify(output.value)}\n\n${context}` };
+    default:
+      return output;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Hooks
+// ---------------------------------------------------------------------------
+
+async function runPreToolUseHooks(
+  tc: ToolCall,
+  parts: MessagePart[],
+  config: ToolExecutorConfig,
+): Promise<HookOutcome | null> {
+  if (!config.hooks?.hasHooks("PreToolUse")) return null;
+
+  const outcome = await config.hooks.run(
+    "PreToolUse",
+    { tool_name: tc.toolName, tool_input: tc.args },
+    { target: tc.toolName, abortSignal: config.abortSignal },
+  );
+  logHookErrors(config, "PreToolUse", outcome);
+
+  if (!outcome.blocked && outcome.updatedInput) {
+    tc.args = outcome.updatedInput;
+    const idx = parts.findIndex(
+      (p) => p.type === "tool" && p.toolCallId === tc.toolCallId,
+    );
+    if (idx >= 0) {
+      const part = parts[idx] as Extract<MessagePart, { type: "tool" }>;
+      parts[idx] = { ...part, input: tc.args };
+    }
+  }
+  return outcome;
+}
+
+async function runPostToolUseHooks(
+  tc: ToolCall,
+  toolResult: unknown,
+  config: ToolExecutorConfig,
+): Promise<string | null> {
+  if (!config.hooks?.hasHooks("PostToolUse")) return null;
+
+  const outcome = await config.hooks.run(
+    "PostToolUse",
+    { tool_name: tc.toolName, tool_input: tc.args, tool_response: toolResult },
+    { target: tc.toolName, abortSignal: config.abortSignal },
+  );
+  logHookErrors(config, "PostToolUse", outcome);
+
+  // The tool already ran, so a block only feeds the reason back to the model.
+  const context = [
+    ...(outcome.blocked && outcome.reason ? [outcome.reason] : []),
+    ...outcome.additionalContext,
+  ];
+  return context.length > 0 ? formatHookContext("PostToolUse", context) : null;
+}
+
 // ---------------------------------------------------------------------------
 // Single tool execution
 // ---------------------------------------------------------------------------
@@ -113,15 +280,16 @@ async function executeSingleTool(
     };
   }
 
-  if (needsApproval) {
-    const meta = registry.getMeta(tc.toolName);
+  // An earlier approval in the same batch may already cover this call.
+  const meta = registry.getMeta(tc.toolName);
+  if (needsApproval && pipeline.evaluate(tc.toolName, meta, tc.args).action !== "auto") {
     const metaInfo = {
       category: meta?.category ?? "execute",
       source: meta?.source ?? "builtin",
     };
-    const approved = await requestApproval(tc, metaInfo, pipeline, callbacks);
-    if (!approved) {
-      const reason = "ユーザーがツールの実行を拒否しました";
+    const decision = await requestApproval(tc, metaInfo, config, callbacks);
+    if (decision.action === "deny") {
+      const reason = deniedReason(decision);
       updateToolPart(parts, tc.toolCallId, "output-denied", undefined, reason);
       callbacks.onMessageUpdate([...parts]);
       return pipeline.createDeniedResult(tc.toolCallId, tc.toolName, reason);
@@ -141,10 +309,15 @@ async function executeSingleTool(
     const handlerCtx: ToolHandlerContext = {
       toolCallId: tc.toolCallId,
       abortSignal: config.abortSignal,
+      onNestedUpdate: (children) => {
+        updateToolChildren(parts, tc.toolCallId, children);
+        callbacks.onMessageUpdate([...parts]);
+      },
+      onApprovalRequest: callbacks.onApprovalRequest,
+      onNotice: callbacks.onNotice,
     };
     const resultPromise = handler(tc.args, handlerCtx);
 
-    const meta = registry.getMeta(tc.toolName);
     const uiHooks = meta?.uiHooks;
     const startEvent = uiHooks?.onStart?.(tc.args, tc.toolCallId);
     if (startEvent && callbacks.onToolUIEvent) {
@@ -164,11 +337,14 @@ async function executeSingleTool(
       callbacks.onToolUIEvent(completeEvent);
     }
 
+    const output = toToolOutput(toolResult);
+    const hookContext = await runPostToolUseHooks(tc, toolResult, config);
+
     return {
       type: "tool-result",
       toolCallId: tc.toolCallId,
       toolName: tc.toolName,
-      output: toToolOutput(toolResult),
+      output: hookContext ? withHookContext(output, hookContext) : output,
     };
   } catch (error) {
     const errorMsg = formatToolError(error);
@@ -192,15 +368,29 @@ export async function executeToolCalls(
   toolCalls: ToolCall[],
   parts: MessagePart[],
   config: ToolExecutorConfig,
-  callbacks: ToolExecutorCallbacks,
+  batchCallbacks: ToolExecutorCallbacks,
 ): Promise<ToolResultPart[]> {
   const { registry, pipeline } = config;
+  const callbacks = withQueuedApprovals(batchCallbacks);
 
   const autoApprove: ToolCall[] = [];
   const needsApproval: ToolCall[] = [];
   const blocked: { tc: ToolCall; reason: string }[] = [];
 
-  for (const tc of toolCalls) {
+  const hookOutcomes = await Promise.all(
+    toolCalls.map((tc) => runPreToolUseHooks(tc, parts, config)),
+  );
+
+  toolCalls.forEach((tc, i) => {
+    const hook = hookOutcomes[i];
+    if (hook?.blocked) {
+      blocked.push({
+        tc,
+        reason: `フックによりブロックされました: ${hook.reason}`,
+      });
+      return;
+    }
+
     const meta = registry.getMeta(tc.toolName);
     const evaluation = pipeline.evaluate(tc.toolName, meta, tc.args);
     switch (evaluation.action) {
@@ -211,10 +401,15 @@ export async function executeToolCalls(
         autoApprove.push(tc);
         break;
       case "approve":
-        needsApproval.push(tc);
+        // A PreToolUse hook can pre-approve, but never override a block.
+        if (hook?.allowed) {
+          autoApprove.push(tc);
+        } else {
+          needsApproval.push(tc);
+        }
         break;
     }
-  }
+  });
 
   const blockedResults: ToolResultPart[] = blocked.map(({ tc, reason }) => {
     updateToolPart(parts, tc.toolCallId, "output-denied", undefined, reason);
@@ -0,0 +1,137 @@
+import { randomUUID } from "node:crypto";
+import type { ModelMessage, ToolResultPart } from "ai";
+import type { DisplayMessage, MessagePart } from "../ui/message-list.js";
+import type { TodoItem } from "../tools/todo-write.js";
+import { isHookContext } from "../extensions/hooks.js";
+
+// ---------------------------------------------------------------------------
+// Replay ModelMessages into the DisplayMessages rendered by MessageItem.
+// Consecutive assistant/tool messages belong to one agent-loop run and are
+// folded into a single assistant message, with step-start parts between
+// turns, mirroring what runAgentLoop streams live.
+// ---------------------------------------------------------------------------
+
+function toolResultState(
+  output: ToolResultPart["output"],
+): { state: "output-available" | "output-error" | "output-denied"; output?: unknown; errorText?: string } {
+  switch (output.type) {
+    case "text":
+    case "json":
+      return { state: "output-available", output: output.value };
+    case "error-text":
+      return { state: "output-error", errorText: output.value };
+    case "error-json":
+      return { state: "output-error", errorText: JSON.stringify(output.value) };
+    case "execution-denied":
+      return { state: "output-denied", errorText: output.reason };
+    default:
+      return { state: "output-available", output: output };
+  }
+}
+
+/** What the user typed, without context injected by hooks. */
+function userText(message: Extract<ModelMessage, { role: "user" }>): string {
+  if (typeof message.content === "string") {
+    return isHookContext(message.content) ? "" : message.content;
+  }
+  return message.content
+    .map((p) => (p.type === "text" && !isHookContext(p.text) ? p.text : ""))
+    .join("");
+}
+
+export function replayMessages(messages: readonly ModelMessage[]): DisplayMessage[] {
+  const display: DisplayMessage[] = [];
+  let current: DisplayMessage | null = null;
+
+  const flush = () => {
+    if (current && current.parts.length > 0) display.push(current);
+    current = null;
+  };
+
+  for (const message of messages) {
+    switch (message.role) {
+      case "user": {
+        // A hook-only message (a Stop hook continuing the run) keeps
+        // folding into the current assistant message.
+        const text = userText(message);
+        if (!text) break;
+        flush();
+        display.push({
+          id: randomUUID(),
+          role: "user",
+          parts: [{ type: "text", text, state: "done" }],
+        });
+        break;
+      }
+
+      case "assistant": {
+        if (!current) {
+          current = { id: randomUUID(), role: "assistant", parts: [] };
+        } else {
+          current.parts.push({ type: "step-start" });
+        }
+        const parts: MessagePart[] = current.parts;
+        if (typeof message.content === "string") {
+          if (message.content) {
+            parts.push({ type: "text", text: message.content, state: "done" });
+          }
+          break;
+        }
+        for (const p of message.content) {
+          switch (p.type) {
+            case "text":
+              if (p.text) parts.push({ type: "text", text: p.text, state: "done" });
+              break;
+            case "reasoning":
+              if (p.text) parts.push({ type: "reasoning", text: p.text, state: "done" });
+              break;
+            case "tool-call":
+              parts.push({
+                type: "tool",
+                toolCallId: p.toolCallId,
+                toolName: p.toolName,
+                state: "input-available",
+                input: p.input,
+              });
+              break;
+          }
+        }
+        break;
+      }
+
+      case "tool": {
+        if (!current) break;
+        const parts: MessagePart[] = current.parts;
+        for (const result of message.content) {
+          if (result.type !== "tool-result") continue;
+          const idx = parts.findIndex(
+            (p) => p.type === "tool" && p.toolCallId === result.toolCallId,
+          );
+          if (idx < 0) continue;
+          const part = parts[idx] as Extract<MessagePart, { type: "tool" }>;
+          parts[idx] = { ...part, ...toolResultState(result.output) };
+        }
+        break;
+      }
+    }
+  }
+
+  flush();
+  return display;
+}
+
+/** The todo list is whatever the most recent TodoWrite call set it to. */
+export function restoreTodos(messages: readonly ModelMessage[]): TodoItem[] {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i];
+    if (message.role !== "assistant" || typeof message.content === "string") continue;
+    for (let j = message.content.length - 1; j >= 0; j--) {
+      const part = message.content[j];
+      if (part.type === "tool-call" && part.toolName === "TodoWrite") {
+        const input = part.input as { todos?: TodoItem[] };
+        return Array.isArray(input?.todos) ? input.todos : [];
+      }
+    }
+  }
+  return [];
+}
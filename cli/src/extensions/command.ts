@@ -0,0 +1,100 @@
+import { spawn, type ChildProcess } from "node:child_process";
+
+// ---------------------------------------------------------------------------
+// Shell commands of hooks and custom tools
+//
+// The command runs through the shell in its own process group, gets a JSON
+// payload on stdin, and is killed with its whole pipeline on timeout or
+// abort. WELLGROW_PROJECT_DIR is always set to the working directory.
+// ---------------------------------------------------------------------------
+
+export interface ShellCommandOptions {
+  cwd: string;
+  /** Serialized as JSON and written to stdin. */
+  input: unknown;
+  /** Seconds. */
+  timeout: number;
+  /** Added to the inherited environment. */
+  env?: Record<string, string>;
+  abortSignal?: AbortSignal;
+  /** Stop collecting stdout once it is longer than this. */
+  maxStdoutChars?: number;
+  /** Holds the process while it runs, so the caller can kill them all. */
+  running?: Set<ChildProcess>;
+}
+
+export interface ShellCommandResult {
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+  /** Set when the shell itself could not be started. */
+  spawnError?: string;
+}
+
+export function killShellCommand(child: ChildProcess): void {
+  try {
+    if (child.pid) process.kill(-child.pid, "SIGKILL");
+  } catch {
+    try {
+      child.kill("SIGKILL");
+    } catch {
+      // already dead
+    }
+  }
+}
+
+/** Never rejects; failures are described by the result. */
+export function runShellCommand(
+  command: string,
+  options: ShellCommandOptions,
+): Promise<ShellCommandResult> {
+  const { cwd, abortSignal, running } = options;
+  const maxStdoutChars = options.maxStdoutChars ?? Infinity;
+
+  return new Promise((resolve) => {
+    const child = spawn(command, {
+      shell: true,
+      cwd,
+      env: { ...process.env, WELLGROW_PROJECT_DIR: cwd, ...options.env },
+      stdio: ["pipe", "pipe", "pipe"],
+      detached: true,
+    });
+    running?.add(child);
+
+    let stdout = "";
+    let stderr = "";
+    let timedOut = false;
+    let settled = false;
+
+    const finish = (exitCode: number | null, spawnError?: string) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      abortSignal?.removeEventListener("abort", onAbort);
+      running?.delete(child);
+      resolve({ exitCode, stdout, stderr, timedOut, ...(spawnError ? { spawnError } : {}) });
+    };
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      killShellCommand(child);
+    }, options.timeout * 1000);
+
+    const onAbort = () => killShellCommand(child);
+    abortSignal?.addEventListener("abort", onAbort, { once: true });
+
+    child.stdout?.on("data", (chunk: Buffer) => {
+      if (stdout.length <= maxStdoutChars) stdout += chunk.toString("utf-8");
+    });
+    child.stderr?.on("data", (chunk: Buffer) => {
+      stderr += chunk.toString("utf-8");
+    });
+    child.on("error", (error) => finish(null, error.message));
+    child.on("close", (code) => finish(code));
+
+    // The command may exit without reading stdin.
+    child.stdin?.on("error", () => {});
+    child.stdin?.end(JSON.stringify(options.input));
+  });
+}
@@ -0,0 +1,356 @@
+import type { ChildProcess } from "node:child_process";
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { homedir } from "node:os";
+import {
+  killShellCommand,
+  runShellCommand,
+  type ShellCommandResult,
+} from "./command.js";
+
+const HOOK_TIMEOUT_DEFAULT = 60;
+const HOOK_BLOCK_EXIT_CODE = 2;
+
+export const HOOK_EVENTS = [
+  "PreToolUse",
+  "PostToolUse",
+  "UserPromptSubmit",
+  "SessionStart",
+  "Stop",
+] as const;
+
+export type HookEvent = (typeof HOOK_EVENTS)[number];
+
+export type SessionStartSource = "startup" | "resume" | "clear";
+
+export interface HookCommandConfig {
+  type: "command";
+  command: string;
+  /** Seconds before the hook process is killed. */
+  timeout?: number;
+}
+
+export interface HookMatcherConfig {
+  /** Regex matched against the tool name (or session source). Empty / "*" matches all. */
+  matcher?: string;
+  hooks: HookCommandConfig[];
+}
+
+export type HooksConfig = Partial<Record<HookEvent, HookMatcherConfig[]>>;
+
+/** JSON written to the hook process's stdin. */
+export interface HookInput {
+  hook_event_name: HookEvent;
+  session_id: string;
+  cwd: string;
+  tool_name?: string;
+  tool_input?: Record<string, unknown>;
+  tool_response?: unknown;
+  prompt?: string;
+  source?: SessionStartSource;
+  stop_hook_active?: boolean;
+}
+
+/** JSON a hook may print to stdout (exit code 0). */
+export interface HookOutput {
+  decision?: "block" | "allow";
+  reason?: string;
+  updated_input?: Record<string, unknown>;
+  additional_context?: string;
+}
+
+export interface HookOutcome {
+  blocked: boolean;
+  reason?: string;
+  /** A PreToolUse hook explicitly allowed the call; skip the approval prompt. */
+  allowed: boolean;
+  updatedInput?: Record<string, unknown>;
+  additionalContext: string[];
+  /** Non-blocking failures (crashes, timeouts, unparsable output). */
+  errors: string[];
+}
+
+export class HookBlockedError extends Error {
+  readonly event: HookEvent;
+
+  constructor(event: HookEvent, reason: string) {
+    super(`フックによりブロックされました: ${reason}`);
+    this.name = "HookBlockedError";
+    this.event = event;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// hooks.json parser
+// ---------------------------------------------------------------------------
+
+function resolveTildePath(p: string): string {
+  if (p.startsWith("~/")) {
+    return join(homedir(), p.slice(2));
+  }
+  return p;
+}
+
+function isHookEvent(value: string): value is HookEvent {
+  return (HOOK_EVENTS as readonly string[]).includes(value);
+}
+
+function parseMatchers(value: unknown): HookMatcherConfig[] {
+  if (!Array.isArray(value)) return [];
+  const matchers: HookMatcherConfig[] = [];
+  for (const entry of value) {
+    if (!entry || typeof entry !== "object") continue;
+    const { matcher, hooks } = entry as Record<string, unknown>;
+    if (!Array.isArray(hooks)) continue;
+    const commands = hooks.filter(
+      (h): h is HookCommandConfig =>
+        !!h &&
+        typeof h === "object" &&
+        (h as HookCommandConfig).type === "command" &&
+        typeof (h as HookCommandConfig).command === "string",
+    );
+    if (commands.length === 0) continue;
+    matchers.push({
+      matcher: typeof matcher === "string" ? matcher : undefined,
+      hooks: commands,
+    });
+  }
+  return matchers;
+}
+
+export async function loadHooksConfigFile(filePath: string): Promise<HooksConfig> {
+  try {
+    const raw = await readFile(filePath, "utf-8");
+    const parsed = JSON.parse(raw) as Record<string, unknown>;
+    const events =
+      parsed.hooks && typeof parsed.hooks === "object"
+        ? (parsed.hooks as Record<string, unknown>)
+        : parsed;
+
+    const config: HooksConfig = {};
+    for (const [event, matchers] of Object.entries(events)) {
+      if (!isHookEvent(event)) continue;
+      const parsedMatchers = parseMatchers(matchers);
+      if (parsedMatchers.length > 0) config[event] = parsedMatchers;
+    }
+    return config;
+  } catch {
+    return {};
+  }
+}
+
+/** Unlike MCP servers, hooks from every file are kept and all of them run. */
+export function mergeHooksConfigs(...configs: HooksConfig[]): HooksConfig {
+  const merged: HooksConfig = {};
+  for (const config of configs) {
+    for (const event of HOOK_EVENTS) {
+      const matchers = config[event];
+      if (!matchers?.length) continue;
+      merged[event] = [...(merged[event] ?? []), ...matchers];
+    }
+  }
+  return merged;
+}
+
+export async function loadHooksConfig(hookPaths: string[]): Promise<HooksConfig> {
+  const configs = await Promise.all(
+    hookPaths.map((p) => loadHooksConfigFile(resolveTildePath(p))),
+  );
+  return mergeHooksConfigs(...configs);
+}
+
+// ---------------------------------------------------------------------------
+// Matching
+// ---------------------------------------------------------------------------
+
+export function matchesHook(matcher: string | undefined, target: string | undefined): boolean {
+  if (!matcher || matcher === "*") return true;
+  if (target === undefined) return false;
+  try {
+    return new RegExp(`^(?:${matcher})$`).test(target);
+  } catch {
+    return matcher === target;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Command execution
+// ---------------------------------------------------------------------------
+
+function runHookCommand(
+  hook: HookCommandConfig,
+  input: HookInput,
+  running: Set<ChildProcess>,
+  abortSignal?: AbortSignal,
+): Promise<ShellCommandResult> {
+  return runShellCommand(hook.command, {
+    cwd: input.cwd,
+    input,
+    timeout: hook.timeout ?? HOOK_TIMEOUT_DEFAULT,
+    abortSignal,
+    running,
+  });
+}
+
+function parseHookOutput(stdout: string): HookOutput | null {
+  const trimmed = stdout.trim();
+  if (!trimmed.startsWith("{")) return null;
+  try {
+    return JSON.parse(trimmed) as HookOutput;
+  } catch {
+    return null;
+  }
+}
+
+/** Plain stdout is only injected as context for these events. */
+const PLAIN_CONTEXT_EVENTS: ReadonlySet<HookEvent> = new Set([
+  "UserPromptSubmit",
+  "SessionStart",
+]);
+
+function applyHookResult(
+  outcome: HookOutcome,
+  hook: HookCommandConfig,
+  event: HookEvent,
+  result: ShellCommandResult,
+): void {
+  if (result.timedOut) {
+    outcome.errors.push(`${hook.command}: タイムアウトしました`);
+    return;
+  }
+
+  if (result.exitCode === HOOK_BLOCK_EXIT_CODE) {
+    outcome.blocked = true;
+    const reason = result.stderr.trim() || "理由は示されていません";
+    outcome.reason = outcome.reason ? `${outcome.reason}\n${reason}` : reason;
+    return;
+  }
+
+  if (result.exitCode !== 0) {
+    const detail =
+      result.spawnError ?? (result.stderr.trim() || `exit code ${result.exitCode}`);
+    outcome.errors.push(`${hook.command}: ${detail}`);
+    return;
+  }
+
+  const output = parseHookOutput(result.stdout);
+  if (!output) {
+    const text = result.stdout.trim();
+    if (text && PLAIN_CONTEXT_EVENTS.has(event)) {
+      outcome.additionalContext.push(text);
+    }
+    return;
+  }
+
+  if (output.decision === "block") {
+    outcome.blocked = true;
+    const reason = output.reason?.trim() || "理由は示されていません";
+    outcome.reason = outcome.reason ? `${outcome.reason}\n${reason}` : reason;
+  } else if (output.decision === "allow") {
+    outcome.allowed = true;
+  }
+  if (output.updated_input && typeof output.updated_input === "object") {
+    outcome.updatedInput = output.updated_input;
+  }
+  if (output.additional_context?.trim()) {
+    outcome.additionalContext.push(output.additional_context.trim());
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Engine
+// ---------------------------------------------------------------------------
+
+export interface HookRunOptions {
+  /** Matched against each matcher: the tool name, or the session source. */
+  target?: string;
+  abortSignal?: AbortSignal;
+}
+
+export interface HookEngine {
+  readonly config: HooksConfig;
+  hasHooks: (event: HookEvent) => boolean;
+  run: (
+    event: HookEvent,
+    input: Omit<HookInput, "hook_event_name" | "session_id" | "cwd">,
+    options?: HookRunOptions,
+  ) => Promise<HookOutcome>;
+  /** Kill every hook process still running (used on shutdown). */
+  cancelAll: () => void;
+}
+
+export interface HookEngineContext {
+  sessionId: string;
+  cwd: string;
+}
+
+/**
+ * Runs the shell commands declared for an event in parallel, passing the
+ * event payload as JSON on stdin. Exit code 2 (or `"decision": "block"`)
+ * blocks; any other failure is reported in `errors` and otherwise ignored.
+ */
+export function createHookEngine(
+  config: HooksConfig,
+  ctx: HookEngineContext,
+): HookEngine {
+  const running = new Set<ChildProcess>();
+
+  return {
+    config,
+
+    hasHooks(event) {
+      return (config[event]?.length ?? 0) > 0;
+    },
+
+    async run(event, input, options = {}) {
+      const outcome: HookOutcome = {
+        blocked: false,
+        allowed: false,
+        additionalContext: [],
+        errors: [],
+      };
+
+      const hooks = (config[event] ?? [])
+        .filter((m) => matchesHook(m.matcher, options.target))
+        .flatMap((m) => m.hooks);
+      if (hooks.length === 0) return outcome;
+
+      const payload: HookInput = {
+        hook_event_name: event,
+        session_id: ctx.sessionId,
+        cwd: ctx.cwd,
+        ...input,
+      };
+
+      const results = await Promise.all(
+        hooks.map((hook) => runHookCommand(hook, payload, running, options.abortSignal)),
+      );
+      results.forEach((result, i) => applyHookResult(outcome, hooks[i], event, result));
+
+      // A block always wins over an explicit allow from another hook.
+      if (outcome.blocked) outcome.allowed = false;
+      return outcome;
+    },
+
+    cancelAll() {
+      for (const child of running) {
+        killShellCommand(child);
+      }
+      running.clear();
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Context injection
+// ---------------------------------------------------------------------------
+
+const HOOK_CONTEXT_OPEN = "<hook_context";
+
+export function formatHookContext(event: HookEvent, context: string[]): string {
+  return `${HOOK_CONTEXT_OPEN} event="${event}">\n${context.join("\n\n")}\n</hook_context>`;
+}
+
+export function isHookContext(text: string): boolean {
+  return text.startsWith(HOOK_CONTEXT_OPEN);
+}
@@ -4,6 +4,8 @@ import { homedir } from "node:os";
 import {
   createMCPClient,
   auth,
+  UnauthorizedError,
+  type JSONRPCMessage,
   type MCPClient,
   type MCPTransport,
   type OAuthClientProvider,
@@ -13,6 +15,10 @@ import type { Tool } from "ai";
 import { CliOAuthProvider } from "./oauth.js";
 
 const MCP_TIMEOUT_DEFAULT = 10_000;
+/** Reconnect delays double from the base up to the max, for a few attempts. */
+const RECONNECT_BASE_MS = 1_000;
+const RECONNECT_MAX_MS = 30_000;
+const MAX_RECONNECT_ATTEMPTS = 5;
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type AnyTool = Tool<any, any>;
@@ -31,7 +37,38 @@ export interface McpConfig {
   mcpServers: Record<string, McpServerConfig>;
 }
 
-export type McpToolSet = Record<string, AnyTool>;
+/** Hints from the server's tools/list that client.tools() leaves out. */
+export interface McpToolAnnotations {
+  title?: string;
+  readOnlyHint?: boolean;
+  destructiveHint?: boolean;
+  idempotentHint?: boolean;
+  openWorldHint?: boolean;
+}
+
+export type McpTool = AnyTool & { annotations?: McpToolAnnotations };
+
+export type McpToolSet = Record<string, McpTool>;
+
+type ListResourcesResult = Awaited<ReturnType<MCPClient["listResources"]>>;
+export type ReadResourceResult = Awaited<ReturnType<MCPClient["readResource"]>>;
+type ListPromptsResult = Awaited<ReturnType<MCPClient["experimental_listPrompts"]>>;
+export type GetPromptResult = Awaited<ReturnType<MCPClient["experimental_getPrompt"]>>;
+
+export type McpResource = ListResourcesResult["resources"][number] & { server: string };
+
+export interface McpPromptArgument {
+  name: string;
+  description?: string;
+  required: boolean;
+}
+
+export interface McpPrompt {
+  server: string;
+  name: string;
+  description?: string;
+  args: McpPromptArgument[];
+}
 
 // --- .mcp.json parser ---
 
@@ -68,7 +105,7 @@ export function mergeMcpConfigs(...configs: McpConfig[]): McpConfig {
   return { mcpServers: merged };
 }
 
-function resolveTildePath(p: string): string {
+export function resolveTildePath(p: string): string {
   if (p.startsWith("~/")) {
     return join(homedir(), p.slice(2));
   }
@@ -84,7 +121,26 @@ export async function loadGlobalMcpConfig(
   return mergeMcpConfigs(...configs);
 }
 
+export interface McpServerSource {
+  name: string;
+  config: McpServerConfig;
+  /** The `mcp.paths` entry the server was read from, as written. */
+  source: string;
+}
 
+/** Like loadGlobalMcpConfig, but remembers which file each server came from. */
+export async function loadMcpServerSources(
+  mcpPaths: string[],
+): Promise<McpServerSource[]> {
+  const merged = new Map<string, McpServerSource>();
+  for (const path of mcpPaths) {
+    const config = await loadMcpConfigFile(resolveTildePath(path));
+    for (const [name, server] of Object.entries(config.mcpServers)) {
+      merged.set(name, { name, config: server, source: path });
+    }
+  }
+  return [...merged.values()];
+}
 
 type HttpTransportConfig = {
   type: "sse" | "http";
@@ -155,8 +211,33 @@ export interface McpConnectionResult {
   error?: string;
 }
 
+export type McpServerStatus =
+  | "connecting"
+  | "connected"
+  | "failed"
+  | "needs-auth"
+  | "disabled";
+
+export interface McpServerState {
+  name: string;
+  status: McpServerStatus;
+  error?: string;
+  /** Automatic reconnects tried since the server was last connected. */
+  retries: number;
+}
+
+export type McpManagerEvent =
+  | { type: "status"; server: string; state: McpServerState }
+  /** The server sent notifications/tools/list_changed. */
+  | { type: "tools-changed"; server: string };
+
 export class McpManager {
   private clients = new Map<string, MCPClient>();
+  private configs = new Map<string, McpServerConfig>();
+  private states = new Map<string, McpServerState>();
+  private reconnectTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private disabled = new Set<string>();
+  private listeners = new Set<(event: McpManagerEvent) => void>();
 
   async connectAll(
     configs: Record<string, McpServerConfig>,
@@ -190,7 +271,11 @@ export class McpManager {
     name: string,
     config: McpServerConfig,
     timeoutMs: number,
+    retries = 0,
   ): Promise<McpConnectionResult> {
+    this.configs.set(name, config);
+    this.setState(name, { status: "connecting", retries });
+    let authFailed = false;
     try {
       let authProvider: CliOAuthProvider | undefined;
       const type = config.type ?? "stdio";
@@ -200,6 +285,7 @@ export class McpManager {
         try {
           await preAuthenticate(authProvider, config.url);
         } catch (error) {
+          authFailed = true;
           const message = error instanceof Error ? error.message : String(error);
           process.stderr.write(`[MCP] ${name}: OAuth 認証に失敗しました: ${message}\n`);
         }
@@ -222,22 +308,42 @@ export class McpManager {
         timeout(timeoutMs, `MCP server '${name}' connection timed out (${timeoutMs}ms)`),
       ]);
 
-      if (this.clients.has(name)) {
-        await this.clients.get(name)!.close().catch(() => {});
+      if (this.disabled.has(name)) {
+        // Disabled while connecting
+        await client.close().catch(() => {});
+        return { name, success: false, error: "このセッションでは無効です" };
       }
+
+      // Drop the old client first so its close is not taken for a crash.
+      const previous = this.clients.get(name);
+      this.clients.delete(name);
+      await previous?.close().catch(() => {});
       this.clients.set(name, client);
+      watchTransport(client, {
+        onNotification: (method) => {
+          if (method === "notifications/tools/list_changed") {
+            this.emit({ type: "tools-changed", server: name });
+          }
+        },
+        onClose: () => this.handleClosed(name, client),
+      });
 
+      this.setState(name, { status: "connected", retries: 0 });
       return { name, success: true };
     } catch (error) {
-      return {
-        name,
-        success: false,
-        error: error instanceof Error ? error.message : String(error),
-      };
+      const message = errorMessage(error);
+      this.setState(name, {
+        status: authFailed || error instanceof UnauthorizedError ? "needs-auth" : "failed",
+        error: message,
+        retries,
+      });
+      return { name, success: false, error: message };
     }
   }
 
   async disconnect(name: string): Promise<void> {
+    this.cancelReconnect(name);
+    this.states.delete(name);
     const client = this.clients.get(name);
     if (!client) return;
     this.clients.delete(name);
@@ -249,8 +355,97 @@ export class McpManager {
   }
 
   async disconnectAll(): Promise<void> {
-    const names = [...this.clients.keys()];
-    await Promise.allSettled(names.map((name) => this.disconnect(name)));
+    const names = new Set([...this.clients.keys(), ...this.reconnectTimers.keys()]);
+    await Promise.allSettled([...names].map((name) => this.disconnect(name)));
+  }
+
+  // --- Health ---
+
+  getServerStates(): McpServerState[] {
+    return [...this.states.values()];
+  }
+
+  getServerState(name: string): McpServerState | undefined {
+    return this.states.get(name);
+  }
+
+  /** Listen for status changes and tool list updates; returns an unsubscribe function. */
+  subscribe(listener: (event: McpManagerEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Connect again now, e.g. after logging in or re-enabling the server. */
+  async reconnect(name: string): Promise<McpConnectionResult> {
+    const config = this.configs.get(name);
+    if (!config) {
+      return { name, success: false, error: `MCP サーバー '${name}' は設定されていません` };
+    }
+    this.cancelReconnect(name);
+    this.disabled.delete(name);
+    return this.connectSingle(name, config, getTimeoutMs());
+  }
+
+  /** Disconnect for the rest of the session; reconnect() turns it back on. */
+  async disable(name: string): Promise<void> {
+    if (!this.configs.has(name)) {
+      throw new Error(`MCP サーバー '${name}' は設定されていません`);
+    }
+    this.disabled.add(name);
+    await this.disconnect(name);
+    this.setState(name, { status: "disabled", retries: 0 });
+  }
+
+  private handleClosed(name: string, client: MCPClient): void {
+    // Closed by disconnect() or replaced by a newer connection
+    if (this.clients.get(name) !== client) return;
+    this.clients.delete(name);
+    this.scheduleReconnect(name, "接続が切れました", 0);
+  }
+
+  private scheduleReconnect(name: string, error: string, retries: number): void {
+    const config = this.configs.get(name);
+    if (!config) return;
+    if (retries >= MAX_RECONNECT_ATTEMPTS) {
+      this.setState(name, { status: "failed", error, retries });
+      return;
+    }
+
+    const delay = Math.min(RECONNECT_BASE_MS * 2 ** retries, RECONNECT_MAX_MS);
+    this.setState(name, { status: "connecting", error, retries: retries + 1 });
+    const timer = setTimeout(async () => {
+      this.reconnectTimers.delete(name);
+      const result = await this.connectSingle(name, config, getTimeoutMs(), retries + 1);
+      if (!result.success && this.states.get(name)?.status === "failed") {
+        this.scheduleReconnect(name, result.error ?? error, retries + 1);
+      }
+    }, delay);
+    timer.unref?.();
+    this.reconnectTimers.set(name, timer);
+  }
+
+  private cancelReconnect(name: string): void {
+    const timer = this.reconnectTimers.get(name);
+    if (timer) clearTimeout(timer);
+    this.reconnectTimers.delete(name);
+  }
+
+  private setState(name: string, state: Omit<McpServerState, "name">): void {
+    const next = { name, ...state };
+    this.states.set(name, next);
+    this.emit({ type: "status", server: name, state: next });
+  }
+
+  private emit(event: McpManagerEvent): void {
+    for (const listener of this.listeners) {
+      listener(event);
+    }
+  }
+
+  async getToolSet(name: string): Promise<McpToolSet> {
+    return loadTools(this.requireClient(name));
   }
 
   async getAllToolSets(): Promise<{ toolSets: Map<string, McpToolSet>; errors: McpConnectionResult[] }> {
@@ -259,8 +454,7 @@ export class McpManager {
 
     for (const [name, client] of this.clients) {
       try {
-        const toolSet = await client.tools();
-        toolSets.set(name, toolSet as McpToolSet);
+        toolSets.set(name, await loadTools(client));
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
         process.stderr.write(`[MCP] ${name}: failed to load tools: ${message}\n`);
@@ -271,6 +465,94 @@ export class McpManager {
     return { toolSets, errors };
   }
 
+  // --- Resources & prompts ---
+
+  async listResources(
+    server?: string,
+  ): Promise<{ resources: McpResource[]; errors: McpConnectionResult[] }> {
+    const resources: McpResource[] = [];
+    const errors: McpConnectionResult[] = [];
+
+    for (const [name, client] of this.selectClients(server)) {
+      try {
+        let cursor: string | undefined;
+        do {
+          const page: ListResourcesResult = await client.listResources(
+            cursor ? { params: { cursor } } : undefined,
+          );
+          resources.push(...page.resources.map((r) => ({ ...r, server: name })));
+          cursor = page.nextCursor;
+        } while (cursor);
+      } catch (error) {
+        if (isUnsupported(error)) continue;
+        errors.push({ name, success: false, error: `リソース取得失敗: ${errorMessage(error)}` });
+      }
+    }
+
+    return { resources, errors };
+  }
+
+  async readResource(server: string, uri: string): Promise<ReadResourceResult> {
+    return this.requireClient(server).readResource({ uri });
+  }
+
+  async listPrompts(
+    server?: string,
+  ): Promise<{ prompts: McpPrompt[]; errors: McpConnectionResult[] }> {
+    const prompts: McpPrompt[] = [];
+    const errors: McpConnectionResult[] = [];
+
+    for (const [name, client] of this.selectClients(server)) {
+      try {
+        let cursor: string | undefined;
+        do {
+          const page: ListPromptsResult = await client.experimental_listPrompts(
+            cursor ? { params: { cursor } } : undefined,
+          );
+          for (const prompt of page.prompts) {
+            prompts.push({
+              server: name,
+              name: prompt.name,
+              description: prompt.description ?? prompt.title,
+              args: (prompt.arguments ?? []).map((a) => ({
+                name: a.name,
+                description: a.description,
+                required: a.required ?? false,
+              })),
+            });
+          }
+          cursor = page.nextCursor;
+        } while (cursor);
+      } catch (error) {
+        if (isUnsupported(error)) continue;
+        errors.push({ name, success: false, error: `プロンプト取得失敗: ${errorMessage(error)}` });
+      }
+    }
+
+    return { prompts, errors };
+  }
+
+  async getPrompt(
+    server: string,
+    name: string,
+    args: Record<string, string>,
+  ): Promise<GetPromptResult> {
+    return this.requireClient(server).experimental_getPrompt({ name, arguments: args });
+  }
+
+  private selectClients(server?: string): Array<[string, MCPClient]> {
+    if (server === undefined) return [...this.clients];
+    return [[server, this.requireClient(server)]];
+  }
+
+  private requireClient(server: string): MCPClient {
+    const client = this.clients.get(server);
+    if (!client) {
+      throw new Error(`MCP サーバー '${server}' に接続していません`);
+    }
+    return client;
+  }
+
   getConnectedServers(): string[] {
     return [...this.clients.keys()];
   }
@@ -280,8 +562,137 @@ export class McpManager {
   }
 }
 
+// --- Resource mentions & prompt text ---
+
+/** `mcp__<server>__<prompt>`, named like MCP tools in the registry. */
+export function mcpPromptCommandName(server: string, prompt: string): string {
+  return `mcp__${server}__${prompt}`;
+}
+
+export interface ResourceMention {
+  server: string;
+  uri: string;
+}
+
+const MENTION_PATTERN = /(?:^|\s)@([\w.-]+):(\S+)/g;
+// Punctuation right after a mention belongs to the sentence, not the URI.
+const TRAILING_PUNCTUATION = /[.,;!?)」』。、]+$/;
+
+/** `@server:uri` mentions whose server is one of `servers`. */
+export function parseResourceMentions(
+  text: string,
+  servers: readonly string[],
+): ResourceMention[] {
+  const mentions: ResourceMention[] = [];
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    const [, server, rawUri] = match;
+    const uri = rawUri.replace(TRAILING_PUNCTUATION, "");
+    if (!servers.includes(server) || !uri) continue;
+    if (mentions.some((m) => m.server === server && m.uri === uri)) continue;
+    mentions.push({ server, uri });
+  }
+  return mentions;
+}
+
+/** Text contents as-is; binary contents as a one-line placeholder. */
+export function formatResourceContents(result: ReadResourceResult): string {
+  return result.contents
+    .map((c) =>
+      "text" in c
+        ? c.text
+        : `[バイナリ: ${c.uri}${c.mimeType ? ` (${c.mimeType})` : ""}, ${Math.floor((c.blob.length * 3) / 4)} バイト]`,
+    )
+    .join("\n\n");
+}
+
+/**
+ * Read every `@server:uri` mention in a prompt. Each becomes an
+ * `<mcp_resource>` block; a failed read is attached as its error message.
+ */
+export async function resolveResourceMentions(
+  manager: McpManager,
+  text: string,
+): Promise<string[]> {
+  const mentions = parseResourceMentions(text, manager.getConnectedServers());
+  return Promise.all(
+    mentions.map(async ({ server, uri }) => {
+      let body: string;
+      try {
+        body = formatResourceContents(await manager.readResource(server, uri));
+      } catch (error) {
+        body = `読み込みに失敗しました: ${errorMessage(error)}`;
+      }
+      return `<mcp_resource server="${server}" uri="${uri}">\n${body}\n</mcp_resource>`;
+    }),
+  );
+}
+
+/** The prompt's messages joined into one user prompt. */
+export function promptToText(result: GetPromptResult): string {
+  return result.messages
+    .map(({ content }) => {
+      switch (content.type) {
+        case "text":
+          return content.text;
+        case "resource":
+          return "text" in content.resource
+            ? content.resource.text
+            : `[バイナリ: ${content.resource.uri}]`;
+        default:
+          return `[画像: ${content.mimeType}]`;
+      }
+    })
+    .join("\n\n");
+}
+
 // --- Helpers ---
 
+/**
+ * The client rejects server notifications as "Unsupported message type" and
+ * only tells pending requests when the transport closes, so listen on its
+ * transport directly.
+ */
+function watchTransport(
+  client: MCPClient,
+  handlers: { onNotification: (method: string) => void; onClose: () => void },
+): void {
+  const transport = (client as unknown as { transport?: MCPTransport }).transport;
+  if (!transport) return;
+  const onmessage = transport.onmessage;
+  transport.onmessage = (message: JSONRPCMessage) => {
+    if ("method" in message && !("id" in message)) {
+      handlers.onNotification(message.method);
+      return;
+    }
+    onmessage?.(message);
+  };
+  const onclose = transport.onclose;
+  transport.onclose = () => {
+    onclose?.();
+    handlers.onClose();
+  };
+}
+
+async function loadTools(client: MCPClient): Promise<McpToolSet> {
+  const definitions = await client.listTools();
+  const tools = client.toolsFromDefinitions(definitions) as McpToolSet;
+  for (const { name, annotations } of definitions.tools) {
+    if (tools[name] && annotations) {
+      tools[name].annotations = annotations as McpToolAnnotations;
+    }
+  }
+  return tools;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/** Servers reject requests for capabilities they did not announce. */
+function isUnsupported(error: unknown): boolean {
+  return errorMessage(error).startsWith("Server does not support");
+}
+
 function getTimeoutMs(): number {
   const envVal = process.env.MCP_TIMEOUT;
   if (envVal) {
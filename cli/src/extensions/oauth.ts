@@ -1,6 +1,6 @@
 import { createServer, type Server } from "node:http";
-import { readFile, writeFile, mkdir, rm } from "node:fs/promises";
-import { join } from "node:path";
+import { readFile, writeFile, mkdir, rm, stat } from "node:fs/promises";
+import { join, relative, resolve, sep } from "node:path";
 import { homedir } from "node:os";
 import { randomUUID } from "node:crypto";
 import type {
@@ -12,8 +12,14 @@ import type {
 
 const OAUTH_DIR = join(homedir(), ".wellgrow", "oauth");
 
-function serverDir(serverName: string): string {
-  return join(OAUTH_DIR, serverName);
+/** `<baseDir>/<serverName>`; throws when the name would leave baseDir. */
+function serverDir(serverName: string, baseDir = OAUTH_DIR): string {
+  const dir = resolve(baseDir, serverName);
+  const rel = relative(resolve(baseDir), dir);
+  if (!rel || rel.startsWith("..") || rel.includes(sep)) {
+    throw new Error(`MCP サーバー名が不正です: ${serverName}`);
+  }
+  return dir;
 }
 
 async function readJson<T>(path: string): Promise<T | undefined> {
@@ -30,6 +36,21 @@ async function writeJson(path: string, data: unknown): Promise<void> {
   await writeFile(path, JSON.stringify(data, null, 2), "utf-8");
 }
 
+/** Forget a server's tokens and client registration; false when there were none. */
+export async function clearOAuthCredentials(
+  serverName: string,
+  options?: { baseDir?: string },
+): Promise<boolean> {
+  const dir = serverDir(serverName, options?.baseDir);
+  try {
+    await stat(dir);
+  } catch {
+    return false;
+  }
+  await rm(dir, { recursive: true, force: true });
+  return true;
+}
+
 export class CliOAuthProvider implements OAuthClientProvider {
   private server: Server | null = null;
   private port = 0;
@@ -43,9 +64,7 @@ export class CliOAuthProvider implements OAuthClientProvider {
     private readonly serverUrl: string,
     options?: { baseDir?: string },
   ) {
-    this.dir = options?.baseDir
-      ? join(options.baseDir, serverName)
-      : serverDir(serverName);
+    this.dir = serverDir(serverName, options?.baseDir);
   }
 
   // --- Token persistence ---
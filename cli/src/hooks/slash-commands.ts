@@ -1,12 +1,36 @@
+import { writeFile } from "node:fs/promises";
+import { extname, resolve } from "node:path";
 import type { Session } from "../core/session.js";
 import type { SessionRecorder } from "../core/history.js";
 import type { TodoItem } from "../tools/todo-write.js";
 import type { Mode } from "../tools/pipeline.js";
+import type { RewindTarget } from "../core/session.js";
+import {
+  getProjectInstructionsPath,
+  getUserInstructionsPath,
+  type InstructionFile,
+} from "../ai/project-instructions.js";
+import {
+  formatRuntime,
+  getBackgroundJob,
+  getJobRuntime,
+  killBackgroundJob,
+  listBackgroundJobs,
+} from "../tools/background.js";
 import {
   discoverCommands,
   loadCommand,
   resolvePrompt,
 } from "../commands/custom/loader.js";
+import { formatUsd } from "../ai/pricing.js";
+import { THINK_BUDGET_TOKENS } from "../ai/generation.js";
+import { EXPORT_FORMATS, exportSession, isExportFormat } from "../core/export.js";
+import {
+  mcpPromptCommandName,
+  promptToText,
+  type McpPromptArgument,
+  type McpServerState,
+} from "../extensions/mcp.js";
 
 export interface SlashCommandContext {
   session: Session;
@@ -25,6 +49,17 @@ export interface SlashCommandContext {
   switchAgent: (
     agentName: string,
   ) => Promise<{ success: boolean; message: string }>;
+  compact: (
+    instructions?: string,
+  ) => Promise<{ success: boolean; message: string }>;
+  rewind: (
+    checkpointId: number,
+    target: RewindTarget,
+  ) => Promise<{ success: boolean; message: string }>;
+  openRewindPicker: () => void;
+  /** Re-read the instruction files into the system prompt. */
+  reloadInstructions: () => Promise<InstructionFile[]>;
+  openEditor: (path: string) => Promise<{ success: boolean; message?: string }>;
   addSystemMessage: (text: string) => void;
   submitPrompt: (prompt: string) => void;
   onExit: () => void;
@@ -93,6 +128,7 @@ export async function handleSlashCommand(
     }
     ctx.session.agent.pipeline.setMode(newMode);
     ctx.setMode(newMode);
+    ctx.recorder?.recordSwitch("mode", newMode).catch(() => {});
     ctx.addSystemMessage(`モードを ${newMode} に切り替えました。`);
     return true;
   }
@@ -110,11 +146,103 @@ export async function handleSlashCommand(
     return true;
   }
 
+  const compactMatch = text.match(/^\/compact(?:\s+([\s\S]+))?$/);
+  if (compactMatch) {
+    if (ctx.status !== "ready") {
+      ctx.addSystemMessage(
+        "推論中は会話を要約できません。完了後に再度お試しください。",
+      );
+      return true;
+    }
+    const result = await ctx.compact(compactMatch[1]?.trim());
+    ctx.addSystemMessage(result.message);
+    return true;
+  }
+
+  const thinkMatch = text.match(/^\/think(?:\s+(.+))?$/);
+  if (thinkMatch) {
+    const arg = thinkMatch[1]?.trim();
+    const budget = arg ? Number(arg) : THINK_BUDGET_TOKENS;
+    if (!Number.isInteger(budget) || budget <= 0) {
+      ctx.addSystemMessage("使い方: /think [思考トークン数]");
+      return true;
+    }
+    ctx.session.nextThinkingBudget = budget;
+    ctx.addSystemMessage(
+      `次のメッセージでは最大 ${budget.toLocaleString("ja-JP")} トークンまで考えます。`,
+    );
+    return true;
+  }
+
+  const exportMatch = text.match(/^\/export(?:\s+(.*))?$/);
+  if (exportMatch) {
+    await handleExport(exportMatch[1]?.trim() ?? "", ctx);
+    return true;
+  }
+
+  if (text === "/cost") {
+    await showCost(ctx);
+    return true;
+  }
+
+  const rewindMatch = text.match(/^\/rewind(?:\s+#?(\d+))?$/);
+  if (rewindMatch) {
+    if (ctx.status !== "ready") {
+      ctx.addSystemMessage(
+        "推論中は巻き戻せません。完了後に再度お試しください。",
+      );
+      return true;
+    }
+    const checkpoints = ctx.session.ctx.checkpoints?.list() ?? [];
+    if (checkpoints.length === 0) {
+      ctx.addSystemMessage("巻き戻せるチェックポイントはありません。");
+      return true;
+    }
+    if (!rewindMatch[1]) {
+      ctx.openRewindPicker();
+      return true;
+    }
+    const checkpointId = Number(rewindMatch[1]);
+    const checkpoint = checkpoints.find((c) => c.id === checkpointId);
+    const result = await ctx.rewind(
+      checkpointId,
+      checkpoint?.messageCount === null ? "files" : "all",
+    );
+    ctx.addSystemMessage(result.message);
+    return true;
+  }
+
+  const memoryMatch = text.match(/^\/memory(?:\s+(.*))?$/);
+  if (memoryMatch) {
+    await handleMemory(memoryMatch[1]?.trim() ?? "", ctx);
+    return true;
+  }
+
+  const bashesMatch = text.match(/^\/bashes(?:\s+(.*))?$/);
+  if (bashesMatch) {
+    await handleBashes(bashesMatch[1]?.trim() ?? "", ctx);
+    return true;
+  }
+
   if (text === "/help") {
     await showHelp(ctx);
     return true;
   }
 
+  const mcpMatch = text.match(/^\/mcp(?:\s+(.*))?$/);
+  if (mcpMatch) {
+    await handleMcp(mcpMatch[1]?.trim() ?? "", ctx);
+    return true;
+  }
+
+  // MCP prompts: /mcp__server__prompt arg1 arg2 ...
+  const mcpPromptMatch = text.match(/^\/mcp__(.+?)__(\S+)(?:\s+([\s\S]*))?$/);
+  if (mcpPromptMatch) {
+    const [, server, promptName, args] = mcpPromptMatch;
+    await handleMcpPrompt(server, promptName, args?.trim() ?? "", ctx);
+    return true;
+  }
+
   // Custom commands: /name arg1 arg2 ...
   if (text.startsWith("/")) {
     const parts = text.slice(1).split(/\s+/);
@@ -152,9 +280,117 @@ const BUILTIN_COMMANDS = [
   { name: "/agent", description: "エージェントを表示・切り替え" },
   { name: "/mode", description: "モードを表示・切り替え (plan, auto)" },
   { name: "/model", description: "モデルを切り替え" },
+  { name: "/compact", description: "会話履歴を要約してコンテキストを空ける" },
+  { name: "/cost", description: "このセッションと今日の利用料金を表示" },
+  { name: "/think", description: "次のメッセージだけ思考トークンを増やす" },
+  { name: "/export", description: "会話をファイルに書き出す (md, html, json)" },
+  { name: "/rewind", description: "ファイル変更と会話を以前のメッセージまで巻き戻す" },
+  { name: "/memory", description: "指示ファイル (WELLGROW.md) を表示・編集" },
+  { name: "/bashes", description: "バックグラウンドプロセスを表示 (kill <id> で停止)" },
+  { name: "/mcp", description: "MCP サーバーの状態を表示・再接続・無効化" },
   { name: "/help", description: "コマンド一覧を表示" },
 ];
 
+const MEMORY_USAGE = "使い方: /memory [edit <番号|user|project>]";
+
+async function handleMemory(args: string, ctx: SlashCommandContext): Promise<void> {
+  const cwd = ctx.session.ctx.cwd;
+  if (!args) {
+    const files = await ctx.reloadInstructions();
+    if (files.length === 0) {
+      ctx.addSystemMessage(
+        `読み込まれている指示ファイルはありません。\n/memory edit project で ${await getProjectInstructionsPath(cwd)} を作成できます。`,
+      );
+      return;
+    }
+    const lines = ["読み込まれている指示ファイル:"];
+    files.forEach((file, i) => {
+      const origin = file.includedFrom ? `  ← ${file.includedFrom}` : "";
+      lines.push(`  ${i + 1}. [${file.scope}] ${file.path}${origin}`);
+    });
+    lines.push("", "/memory edit <番号|user|project> で編集できます。");
+    ctx.addSystemMessage(lines.join("\n"));
+    return;
+  }
+
+  const editMatch = args.match(/^edit(?:\s+(\S+))?$/);
+  if (!editMatch) {
+    ctx.addSystemMessage(MEMORY_USAGE);
+    return;
+  }
+  if (ctx.status !== "ready") {
+    ctx.addSystemMessage(
+      "推論中は指示ファイルを編集できません。完了後に再度お試しください。",
+    );
+    return;
+  }
+
+  const target = editMatch[1] ?? "project";
+  let path: string;
+  if (target === "user") {
+    path = getUserInstructionsPath();
+  } else if (target === "project") {
+    path = await getProjectInstructionsPath(cwd);
+  } else if (/^\d+$/.test(target)) {
+    const file = (await ctx.reloadInstructions())[Number(target) - 1];
+    if (!file) {
+      ctx.addSystemMessage(`指示ファイルが見つかりません: ${target}`);
+      return;
+    }
+    path = file.path;
+  } else {
+    ctx.addSystemMessage(MEMORY_USAGE);
+    return;
+  }
+
+  const result = await ctx.openEditor(path);
+  if (!result.success) {
+    ctx.addSystemMessage(result.message ?? "エディタを起動できませんでした。");
+    return;
+  }
+  const files = await ctx.reloadInstructions();
+  ctx.addSystemMessage(
+    `${path} を編集しました。指示ファイル ${files.length} 件をシステムプロンプトに反映しました。`,
+  );
+}
+
+async function handleBashes(args: string, ctx: SlashCommandContext): Promise<void> {
+  if (!args) {
+    const running = listBackgroundJobs({ runningOnly: true });
+    if (running.length === 0) {
+      ctx.addSystemMessage("実行中のバックグラウンドプロセスはありません。");
+      return;
+    }
+    const lines = ["実行中のバックグラウンドプロセス:"];
+    for (const job of running) {
+      lines.push(
+        `  #${job.id.padEnd(4)} ${formatRuntime(getJobRuntime(job)).padEnd(10)} ${job.command}`,
+      );
+    }
+    lines.push("", "/bashes kill <id> で停止できます。");
+    ctx.addSystemMessage(lines.join("\n"));
+    return;
+  }
+
+  const killMatch = args.match(/^kill\s+#?(\S+)$/);
+  if (!killMatch) {
+    ctx.addSystemMessage("使い方: /bashes [kill <id>]");
+    return;
+  }
+
+  const job = getBackgroundJob(killMatch[1]);
+  if (!job) {
+    ctx.addSystemMessage(`バックグラウンドプロセスが見つかりません: ${killMatch[1]}`);
+    return;
+  }
+  const killed = await killBackgroundJob(job);
+  ctx.addSystemMessage(
+    killed
+      ? `#${job.id} を停止しました: ${job.command}`
+      : `#${job.id} はすでに終了しています。`,
+  );
+}
+
 function formatCommandUsage(command: { name: string; args: { name: string; required: boolean }[] }): string {
   const argParts = command.args.map((a) =>
     a.required ? `<${a.name}>` : `[${a.name}]`,
@@ -162,6 +398,199 @@ function formatCommandUsage(command: { name: string; args: { name: string; requi
   return `使い方: /${command.name} ${argParts.join(" ")}`.trim();
 }
 
+const MCP_USAGE = "使い方: /mcp [reconnect|disable|enable <サーバー名>]";
+
+const MCP_STATUS_LABELS: Record<McpServerState["status"], string> = {
+  connecting: "⋯ 接続中",
+  connected: "✓ 接続済み",
+  failed: "✗ 接続失敗",
+  "needs-auth": "🔑 要認証",
+  disabled: "⊘ 無効",
+};
+
+function formatMcpState(state: McpServerState, toolCount: number): string {
+  const detail = state.status === "connected"
+    ? `ツール ${toolCount} 個`
+    : state.status === "connecting" && state.retries > 0
+      ? `再接続 ${state.retries} 回目${state.error ? ` (${state.error})` : ""}`
+      : state.error ?? "";
+  return `  ${state.name.padEnd(16)} ${MCP_STATUS_LABELS[state.status]}${detail ? `  ${detail}` : ""}`;
+}
+
+async function handleMcp(args: string, ctx: SlashCommandContext): Promise<void> {
+  const { mcpManager, registry } = ctx.session.agent;
+  const states = mcpManager?.getServerStates() ?? [];
+  if (!mcpManager || states.length === 0) {
+    ctx.addSystemMessage("設定されている MCP サーバーはありません。");
+    return;
+  }
+
+  if (!args) {
+    const toolNames = Object.keys(registry.schemas);
+    const lines = ["MCP サーバー:"];
+    for (const state of states) {
+      const prefix = `mcp__${state.name}__`;
+      lines.push(formatMcpState(state, toolNames.filter((n) => n.startsWith(prefix)).length));
+    }
+    lines.push(
+      "",
+      "/mcp reconnect <名前> で再接続、/mcp disable <名前> でこのセッションだけ無効にできます。",
+    );
+    ctx.addSystemMessage(lines.join("\n"));
+    return;
+  }
+
+  const [action, name] = args.split(/\s+/);
+  if (!["reconnect", "disable", "enable"].includes(action) || !name) {
+    ctx.addSystemMessage(MCP_USAGE);
+    return;
+  }
+  if (!states.some((s) => s.name === name)) {
+    ctx.addSystemMessage(`MCP サーバーが見つかりません: ${name}`);
+    return;
+  }
+
+  if (action === "disable") {
+    await mcpManager.disable(name);
+    ctx.addSystemMessage(`${name} をこのセッションでは無効にしました。/mcp enable ${name} で戻せます。`);
+    return;
+  }
+  const result = await mcpManager.reconnect(name);
+  ctx.addSystemMessage(
+    result.success
+      ? `✓ ${name} に接続しました。`
+      : `✗ ${name} に接続できませんでした: ${result.error}`,
+  );
+}
+
+/** Positional args in declaration order; extras go to the last one, as in custom commands. */
+function mapPromptArgs(
+  args: McpPromptArgument[],
+  positional: string[],
+): { values: Record<string, string>; errors: string[] } {
+  const values: Record<string, string> = {};
+  args.forEach((arg, i) => {
+    if (i < positional.length) values[arg.name] = positional[i];
+  });
+  if (positional.length > args.length && args.length > 0) {
+    const last = args[args.length - 1].name;
+    values[last] = [values[last], ...positional.slice(args.length)].join(" ");
+  }
+  const errors = args
+    .filter((arg) => arg.required && !(arg.name in values))
+    .map((arg) => `必須引数 "${arg.name}" が不足しています`);
+  return { values, errors };
+}
+
+async function handleMcpPrompt(
+  server: string,
+  promptName: string,
+  args: string,
+  ctx: SlashCommandContext,
+): Promise<void> {
+  const manager = ctx.session.agent.mcpManager;
+  if (!manager?.getConnectedServers().includes(server)) {
+    ctx.addSystemMessage(`MCP サーバー '${server}' に接続していません。`);
+    return;
+  }
+  if (ctx.status !== "ready") {
+    ctx.addSystemMessage(
+      "推論中はコマンドを実行できません。完了後に再度お試しください。",
+    );
+    return;
+  }
+
+  try {
+    const { prompts, errors: listErrors } = await manager.listPrompts(server);
+    const prompt = prompts.find((p) => p.name === promptName);
+    if (!prompt) {
+      const reason = listErrors[0]?.error;
+      ctx.addSystemMessage(
+        reason ?? `MCP プロンプトが見つかりません: ${mcpPromptCommandName(server, promptName)}`,
+      );
+      return;
+    }
+
+    const { values, errors } = mapPromptArgs(prompt.args, args ? args.split(/\s+/) : []);
+    if (errors.length > 0) {
+      const usage = formatCommandUsage({
+        name: mcpPromptCommandName(server, promptName),
+        args: prompt.args,
+      });
+      ctx.addSystemMessage(`${errors.join("\n")}\n\n${usage}`);
+      return;
+    }
+
+    const result = await manager.getPrompt(server, promptName, values);
+    ctx.submitPrompt(promptToText(result));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    ctx.addSystemMessage(`MCP プロンプトの取得に失敗しました: ${message}`);
+  }
+}
+
+const EXPORT_USAGE = `使い方: /export [${EXPORT_FORMATS.join("|")}] [ファイル]`;
+
+async function handleExport(args: string, ctx: SlashCommandContext): Promise<void> {
+  // The format comes first, or from the file extension.
+  const [first = "", ...rest] = args.split(/\s+/);
+  const pathArg = isExportFormat(first) ? rest.join(" ") : args;
+  const extension = extname(pathArg).slice(1);
+  const format = isExportFormat(first)
+    ? first
+    : isExportFormat(extension) ? extension : pathArg ? null : "md";
+  if (!format) {
+    ctx.addSystemMessage(EXPORT_USAGE);
+    return;
+  }
+
+  const { session } = ctx;
+  const sessionId = ctx.recorder?.sessionId ?? session.ctx.sessionId;
+  const path = resolve(session.ctx.cwd, pathArg || `wellgrow-${sessionId.slice(0, 8)}.${format}`);
+  try {
+    const content = exportSession(
+      {
+        sessionId,
+        agent: ctx.currentAgentName,
+        model: session.agent.modelId,
+        cwd: session.ctx.cwd,
+        messages: session.messages,
+      },
+      format,
+    );
+    await writeFile(path, content, "utf-8");
+    ctx.addSystemMessage(`会話を ${path} に書き出しました。`);
+  } catch (error) {
+    ctx.addSystemMessage(
+      `書き出しに失敗しました: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+async function showCost(ctx: SlashCommandContext): Promise<void> {
+  const tracker = ctx.session.ctx.cost;
+  if (!tracker) {
+    ctx.addSystemMessage("利用料金は記録されていません。");
+    return;
+  }
+  await tracker.refreshDaily();
+  const { session, daily } = tracker.limits;
+  const withLimit = (usd: number, limit?: number) =>
+    limit === undefined ? formatUsd(usd) : `${formatUsd(usd)} / 上限 ${formatUsd(limit)}`;
+  const lines = [
+    `このセッション: ${withLimit(tracker.sessionUsd, session)}`,
+    `今日:           ${withLimit(tracker.dailyUsd, daily)}`,
+  ];
+  if (tracker.unpricedModels.size > 0) {
+    lines.push(
+      "",
+      `料金が不明なモデル（$0 として計上）: ${[...tracker.unpricedModels].join(", ")}`,
+      "config.toml の [pricing.\"<モデル>\"] で設定できます。",
+    );
+  }
+  ctx.addSystemMessage(lines.join("\n"));
+}
+
 async function showHelp(ctx: SlashCommandContext): Promise<void> {
   const lines: string[] = ["ビルトイン:"];
   for (const cmd of BUILTIN_COMMANDS) {
@@ -180,6 +609,34 @@ async function showHelp(ctx: SlashCommandContext): Promise<void> {
     }
   }
 
+  const { registry, mcpManager } = ctx.session.agent;
+  if (mcpManager?.hasConnections()) {
+    const { prompts } = await mcpManager.listPrompts();
+    if (prompts.length > 0) {
+      lines.push("");
+      lines.push("MCP プロンプト:");
+      for (const prompt of prompts) {
+        const argHint = prompt.args.length > 0
+          ? ` ${prompt.args.map((a) => a.required ? `<${a.name}>` : `[${a.name}]`).join(" ")}`
+          : "";
+        lines.push(`  /${mcpPromptCommandName(prompt.server, prompt.name)} ${prompt.description ?? ""}${argHint}`);
+      }
+    }
+  }
+
+  const customTools = Object.keys(registry.schemas).filter(
+    (name) => registry.getMeta(name)?.source === "custom",
+  );
+  if (customTools.length > 0) {
+    lines.push("");
+    lines.push("カスタムツール:");
+    for (const name of customTools) {
+      const meta = registry.getMeta(name);
+      const description = registry.schemas[name].description ?? "";
+      lines.push(`  ${name.padEnd(12)} ${description} (${meta?.category})`);
+    }
+  }
+
   lines.push("");
   lines.push("exit / quit で終了");
   ctx.addSystemMessage(lines.join("\n"));
@@ -1,7 +1,11 @@
 import { useState, useCallback, useRef } from "react";
+import { useStdout } from "ink";
 import { randomUUID } from "node:crypto";
 import type { DisplayMessage, MessagePart } from "../ui/message-list.js";
 
+/** Clear the screen and the scrollback, cursor to the top-left. */
+const CLEAR_SCREEN = "\x1b[2J\x1b[3J\x1b[H";
+
 function makeMessage(
   role: "user" | "assistant",
   text: string,
@@ -55,6 +59,11 @@ export interface ChatMessagesState {
   setAssistantError: (errorMessage: string) => void;
   addSystemMessage: (text: string) => void;
   clearMessages: () => void;
+  loadMessages: (messages: DisplayMessage[]) => void;
+  /** Clears the screen and prints `messages` afresh; printed <Static> output can't shrink. */
+  redrawMessages: (messages: DisplayMessage[]) => void;
+  /** Changes on every redraw; the key for <Static> so it prints everything again. */
+  transcriptEpoch: number;
 }
 
 export function useChatMessages(): ChatMessagesState {
@@ -62,6 +71,8 @@ export function useChatMessages(): ChatMessagesState {
   const messagesRef = useRef<DisplayMessage[]>([]);
   messagesRef.current = messages;
   const sealedCountRef = useRef(0);
+  const [transcriptEpoch, setTranscriptEpoch] = useState(0);
+  const { write } = useStdout();
 
   const addUserAndAssistant = useCallback((userText: string) => {
     sealedCountRef.current = 0;
@@ -138,6 +149,18 @@ export function useChatMessages(): ChatMessagesState {
     setMessages([]);
   }, []);
 
+  const loadMessages = useCallback((loaded: DisplayMessage[]) => {
+    sealedCountRef.current = 0;
+    setMessages(loaded);
+  }, []);
+
+  const redrawMessages = useCallback((loaded: DisplayMessage[]) => {
+    write(CLEAR_SCREEN);
+    sealedCountRef.current = 0;
+    setMessages(loaded);
+    setTranscriptEpoch((epoch) => epoch + 1);
+  }, [write]);
+
   return {
     messages,
     messagesRef,
@@ -147,5 +170,8 @@ export function useChatMessages(): ChatMessagesState {
     setAssistantError,
     addSystemMessage,
     clearMessages,
+    loadMessages,
+    redrawMessages,
+    transcriptEpoch,
   };
 }
@@ -3,13 +3,17 @@ import { randomUUID } from "node:crypto";
 import type { LanguageModel } from "ai";
 import {
   createSession,
+  restoreSession,
+  startSession,
   switchAgent as switchAgentSession,
   type Session,
 } from "../core/session.js";
 import {
   createSessionRecorder,
   type SessionRecorder,
+  type SessionTranscript,
 } from "../core/history.js";
+import { replayMessages } from "../core/transcript.js";
 import { getModel, getModelDisplayName } from "../ai/providers.js";
 import { listAgents } from "../agents/loader.js";
 import type { AgentSummary } from "../agents/types.js";
@@ -47,6 +51,7 @@ export interface UseChatSessionOptions {
   config: WellGrowConfig;
   mode?: Mode;
   verbose?: boolean;
+  resume?: SessionTranscript;
 }
 
 export function useChatSession({
@@ -55,6 +60,7 @@ export function useChatSession({
   config,
   mode,
   verbose,
+  resume,
 }: UseChatSessionOptions): ChatSessionState {
   const [isReady, setIsReady] = useState(false);
   const [currentModelName, setCurrentModelName] = useState("");
@@ -66,19 +72,22 @@ export function useChatSession({
   const recorderRef = useRef<SessionRecorder | null>(null);
   const messageCountRef = useRef(0);
   const currentModelRef = useRef<LanguageModel | null>(null);
-  const currentAgentIdRef = useRef(initialAgentName ?? config.default.agent);
+  const currentAgentIdRef = useRef(
+    resume?.agent ?? initialAgentName ?? config.default.agent,
+  );
 
   useEffect(() => {
     let cancelled = false;
-    const agentId = initialAgentName ?? config.default.agent;
+    const agentId = resume?.agent ?? initialAgentName ?? config.default.agent;
     currentAgentIdRef.current = agentId;
 
     async function initialize(): Promise<void> {
       const [s, , agentList] = await Promise.all([
         createSession({
           agentName: agentId,
-          modelOverride,
-          modeOverride: mode,
+          modelOverride: modelOverride ?? resume?.model,
+          modeOverride: mode ?? resume?.mode,
+          sessionId: resume?.sessionId,
         }),
         markdownReady,
         listAgents(),
@@ -86,6 +95,11 @@ export function useChatSession({
 
       if (cancelled) return;
 
+      if (resume) {
+        restoreSession(s, resume);
+        messageCountRef.current = replayMessages(resume.messages).length;
+      }
+
       if (verbose) {
         s.ctx.logFile = await initLogger(
           randomUUID(),
@@ -96,6 +110,13 @@ export function useChatSession({
       const recorder = await createSessionRecorder(
         getModelDisplayName(s.agent.modelId),
         agentId,
+        {
+          sessionId: s.ctx.sessionId,
+          cwd: s.ctx.cwd,
+          mode: s.agent.pipeline.mode,
+          resume,
+          maxSessions: config.history.max_sessions,
+        },
       );
 
       if (cancelled) return;
@@ -107,7 +128,8 @@ export function useChatSession({
       setCurrentAgentName(s.agent.name);
       setCurrentAgentIcon(s.agent.icon);
       setAgents(agentList);
-      setActiveSession(s.ctx);
+      setActiveSession(s.ctx, s.agent.hookEngine);
+      await startSession(s, resume ? "resume" : "startup");
       registerShutdownHandler(async () => {
         if (recorderRef.current) {
           await recorderRef.current.finalize(messageCountRef.current);
@@ -125,7 +147,7 @@ export function useChatSession({
     return () => {
       cancelled = true;
     };
-  }, [initialAgentName, config, modelOverride, mode, verbose]);
+  }, [initialAgentName, config, modelOverride, mode, verbose, resume]);
 
   const switchModel = useCallback(
     (modelId: string): { success: boolean; message: string } => {
@@ -137,6 +159,7 @@ export function useChatSession({
           sessionRef.current.agent.model = newModel;
           (sessionRef.current.agent as { modelId: string }).modelId = modelId;
         }
+        recorderRef.current?.recordSwitch("model", modelId).catch(() => {});
         return {
           success: true,
           message: `モデルを ${modelId} に切り替えました。`,
@@ -172,12 +195,19 @@ export function useChatSession({
         setCurrentModelName(getModelDisplayName(session.agent.modelId));
         setCurrentAgentName(session.agent.name);
         setCurrentAgentIcon(session.agent.icon);
-        setActiveSession(session.ctx);
+        setActiveSession(session.ctx, session.agent.hookEngine);
+        await startSession(session, "startup");
 
         recorderRef.current = await createSessionRecorder(
           getModelDisplayName(session.agent.modelId),
           newAgentName,
+          {
+            cwd: session.ctx.cwd,
+            mode: session.agent.pipeline.mode,
+            maxSessions: config.history.max_sessions,
+          },
         );
+        await recorderRef.current.recordSwitch("agent", newAgentName);
         messageCountRef.current = 0;
 
         return {
@@ -191,7 +221,7 @@ export function useChatSession({
         };
       }
     },
-    [],
+    [config],
   );
 
   const resetSession = useCallback(async () => {
@@ -219,10 +249,17 @@ export function useChatSession({
     setCurrentModelName(getModelDisplayName(newSession.agent.modelId));
     setCurrentAgentName(newSession.agent.name);
     setCurrentAgentIcon(newSession.agent.icon);
-    setActiveSession(newSession.ctx);
+    setActiveSession(newSession.ctx, newSession.agent.hookEngine);
+    await startSession(newSession, "clear");
     recorderRef.current = await createSessionRecorder(
       getModelDisplayName(newSession.agent.modelId),
       currentAgentId,
+      {
+        sessionId: newSession.ctx.sessionId,
+        cwd: newSession.ctx.cwd,
+        mode: newSession.agent.pipeline.mode,
+        maxSessions: config.history.max_sessions,
+      },
     );
     messageCountRef.current = 0;
   }, [verbose, config, modelOverride, mode]);
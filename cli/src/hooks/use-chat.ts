@@ -1,13 +1,25 @@
 import { useState, useCallback, useRef, useEffect } from "react";
 import { useInput } from "ink";
-import { sendMessage } from "../core/session.js";
+import {
+  sendMessage,
+  compactSession,
+  rewindSession,
+  reloadInstructions,
+  type RewindTarget,
+} from "../core/session.js";
+import type { Checkpoint } from "../core/checkpoints.js";
+import { describeCostLimit } from "../core/costs.js";
 import type { TurnUsage } from "../ai/cache.js";
 import type { TodoItem } from "../tools/todo-write.js";
 import type { WellGrowConfig } from "../config/types.js";
+import type { SessionTranscript } from "../core/history.js";
+import { replayMessages } from "../core/transcript.js";
 import type {
   ApprovalRequest,
   ApprovalDecision,
 } from "../ui/approval-prompt.js";
+import type { RewindSelection } from "../ui/rewind-prompt.js";
+import { openInEditor } from "../ui/editor.js";
 import type { Mode } from "../tools/pipeline.js";
 import {
   createAbortController,
@@ -15,7 +27,7 @@ import {
 } from "../signals.js";
 import { formatErrorMessage } from "../ai/retry.js";
 import { useChatSession } from "./use-chat-session.js";
-import { useChatMessages, extractText } from "./use-chat-messages.js";
+import { useChatMessages } from "./use-chat-messages.js";
 import { useAskUserQueue } from "./use-ask-user-queue.js";
 import { handleSlashCommand } from "./slash-commands.js";
 
@@ -27,6 +39,11 @@ export interface RetryInfo {
   delayMs: number;
 }
 
+export interface FallbackInfo {
+  from: string;
+  to: string;
+}
+
 export interface UseChatOptions {
   agentName?: string;
   modelOverride?: string;
@@ -34,6 +51,7 @@ export interface UseChatOptions {
   mode?: Mode;
   verbose?: boolean;
   initialMessage?: string;
+  resume?: SessionTranscript;
   onExit: () => void;
 }
 
@@ -44,6 +62,7 @@ export function useChat({
   mode: initialMode,
   verbose,
   initialMessage,
+  resume,
   onExit,
 }: UseChatOptions) {
   const {
@@ -64,17 +83,20 @@ export function useChat({
     config,
     mode: initialMode,
     verbose,
+    resume,
   });
 
   const {
     messages,
-    messagesRef,
     addUserAndAssistant,
     updateAssistantParts,
     markInterrupted,
     setAssistantError,
     addSystemMessage,
     clearMessages,
+    loadMessages,
+    redrawMessages,
+    transcriptEpoch,
   } = useChatMessages();
 
   const {
@@ -92,12 +114,18 @@ export function useChat({
 
   const [todos, setTodos] = useState<TodoItem[]>([]);
   const [retryInfo, setRetryInfo] = useState<RetryInfo | null>(null);
+  const [fallbackInfo, setFallbackInfo] = useState<FallbackInfo | null>(null);
+  const [sessionCostUsd, setSessionCostUsd] = useState(0);
+  const [isCompacting, setIsCompacting] = useState(false);
   const [status, setStatus] = useState<ChatStatus>("ready");
   const [activeApproval, setActiveApproval] = useState<ApprovalRequest | null>(
     null,
   );
+  const [rewindCheckpoints, setRewindCheckpoints] = useState<Checkpoint[] | null>(
+    null,
+  );
   const [mode, setMode] = useState<Mode>(
-    initialMode ?? config.default.mode,
+    initialMode ?? resume?.mode ?? config.default.mode,
   );
 
   const approvalResolverRef = useRef<
@@ -108,6 +136,7 @@ export function useChat({
   const lastUsageRef = useRef<TurnUsage | null>(null);
   const streamStartedRef = useRef(false);
   const initialMessageSentRef = useRef(false);
+  const resumeReplayedRef = useRef(false);
   const handleSubmitRef = useRef<(text: string) => void>(() => {});
 
   useInput(
@@ -139,7 +168,94 @@ export function useChat({
     const newMode: Mode = mode === "plan" ? "auto" : "plan";
     session.agent.pipeline.setMode(newMode);
     setMode(newMode);
-  }, [session, mode]);
+    recorder?.recordSwitch("mode", newMode).catch(() => {});
+  }, [session, recorder, mode]);
+
+  const compact = useCallback(
+    async (instructions?: string): Promise<{ success: boolean; message: string }> => {
+      if (!session) {
+        return { success: false, message: "セッションが初期化されていません。" };
+      }
+      setStatus("submitted");
+      setIsCompacting(true);
+      const ac = createAbortController(session.ctx.abort, config.api.timeout);
+      try {
+        const result = await compactSession(session, {
+          instructions,
+          abortSignal: ac.signal,
+          onUsage: (usage) => {
+            setSessionCostUsd(session.ctx.cost?.sessionUsd ?? 0);
+            recorder?.recordUsage(usage).catch(() => {});
+          },
+        });
+        if (!result) {
+          return { success: false, message: "要約できるほどの会話履歴がありません。" };
+        }
+        recorder?.recordCompaction(session.messages).catch(() => {});
+        return {
+          success: true,
+          message: `会話履歴を要約しました（${result.removedCount} 件のメッセージを要約）。`,
+        };
+      } catch (error) {
+        return {
+          success: false,
+          message: `要約に失敗しました: ${formatErrorMessage(error)}`,
+        };
+      } finally {
+        clearAbortState(session.ctx.abort);
+        setIsCompacting(false);
+        setStatus("ready");
+      }
+    },
+    [session, recorder, config],
+  );
+
+  const rewind = useCallback(
+    async (
+      checkpointId: number,
+      target: RewindTarget,
+    ): Promise<{ success: boolean; message: string }> => {
+      if (!session) {
+        return { success: false, message: "セッションが初期化されていません。" };
+      }
+      try {
+        const result = await rewindSession(session, checkpointId, target);
+        if (result.transcript) {
+          recorder?.recordRewind(session.messages.length).catch(() => {});
+          redrawMessages(result.transcript);
+        }
+        const lines = [`#${checkpointId}「${result.prompt.split("\n")[0]}」の前まで巻き戻しました。`];
+        if (target !== "conversation") {
+          lines.push(`ファイル: ${result.restoredFiles.length} 件を復元`);
+          lines.push(...result.restoredFiles.map((path) => `  ${path}`));
+        }
+        if (target !== "files") {
+          lines.push(`会話: ${result.removedMessages} 件のメッセージを削除`);
+        }
+        return { success: true, message: lines.join("\n") };
+      } catch (error) {
+        return {
+          success: false,
+          message: `巻き戻しに失敗しました: ${formatErrorMessage(error)}`,
+        };
+      }
+    },
+    [session, recorder, redrawMessages],
+  );
+
+  const openRewindPicker = useCallback(() => {
+    setRewindCheckpoints(session?.ctx.checkpoints?.list() ?? []);
+  }, [session]);
+
+  const handleRewindSelect = useCallback(
+    async (selection: RewindSelection | null) => {
+      setRewindCheckpoints(null);
+      if (!selection) return;
+      const result = await rewind(selection.checkpointId, selection.target);
+      addSystemMessage(result.message);
+    },
+    [rewind, addSystemMessage],
+  );
 
   const handleSubmit = useCallback(
     async (text: string) => {
@@ -161,6 +277,11 @@ export function useChat({
         setMode,
         switchModel,
         switchAgent,
+        compact,
+        rewind,
+        openRewindPicker,
+        reloadInstructions: () => reloadInstructions(session),
+        openEditor: openInEditor,
         addSystemMessage,
         submitPrompt: (prompt: string) => {
           setTimeout(() => handleSubmitRef.current(prompt), 0);
@@ -173,14 +294,16 @@ export function useChat({
       setStatus("submitted");
       streamStartedRef.current = false;
       setRetryInfo(null);
+      setFallbackInfo(null);
       interruptedRef.current = false;
 
-      recorder?.recordUser(trimmed).catch(() => {});
       messageCountRef.current++;
 
       const ac = createAbortController(session.ctx.abort, config.api.timeout);
+      // Shown after the turn, so they don't split the streaming message.
+      const notices: string[] = [];
       try {
-        const { fullText, parts: finalParts } = await sendMessage(
+        const { fullText, parts: finalParts, costLimit } = await sendMessage(
           session,
           trimmed,
           {
@@ -194,8 +317,23 @@ export function useChat({
             onRetry: (attempt, maxRetries, delayMs) => {
               setRetryInfo({ attempt, maxRetries, delayMs });
             },
+            onModelFallback: (from, to) => {
+              setRetryInfo(null);
+              setFallbackInfo({ from, to });
+            },
             onUsage: (usage) => {
               lastUsageRef.current = usage;
+              setSessionCostUsd(session.ctx.cost?.sessionUsd ?? 0);
+              recorder?.recordUsage(usage).catch(() => {});
+            },
+            onCompactStart: () => {
+              setIsCompacting(true);
+            },
+            onCompact: (result) => {
+              setIsCompacting(false);
+              if (result) {
+                recorder?.recordCompaction(session.messages).catch(() => {});
+              }
             },
             onToolUIEvent: (event) => {
               switch (event.type) {
@@ -213,6 +351,9 @@ export function useChat({
                 setActiveApproval(request);
               });
             },
+            onNotice: (message) => {
+              notices.push(message);
+            },
           },
           {
             abortSignal: ac.signal,
@@ -221,46 +362,33 @@ export function useChat({
           },
         );
 
-        const wasInterrupted = interruptedRef.current;
-
-        if (wasInterrupted) {
+        if (interruptedRef.current) {
           markInterrupted();
         }
 
-        const contentForRecording = wasInterrupted
-          ? (() => {
-              const lastMsg =
-                messagesRef.current[messagesRef.current.length - 1];
-              return lastMsg ? extractText(lastMsg) : "";
-            })()
-          : fullText;
-
-        if (contentForRecording) {
-          recorder?.recordAssistant(contentForRecording).catch(() => {});
+        if (fullText) {
           messageCountRef.current++;
         }
 
         updateAssistantParts(finalParts);
+        if (costLimit && session.ctx.cost) {
+          addSystemMessage(describeCostLimit(costLimit, session.ctx.cost));
+        }
       } catch (error) {
         if (interruptedRef.current) {
           markInterrupted();
-          const lastMsg =
-            messagesRef.current[messagesRef.current.length - 1];
-          const partialText = lastMsg ? extractText(lastMsg) : "";
-          if (partialText) {
-            await recorder
-              ?.recordAssistant(partialText)
-              .catch(() => {});
-            messageCountRef.current++;
-          }
         } else {
           setAssistantError(formatErrorMessage(error));
         }
       } finally {
+        for (const notice of notices) addSystemMessage(notice);
+        recorder?.recordMessages(session.messages).catch(() => {});
         interruptedRef.current = false;
         clearAbortState(session.ctx.abort);
         setTodos([]);
         setRetryInfo(null);
+        setSessionCostUsd(session.ctx.cost?.sessionUsd ?? 0);
+        setIsCompacting(false);
         setActiveApproval(null);
         approvalResolverRef.current = null;
         setStatus("ready");
@@ -281,18 +409,29 @@ export function useChat({
       clearMessages,
       switchModel,
       switchAgent,
+      compact,
+      rewind,
+      openRewindPicker,
       addSystemMessage,
       addUserAndAssistant,
       updateAssistantParts,
       markInterrupted,
       setAssistantError,
-      messagesRef,
       advanceQueue,
     ],
   );
 
   handleSubmitRef.current = handleSubmit;
 
+  useEffect(() => {
+    if (isReady && resume && session && !resumeReplayedRef.current) {
+      resumeReplayedRef.current = true;
+      loadMessages(replayMessages(session.messages));
+      setTodos(session.ctx.agent.todos);
+      setSessionCostUsd(session.ctx.cost?.sessionUsd ?? 0);
+    }
+  }, [isReady, resume, session, loadMessages]);
+
   useEffect(() => {
     if (isReady && initialMessage && !initialMessageSentRef.current) {
       initialMessageSentRef.current = true;
@@ -302,8 +441,12 @@ export function useChat({
 
   return {
     messages,
+    transcriptEpoch,
     todos,
     retryInfo,
+    fallbackInfo,
+    sessionCostUsd,
+    isCompacting,
     status,
     isReady,
     currentModelName,
@@ -314,10 +457,12 @@ export function useChat({
     activeAskUser,
     askUserQueueSize,
     activeApproval,
+    rewindCheckpoints,
     lastUsage: lastUsageRef.current,
     handleSubmit,
     handleModeToggle,
     handleAskUserComplete,
     handleApprovalDecision,
+    handleRewindSelect,
   };
 }
@@ -1,22 +1,40 @@
 import { render } from "ink";
 import { createElement } from "react";
 import { Command } from "commander";
-import { randomUUID } from "node:crypto";
 import { loadConfig, initConfig, isFirstRun, saveOnboardingResult, ConfigLoadError } from "./config/index.js";
-import { createSession, sendMessage } from "./core/session.js";
-import { getModelDisplayName } from "./ai/providers.js";
-import { createSessionRecorder } from "./core/history.js";
+import {
+  findLatestSession,
+  loadSessionTranscript,
+  type SessionTranscript,
+} from "./core/history.js";
+import { replayMessages } from "./core/transcript.js";
 import { formatErrorMessage } from "./ai/retry.js";
-import { initLogger } from "./logging.js";
+import {
+  EXIT_CODES,
+  OUTPUT_FORMATS,
+  createOneShotReporter,
+  type OneShotResult,
+  type OutputFormat,
+} from "./core/output-format.js";
+import {
+  createHeadlessSession,
+  readLines,
+  runHeadlessTurn,
+  runStreamJsonSession,
+  type HeadlessSession,
+} from "./core/headless.js";
 import { App } from "./ui/app.js";
-import { setupSignalHandlers, createAbortController, setActiveSession } from "./signals.js";
+import { setupSignalHandlers, setActiveSession } from "./signals.js";
 import { registerConfigCommand } from "./commands/config.js";
 import { registerHistoryCommand } from "./commands/history.js";
+import { registerCheckpointsCommand } from "./commands/checkpoints.js";
 import { registerInitCommand } from "./commands/init.js";
 import { registerDoctorCommand } from "./commands/doctor.js";
 import { registerSkillsCommand } from "./commands/skills.js";
 import { registerCommandsCommand } from "./commands/custom/index.js";
 import { registerUpdateCommand } from "./commands/update.js";
+import { registerServeCommand } from "./commands/serve.js";
+import { registerMcpCommand } from "./commands/mcp.js";
 import { checkForUpdate } from "./update.js";
 import { runOnboardingWizard } from "./ui/onboarding-wizard.js";
 import type { Mode } from "./tools/pipeline.js";
@@ -24,6 +42,7 @@ import type { Mode } from "./tools/pipeline.js";
 declare const PKG_VERSION: string;
 
 const VALID_MODES: Mode[] = ["plan", "auto"];
+const INPUT_FORMATS = ["text", "stream-json"];
 
 async function readStdin(): Promise<string> {
   if (process.stdin.isTTY) return "";
@@ -34,29 +53,83 @@ async function readStdin(): Promise<string> {
   return Buffer.concat(chunks).toString("utf-8").trim();
 }
 
-async function runOneShot(
-  effectivePrompt: string,
-  opts: { model?: string; agent?: string; mode?: string; verbose?: boolean },
-): Promise<void> {
-  const config = await loadConfig();
-  const agentName = opts.agent ?? config.default.agent;
-  const mode = (opts.mode as Mode | undefined) ?? config.default.mode;
+interface CliOptions {
+  model?: string;
+  agent?: string;
+  mode?: string;
+  verbose?: boolean;
+  pipe?: boolean;
+  resume?: string;
+  continue?: boolean;
+  outputFormat?: string;
+  inputFormat?: string;
+}
 
-  const session = await createSession({
-    agentName,
-    modelOverride: opts.model,
-    modeOverride: mode,
-  });
-  setActiveSession(session.ctx, session.agent.hookEngine);
+async function resolveResumeTranscript(
+  opts: CliOptions,
+): Promise<SessionTranscript | undefined> {
+  let sessionId = opts.resume;
+  if (!sessionId && opts.continue) {
+    const latest = await findLatestSession(process.cwd());
+    if (!latest) {
+      throw new Error("このディレクトリで再開できるセッションがありません");
+    }
+    sessionId = latest.session_id;
+  }
+  if (!sessionId) return undefined;
 
-  const verbose = opts.verbose ?? config.logging.verbose;
-  if (verbose) {
-    session.ctx.logFile = await initLogger(randomUUID(), config.logging.log_dir);
+  const transcript = await loadSessionTranscript(sessionId);
+  if (!transcript) {
+    throw new Error(`セッション ${sessionId} が見つかりません`);
   }
+  return transcript;
+}
 
-  const modelName = getModelDisplayName(session.agent.modelId);
-  const recorder = await createSessionRecorder(modelName, agentName);
-  await recorder.recordUser(effectivePrompt);
+/** Session for runs without the Ink UI. Null when startup failed. */
+async function setupHeadlessSession(
+  opts: CliOptions,
+  resume?: SessionTranscript,
+): Promise<HeadlessSession | null> {
+  try {
+    const setup = await createHeadlessSession({
+      agent: opts.agent,
+      model: opts.model,
+      mode: opts.mode as Mode | undefined,
+      resume,
+      verbose: opts.verbose,
+    });
+    setActiveSession(setup.session.ctx, setup.session.agent.hookEngine);
+    return setup;
+  } catch (error) {
+    process.stderr.write(`\nError: ${formatErrorMessage(error)}\n`);
+    process.exitCode = EXIT_CODES.error;
+    return null;
+  }
+}
+
+async function finishHeadlessSession(
+  setup: HeadlessSession,
+  results: OneShotResult[],
+): Promise<void> {
+  if (results.some((r) => r.status !== "error" && r.status !== "api_error")) {
+    await setup.recorder
+      .finalize(replayMessages(setup.session.messages).length)
+      .catch(() => {});
+  }
+  process.exitCode = results.at(-1)?.exit_code ?? EXIT_CODES.success;
+}
+
+const writeStdout = (text: string) => process.stdout.write(text);
+const writeStderr = (text: string) => process.stderr.write(text);
+
+async function runOneShot(
+  prompt: string,
+  opts: CliOptions,
+  resume?: SessionTranscript,
+): Promise<void> {
+  const setup = await setupHeadlessSession(opts, resume);
+  if (!setup) return;
+  const { session, recorder, agentName, mode } = setup;
 
   if (mode === "plan") {
     process.stderr.write(
@@ -64,46 +137,49 @@ async function runOneShot(
     );
   }
 
-  const ac = createAbortController(session.ctx.abort, config.api.timeout);
-  let lastText = "";
-  try {
-    const result = await sendMessage(session, effectivePrompt, {
-      onMessageUpdate: (parts) => {
-        const text = parts
-          .filter((p): p is { type: "text"; text: string } => p.type === "text")
-          .map((p) => p.text)
-          .join("");
-        const delta = text.slice(lastText.length);
-        if (delta) process.stdout.write(delta);
-        lastText = text;
-      },
-      onRetry: (attempt, maxRetries, delayMs) => {
-        process.stderr.write(
-          `⟳ API エラー。リトライ中... (${attempt}/${maxRetries}, ${Math.round(delayMs / 1000)}秒後)\n`,
-        );
-      },
-      onContextExceeded: () => {
-        process.stderr.write(
-          "コンテキストウィンドウの上限に達しました。入力を短くして再試行してください。\n",
-        );
-      },
-      onApprovalRequest:
-        mode === "plan"
-          ? async () => ({ action: "deny" as const })
-          : undefined,
-    }, {
-      abortSignal: ac.signal,
-      maxRetries: config.api.max_retries,
-      maxOutputTokens: config.default.max_output_tokens,
-    });
-    process.stdout.write("\n");
+  const reporter = createOneShotReporter(
+    (opts.outputFormat as OutputFormat | undefined) ?? "text",
+    { stdout: writeStdout, stderr: writeStderr },
+  );
+  reporter.init({
+    session_id: recorder.sessionId,
+    agent: agentName,
+    model: session.agent.modelId,
+    mode,
+    cwd: session.ctx.cwd,
+  });
+  const result = await runHeadlessTurn(session, prompt, {
+    agentName,
+    config: setup.config,
+    recorder,
+    reporter,
+    stderr: writeStderr,
+    onApprovalRequest:
+      mode === "plan"
+        ? async () => ({ action: "deny" as const })
+        : undefined,
+  });
+  await finishHeadlessSession(setup, [result]);
+}
 
-    await recorder.recordAssistant(result.fullText);
-    await recorder.finalize(2);
-  } catch (error) {
-    process.stderr.write(`\nError: ${formatErrorMessage(error)}\n`);
-    process.exitCode = 1;
-  }
+/** --input-format stream-json: user messages, answers and approvals come from stdin. */
+async function runStreamJsonInput(
+  prompt: string | undefined,
+  opts: CliOptions,
+  resume?: SessionTranscript,
+): Promise<void> {
+  const setup = await setupHeadlessSession(opts, resume);
+  if (!setup) return;
+
+  const results = await runStreamJsonSession(setup.session, readLines(process.stdin), {
+    agentName: setup.agentName,
+    config: setup.config,
+    recorder: setup.recorder,
+    stdout: writeStdout,
+    stderr: writeStderr,
+    initialPrompt: prompt,
+  });
+  await finishHeadlessSession(setup, results);
 }
 
 const program = new Command();
@@ -121,7 +197,30 @@ program
   )
   .option("--verbose", "詳細ログを出力")
   .option("-p, --pipe", "パイプ入力モード（stdinからの入力を受け付ける）")
-  .action(async (prompt: string | undefined, opts: { model?: string; agent?: string; mode?: string; verbose?: boolean; pipe?: boolean }) => {
+  .option("-r, --resume <session-id>", "指定したセッションを再開")
+  .option("-c, --continue", "このディレクトリの直近のセッションを再開")
+  .option(
+    "--output-format <format>",
+    "ワンショットの出力形式 (text, json, stream-json)",
+  )
+  .option(
+    "--input-format <format>",
+    "入力形式 (text, stream-json)。stream-json では stdin の NDJSON で複数ターンの会話を行う",
+  )
+  .addHelpText(
+    "after",
+    `
+ワンショットの終了コード:
+  ${EXIT_CODES.success}  成功
+  ${EXIT_CODES.error}  エラー
+  ${EXIT_CODES.apiError}  API エラー（認証・レート制限・接続・コンテキスト上限など）
+  ${EXIT_CODES.maxTurns}  最大ターン数に到達
+  ${EXIT_CODES.toolDenied}  ツールの実行が拒否された
+  ${EXIT_CODES.costLimit}  利用料金の上限（max_cost_usd / max_daily_cost_usd）に到達
+  ${EXIT_CODES.interrupted}  Ctrl-C（stream-json では interrupt メッセージ）で中断
+  （--input-format stream-json では最後のターンの終了コード）`,
+  )
+  .action(async (prompt: string | undefined, opts: CliOptions) => {
     try {
       setupSignalHandlers();
 
@@ -151,6 +250,37 @@ program
         process.exit(1);
       }
 
+      if (opts.outputFormat && !OUTPUT_FORMATS.includes(opts.outputFormat as OutputFormat)) {
+        process.stderr.write(
+          `Error: 無効な出力形式です: ${opts.outputFormat}\n有効な値: ${OUTPUT_FORMATS.join(", ")}\n`,
+        );
+        process.exit(1);
+      }
+
+      if (opts.inputFormat && !INPUT_FORMATS.includes(opts.inputFormat)) {
+        process.stderr.write(
+          `Error: 無効な入力形式です: ${opts.inputFormat}\n有効な値: ${INPUT_FORMATS.join(", ")}\n`,
+        );
+        process.exit(1);
+      }
+      if (
+        opts.inputFormat === "stream-json" &&
+        opts.outputFormat &&
+        opts.outputFormat !== "stream-json"
+      ) {
+        process.stderr.write(
+          "Error: --input-format stream-json は --output-format stream-json とだけ組み合わせられます\n",
+        );
+        process.exit(1);
+      }
+
+      const resume = await resolveResumeTranscript(opts);
+
+      if (opts.inputFormat === "stream-json") {
+        await runStreamJsonInput(prompt, opts, resume);
+        return;
+      }
+
       if (opts.pipe) {
         const stdinData = await readStdin();
         const effectivePrompt = prompt && stdinData
@@ -160,12 +290,12 @@ program
           process.stderr.write("Error: -p オプション使用時はパイプ入力またはプロンプトが必要です\n");
           process.exit(1);
         }
-        await runOneShot(effectivePrompt, opts);
+        await runOneShot(effectivePrompt, opts, resume);
         return;
       }
 
       if (prompt) {
-        await runOneShot(prompt, opts);
+        await runOneShot(prompt, opts, resume);
         return;
       }
 
@@ -178,6 +308,7 @@ program
         config,
         mode,
         verbose,
+        resume,
       }));
     } catch (error) {
       if (error instanceof ConfigLoadError) {
@@ -193,10 +324,13 @@ program
 
 registerConfigCommand(program);
 registerHistoryCommand(program);
+registerCheckpointsCommand(program);
 registerInitCommand(program);
 registerDoctorCommand(program);
 registerSkillsCommand(program);
 registerCommandsCommand(program);
 registerUpdateCommand(program);
+registerServeCommand(program);
+registerMcpCommand(program);
 
 checkForUpdate().then(() => program.parse());
@@ -28,6 +28,10 @@ export function logRetry(logFile: string, attempt: number, maxRetries: number, w
   log(logFile, `RES  retry=${attempt}/${maxRetries} wait=${(waitMs / 1000).toFixed(1)}s`);
 }
 
+export function logModelFallback(logFile: string, from: string, to: string, reason: string): void {
+  log(logFile, `RES  fallback=${from} -> ${to} reason="${reason}"`);
+}
+
 export function logToolCall(logFile: string, toolName: string, detail: string): void {
   log(logFile, `TOOL ${toolName} ${detail}`);
 }
@@ -36,6 +40,14 @@ export function logToolResult(logFile: string, toolName: string, status: string,
   log(logFile, `TOOL ${toolName} result=${status} duration=${durationMs}ms`);
 }
 
+export function logHookError(logFile: string, event: string, error: string): void {
+  log(logFile, `HOOK ${event} error="${error}"`);
+}
+
+export function logCompaction(logFile: string, removedCount: number): void {
+  log(logFile, `CMP  removed=${removedCount}`);
+}
+
 export function logUsage(
   logFile: string,
   usage: { inputTokens: number; outputTokens: number; cacheWriteTokens?: number; cacheReadTokens?: number },
@@ -0,0 +1,219 @@
+// ---------------------------------------------------------------------------
+// @wellgrow/cli/sdk — the agent loop for Node programs
+//
+//   const session = await createSession({ agent: { agent: { name: "bot", description: "" } } });
+//   for await (const event of sendMessage(session, "こんにちは")) { ... }
+//   await closeSession(session);
+//
+// Nothing here renders with Ink or writes to process.stdout. Config, API
+// keys and history use ~/.wellgrow like the CLI does.
+// ---------------------------------------------------------------------------
+
+import {
+  createHeadlessSession,
+  runHeadlessTurn,
+  type HeadlessSession,
+} from "../core/headless.js";
+import { loadSessionTranscript } from "../core/history.js";
+import { replayMessages } from "../core/transcript.js";
+import { createEventReporter, type OutputEvent } from "../core/output-format.js";
+import {
+  cancelAllPendingAskUser,
+  resolveAskUser,
+  type AskUserAnswer,
+  type AskUserQuestion,
+} from "../tools/ask-user.js";
+import type { Session } from "../core/session.js";
+import type { AgentDefinition } from "../agents/types.js";
+import type { ErasedToolDefinition } from "../tools/definition.js";
+import type { Mode } from "../tools/pipeline.js";
+import type { ApprovalDecision, ApprovalRequest } from "../ui/approval-prompt.js";
+
+export { defineTool } from "../tools/definition.js";
+export type {
+  ToolCategory,
+  ToolDefinition,
+  ToolExecutionContext,
+} from "../tools/definition.js";
+export type { AgentDefinition } from "../agents/types.js";
+export type { ApprovalDecision, ApprovalRequest, ApprovalScope } from "../ui/approval-prompt.js";
+export type { AskUserAnswer, AskUserQuestion } from "../tools/ask-user.js";
+export type { MessagePart } from "../ui/message-list.js";
+export type { OneShotResult as MessageResult } from "../core/output-format.js";
+export type { Mode } from "../tools/pipeline.js";
+export type { Session } from "../core/session.js";
+
+/**
+ * Progress of one message: `part` for each changed message part,
+ * `tool_denied`, `retry`, `model_fallback`, `usage`, and finally `result`.
+ */
+export type SessionEvent = Exclude<
+  OutputEvent,
+  { type: "init" | "ask_user" | "approval_request" | "error" }
+>;
+
+export interface CreateSessionOptions {
+  /** An agent in ~/.wellgrow/agents/, or one defined inline. Defaults to config `default.agent`. */
+  agent?: string | AgentDefinition;
+  model?: string;
+  mode?: Mode;
+  /** Working directory of the tools. Defaults to process.cwd(). */
+  cwd?: string;
+  /** In-process tools offered to the model next to the built-in ones. */
+  tools?: ErasedToolDefinition[];
+  /** Session id from `wellgrow history` to continue. */
+  resume?: string;
+  /** Decides tool calls that need approval. Without it they are denied. */
+  onApprovalRequest?: (request: ApprovalRequest) => ApprovalDecision | Promise<ApprovalDecision>;
+  /** Answers AskUser, keyed by question text. Without it AskUser fails. */
+  onAskUser?: (
+    questions: AskUserQuestion[],
+    toolCallId: string,
+  ) => Record<string, AskUserAnswer> | Promise<Record<string, AskUserAnswer>>;
+}
+
+export interface WellGrowSession {
+  readonly id: string;
+  readonly agent: string;
+  readonly model: string;
+  readonly mode: Mode;
+  /** Messages, resolved agent and tool context of the conversation. */
+  readonly session: Session;
+}
+
+interface SessionState {
+  setup: HeadlessSession;
+  options: CreateSessionOptions;
+}
+
+const states = new WeakMap<WellGrowSession, SessionState>();
+
+function getState(session: WellGrowSession): SessionState {
+  const state = states.get(session);
+  if (!state) throw new Error("closeSession 済み、または createSession で作成されていないセッションです");
+  return state;
+}
+
+/** Resolve the agent, connect its MCP servers and run SessionStart hooks. */
+export async function createSession(
+  options: CreateSessionOptions = {},
+): Promise<WellGrowSession> {
+  let resume;
+  if (options.resume) {
+    resume = await loadSessionTranscript(options.resume);
+    if (!resume) throw new Error(`セッション ${options.resume} が見つかりません`);
+  }
+
+  const setup = await createHeadlessSession({
+    ...(typeof options.agent === "string"
+      ? { agent: options.agent }
+      : { definition: options.agent }),
+    tools: options.tools,
+    model: options.model,
+    mode: options.mode,
+    cwd: options.cwd,
+    resume,
+  });
+  const session: WellGrowSession = {
+    id: setup.recorder.sessionId,
+    agent: setup.agentName,
+    model: setup.session.agent.modelId,
+    mode: setup.mode,
+    session: setup.session,
+  };
+  states.set(session, { setup, options });
+  return session;
+}
+
+export interface SendMessageOptions {
+  signal?: AbortSignal;
+}
+
+/**
+ * Send a message and iterate its events until `result`. Failures are
+ * reported in the result rather than thrown. Breaking out of the loop
+ * interrupts the message.
+ */
+export async function* sendMessage(
+  session: WellGrowSession,
+  message: string,
+  options: SendMessageOptions = {},
+): AsyncGenerator<SessionEvent, void, undefined> {
+  const { setup, options: handlers } = getState(session);
+  const { session: core } = setup;
+  const askUser = core.ctx.agent.askUser;
+  const queue: SessionEvent[] = [];
+  let finished = false;
+  let wake: (() => void) | null = null;
+
+  const notify = () => {
+    wake?.();
+    wake = null;
+  };
+
+  const turn = runHeadlessTurn(core, message, {
+    agentName: setup.agentName,
+    config: setup.config,
+    recorder: setup.recorder,
+    reporter: createEventReporter((event) => {
+      queue.push(event as SessionEvent);
+      notify();
+    }),
+    stderr: () => {},
+    onApprovalRequest: async (request) =>
+      handlers.onApprovalRequest
+        ? handlers.onApprovalRequest(request)
+        : { action: "deny" },
+    onToolUIEvent: (event) => {
+      if (event.type !== "askUser") return;
+      if (!handlers.onAskUser) {
+        cancelAllPendingAskUser(askUser);
+        return;
+      }
+      Promise.resolve(handlers.onAskUser(event.questions, event.toolCallId)).then(
+        (answers) => resolveAskUser(askUser, event.toolCallId, answers),
+        () => cancelAllPendingAskUser(askUser),
+      );
+    },
+  }).finally(() => {
+    finished = true;
+    notify();
+  });
+
+  const interrupt = () => core.ctx.abort.userAbortController?.abort();
+  if (options.signal?.aborted) interrupt();
+  options.signal?.addEventListener("abort", interrupt);
+
+  try {
+    for (;;) {
+      const event = queue.shift();
+      if (event) {
+        yield event;
+      } else if (finished) {
+        break;
+      } else {
+        await new Promise<void>((resolve) => {
+          wake = resolve;
+        });
+      }
+    }
+  } finally {
+    options.signal?.removeEventListener("abort", interrupt);
+    if (!finished) {
+      interrupt();
+      cancelAllPendingAskUser(askUser);
+    }
+    await turn;
+  }
+}
+
+/** Record the session in history and disconnect its MCP servers. */
+export async function closeSession(session: WellGrowSession): Promise<void> {
+  const { setup } = getState(session);
+  states.delete(session);
+  const { session: core, recorder } = setup;
+  if (core.messages.length > 0) {
+    await recorder.finalize(replayMessages(core.messages).length).catch(() => {});
+  }
+  await core.agent.mcpManager?.disconnectAll().catch(() => {});
+}
@@ -0,0 +1,407 @@
+import {
+  createServer,
+  type IncomingMessage,
+  type ServerResponse,
+} from "node:http";
+import type { AddressInfo } from "node:net";
+import { randomBytes, timingSafeEqual } from "node:crypto";
+import { z } from "zod";
+import {
+  createHeadlessSession,
+  createInteractionBroker,
+  inputMessageSchema,
+  runHeadlessTurn,
+  toApprovalDecision,
+  type HeadlessSession,
+  type HeadlessSessionOptions,
+  type InteractionBroker,
+} from "../core/headless.js";
+import {
+  listHistory,
+  loadSessionTranscript,
+} from "../core/history.js";
+import { replayMessages } from "../core/transcript.js";
+import {
+  createEventReporter,
+  type OneShotResult,
+  type OutputEvent,
+} from "../core/output-format.js";
+import { formatErrorMessage } from "../ai/retry.js";
+
+// ---------------------------------------------------------------------------
+// `wellgrow serve` — sessions over local HTTP
+//
+//   GET    /sessions                          active sessions and history
+//   POST   /sessions                          {agent?, model?, mode?, resume?}
+//   GET    /sessions/:id                      status and last result
+//   DELETE /sessions/:id                      end the session
+//   POST   /sessions/:id/messages             {message}; runs in the background
+//   GET    /sessions/:id/events               SSE stream of OutputEvents
+//   POST   /sessions/:id/ask-user/:toolCallId {answers}
+//   POST   /sessions/:id/approvals/:toolCallId {action, scope?, feedback?}
+//   POST   /sessions/:id/interrupt
+//
+// Events are the same objects as `--output-format stream-json`, sent as
+// `event: <type>` / `data: <json>`. A new listener first gets the init
+// event and every approval or question still waiting for an answer.
+//
+// Every request needs `Authorization: Bearer <token>`. Requests are also
+// refused when the Host header names anything but this machine or when a
+// browser sends a cross-origin Origin, so a web page can't reach the API
+// through DNS rebinding; bodies must be `application/json`.
+// ---------------------------------------------------------------------------
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+interface ServerSession {
+  setup: HeadlessSession;
+  broker: InteractionBroker;
+  listeners: Set<ServerResponse>;
+  createdAt: string;
+  running: Promise<OneShotResult> | null;
+  lastResult: OneShotResult | null;
+}
+
+export interface WellGrowServerOptions {
+  /** Creates and starts a session; replaced in tests. */
+  openSession?: (options: HeadlessSessionOptions) => Promise<HeadlessSession>;
+  /** Bearer token clients must send; generated when omitted. */
+  token?: string;
+}
+
+export interface WellGrowServer {
+  readonly token: string;
+  listen: (port: number, host?: string) => Promise<AddressInfo>;
+  /** End every session and stop accepting connections. */
+  close: () => Promise<void>;
+}
+
+const createSessionBody = z.object({
+  agent: z.string().optional(),
+  model: z.string().optional(),
+  mode: z.enum(["plan", "auto"]).optional(),
+  resume: z.string().optional(),
+});
+
+const messageBody = z.object({ message: z.string().min(1) });
+
+function parseWith<T>(schema: z.ZodType<T>, value: unknown): T {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new HttpError(
+      400,
+      `リクエストが不正です: ${issue.path.join(".") || "body"}: ${issue.message}`,
+    );
+  }
+  return result.data;
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const contentType = req.headers["content-type"]?.split(";")[0].trim().toLowerCase();
+  if (contentType !== "application/json") {
+    throw new HttpError(415, "Content-Type は application/json にしてください");
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    const buffer = typeof chunk === "string" ? Buffer.from(chunk) : (chunk as Buffer);
+    size += buffer.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, "リクエストが大きすぎます");
+    }
+    chunks.push(buffer);
+  }
+  const text = Buffer.concat(chunks).toString("utf-8").trim();
+  if (!text) return {};
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new HttpError(400, "JSON として解釈できません");
+  }
+}
+
+// --- Request guards ---
+
+const LOOPBACK_HOSTS = new Set(["localhost", "127.0.0.1", "[::1]"]);
+const WILDCARD_HOSTS = new Set(["0.0.0.0", "::", "[::]"]);
+
+function hostName(host: string): string {
+  return host.replace(/:\d+$/, "").toLowerCase();
+}
+
+/** The hosts a Host header may name: loopback, plus an explicit listen address. */
+function allowedHosts(listenHost: string): Set<string> {
+  const hosts = new Set(LOOPBACK_HOSTS);
+  const name = listenHost.includes(":") && !listenHost.startsWith("[")
+    ? `[${listenHost}]`
+    : listenHost;
+  if (!WILDCARD_HOSTS.has(name)) hosts.add(name.toLowerCase());
+  return hosts;
+}
+
+function checkRequest(req: IncomingMessage, token: string, hosts: Set<string>): void {
+  const host = req.headers.host;
+  if (!host || !hosts.has(hostName(host))) {
+    throw new HttpError(403, `Host ヘッダーが不正です: ${host ?? "(なし)"}`);
+  }
+  const origin = req.headers.origin;
+  if (origin !== undefined && origin !== `http://${host}`) {
+    throw new HttpError(403, `別のオリジンからのリクエストは受け付けません: ${origin}`);
+  }
+
+  const expected = Buffer.from(`Bearer ${token}`);
+  const actual = Buffer.from(req.headers.authorization ?? "");
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new HttpError(401, "Authorization: Bearer <トークン> が必要です");
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json; charset=utf-8" });
+  res.end(JSON.stringify(body));
+}
+
+function writeEvent(res: ServerResponse, event: OutputEvent): void {
+  res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+}
+
+function describeSession(entry: ServerSession) {
+  const { session, recorder, agentName, mode } = entry.setup;
+  return {
+    session_id: recorder.sessionId,
+    agent: agentName,
+    model: session.agent.modelId,
+    mode,
+    cwd: session.ctx.cwd,
+    created_at: entry.createdAt,
+    busy: entry.running !== null,
+    pending: entry.broker.pending(),
+    last_result: entry.lastResult,
+  };
+}
+
+export function createWellGrowServer(
+  options: WellGrowServerOptions = {},
+): WellGrowServer {
+  const openSession = options.openSession ?? createHeadlessSession;
+  const token = options.token ?? randomBytes(32).toString("base64url");
+  const sessions = new Map<string, ServerSession>();
+  let hosts = allowedHosts("127.0.0.1");
+
+  const getSession = (id: string): ServerSession => {
+    const entry = sessions.get(id);
+    if (!entry) throw new HttpError(404, `セッション ${id} が見つかりません`);
+    return entry;
+  };
+
+  const broadcast = (entry: ServerSession, event: OutputEvent) => {
+    for (const res of entry.listeners) writeEvent(res, event);
+  };
+
+  const initEvent = (entry: ServerSession): OutputEvent => ({
+    type: "init",
+    session_id: entry.setup.recorder.sessionId,
+    agent: entry.setup.agentName,
+    model: entry.setup.session.agent.modelId,
+    mode: entry.setup.mode,
+    cwd: entry.setup.session.ctx.cwd,
+  });
+
+  async function openServerSession(body: unknown): Promise<ServerSession> {
+    const params = parseWith(createSessionBody, body);
+    let resume;
+    if (params.resume) {
+      if (sessions.has(params.resume)) {
+        throw new HttpError(409, `セッション ${params.resume} は既に開いています`);
+      }
+      resume = await loadSessionTranscript(params.resume);
+      if (!resume) {
+        throw new HttpError(404, `セッション ${params.resume} が見つかりません`);
+      }
+    }
+
+    const setup = await openSession({
+      agent: params.agent,
+      model: params.model,
+      mode: params.mode,
+      resume,
+    });
+    const entry: ServerSession = {
+      setup,
+      broker: createInteractionBroker(setup.session, (event) => broadcast(entry, event)),
+      listeners: new Set(),
+      createdAt: new Date().toISOString(),
+      running: null,
+      lastResult: null,
+    };
+    sessions.set(setup.recorder.sessionId, entry);
+    return entry;
+  }
+
+  function startTurn(entry: ServerSession, message: string): void {
+    if (entry.running) {
+      throw new HttpError(409, "前のメッセージを処理中です");
+    }
+    const { setup } = entry;
+    entry.running = runHeadlessTurn(setup.session, message, {
+      agentName: setup.agentName,
+      config: setup.config,
+      recorder: setup.recorder,
+      reporter: createEventReporter((event) => broadcast(entry, event)),
+      stderr: (text) => process.stderr.write(text),
+      ...entry.broker.callbacks,
+    });
+    entry.running.then((result) => {
+      entry.lastResult = result;
+      entry.running = null;
+    });
+  }
+
+  async function closeSession(entry: ServerSession): Promise<void> {
+    const { session, recorder } = entry.setup;
+    sessions.delete(recorder.sessionId);
+    entry.broker.close("セッションが終了したため自動的に拒否しました");
+    session.ctx.abort.userAbortController?.abort();
+    await entry.running;
+
+    for (const res of entry.listeners) res.end();
+    entry.listeners.clear();
+
+    if (session.messages.length > 0) {
+      await recorder.finalize(replayMessages(session.messages).length).catch(() => {});
+    }
+    await session.agent.mcpManager?.disconnectAll().catch(() => {});
+  }
+
+  function subscribe(entry: ServerSession, req: IncomingMessage, res: ServerResponse): void {
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    writeEvent(res, initEvent(entry));
+    for (const event of entry.broker.pending()) writeEvent(res, event);
+    entry.listeners.add(res);
+    req.on("close", () => entry.listeners.delete(res));
+  }
+
+  async function route(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    checkRequest(req, token, hosts);
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const segments = url.pathname.split("/").filter(Boolean).map(decodeURIComponent);
+    const method = req.method ?? "GET";
+
+    if (segments[0] !== "sessions") {
+      throw new HttpError(404, `見つかりません: ${url.pathname}`);
+    }
+    const [, id, action, toolCallId] = segments;
+
+    if (!id) {
+      if (method === "GET") {
+        sendJson(res, 200, {
+          active: [...sessions.values()].map(describeSession),
+          history: await listHistory(),
+        });
+        return;
+      }
+      if (method === "POST") {
+        const entry = await openServerSession(await readJsonBody(req));
+        sendJson(res, 201, describeSession(entry));
+        return;
+      }
+    } else if (!action) {
+      if (method === "GET") {
+        sendJson(res, 200, describeSession(getSession(id)));
+        return;
+      }
+      if (method === "DELETE") {
+        await closeSession(getSession(id));
+        res.writeHead(204).end();
+        return;
+      }
+    } else if (action === "events" && !toolCallId && method === "GET") {
+      subscribe(getSession(id), req, res);
+      return;
+    } else if (method === "POST") {
+      const entry = getSession(id);
+      switch (action) {
+        case "messages": {
+          const { message } = parseWith(messageBody, await readJsonBody(req));
+          startTurn(entry, message);
+          sendJson(res, 202, { session_id: id });
+          return;
+        }
+        case "interrupt":
+          entry.broker.interrupt();
+          sendJson(res, 200, { interrupted: entry.running !== null });
+          return;
+        case "ask-user":
+        case "approvals": {
+          if (!toolCallId) break;
+          const body = await readJsonBody(req);
+          const message = parseWith(inputMessageSchema, {
+            ...(body as object),
+            type: action === "ask-user" ? "ask_user_answer" : "approval",
+            tool_call_id: toolCallId,
+          });
+          try {
+            if (message.type === "ask_user_answer") {
+              entry.broker.answer(toolCallId, message.answers);
+            } else if (message.type === "approval") {
+              entry.broker.decide(toolCallId, toApprovalDecision(message));
+            }
+          } catch (error) {
+            throw new HttpError(404, formatErrorMessage(error));
+          }
+          sendJson(res, 200, { ok: true });
+          return;
+        }
+      }
+    }
+    throw new HttpError(405, `${method} ${url.pathname} は利用できません`);
+  }
+
+  const server = createServer((req, res) => {
+    route(req, res).catch((error) => {
+      const status = error instanceof HttpError ? error.status : 500;
+      if (res.headersSent) {
+        res.end();
+      } else {
+        sendJson(res, status, { error: formatErrorMessage(error) });
+      }
+    });
+  });
+
+  return {
+    token,
+
+    listen: (port, host = "127.0.0.1") =>
+      new Promise((resolve, reject) => {
+        hosts = allowedHosts(host);
+        server.once("error", reject);
+        server.listen(port, host, () => {
+          server.off("error", reject);
+          resolve(server.address() as AddressInfo);
+        });
+      }),
+
+    async close() {
+      await Promise.all([...sessions.values()].map(closeSession));
+      await new Promise<void>((resolve) => {
+        server.close(() => resolve());
+        server.closeAllConnections();
+      });
+    },
+  };
+}
@@ -1,5 +1,6 @@
 import type { ChildProcess } from "node:child_process";
 import type { SessionContext, AbortState } from "./core/context.js";
+import type { HookEngine } from "./extensions/hooks.js";
 
 type ShutdownHandler = () => Promise<void>;
 
@@ -9,9 +10,14 @@ let isShuttingDown = false;
 let lastSigintTime = 0;
 
 let activeCtx: SessionContext | null = null;
+let activeHookEngine: HookEngine | null = null;
 
-export function setActiveSession(ctx: SessionContext | null): void {
+export function setActiveSession(
+  ctx: SessionContext | null,
+  hookEngine: HookEngine | null = null,
+): void {
   activeCtx = ctx;
+  activeHookEngine = hookEngine;
 }
 
 export function registerShutdownHandler(handler: ShutdownHandler): void {
@@ -98,6 +104,7 @@ async function gracefulShutdown(_reason: string): Promise<void> {
     }
   }
 
+  activeHookEngine?.cancelAll();
   await cleanupBackgroundProcesses();
   await cleanupMcpClients();
 
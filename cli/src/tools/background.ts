@@ -0,0 +1,174 @@
+import type { ChildProcess } from "node:child_process";
+import { MAX_BASH_OUTPUT_BYTES } from "./constants.js";
+
+// ---------------------------------------------------------------------------
+// Background job registry
+// Jobs started with run_in_background (or moved there on timeout) live for
+// the whole process, across /clear and sub-agents, so ids stay unique here.
+// ---------------------------------------------------------------------------
+
+export type BackgroundJobStatus = "running" | "completed" | "failed" | "killed";
+
+export interface BackgroundJob {
+  id: string;
+  command: string;
+  cwd: string;
+  pid: number | undefined;
+  terminalFile: string;
+  startedAt: number;
+  endedAt: number | null;
+  exitCode: number | null;
+  status: BackgroundJobStatus;
+  /**
+   * Combined stdout and stderr, appended by the Bash tool as it arrives.
+   * Only the last MAX_BASH_OUTPUT_BYTES are kept.
+   */
+  output: string;
+  /** How much of `output` BashOutput has already returned. */
+  readOffset: number;
+  /** Characters dropped from the front of `output` before they were read. */
+  unreadDropped: number;
+  child: ChildProcess;
+}
+
+const KILL_GRACE_PERIOD = 3000;
+
+const jobs = new Map<string, BackgroundJob>();
+
+export function registerBackgroundJob(
+  job: Pick<BackgroundJob, "id" | "command" | "cwd" | "terminalFile" | "child">,
+): BackgroundJob {
+  const entry: BackgroundJob = {
+    ...job,
+    pid: job.child.pid,
+    startedAt: Date.now(),
+    endedAt: null,
+    exitCode: null,
+    status: "running",
+    output: "",
+    readOffset: 0,
+    unreadDropped: 0,
+  };
+  jobs.set(entry.id, entry);
+
+  entry.child.on("error", () => {
+    if (entry.status !== "running") return;
+    entry.status = "failed";
+    entry.exitCode = 1;
+    entry.endedAt = Date.now();
+  });
+  entry.child.on("close", (code) => {
+    if (entry.status === "running") {
+      entry.status = code === 0 ? "completed" : "failed";
+    }
+    entry.exitCode = code;
+    entry.endedAt ??= Date.now();
+  });
+
+  return entry;
+}
+
+export function hasBackgroundJob(id: string): boolean {
+  return jobs.has(id);
+}
+
+export function getBackgroundJob(id: string): BackgroundJob | undefined {
+  return jobs.get(id);
+}
+
+export function listBackgroundJobs(
+  filter: { runningOnly?: boolean } = {},
+): BackgroundJob[] {
+  return [...jobs.values()]
+    .filter((job) => !filter.runningOnly || job.status === "running")
+    .sort((a, b) => a.startedAt - b.startedAt);
+}
+
+export function getJobRuntime(job: BackgroundJob): number {
+  return (job.endedAt ?? Date.now()) - job.startedAt;
+}
+
+/** Appends to the rolling tail of the job's output. */
+export function appendJobOutput(job: BackgroundJob, chunk: string): void {
+  const output = job.output + chunk;
+  const excess = Buffer.byteLength(output, "utf-8") - MAX_BASH_OUTPUT_BYTES;
+  if (excess <= 0) {
+    job.output = output;
+    return;
+  }
+
+  const bytes = Buffer.from(output, "utf-8");
+  let start = excess;
+  // never start in the middle of a multi-byte character
+  while (start < bytes.length && (bytes[start] & 0xc0) === 0x80) start++;
+  job.output = bytes.subarray(start).toString("utf-8");
+
+  const dropped = output.length - job.output.length;
+  job.unreadDropped += Math.max(0, dropped - job.readOffset);
+  job.readOffset = Math.max(0, job.readOffset - dropped);
+}
+
+/** Output produced since the previous call. */
+export function readNewOutput(job: BackgroundJob): string {
+  const dropped = job.unreadDropped;
+  const output = job.output.slice(job.readOffset);
+  job.readOffset = job.output.length;
+  job.unreadDropped = 0;
+  return dropped > 0
+    ? `[保持できる出力の上限を超えたため、古い出力 ${dropped} 文字を破棄しました]\n${output}`
+    : output;
+}
+
+function signalJob(job: BackgroundJob, signal: NodeJS.Signals): void {
+  try {
+    // detached: the shell leads its own process group, so its children go too
+    if (job.pid !== undefined) {
+      process.kill(-job.pid, signal);
+      return;
+    }
+  } catch {
+    // group already gone; fall back to the shell itself
+  }
+  try {
+    job.child.kill(signal);
+  } catch {
+    // already dead
+  }
+}
+
+/**
+ * Stops a running job: SIGTERM first, SIGKILL if it is still alive after a
+ * grace period. Returns false when the job had already finished.
+ */
+export async function killBackgroundJob(job: BackgroundJob): Promise<boolean> {
+  if (job.status !== "running") return false;
+  job.status = "killed";
+  job.endedAt = Date.now();
+
+  const closed = new Promise<void>((resolve) => {
+    if (job.child.exitCode !== null || job.child.signalCode !== null) {
+      resolve();
+      return;
+    }
+    job.child.once("close", () => resolve());
+  });
+
+  signalJob(job, "SIGTERM");
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timedOut = new Promise<boolean>((resolve) => {
+    timer = setTimeout(() => resolve(true), KILL_GRACE_PERIOD);
+  });
+  if (await Promise.race([closed.then(() => false), timedOut])) {
+    signalJob(job, "SIGKILL");
+  }
+  clearTimeout(timer);
+  return true;
+}
+
+export function formatRuntime(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  if (seconds < 60) return `${seconds}秒`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}分${seconds % 60}秒`;
+  return `${Math.floor(minutes / 60)}時間${minutes % 60}分`;
+}
@@ -0,0 +1,462 @@
+import { homedir } from "node:os";
+import {
+  collectCommands,
+  isFileWriteRedirect,
+  tryParseShell,
+  visitShell,
+  type ShellScript,
+  type ShellWord,
+  type SimpleCommand,
+} from "./shell.js";
+
+// ---------------------------------------------------------------------------
+// Wrapper commands
+// `sudo rm -rf /`, `env FOO=1 find . -delete`, `xargs rm` and friends run
+// another command; classification looks at the wrapped one.
+// ---------------------------------------------------------------------------
+
+interface WrapperSpec {
+  /** Options that consume the following argument. */
+  valueOptions: string[];
+  /** Positional arguments before the wrapped command (e.g. timeout's duration). */
+  positionals?: number;
+  /** The wrapped command runs with elevated privileges. */
+  elevated?: boolean;
+}
+
+const WRAPPERS: Record<string, WrapperSpec> = {
+  sudo: { valueOptions: ["-u", "-g", "-h", "-p", "-C", "-D", "-r", "-t", "-U", "-T"], elevated: true },
+  doas: { valueOptions: ["-u", "-C"], elevated: true },
+  env: { valueOptions: ["-u", "-C", "--unset", "--chdir"] },
+  nice: { valueOptions: ["-n", "--adjustment"] },
+  ionice: { valueOptions: ["-c", "-n", "-p"] },
+  nohup: { valueOptions: [] },
+  time: { valueOptions: ["-f", "-o"] },
+  timeout: { valueOptions: ["-s", "-k", "--signal", "--kill-after"], positionals: 1 },
+  stdbuf: { valueOptions: ["-i", "-o", "-e"] },
+  command: { valueOptions: [] },
+  builtin: { valueOptions: [] },
+  exec: { valueOptions: ["-a"] },
+  xargs: {
+    valueOptions: ["-I", "-n", "-L", "-P", "-s", "-d", "-E", "-a", "--arg-file", "--delimiter", "--max-args", "--max-procs"],
+  },
+};
+
+const ENV_ASSIGNMENT_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*=/;
+
+/** `/usr/bin/rm` → `rm`. */
+export function commandName(word: string): string {
+  return word.slice(word.lastIndexOf("/") + 1);
+}
+
+export interface UnwrappedCommand {
+  /** Command name and arguments; empty when nothing is run. */
+  words: ShellWord[];
+  /** `NAME=value` arguments given to env. */
+  assignments: string[];
+  elevated: boolean;
+  /** A wrapper was named by path (`/usr/bin/env`), so it may not be the real one. */
+  qualified: boolean;
+}
+
+export function unwrapCommand(words: ShellWord[]): UnwrappedCommand {
+  const assignments: string[] = [];
+  let elevated = false;
+  let qualified = false;
+  let rest = words;
+
+  for (;;) {
+    const name = rest[0] !== undefined ? commandName(rest[0].value) : undefined;
+    const spec = name !== undefined ? WRAPPERS[name] : undefined;
+    if (!spec || rest[0].expanded) return { words: rest, assignments, elevated, qualified };
+    elevated ||= spec.elevated === true;
+    qualified ||= rest[0].value !== name;
+
+    let i = 1;
+    while (i < rest.length) {
+      const arg = rest[i].value;
+      if (arg === "--") {
+        i++;
+        break;
+      }
+      if (name === "env" && ENV_ASSIGNMENT_PATTERN.test(arg)) {
+        assignments.push(arg);
+        i++;
+      } else if (arg.startsWith("-") && arg.length > 1) {
+        // `command -v foo` only looks the command up
+        if (name === "command" && (arg === "-v" || arg === "-V")) {
+          return { words: [], assignments, elevated, qualified };
+        }
+        i += spec.valueOptions.includes(arg) ? 2 : 1;
+      } else {
+        break;
+      }
+    }
+    i += spec.positionals ?? 0;
+
+    // Bare `xargs` runs echo; bare `env` prints the environment.
+    if (i >= rest.length) {
+      const words = name === "xargs" || name === "env" ? rest.slice(0, 1) : [];
+      return { words, assignments, elevated, qualified };
+    }
+    rest = rest.slice(i);
+  }
+}
+
+const FIND_EXEC_ACTIONS = new Set(["-exec", "-execdir", "-ok", "-okdir"]);
+
+/** Commands `find … -exec cmd {} ;` (or `+`) runs, one per action. */
+export function findExecCommands(words: ShellWord[]): ShellWord[][] {
+  if (words[0] === undefined || commandName(words[0].value) !== "find") return [];
+
+  const commands: ShellWord[][] = [];
+  for (let i = 1; i < words.length; i++) {
+    if (!FIND_EXEC_ACTIONS.has(words[i].value)) continue;
+    const start = i + 1;
+    let end = start;
+    while (
+      end < words.length &&
+      words[end].value !== ";" &&
+      !(words[end].value === "+" && words[end - 1]?.value === "{}")
+    ) {
+      end++;
+    }
+    if (end > start) commands.push(words.slice(start, end));
+    i = end;
+  }
+  return commands;
+}
+
+// ---------------------------------------------------------------------------
+// Flag helpers
+// ---------------------------------------------------------------------------
+
+const SHORT_FLAG_CLUSTER = /^-[A-Za-z]+$/;
+
+/** `-x`, `--long`, `--long=value`, or a short flag inside a cluster like `-xvf`. */
+function hasFlag(args: string[], short: string, long: string[] = []): boolean {
+  return args.some(
+    (arg) =>
+      long.some((l) => arg === l || arg.startsWith(`${l}=`)) ||
+      (SHORT_FLAG_CLUSTER.test(arg) && [...short].some((c) => arg.slice(1).includes(c))),
+  );
+}
+
+function positionalArgs(args: string[]): string[] {
+  return args.filter((a) => !a.startsWith("-") || a === "-");
+}
+
+// ---------------------------------------------------------------------------
+// Read-only commands
+// A check returns true when the arguments keep the command read-only.
+// ---------------------------------------------------------------------------
+
+type ReadOnlyCheck = (args: string[]) => boolean;
+
+const FIND_ACTIONS_WITH_SIDE_EFFECTS = new Set([
+  "-delete", "-exec", "-execdir", "-ok", "-okdir",
+  "-fprint", "-fprint0", "-fprintf", "-fls",
+]);
+
+/** sed `w file`, `W file` and `e command`, including the `s///w` flag. */
+const SED_SIDE_EFFECT_PATTERN = /(?:^|[;{}\n\s\d$/])[wWe](?:\s|$)|\/[gpiImMe\d]*[we](?:\s|$)/;
+
+function sedScripts(args: string[]): string[] {
+  const scripts: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "-e" || args[i] === "--expression") scripts.push(args[++i] ?? "");
+    else if (args[i].startsWith("--expression=")) scripts.push(args[i].slice(13));
+  }
+  if (scripts.length === 0) scripts.push(positionalArgs(args)[0] ?? "");
+  return scripts;
+}
+
+const HARMLESS_FILES = new Set(["/dev/null", "/dev/stdout", "/dev/stderr"]);
+
+const GIT_BRANCH_WRITE_LONG = [
+  "--delete", "--move", "--copy", "--force", "--set-upstream-to",
+  "--unset-upstream", "--edit-description", "--track", "--no-track",
+];
+const GIT_BRANCH_LIST_LONG = [
+  "--list", "--contains", "--no-contains", "--merged", "--no-merged", "--points-at",
+];
+const GIT_TAG_WRITE_LONG = [
+  "--delete", "--annotate", "--sign", "--local-user", "--force", "--message", "--file", "--edit",
+];
+const GIT_CONFIG_WRITE_LONG = [
+  "--unset", "--unset-all", "--add", "--replace-all",
+  "--rename-section", "--remove-section", "--edit",
+];
+const GIT_CONFIG_READ_LONG = [
+  "--get", "--get-all", "--get-regexp", "--get-urlmatch", "--list",
+];
+
+const READ_ONLY_GIT_SUBCOMMANDS: Record<string, ReadOnlyCheck | true> = {
+  status: true,
+  log: true,
+  diff: true,
+  show: true,
+  "rev-parse": true,
+  describe: true,
+  shortlog: true,
+  "ls-files": true,
+  "ls-tree": true,
+  "cat-file": true,
+  blame: true,
+  // `git branch foo` creates a branch; only listing is read-only
+  branch: (args) =>
+    !hasFlag(args, "dDmMcCfut", GIT_BRANCH_WRITE_LONG) &&
+    (positionalArgs(args).length === 0 || hasFlag(args, "l", GIT_BRANCH_LIST_LONG)),
+  tag: (args) =>
+    !hasFlag(args, "dasufmFe", GIT_TAG_WRITE_LONG) &&
+    (positionalArgs(args).length === 0 || hasFlag(args, "l", GIT_BRANCH_LIST_LONG)),
+  remote: (args) => {
+    const [sub] = positionalArgs(args);
+    return sub === undefined || sub === "show" || sub === "get-url";
+  },
+  stash: (args) => {
+    const [sub] = positionalArgs(args);
+    return sub === "list" || sub === "show";
+  },
+  reflog: (args) => {
+    const [sub] = positionalArgs(args);
+    return sub === undefined || sub === "show";
+  },
+  // `git config key` reads, `git config key value` writes
+  config: (args) =>
+    !hasFlag(args, "e", GIT_CONFIG_WRITE_LONG) &&
+    (hasFlag(args, "l", GIT_CONFIG_READ_LONG) || positionalArgs(args).length <= 1),
+};
+
+/** Global options accepted before the git subcommand. */
+const GIT_GLOBAL_FLAGS = new Set(["--no-pager", "-P", "--no-optional-locks", "--paginate", "-p"]);
+
+function isReadOnlyGit(args: string[]): boolean {
+  let i = 0;
+  while (i < args.length && args[i].startsWith("-")) {
+    const arg = args[i];
+    if (arg === "-C") {
+      i += 2;
+    } else if (
+      GIT_GLOBAL_FLAGS.has(arg) ||
+      arg.startsWith("--git-dir=") ||
+      arg.startsWith("--work-tree=")
+    ) {
+      i++;
+    } else {
+      // -c can set an alias, pager or hook; anything unknown is not trusted
+      return false;
+    }
+  }
+
+  const check = READ_ONLY_GIT_SUBCOMMANDS[args[i] ?? ""];
+  if (!check) return false;
+
+  const rest = args.slice(i + 1);
+  if (hasFlag(rest, "", ["--output", "--ext-diff"])) return false;
+  return check === true || check(rest);
+}
+
+const READ_ONLY_COMMANDS: Record<string, ReadOnlyCheck | true> = {
+  ls: true, pwd: true, cat: true, echo: true, which: true, type: true,
+  printenv: true, uname: true, whoami: true, id: true, df: true, du: true,
+  wc: true, stat: true, head: true, tail: true, less: true,
+  grep: true, diff: true, basename: true, dirname: true, realpath: true,
+  readlink: true, true: true, false: true, test: true, "[": true, "[[": true,
+  expr: true, seq: true, tr: true, cut: true, paste: true, printf: true, jq: true,
+  // `env` and `xargs` are unwrapped; reaching here means they run nothing else
+  env: true,
+  xargs: true,
+  git: isReadOnlyGit,
+  find: (args) => !args.some((a) => FIND_ACTIONS_WITH_SIDE_EFFECTS.has(a)),
+  sed: (args) =>
+    !hasFlag(args, "i", ["--in-place"]) &&
+    !hasFlag(args, "f", ["--file"]) &&
+    !sedScripts(args).some((s) => SED_SIDE_EFFECT_PATTERN.test(s)),
+  // system(), output redirection and pipes to commands
+  awk: (args) =>
+    !hasFlag(args, "fi", ["--file", "--include"]) &&
+    !/system|[|>]/.test(positionalArgs(args)[0] ?? ""),
+  tee: (args) => positionalArgs(args).every((a) => HARMLESS_FILES.has(a)),
+  sort: (args) => !hasFlag(args, "o", ["--output", "--compress-program"]),
+  uniq: (args) => positionalArgs(args).length <= 1,
+  tree: (args) => !hasFlag(args, "o"),
+  date: (args) => !hasFlag(args, "s", ["--set"]),
+  rg: (args) => !hasFlag(args, "", ["--pre"]),
+  file: (args) => !hasFlag(args, "C", ["--compile"]),
+  yq: (args) => !hasFlag(args, "i", ["--inplace"]),
+};
+
+/** Variables that make an otherwise harmless command load or run code. */
+const UNSAFE_ENV_PATTERN =
+  /^(?:LD_\w+|DYLD_\w+|PATH|BASH_ENV|ENV|IFS|PAGER|GIT_PAGER|EDITOR|VISUAL|GIT_EXTERNAL_DIFF|GIT_SSH_COMMAND|PROMPT_COMMAND)\+?=/;
+
+function isReadOnlySimpleCommand(command: SimpleCommand): boolean {
+  if (command.assignments.some((a) => UNSAFE_ENV_PATTERN.test(a.raw))) return false;
+  if (command.words.length === 0) return true;
+
+  const { words, assignments, elevated, qualified } = unwrapCommand(command.words);
+  if (elevated || qualified || assignments.some((a) => UNSAFE_ENV_PATTERN.test(a))) return false;
+  if (words.length === 0) return true;
+
+  const [name, ...args] = words;
+  if (name.expanded) return false;
+
+  const check = READ_ONLY_COMMANDS[name.value];
+  if (!check) return false;
+  if (check === true) return true;
+
+  // An unquoted or unknown value could expand to a flag such as -delete.
+  if (args.some((a) => a.expanded)) return false;
+  return check(args.map((a) => a.value));
+}
+
+export function isBashReadOnly(command: string): boolean {
+  const script = tryParseShell(command);
+  if (!script) return false;
+
+  let readOnly = true;
+  visitShell(script, {
+    command: (c) => {
+      if (c.type === "simple") {
+        if (!isReadOnlySimpleCommand(c)) readOnly = false;
+      } else if (c.kind === "function") {
+        // defining a function that runs later is not worth analysing
+        readOnly = false;
+      }
+    },
+    redirect: (r) => {
+      if (isFileWriteRedirect(r)) readOnly = false;
+    },
+  });
+  return readOnly;
+}
+
+// ---------------------------------------------------------------------------
+// Dangerous commands (always blocked regardless of mode)
+// ---------------------------------------------------------------------------
+
+const PROTECTED_DIRECTORIES = new Set([
+  "/", "~", "$HOME", "${HOME}",
+  "/bin", "/boot", "/dev", "/etc", "/home", "/lib", "/lib64", "/opt",
+  "/root", "/sbin", "/usr", "/var",
+  "/System", "/Library", "/Applications", "/Users",
+]);
+
+/** `/`, `/*`, `~/`, `"$HOME"/.` all name the same directory. */
+function normalizeTarget(path: string): string {
+  let normalized = path.replace(/\/{2,}/g, "/");
+  for (;;) {
+    const next = normalized.replace(/\/(?:\*|\.)?$/, "");
+    if (next === normalized) break;
+    normalized = next;
+  }
+  return normalized === "" ? "/" : normalized;
+}
+
+function isProtectedDirectory(path: string): boolean {
+  const normalized = normalizeTarget(path);
+  return PROTECTED_DIRECTORIES.has(normalized) || normalized === normalizeTarget(homedir());
+}
+
+const BLOCK_DEVICE_PATTERN = /^\/dev\/(?:sd|hd|vd|xvd|nvme|mmcblk|disk|rdisk)/;
+
+const SHELL_INTERPRETERS = new Set(["sh", "bash", "zsh", "dash", "ksh"]);
+
+const MAX_EVAL_DEPTH = 3;
+
+function afterDoubleDash(args: string[]): { flags: string[]; operands: string[] } {
+  const end = args.indexOf("--");
+  const before = end < 0 ? args : args.slice(0, end);
+  const after = end < 0 ? [] : args.slice(end + 1);
+  return {
+    flags: before.filter((a) => a.startsWith("-")),
+    operands: [...before.filter((a) => !a.startsWith("-")), ...after],
+  };
+}
+
+/** The command string `bash -c "..."` or `eval ...` would run, if any. */
+export function commandString(words: string[]): string | undefined {
+  const [name, ...args] = words;
+  if (name === undefined) return undefined;
+  if (SHELL_INTERPRETERS.has(commandName(name))) {
+    const flagIndex = args.findIndex((a) => SHORT_FLAG_CLUSTER.test(a) && a.includes("c"));
+    return flagIndex >= 0 ? (args[flagIndex + 1] ?? "") : undefined;
+  }
+  return name === "eval" ? args.join(" ") : undefined;
+}
+
+function checkSimpleCommand(command: SimpleCommand, depth: number): string | null {
+  for (const redirect of command.redirects) {
+    if (isFileWriteRedirect(redirect) && BLOCK_DEVICE_PATTERN.test(redirect.target.value)) {
+      return "デバイスに直接書き込もうとしています";
+    }
+  }
+
+  const { words } = unwrapCommand(command.words);
+  if (words.length === 0) return null;
+  // `/bin/rm` and `./rm` are matched like `rm`; flagging too much is safe here.
+  const name = commandName(words[0].value);
+  const args = words.slice(1).map((w) => w.value);
+
+  if (name === "rm") {
+    const { flags, operands } = afterDoubleDash(args);
+    const recursive = hasFlag(flags, "rR", ["--recursive"]);
+    if (recursive && operands.some(isProtectedDirectory)) {
+      return "ルートまたはホームディレクトリを再帰的に削除しようとしています";
+    }
+  }
+
+  if (name === "find" && args.includes("-delete")) {
+    const firstExpression = args.findIndex((a) => a.startsWith("-") || a === "(" || a === "!");
+    const roots = firstExpression < 0 ? args : args.slice(0, firstExpression);
+    if (roots.some(isProtectedDirectory)) {
+      return "ルートまたはホームディレクトリ以下を削除しようとしています";
+    }
+  }
+
+  if (name === "chmod" && args.some((a) => /^0?777$/.test(a))) {
+    return "パーミッションを 777 に変更しようとしています";
+  }
+
+  if (name.startsWith("mkfs")) {
+    return "ファイルシステムを作成しようとしています";
+  }
+
+  if (name === "dd" && args.some((a) => a.startsWith("of=") && BLOCK_DEVICE_PATTERN.test(a.slice(3)))) {
+    return "デバイスに直接書き込もうとしています";
+  }
+
+  // `bash -c "..."` and `eval "..."` run a command string; look inside it.
+  if (depth < MAX_EVAL_DEPTH) {
+    const inner = commandString([name, ...args]);
+    if (inner) {
+      const script = tryParseShell(inner);
+      if (script) return checkScript(script, depth + 1);
+    }
+  }
+
+  return null;
+}
+
+function checkScript(script: ShellScript, depth: number): string | null {
+  for (const command of collectCommands(script)) {
+    const reason = checkSimpleCommand(command, depth);
+    if (reason) return reason;
+  }
+  return null;
+}
+
+/** Any `name(){ name|name& };name` definition. */
+const FORK_BOMB_PATTERN = /([\w:.]+)\s*\(\)\s*\{\s*\1\s*\|\s*\1\s*&\s*;?\s*\}\s*;\s*\1/;
+
+/**
+ * Why the command must never run, or null. Commands that cannot be parsed
+ * are not flagged here — the shell would reject them as well.
+ */
+export function findDangerousCommand(command: string): string | null {
+  if (FORK_BOMB_PATTERN.test(command)) return "フォーク爆弾です";
+
+  const script = tryParseShell(command);
+  return script ? checkScript(script, 0) : null;
+}
@@ -0,0 +1,61 @@
+import { z } from "zod";
+import { defineTool } from "./definition.js";
+import { ToolError } from "./errors.js";
+import { maskSensitiveOutput } from "./bash.js";
+import {
+  getBackgroundJob,
+  getJobRuntime,
+  readNewOutput,
+  type BackgroundJobStatus,
+} from "./background.js";
+import { MAX_BASH_OUTPUT_CHARS } from "./constants.js";
+
+export interface BashOutputResult {
+  backgroundTaskId: string;
+  status: BackgroundJobStatus;
+  exitCode: number | null;
+  runningForMs: number;
+  /** Output since the previous BashOutput call for this task. */
+  output: string;
+}
+
+const inputSchema = z.object({
+  backgroundTaskId: z
+    .string()
+    .describe("Bash の run_in_background で返された backgroundTaskId"),
+});
+
+export const BashOutputTool = defineTool({
+  name: "BashOutput",
+  category: "read",
+  description: `バックグラウンドで実行中（または終了済み）のコマンドの出力を取得します。
+- 前回の BashOutput 以降に追加された出力だけを返します
+- status（running / completed / failed / killed）と終了コードも返します
+- 長時間のコマンドは適度な間隔で確認してください`,
+  inputSchema,
+  execute: async (input): Promise<BashOutputResult> => {
+    const job = getBackgroundJob(input.backgroundTaskId);
+    if (!job) {
+      throw new ToolError(
+        "BashOutput",
+        "BACKGROUND_TASK_NOT_FOUND",
+        `バックグラウンドタスクが見つかりません: ${input.backgroundTaskId}`,
+      );
+    }
+
+    let output = readNewOutput(job);
+    if (output.length > MAX_BASH_OUTPUT_CHARS) {
+      output =
+        `[新しい出力が${MAX_BASH_OUTPUT_CHARS}文字を超えたため末尾のみ表示します。` +
+        `保存先: ${job.terminalFile}]\n\n${output.slice(-MAX_BASH_OUTPUT_CHARS)}`;
+    }
+
+    return {
+      backgroundTaskId: job.id,
+      status: job.status,
+      exitCode: job.exitCode,
+      runningForMs: getJobRuntime(job),
+      output: maskSensitiveOutput(output),
+    };
+  },
+});
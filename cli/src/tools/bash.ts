@@ -13,7 +13,13 @@ import {
   BASH_BACKGROUND_FLUSH_INTERVAL,
 } from "./constants.js";
 import { registerBackgroundProcess } from "../signals.js";
+import { appendJobOutput, hasBackgroundJob, registerBackgroundJob } from "./background.js";
 import { defineTool } from "./definition.js";
+import {
+  listCurrentShellCommands,
+  tryParseShell,
+  type SimpleCommand,
+} from "./shell.js";
 
 export interface BashState {
   cwd: string;
@@ -66,7 +72,7 @@ for (const [key, value] of Object.entries(process.env)) {
 }
 sensitiveValues.sort((a, b) => b.length - a.length);
 
-function maskSensitiveOutput(text: string): string {
+export function maskSensitiveOutput(text: string): string {
   let masked = text;
   for (const secret of sensitiveValues) {
     masked = masked.replaceAll(secret, "***");
@@ -130,111 +136,40 @@ function spawnShell(
 
 // ---------------------------------------------------------------------------
 // CWD tracking
-// Parses chain operators (;, &&, ||, newlines) and tracks cd/pushd/popd
-// through command sequences. Subshells and pipelines are ignored since
-// directory changes within them don't affect the parent shell.
+// Follows cd/pushd/popd through the commands that run in the current shell.
+// Subshells, pipelines and background jobs are ignored since directory
+// changes within them don't affect the parent shell.
 // ---------------------------------------------------------------------------
 
 function containsDirChange(command: string): boolean {
   return /\b(cd|pushd|popd)\b/.test(command);
 }
 
-function splitChainSegments(command: string): string[] {
-  const segments: string[] = [];
-  let current = "";
-  let inSingle = false;
-  let inDouble = false;
-  let parenDepth = 0;
-
-  for (let i = 0; i < command.length; i++) {
-    const ch = command[i];
-    const prev = i > 0 ? command[i - 1] : "";
-
-    if (ch === "'" && !inDouble && prev !== "\\") {
-      inSingle = !inSingle;
-      current += ch;
-      continue;
-    }
-    if (ch === '"' && !inSingle && prev !== "\\") {
-      inDouble = !inDouble;
-      current += ch;
-      continue;
-    }
-    if (inSingle || inDouble) {
-      current += ch;
-      continue;
-    }
-
-    if (ch === "(") {
-      parenDepth++;
-      current += ch;
-      continue;
-    }
-    if (ch === ")") {
-      parenDepth = Math.max(0, parenDepth - 1);
-      current += ch;
-      continue;
-    }
-    if (parenDepth > 0) {
-      current += ch;
-      continue;
-    }
-
-    if (ch === ";" || ch === "\n") {
-      segments.push(current);
-      current = "";
-      continue;
-    }
-    if (ch === "&" && command[i + 1] === "&") {
-      segments.push(current);
-      current = "";
-      i++;
-      continue;
-    }
-    if (ch === "|" && command[i + 1] === "|") {
-      segments.push(current);
-      current = "";
-      i++;
-      continue;
-    }
+type DirCommand = { type: "cd" | "pushd" | "popd"; target?: string };
 
-    current += ch;
+function toDirCommand(command: SimpleCommand): DirCommand | null {
+  const [name, ...args] = command.words;
+  if (!name || (name.value !== "cd" && name.value !== "pushd" && name.value !== "popd")) {
+    return null;
   }
+  if (name.value === "popd") return { type: "popd" };
 
-  if (current.trim()) segments.push(current);
-  return segments;
-}
+  // skip -L / -P; "-" alone is a target (previous directory)
+  const target = args.find((a) => a.value === "-" || !a.value.startsWith("-"));
+  if (!target) return { type: name.value };
 
-function extractDirCommand(
-  segment: string,
-): { type: "cd" | "pushd" | "popd"; target?: string } | null {
-  const trimmed = segment.trim();
-
-  // cd in a pipeline runs in a subshell — ignore
-  if (/(?<!\|)\|(?!\|)/.test(trimmed)) return null;
-
-  const cdMatch = trimmed.match(
-    /^cd(?:\s+(?:"([^"]*)"|'([^']*)'|(\S+)))?(?:\s|$)/,
-  );
-  if (cdMatch) {
-    return { type: "cd", target: cdMatch[1] ?? cdMatch[2] ?? cdMatch[3] };
-  }
-
-  const pushdMatch = trimmed.match(
-    /^pushd(?:\s+(?:"([^"]*)"|'([^']*)'|(\S+)))?(?:\s|$)/,
-  );
-  if (pushdMatch) {
-    return {
-      type: "pushd",
-      target: pushdMatch[1] ?? pushdMatch[2] ?? pushdMatch[3],
-    };
-  }
-
-  if (/^popd(?:\s|$)/.test(trimmed)) {
-    return { type: "popd" };
-  }
+  const value = target.value.replace(/^\$(?:HOME|\{HOME\})(?=\/|$)/, "~");
+  // other variables can't be resolved here
+  if (target.expanded && value === target.value) return null;
+  return { type: name.value, target: value };
+}
 
-  return null;
+function extractDirCommands(command: string): DirCommand[] {
+  const script = tryParseShell(command);
+  if (!script) return [];
+  return listCurrentShellCommands(script)
+    .map(toDirCommand)
+    .filter((c): c is DirCommand => c !== null);
 }
 
 async function trackCwdChanges(
@@ -244,12 +179,9 @@ async function trackCwdChanges(
 ): Promise<void> {
   if (!containsDirChange(command)) return;
 
-  const segments = splitChainSegments(command);
   let effectiveCwd = cwd;
 
-  for (const segment of segments) {
-    const dirCmd = extractDirCommand(segment);
-    if (!dirCmd) continue;
+  for (const dirCmd of extractDirCommands(command)) {
 
     if (dirCmd.type === "popd") {
       const popped = dirStack.pop();
@@ -405,17 +337,24 @@ export const BashTool = defineTool({
 - タイムアウト: デフォルト120秒、最大600秒。超過時はバックグラウンドに自動移行
 - 出力が30000文字を超える場合は切り詰められ、完全な出力はファイルに保存されます
 - セキュリティのためAPIキーや環境変数やパスワードは自動でマスキングがかかる仕様です
-- run_in_background: true でバックグラウンド実行。出力は ~/.wellgrow/terminals/ に保存
-  → Read ツールでターミナルファイルを定期的に確認してモニタリングできます`,
+- run_in_background: true でバックグラウンド実行。結果の backgroundTaskId を使って
+  → BashOutput で前回以降の新しい出力と終了状態を確認できます
+  → KillShell で停止できます`,
   inputSchema,
   execute: async (input, ctx) => {
+    const session = ctx.session;
     const state: BashState = {
-      cwd: ctx.session.cwd,
-      nextTerminalId: ctx.session.nextTerminalId,
+      cwd: session.cwd,
+      // live, so parallel background calls never get the same id
+      get nextTerminalId() {
+        return session.nextTerminalId;
+      },
+      set nextTerminalId(id: number) {
+        session.nextTerminalId = id;
+      },
     };
     const result = await executeBash(state, input, ctx.abortSignal);
-    ctx.session.cwd = state.cwd;
-    ctx.session.nextTerminalId = state.nextTerminalId;
+    session.cwd = state.cwd;
     return result;
   },
 });
@@ -599,7 +538,11 @@ async function runInBackground(
   command: string,
   cwd: string,
 ): Promise<BashOutput> {
-  const terminalId = state.nextTerminalId++;
+  let terminalId = state.nextTerminalId++;
+  // ids restart with each session, but jobs from earlier ones may still run
+  while (hasBackgroundJob(String(terminalId))) {
+    terminalId = state.nextTerminalId++;
+  }
   const terminalsDir = join(homedir(), ".wellgrow", "terminals");
   await ensureDir(terminalsDir);
   const terminalFile = join(terminalsDir, `${terminalId}.txt`);
@@ -618,6 +561,13 @@ async function runInBackground(
   }
 
   registerBackgroundProcess(child);
+  const job = registerBackgroundJob({
+    id: String(terminalId),
+    command,
+    cwd,
+    terminalFile,
+    child,
+  });
 
   const pid = child.pid;
   const startTime = Date.now();
@@ -625,7 +575,6 @@ async function runInBackground(
   let header = `---\npid: ${pid}\ncwd: ${cwd}\nlast_command: ${command}\nrunning_for_ms: 0\n---\n> ${command}\n\n`;
   await writeFile(terminalFile, header, "utf-8");
 
-  let output = "";
   let flushTimer: ReturnType<typeof setTimeout> | null = null;
 
   const flushToFile = async () => {
@@ -633,7 +582,9 @@ async function runInBackground(
     header =
       `---\npid: ${pid}\ncwd: ${cwd}\nlast_command: ${command}\n` +
       `running_for_ms: ${runningFor}\n---\n> ${command}\n\n`;
-    await writeFile(terminalFile, header + maskSensitiveOutput(output), "utf-8").catch(() => {});
+    await writeFile(terminalFile, header + maskSensitiveOutput(job.output), "utf-8").catch(
+      () => {},
+    );
   };
 
   const scheduleFlush = () => {
@@ -648,24 +599,23 @@ async function runInBackground(
     if (flushTimer) clearTimeout(flushTimer);
     const elapsed = Date.now() - startTime;
     const footer = `\n---\nerror: ${formatSpawnError(error)}\nexit_code: 1\nelapsed_ms: ${elapsed}\n---\n`;
-    writeFile(terminalFile, header + maskSensitiveOutput(output) + footer, "utf-8").catch(() => {});
-  });
-
-  child.stdout!.on("data", (data: Buffer) => {
-    output = appendCapped(output, data.toString(), MAX_BASH_OUTPUT_BYTES);
-    scheduleFlush();
+    writeFile(terminalFile, header + maskSensitiveOutput(job.output) + footer, "utf-8").catch(
+      () => {},
+    );
   });
 
-  child.stderr!.on("data", (data: Buffer) => {
-    output = appendCapped(output, data.toString(), MAX_BASH_OUTPUT_BYTES);
+  const onData = (data: Buffer) => {
+    appendJobOutput(job, data.toString());
     scheduleFlush();
-  });
+  };
+  child.stdout!.on("data", onData);
+  child.stderr!.on("data", onData);
 
   child.on("close", async (code) => {
     if (flushTimer) clearTimeout(flushTimer);
     const elapsed = Date.now() - startTime;
     const footer = `\n---\nexit_code: ${code}\nelapsed_ms: ${elapsed}\n---\n`;
-    await writeFile(terminalFile, header + maskSensitiveOutput(output) + footer, "utf-8").catch(
+    await writeFile(terminalFile, header + maskSensitiveOutput(job.output) + footer, "utf-8").catch(
       () => {},
     );
   });
@@ -673,7 +623,9 @@ async function runInBackground(
   child.unref();
 
   return {
-    stdout: `コマンドをバックグラウンドに移行しました。\nターミナルファイル: ${terminalFile}`,
+    stdout:
+      `コマンドをバックグラウンドに移行しました (backgroundTaskId: ${terminalId})。\n` +
+      `BashOutput で出力を確認、KillShell で停止できます。\nターミナルファイル: ${terminalFile}`,
     stderr: "",
     exitCode: null,
     interrupted: false,
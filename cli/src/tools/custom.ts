@@ -0,0 +1,209 @@
+import { readFile, readdir, stat } from "node:fs/promises";
+import { extname, join } from "node:path";
+import { pathToFileURL } from "node:url";
+import { parse as parseToml } from "smol-toml";
+import { z } from "zod";
+import type { JSONSchema7 } from "ai";
+import {
+  defineTool,
+  type ErasedToolDefinition,
+  type ToolCategory,
+  type ToolExecutionContext,
+} from "./definition.js";
+import { builtinTools } from "./index.js";
+import { ToolError } from "./errors.js";
+import { MAX_BASH_OUTPUT_CHARS } from "./constants.js";
+import { runShellCommand } from "../extensions/command.js";
+
+// ---------------------------------------------------------------------------
+// Custom tools — ~/.wellgrow/agents/<name>/tools/
+//
+// Each file in the directory is either
+//   - a manifest (`*.toml` / `*.json`): `command` runs through the shell in
+//     the session's working directory with the tool input as JSON on stdin,
+//     and its stdout is the result. WELLGROW_TOOL_DIR points at the tools
+//     directory so the command can find its scripts.
+//   - an ES module (`*.js` / `*.mjs`) exporting defineTool(...) results, as
+//     the default export, an array, or named exports.
+// ---------------------------------------------------------------------------
+
+const CUSTOM_TOOL_TIMEOUT_DEFAULT = 60;
+const TOOL_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_-]{0,63}$/;
+const TOOL_CATEGORIES: ToolCategory[] = ["read", "write", "execute", "interactive", "internal"];
+const RESERVED_NAMES = new Set([...builtinTools.map((t) => t.name), "Task"]);
+
+export const customToolManifestSchema = z.object({
+  name: z.string().regex(TOOL_NAME_PATTERN, "英字で始まる英数字・_・- の名前にしてください"),
+  description: z.string(),
+  /** Decides whether the permission pipeline asks before running it. */
+  category: z.enum(["read", "write", "execute"]).default("execute"),
+  command: z.string().min(1),
+  /** Seconds. */
+  timeout: z.number().positive().optional(),
+  input_schema: z
+    .record(z.unknown())
+    .refine((schema) => schema.type === "object", "type = \"object\" の JSON Schema にしてください")
+    .default({ type: "object", properties: {} }),
+});
+
+export type CustomToolManifest = z.infer<typeof customToolManifestSchema>;
+
+export interface CustomToolLoadError {
+  file: string;
+  error: string;
+}
+
+export interface CustomToolSet {
+  tools: ErasedToolDefinition[];
+  errors: CustomToolLoadError[];
+}
+
+// ---------------------------------------------------------------------------
+// Loading
+// ---------------------------------------------------------------------------
+
+/** Every tool in `dir`, in file name order. A missing directory is empty. */
+export async function loadCustomTools(dir: string): Promise<CustomToolSet> {
+  let entries: string[];
+  try {
+    entries = (await readdir(dir)).sort();
+  } catch {
+    return { tools: [], errors: [] };
+  }
+
+  const tools: ErasedToolDefinition[] = [];
+  const errors: CustomToolLoadError[] = [];
+  const names = new Set<string>();
+
+  for (const entry of entries) {
+    const file = join(dir, entry);
+    let loaded: ErasedToolDefinition[];
+    try {
+      switch (extname(entry)) {
+        case ".toml":
+        case ".json":
+          loaded = [await loadManifest(file, dir)];
+          break;
+        case ".js":
+        case ".mjs":
+          loaded = await loadModule(file);
+          break;
+        default:
+          continue;
+      }
+    } catch (error) {
+      errors.push({ file, error: error instanceof Error ? error.message : String(error) });
+      continue;
+    }
+
+    for (const t of loaded) {
+      if (RESERVED_NAMES.has(t.name) || t.name.startsWith("mcp__")) {
+        errors.push({ file, error: `${t.name}: ビルトインツールと同じ名前は使えません` });
+      } else if (names.has(t.name)) {
+        errors.push({ file, error: `${t.name}: 同じ名前のツールが既にあります` });
+      } else {
+        names.add(t.name);
+        tools.push(t);
+      }
+    }
+  }
+
+  return { tools, errors };
+}
+
+export function parseCustomToolManifest(raw: string, file: string): CustomToolManifest {
+  let data: unknown;
+  try {
+    data = extname(file) === ".json" ? JSON.parse(raw) : parseToml(raw);
+  } catch (error) {
+    throw new Error(`形式が不正です: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const result = customToolManifestSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`${issue.path.join(".") || "manifest"}: ${issue.message}`);
+  }
+  return result.data;
+}
+
+async function loadManifest(file: string, dir: string): Promise<ErasedToolDefinition> {
+  const manifest = parseCustomToolManifest(await readFile(file, "utf-8"), file);
+  return defineTool({
+    name: manifest.name,
+    description: manifest.description,
+    category: manifest.category,
+    inputSchema: z.record(z.unknown()),
+    jsonSchema: manifest.input_schema as JSONSchema7,
+    execute: (input, ctx) => runToolCommand(manifest, dir, input, ctx),
+  });
+}
+
+function isToolDefinition(value: unknown): value is ErasedToolDefinition {
+  if (!value || typeof value !== "object") return false;
+  const t = value as Partial<ErasedToolDefinition>;
+  return (
+    typeof t.name === "string" &&
+    typeof t.description === "string" &&
+    TOOL_CATEGORIES.includes(t.category as ToolCategory) &&
+    typeof t.inputSchema?.parse === "function" &&
+    typeof t.execute === "function"
+  );
+}
+
+async function loadModule(file: string): Promise<ErasedToolDefinition[]> {
+  // Query by mtime so an edited module is re-imported instead of cached.
+  const { mtimeMs } = await stat(file);
+  const url = `${pathToFileURL(file).href}?mtime=${mtimeMs}`;
+  const mod = (await import(url)) as Record<string, unknown>;
+  const exported = Object.values(mod).flatMap((value) => (Array.isArray(value) ? value : [value]));
+  const tools = [...new Set(exported.filter(isToolDefinition))];
+  if (tools.length === 0) {
+    throw new Error("defineTool で定義したツールが export されていません");
+  }
+  for (const t of tools) {
+    if (!TOOL_NAME_PATTERN.test(t.name)) {
+      throw new Error(`${t.name}: 英字で始まる英数字・_・- の名前にしてください`);
+    }
+  }
+  return tools;
+}
+
+// ---------------------------------------------------------------------------
+// Manifest command execution
+// ---------------------------------------------------------------------------
+
+async function runToolCommand(
+  manifest: CustomToolManifest,
+  dir: string,
+  input: unknown,
+  ctx: ToolExecutionContext,
+): Promise<string> {
+  const timeout = manifest.timeout ?? CUSTOM_TOOL_TIMEOUT_DEFAULT;
+  const result = await runShellCommand(manifest.command, {
+    cwd: ctx.session.cwd,
+    input,
+    timeout,
+    env: { WELLGROW_TOOL_DIR: dir },
+    abortSignal: ctx.abortSignal,
+    maxStdoutChars: MAX_BASH_OUTPUT_CHARS,
+  });
+
+  if (result.spawnError) {
+    throw new ToolError(manifest.name, "SPAWN_ERROR", `コマンドを起動できません: ${result.spawnError}`);
+  }
+  if (result.timedOut) {
+    throw new ToolError(manifest.name, "COMMAND_FAILED", `${timeout}秒でタイムアウトしました`);
+  }
+  if (result.exitCode !== 0) {
+    const detail = result.stderr.trim() || result.stdout.trim();
+    throw new ToolError(
+      manifest.name,
+      "COMMAND_FAILED",
+      `コマンドが終了コード ${result.exitCode ?? "?"} で失敗しました${detail ? `: ${detail.slice(0, 2000)}` : ""}`,
+    );
+  }
+  const output = result.stdout.trim();
+  return output.length > MAX_BASH_OUTPUT_CHARS
+    ? `${output.slice(0, MAX_BASH_OUTPUT_CHARS)}\n... (出力が長すぎるため省略しました)`
+    : output;
+}
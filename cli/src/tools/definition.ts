@@ -1,7 +1,10 @@
 import type { ZodType } from "zod";
+import type { JSONSchema7 } from "ai";
 import type { SessionContext } from "../core/context.js";
 import type { TodoItem } from "./todo-write.js";
 import type { AskUserQuestion } from "./ask-user.js";
+import type { MessagePart } from "../ui/message-list.js";
+import type { ApprovalDecision, ApprovalRequest } from "../ui/approval-prompt.js";
 
 export type ToolCategory =
   | "read"
@@ -14,6 +17,12 @@ export interface ToolExecutionContext {
   session: SessionContext;
   toolCallId: string;
   abortSignal?: AbortSignal;
+  /** Streams nested activity (a sub-agent's turns) into this tool's part. */
+  onNestedUpdate?: (parts: MessagePart[]) => void;
+  /** Forwards approval prompts of nested tool calls to the user. */
+  onApprovalRequest?: (request: ApprovalRequest) => Promise<ApprovalDecision>;
+  /** Forwards notices of nested tool calls to the user. */
+  onNotice?: (message: string) => void;
 }
 
 export interface ToolDefinition<TInput = unknown, TOutput = unknown> {
@@ -21,6 +30,8 @@ export interface ToolDefinition<TInput = unknown, TOutput = unknown> {
   description: string;
   category: ToolCategory;
   inputSchema: ZodType<TInput>;
+  /** Shown to the model instead of inputSchema, for tools declared in a manifest. */
+  jsonSchema?: JSONSchema7;
   execute: (
     input: TInput,
     ctx: ToolExecutionContext,
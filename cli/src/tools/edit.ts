@@ -98,6 +98,7 @@ export const EditTool = defineTool({
 - 既存ファイルの編集には Write でなくこのツールを優先すること`,
   inputSchema,
   execute: async (input, ctx) => {
+    await ctx.session.checkpoints?.snapshot(input.file_path);
     return executeEdit(input, ctx.session.agent.readFiles);
   },
 });
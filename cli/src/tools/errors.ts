@@ -8,9 +8,12 @@ export type ToolErrorCode =
   | "COMMAND_NOT_FOUND"
   | "COMMAND_PERMISSION"
   | "SPAWN_ERROR"
+  | "COMMAND_FAILED"
   | "DISK_FULL"
   | "IS_DIRECTORY"
   | "OUTPUT_TOO_LARGE"
+  | "BACKGROUND_TASK_NOT_FOUND"
+  | "MCP_SERVER_NOT_FOUND"
   | "INTERNAL_ERROR";
 
 const RECOVERY_HINTS: Partial<Record<ToolErrorCode, string>> = {
@@ -30,6 +33,10 @@ const RECOVERY_HINTS: Partial<Record<ToolErrorCode, string>> = {
     "ファイルの実行権限を確認してください (chmod +x)",
   OUTPUT_TOO_LARGE:
     "head_limit で制限するか、出力の少ないコマンドを使用してください",
+  BACKGROUND_TASK_NOT_FOUND:
+    "Bash の run_in_background で返された backgroundTaskId を指定してください",
+  MCP_SERVER_NOT_FOUND:
+    "ListMcpResources ツールで接続中のサーバーとリソースを確認してください",
 };
 
 export class ToolError extends Error {
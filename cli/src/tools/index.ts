@@ -3,18 +3,25 @@ import { ReadTool } from "./read.js";
 import { WriteTool } from "./write.js";
 import { EditTool } from "./edit.js";
 import { BashTool } from "./bash.js";
+import { BashOutputTool } from "./bash-output.js";
+import { KillShellTool } from "./kill-shell.js";
 import { GlobTool } from "./glob.js";
 import { GrepTool } from "./grep.js";
 import { AskUserTool } from "./ask-user.js";
 import { TodoWriteTool } from "./todo-write.js";
+import { ListMcpResourcesTool, ReadMcpResourceTool } from "./mcp-resources.js";
 
 export const builtinTools: ErasedToolDefinition[] = [
   ReadTool,
   WriteTool,
   EditTool,
   BashTool,
+  BashOutputTool,
+  KillShellTool,
   GlobTool,
   GrepTool,
   AskUserTool,
   TodoWriteTool,
+  ListMcpResourcesTool,
+  ReadMcpResourceTool,
 ];
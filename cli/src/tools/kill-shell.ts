@@ -0,0 +1,34 @@
+import { z } from "zod";
+import { defineTool } from "./definition.js";
+import { ToolError } from "./errors.js";
+import { getBackgroundJob, killBackgroundJob } from "./background.js";
+
+const inputSchema = z.object({
+  backgroundTaskId: z
+    .string()
+    .describe("停止するバックグラウンドタスクの backgroundTaskId"),
+});
+
+export const KillShellTool = defineTool({
+  name: "KillShell",
+  category: "execute",
+  description: `バックグラウンドで実行中のコマンドを停止します。
+- 子プロセスも含めて SIGTERM を送り、終了しなければ SIGKILL します
+- 開発サーバーやウォッチャーなど、不要になったプロセスの停止に使ってください`,
+  inputSchema,
+  execute: async (input) => {
+    const job = getBackgroundJob(input.backgroundTaskId);
+    if (!job) {
+      throw new ToolError(
+        "KillShell",
+        "BACKGROUND_TASK_NOT_FOUND",
+        `バックグラウンドタスクが見つかりません: ${input.backgroundTaskId}`,
+      );
+    }
+
+    const killed = await killBackgroundJob(job);
+    return killed
+      ? `バックグラウンドタスク ${job.id} を停止しました: ${job.command}`
+      : `バックグラウンドタスク ${job.id} はすでに終了しています (status: ${job.status}, exit_code: ${job.exitCode})`;
+  },
+});
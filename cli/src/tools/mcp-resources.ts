@@ -0,0 +1,81 @@
+import { z } from "zod";
+import { defineTool } from "./definition.js";
+import { ToolError } from "./errors.js";
+import { formatResourceContents } from "../extensions/mcp.js";
+
+export interface McpResourceEntry {
+  server: string;
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+const listInputSchema = z.object({
+  server: z
+    .string()
+    .optional()
+    .describe("一覧を取得する MCP サーバー名（省略時はすべてのサーバー）"),
+});
+
+export const ListMcpResourcesTool = defineTool({
+  name: "ListMcpResources",
+  category: "read",
+  description: `接続中の MCP サーバーが提供するリソースを一覧します。
+- server を省略するとすべてのサーバーのリソースを返します
+- 内容は ReadMcpResource ツールに server と uri を渡して読み取ります`,
+  inputSchema: listInputSchema,
+  execute: async (input, ctx) => {
+    const manager = ctx.session.mcpManager;
+    if (!manager?.hasConnections()) {
+      return "接続中の MCP サーバーはありません";
+    }
+    if (input.server && !manager.getConnectedServers().includes(input.server)) {
+      throw new ToolError(
+        "ListMcpResources",
+        "MCP_SERVER_NOT_FOUND",
+        `MCP サーバーが見つかりません: ${input.server}`,
+      );
+    }
+
+    const { resources, errors } = await manager.listResources(input.server);
+    const entries: McpResourceEntry[] = resources.map((r) => ({
+      server: r.server,
+      uri: r.uri,
+      name: r.title ?? r.name,
+      description: r.description,
+      mimeType: r.mimeType,
+    }));
+    return {
+      resources: entries,
+      ...(errors.length > 0
+        ? { errors: errors.map((e) => `${e.name}: ${e.error}`) }
+        : {}),
+    };
+  },
+});
+
+const readInputSchema = z.object({
+  server: z.string().describe("リソースを提供する MCP サーバー名"),
+  uri: z.string().describe("読み取るリソースの URI"),
+});
+
+export const ReadMcpResourceTool = defineTool({
+  name: "ReadMcpResource",
+  category: "read",
+  description: `MCP サーバーのリソースを読み取ります。
+- server と uri は ListMcpResources ツールの結果から指定してください
+- バイナリのリソースは種類とサイズのみ返します`,
+  inputSchema: readInputSchema,
+  execute: async (input, ctx) => {
+    const manager = ctx.session.mcpManager;
+    if (!manager?.getConnectedServers().includes(input.server)) {
+      throw new ToolError(
+        "ReadMcpResource",
+        "MCP_SERVER_NOT_FOUND",
+        `MCP サーバーが見つかりません: ${input.server}`,
+      );
+    }
+    return formatResourceContents(await manager.readResource(input.server, input.uri));
+  },
+});
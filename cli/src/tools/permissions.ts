@@ -0,0 +1,371 @@
+import { homedir } from "node:os";
+import { isAbsolute, join, resolve } from "node:path";
+import type { ToolMeta } from "./registry.js";
+import {
+  collectCommands,
+  hasFileWriteRedirect,
+  hasSubstitution,
+  tryParseShell,
+  type SimpleCommand,
+} from "./shell.js";
+import {
+  commandName,
+  commandString,
+  findExecCommands,
+  unwrapCommand,
+} from "./bash-classifier.js";
+
+// ---------------------------------------------------------------------------
+// Rule syntax
+//
+//   Bash                    every call of the tool
+//   mcp__notion__delete_*   tool names may contain * wildcards
+//   category:write          every tool of a category
+//   Bash(git commit:*)      commands starting with "git commit"
+//   Bash(npm run *)         command glob
+//   Edit(src/**)            path glob, relative to the session cwd
+//   Read(~/.ssh/**)         ~ expands to the home directory
+// ---------------------------------------------------------------------------
+
+export type PermissionBehavior = "allow" | "deny";
+
+export interface PermissionRule {
+  /** The rule as written in config, reported back in ToolEvaluation. */
+  raw: string;
+  tool?: RegExp;
+  category?: string;
+  specifier?: string;
+}
+
+export interface PermissionRules {
+  allow: PermissionRule[];
+  deny: PermissionRule[];
+}
+
+export interface PermissionRequest {
+  toolName: string;
+  meta?: ToolMeta;
+  args?: Record<string, unknown>;
+  cwd: string;
+}
+
+export interface PermissionMatch {
+  behavior: PermissionBehavior;
+  rule: string;
+}
+
+const CATEGORY_PREFIX = "category:";
+const RULE_PATTERN = /^([^()]+?)\s*(?:\((.*)\))?$/;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function wildcardToRegExp(pattern: string): RegExp {
+  return new RegExp(`^${pattern.split("*").map(escapeRegExp).join(".*")}$`);
+}
+
+/** `**` crosses directories, `*` and `?` stay within one path segment. */
+export function pathGlobToRegExp(pattern: string): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === "*" && pattern[i + 1] === "*") {
+      if (pattern[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (ch === "*") {
+      source += "[^/]*";
+    } else if (ch === "?") {
+      source += "[^/]";
+    } else {
+      source += escapeRegExp(ch);
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+export function parsePermissionRule(raw: string): PermissionRule | null {
+  const match = raw.trim().match(RULE_PATTERN);
+  if (!match) return null;
+
+  const [, name, specifier] = match;
+  const rule: PermissionRule = {
+    raw: raw.trim(),
+    specifier: specifier?.trim() || undefined,
+  };
+  if (name.startsWith(CATEGORY_PREFIX)) {
+    rule.category = name.slice(CATEGORY_PREFIX.length);
+  } else {
+    rule.tool = wildcardToRegExp(name);
+  }
+  return rule;
+}
+
+export function compilePermissionRules(rules: {
+  allow?: string[];
+  deny?: string[];
+}): PermissionRules {
+  const parse = (list: string[] = []) =>
+    list
+      .map(parsePermissionRule)
+      .filter((r): r is PermissionRule => r !== null);
+  return { allow: parse(rules.allow), deny: parse(rules.deny) };
+}
+
+// ---------------------------------------------------------------------------
+// Argument matching
+// ---------------------------------------------------------------------------
+
+const PATH_ARG_KEYS = ["file_path", "path", "notebook_path"];
+
+function expandHome(p: string): string {
+  if (p === "~") return homedir();
+  return p.startsWith("~/") ? join(homedir(), p.slice(2)) : p;
+}
+
+function getPathArg(request: PermissionRequest): string | null {
+  const args = request.args ?? {};
+  for (const key of PATH_ARG_KEYS) {
+    const value = args[key];
+    if (typeof value === "string" && value) {
+      const expanded = expandHome(value);
+      return isAbsolute(expanded) ? expanded : resolve(request.cwd, expanded);
+    }
+  }
+  // Glob / Grep default to the working directory.
+  if (request.meta?.category === "read" && "pattern" in args) {
+    return request.cwd;
+  }
+  return null;
+}
+
+/** The command as its dequoted words: `'rm' x` and `\rm x` are both `rm x`. */
+function commandText(command: SimpleCommand): string {
+  return command.words.map((w) => w.value).join(" ");
+}
+
+/** The commands plus whatever they run through `find -exec`, also behind wrappers. */
+function withExecCommands(commands: SimpleCommand[]): SimpleCommand[] {
+  return commands.flatMap((command) => {
+    const execs = findExecCommands(unwrapCommand(command.words).words);
+    return [command, ...withExecCommands(execs.map((words) => ({ ...command, words })))];
+  });
+}
+
+/** `bash -c "..."` and `eval ...`, also behind `sudo`, `xargs` and the like. */
+function runsCommandString(command: SimpleCommand): boolean {
+  const { words } = unwrapCommand(command.words);
+  return commandString(words.map((w) => w.value)) !== undefined;
+}
+
+function hasCommandString(command: string): boolean {
+  const script = tryParseShell(command);
+  return script !== null && withExecCommands(collectCommands(script)).some(runsCommandString);
+}
+
+const GIT_VALUE_OPTIONS = new Set(["-C", "-c", "--git-dir", "--work-tree", "--namespace"]);
+
+/** `git -C . -c x=y push` → `git push`. */
+function withoutGitOptions(words: string[]): string[] {
+  if (words[0] !== "git") return words;
+  let i = 1;
+  while (i < words.length && words[i].startsWith("-")) {
+    i += GIT_VALUE_OPTIONS.has(words[i]) ? 2 : 1;
+  }
+  return ["git", ...words.slice(i)];
+}
+
+const MAX_COMMAND_STRING_DEPTH = 3;
+
+/** `/bin/rm -rf x` → `rm -rf x`. */
+function withBaseName(words: string[]): string[] {
+  return words.length > 0 ? [commandName(words[0]), ...words.slice(1)] : words;
+}
+
+function collectDenySegments(commands: SimpleCommand[], depth: number): string[] {
+  const segments: string[] = [];
+  for (const command of withExecCommands(commands)) {
+    segments.push(commandText(command));
+    const unwrapped = unwrapCommand(command.words).words.map((w) => w.value);
+    const words = withoutGitOptions(unwrapped);
+    segments.push(words.join(" "));
+    segments.push(withoutGitOptions(withBaseName(unwrapped)).join(" "));
+
+    const inner = commandString(words);
+    if (inner !== undefined && depth < MAX_COMMAND_STRING_DEPTH) {
+      const script = tryParseShell(inner);
+      segments.push(...(script ? collectDenySegments(collectCommands(script), depth + 1) : [inner]));
+    }
+  }
+  return segments;
+}
+
+/**
+ * What deny rules are matched against: every command that will run —
+ * chained, piped, inside a substitution or run by `find -exec` — as
+ * dequoted words, once as written, once without wrappers (`sudo`, `env`,
+ * `xargs`, `timeout` …) and git's global options, and once more with the
+ * command named by its base name (`/bin/rm` → `rm`), plus the commands
+ * inside `bash -c` / `eval` strings. An unparsable command is returned whole.
+ */
+export function denySegments(command: string): string[] {
+  const script = tryParseShell(command);
+  if (!script) return [command.trim()];
+  return [...new Set(collectDenySegments(collectCommands(script), 0).filter(Boolean))];
+}
+
+/**
+ * Segments an allow rule has to cover, or null when no rule may allow the
+ * command: unparsable, with a substitution, writing to a file, or running
+ * a command string the rule can't see into. A command run by `find -exec`
+ * needs a rule of its own.
+ */
+function allowableSegments(command: string): string[] | null {
+  const script = tryParseShell(command);
+  if (!script || hasSubstitution(script) || hasFileWriteRedirect(script)) return null;
+  const commands = withExecCommands(collectCommands(script));
+  if (commands.some(runsCommandString)) return null;
+  return commands
+    .map(commandText)
+    .filter(Boolean);
+}
+
+function matchesCommand(specifier: string, segment: string): boolean {
+  const command = segment.replace(/\s+/g, " ");
+  if (specifier.endsWith(":*")) {
+    const prefix = specifier.slice(0, -2).trim();
+    return command === prefix || command.startsWith(`${prefix} `);
+  }
+  return wildcardToRegExp(specifier).test(command);
+}
+
+function matchesPath(specifier: string, path: string, cwd: string): boolean {
+  const expanded = expandHome(specifier);
+  const pattern = isAbsolute(expanded) ? expanded : join(cwd, expanded);
+  return pathGlobToRegExp(pattern).test(path);
+}
+
+function matchesTool(rule: PermissionRule, request: PermissionRequest): boolean {
+  if (rule.category) return request.meta?.category === rule.category;
+  return rule.tool?.test(request.toolName) ?? false;
+}
+
+function getCommand(request: PermissionRequest): string | null {
+  const command = request.args?.command;
+  return typeof command === "string" ? command : null;
+}
+
+/** Whether the rule matches a single command segment or the path argument. */
+function matchesTarget(
+  rule: PermissionRule,
+  request: PermissionRequest,
+  segment?: string,
+): boolean {
+  if (!matchesTool(rule, request)) return false;
+  if (!rule.specifier) return true;
+
+  if (segment !== undefined) return matchesCommand(rule.specifier, segment);
+
+  const path = getPathArg(request);
+  return path !== null && matchesPath(rule.specifier, path, request.cwd);
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation — deny always wins over allow
+// ---------------------------------------------------------------------------
+
+function findDeny(
+  rules: PermissionRule[],
+  request: PermissionRequest,
+): PermissionRule | undefined {
+  const command = getCommand(request);
+  if (command === null) {
+    return rules.find((r) => matchesTarget(r, request));
+  }
+  const segments = denySegments(command);
+  return rules.find(
+    (r) =>
+      (!r.specifier && matchesTool(r, request)) ||
+      segments.some((s) => matchesTarget(r, request, s)),
+  );
+}
+
+function findAllow(
+  rules: PermissionRule[],
+  request: PermissionRequest,
+): PermissionRule[] | null {
+  const command = getCommand(request);
+  // Not even a bare `Bash` covers `bash -c` or `eval`.
+  const wildcard = rules.find((r) => !r.specifier && matchesTool(r, request));
+  if (wildcard && (command === null || !hasCommandString(command))) return [wildcard];
+
+  if (command === null) {
+    const rule = rules.find((r) => matchesTarget(r, request));
+    return rule ? [rule] : null;
+  }
+
+  const segments = allowableSegments(command);
+  if (!segments || segments.length === 0) return null;
+
+  const matched: PermissionRule[] = [];
+  for (const segment of segments) {
+    const rule = rules.find((r) => matchesTarget(r, request, segment));
+    if (!rule) return null;
+    if (!matched.includes(rule)) matched.push(rule);
+  }
+  return matched;
+}
+
+export function matchPermissionRules(
+  rules: PermissionRules,
+  request: PermissionRequest,
+): PermissionMatch | null {
+  const deny = findDeny(rules.deny, request);
+  if (deny) return { behavior: "deny", rule: deny.raw };
+
+  const allow = findAllow(rules.allow, request);
+  if (allow) {
+    return { behavior: "allow", rule: allow.map((r) => r.raw).join(", ") };
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Rule suggestions for the approval prompt
+// ---------------------------------------------------------------------------
+
+const SUBCOMMAND_PATTERN = /^[a-z][\w-]*$/i;
+
+/** `git commit -m x` → `git commit`, `ls -la` → `ls`. */
+export function commandPrefix(command: string): string {
+  const [cmd, sub] = command.trim().split(/\s+/);
+  return sub && SUBCOMMAND_PATTERN.test(sub) ? `${cmd} ${sub}` : cmd;
+}
+
+/**
+ * The rule offered for "always allow in this project", or null when the
+ * call cannot be generalized safely (chained or substituted commands).
+ */
+export function suggestProjectRule(
+  toolName: string,
+  args: Record<string, unknown>,
+): string | null {
+  const command = args.command;
+  if (toolName === "Bash" && typeof command === "string") {
+    const segments = allowableSegments(command);
+    if (segments?.length !== 1) return null;
+    return `Bash(${commandPrefix(segments[0])}:*)`;
+  }
+
+  if (toolName.startsWith("mcp__")) {
+    const serverName = toolName.split("__")[1];
+    return serverName ? `mcp__${serverName}__*` : null;
+  }
+
+  return toolName;
+}
@@ -1,16 +1,30 @@
 import type { ToolResultPart } from "ai";
 import type { ToolMeta } from "./registry.js";
+import {
+  compilePermissionRules,
+  matchPermissionRules,
+  parsePermissionRule,
+} from "./permissions.js";
+import { findDangerousCommand, isBashReadOnly } from "./bash-classifier.js";
+import { tryParseShell } from "./shell.js";
 
 export type Mode = "plan" | "auto";
 
+/** `rule` is the permission rule that decided the outcome, if any. */
 export type ToolEvaluation =
-  | { action: "auto" }
+  | { action: "auto"; rule?: string }
   | { action: "approve" }
-  | { action: "block"; reason: string };
+  | { action: "block"; reason: string; rule?: string };
 
 export interface ToolPipelineConfig {
   mode: Mode;
+  /** Trusted MCP servers (`notion`) or single tools (`mcp__notion__search`). */
   allowedMcps?: string[];
+  /** Permission rules, e.g. `Bash(git commit:*)`, `Edit(src/**)`. */
+  allow?: string[];
+  deny?: string[];
+  /** Relative path rules resolve against this (the session cwd). */
+  getCwd?: () => string;
 }
 
 export interface ToolPipeline {
@@ -21,6 +35,11 @@ export interface ToolPipeline {
     args?: Record<string, unknown>,
   ): ToolEvaluation;
   markMcpAllowed(serverName: string): void;
+  /** Bash: this exact command; MCP: the whole server; others: the tool. */
+  allowForSession(toolName: string, args?: Record<string, unknown>): void;
+  /** Just this tool, for an MCP tool whose server stays untrusted. */
+  allowToolForSession(toolName: string): void;
+  addAllowRule(rule: string): void;
   createDeniedResult(
     toolCallId: string,
     toolName: string,
@@ -29,71 +48,6 @@ export interface ToolPipeline {
   setMode(mode: Mode): void;
 }
 
-// ---------------------------------------------------------------------------
-// Bash read-only command whitelist
-// ---------------------------------------------------------------------------
-
-const READ_ONLY_COMMANDS = new Set([
-  "ls", "pwd", "cat", "echo", "which", "type", "env",
-  "printenv", "date", "uname", "whoami", "id", "df", "du",
-  "wc", "file", "stat", "head", "tail", "less", "tree",
-  "find", "rg", "grep", "awk", "sed", "sort", "uniq",
-  "diff", "basename", "dirname", "realpath", "readlink",
-  "true", "false", "test", "expr", "seq", "tr", "cut",
-  "paste", "tee", "xargs", "printf", "jq", "yq",
-]);
-
-const READ_ONLY_GIT_SUBCOMMANDS = new Set([
-  "status", "log", "diff", "show", "branch", "tag", "remote",
-  "rev-parse", "describe", "shortlog", "stash", "config",
-  "ls-files", "ls-tree", "cat-file", "blame", "reflog",
-]);
-
-const REDIRECT_PATTERN = /(?:^|[^\\])(?:>>?|[0-9]+>>?)/;
-
-export function isBashReadOnly(command: string): boolean {
-  if (REDIRECT_PATTERN.test(command)) return false;
-
-  const segments = command.split(/\s*\|\s*/);
-  for (const segment of segments) {
-    const trimmed = segment.trim();
-    if (!trimmed) continue;
-
-    const tokens = trimmed.split(/\s+/);
-    const cmd = tokens[0];
-    if (!cmd) return false;
-
-    if (cmd === "git") {
-      const subCmd = tokens[1];
-      if (!subCmd || !READ_ONLY_GIT_SUBCOMMANDS.has(subCmd)) return false;
-      continue;
-    }
-
-    if (!READ_ONLY_COMMANDS.has(cmd)) return false;
-  }
-
-  return true;
-}
-
-// ---------------------------------------------------------------------------
-// Dangerous command patterns (always blocked regardless of mode)
-// ---------------------------------------------------------------------------
-
-const DANGEROUS_PATTERNS = [
-  /^rm\s+-rf\s+\//,
-  /chmod\s+777/,
-  /:\(\)\{\s*:\|:&\s*\};:/,
-  />\s*\/dev\/sd/,
-  /^mkfs/,
-  /dd\s+if=.*of=\/dev/,
-];
-
-function isDangerous(args?: Record<string, unknown>): boolean {
-  const command = args?.command;
-  if (typeof command !== "string") return false;
-  return DANGEROUS_PATTERNS.some((p) => p.test(command));
-}
-
 // ---------------------------------------------------------------------------
 // Auto-approve categories for plan mode
 // ---------------------------------------------------------------------------
@@ -107,9 +61,14 @@ const AUTO_CATEGORIES = new Set(["read", "interactive", "internal"]);
 export function createToolPipeline(config: ToolPipelineConfig): ToolPipeline {
   let currentMode = config.mode;
   const allowedMcps = new Set(config.allowedMcps ?? []);
+  const rules = compilePermissionRules({ allow: config.allow, deny: config.deny });
+  const getCwd = config.getCwd ?? (() => process.cwd());
+  const sessionCommands = new Set<string>();
+  const sessionTools = new Set<string>();
 
   function isToolAllowed(toolName: string): boolean {
     if (!toolName.startsWith("mcp__")) return true;
+    if (allowedMcps.has(toolName)) return true;
     const serverName = toolName.split("__")[1];
     return serverName ? allowedMcps.has(serverName) : false;
   }
@@ -120,10 +79,47 @@ export function createToolPipeline(config: ToolPipelineConfig): ToolPipeline {
     },
 
     evaluate(toolName, meta, args) {
-      if (toolName === "Bash" && isDangerous(args)) {
-        return { action: "block", reason: "危険なコマンドです" };
+      const command = args?.command;
+      const bashCommand = toolName === "Bash" && typeof command === "string" ? command : null;
+
+      if (bashCommand !== null) {
+        const danger = findDangerousCommand(bashCommand);
+        if (danger) {
+          return { action: "block", reason: `危険なコマンドです: ${danger}` };
+        }
       }
 
+      const match = matchPermissionRules(rules, {
+        toolName,
+        meta,
+        args,
+        cwd: getCwd(),
+      });
+      if (match?.behavior === "deny") {
+        return {
+          action: "block",
+          reason: `権限ルール ${match.rule} により拒否されました`,
+          rule: match.rule,
+        };
+      }
+      if (match?.behavior === "allow") {
+        return { action: "auto", rule: match.rule };
+      }
+
+      if (
+        sessionTools.has(toolName) ||
+        (bashCommand !== null && sessionCommands.has(bashCommand))
+      ) {
+        return { action: "auto" };
+      }
+
+      // Without a parse the command can't be checked, even in auto mode.
+      if (bashCommand !== null && !tryParseShell(bashCommand)) {
+        return { action: "approve" };
+      }
+
+      // The category comes from the server's own annotations, so it only
+      // counts once the server is trusted.
       if (meta?.source === "mcp" && !isToolAllowed(toolName)) {
         return { action: "approve" };
       }
@@ -140,8 +136,7 @@ export function createToolPipeline(config: ToolPipelineConfig): ToolPipeline {
       }
 
       if (toolName === "Bash" && meta.category === "execute") {
-        const command = args?.command;
-        if (typeof command === "string" && isBashReadOnly(command)) {
+        if (bashCommand !== null && isBashReadOnly(bashCommand)) {
           return { action: "auto" };
         }
         return { action: "approve" };
@@ -154,6 +149,27 @@ export function createToolPipeline(config: ToolPipelineConfig): ToolPipeline {
       allowedMcps.add(serverName);
     },
 
+    allowForSession(toolName, args) {
+      const command = args?.command;
+      if (toolName === "Bash" && typeof command === "string") {
+        sessionCommands.add(command);
+      } else if (toolName.startsWith("mcp__")) {
+        const serverName = toolName.split("__")[1];
+        if (serverName) allowedMcps.add(serverName);
+      } else {
+        sessionTools.add(toolName);
+      }
+    },
+
+    allowToolForSession(toolName) {
+      sessionTools.add(toolName);
+    },
+
+    addAllowRule(rule) {
+      const parsed = parsePermissionRule(rule);
+      if (parsed) rules.allow.push(parsed);
+    },
+
     createDeniedResult(toolCallId, toolName, reason) {
       return {
         type: "tool-result",
@@ -1,4 +1,4 @@
-import { tool, type Tool } from "ai";
+import { jsonSchema, tool, type Tool } from "ai";
 import type {
   ErasedToolDefinition,
   ToolExecutionContext,
@@ -6,16 +6,14 @@ import type {
   ToolUIEvent,
 } from "./definition.js";
 import type { SessionContext } from "../core/context.js";
+import type { McpToolAnnotations, McpToolSet } from "../extensions/mcp.js";
 
 export type ToolSource = "builtin" | "mcp" | "custom";
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type AnyTool = Tool<any, any>;
 
-export interface ToolHandlerContext {
-  toolCallId: string;
-  abortSignal?: AbortSignal;
-}
+export type ToolHandlerContext = Omit<ToolExecutionContext, "session">;
 
 type ToolHandler = (
   args: Record<string, unknown>,
@@ -35,12 +33,17 @@ export interface ToolRegistry {
   schemas: Record<string, AnyTool>;
   handlers: Record<string, ToolHandler>;
   getMeta(toolName: string): ToolMeta | undefined;
+  /** Swap one MCP server's tools in place, e.g. after it reconnects; `{}` removes them. */
+  replaceMcpTools(serverName: string, mcpToolSet: McpToolSet): void;
 }
 
 export interface ToolRegistryBuilder {
   addBuiltinTools(tools: ErasedToolDefinition[]): ToolRegistryBuilder;
+  /** Tools defined by the embedding program; kept by filterBuiltins. */
+  addCustomTools(tools: ErasedToolDefinition[]): ToolRegistryBuilder;
+  /** Categories come from each tool's annotations (see mcpToolCategory). */
   addMcpTools(
-    mcpToolSet: Record<string, AnyTool>,
+    mcpToolSet: McpToolSet,
     serverName: string,
   ): ToolRegistryBuilder;
   filterBuiltins(allowed: string[]): ToolRegistryBuilder;
@@ -54,56 +57,43 @@ export function createToolRegistryBuilder(
   const handlers: Record<string, ToolHandler> = {};
   const metaMap = new Map<string, ToolMeta>();
 
+  const addDefinitions = (tools: ErasedToolDefinition[], source: ToolSource) => {
+    for (const t of tools) {
+      schemas[t.name] = tool({
+        description: t.description,
+        inputSchema: t.jsonSchema ? jsonSchema(t.jsonSchema) : t.inputSchema,
+      });
+
+      handlers[t.name] = async (args, handlerCtx) => {
+        const input = t.inputSchema.parse(args);
+        const execCtx: ToolExecutionContext = {
+          ...handlerCtx,
+          session: sessionCtx,
+        };
+        return t.execute(input, execCtx);
+      };
+
+      metaMap.set(t.name, {
+        category: t.category,
+        source,
+        uiHooks: t.uiHooks,
+      });
+    }
+  };
+
   const builder: ToolRegistryBuilder = {
     addBuiltinTools(tools) {
-      for (const t of tools) {
-        schemas[t.name] = tool({
-          description: t.description,
-          inputSchema: t.inputSchema,
-        });
-
-        handlers[t.name] = async (args, handlerCtx) => {
-          const input = t.inputSchema.parse(args);
-          const execCtx: ToolExecutionContext = {
-            session: sessionCtx,
-            toolCallId: handlerCtx.toolCallId,
-            abortSignal: handlerCtx.abortSignal,
-          };
-          return t.execute(input, execCtx);
-        };
+      addDefinitions(tools, "builtin");
+      return builder;
+    },
 
-        metaMap.set(t.name, {
-          category: t.category,
-          source: "builtin",
-          uiHooks: t.uiHooks,
-        });
-      }
+    addCustomTools(tools) {
+      addDefinitions(tools, "custom");
       return builder;
     },
 
     addMcpTools(mcpToolSet, serverName) {
-      for (const [name, mcpTool] of Object.entries(mcpToolSet)) {
-        const qualifiedName = `mcp__${serverName}__${name}`;
-
-        schemas[qualifiedName] = tool({
-          description: mcpTool.description ?? "",
-          inputSchema: mcpTool.inputSchema,
-        });
-
-        if (typeof mcpTool.execute === "function") {
-          const executeFn = mcpTool.execute;
-          handlers[qualifiedName] = (args, handlerCtx) =>
-            executeFn(args, {
-              toolCallId: handlerCtx.toolCallId,
-              messages: [],
-            });
-        }
-
-        metaMap.set(qualifiedName, {
-          category: "execute",
-          source: "mcp",
-        });
-      }
+      addMcpToolsTo(schemas, handlers, metaMap, mcpToolSet, serverName);
       return builder;
     },
 
@@ -120,13 +110,65 @@ export function createToolRegistryBuilder(
     },
 
     build() {
+      const built = { schemas: { ...schemas }, handlers: { ...handlers } };
       return {
-        schemas: { ...schemas },
-        handlers: { ...handlers },
+        ...built,
         getMeta: (name: string) => metaMap.get(name),
+        replaceMcpTools(serverName, mcpToolSet) {
+          const prefix = `mcp__${serverName}__`;
+          for (const name of Object.keys(built.schemas)) {
+            if (name.startsWith(prefix) && metaMap.get(name)?.source === "mcp") {
+              delete built.schemas[name];
+              delete built.handlers[name];
+              metaMap.delete(name);
+            }
+          }
+          addMcpToolsTo(built.schemas, built.handlers, metaMap, mcpToolSet, serverName);
+        },
       };
     },
   };
 
   return builder;
 }
+
+/**
+ * readOnlyHint → read, destructiveHint: false → write, anything else
+ * execute — the spec treats an unannotated tool as destructive.
+ */
+export function mcpToolCategory(annotations?: McpToolAnnotations): ToolCategory {
+  if (annotations?.readOnlyHint) return "read";
+  if (annotations?.destructiveHint === false) return "write";
+  return "execute";
+}
+
+function addMcpToolsTo(
+  schemas: Record<string, AnyTool>,
+  handlers: Record<string, ToolHandler>,
+  metaMap: Map<string, ToolMeta>,
+  mcpToolSet: McpToolSet,
+  serverName: string,
+): void {
+  for (const [name, mcpTool] of Object.entries(mcpToolSet)) {
+    const qualifiedName = `mcp__${serverName}__${name}`;
+
+    schemas[qualifiedName] = tool({
+      description: mcpTool.description ?? "",
+      inputSchema: mcpTool.inputSchema,
+    });
+
+    if (typeof mcpTool.execute === "function") {
+      const executeFn = mcpTool.execute;
+      handlers[qualifiedName] = (args, handlerCtx) =>
+        executeFn(args, {
+          toolCallId: handlerCtx.toolCallId,
+          messages: [],
+        });
+    }
+
+    metaMap.set(qualifiedName, {
+      category: mcpToolCategory(mcpTool.annotations),
+      source: "mcp",
+    });
+  }
+}
@@ -0,0 +1,1029 @@
+// ---------------------------------------------------------------------------
+// POSIX shell parser
+//
+// Parses a command line into an AST so that permission checks can look at
+// every command that will actually run: chained (`;`, `&&`, `||`), piped,
+// backgrounded, inside subshells / groups / loops, and inside command and
+// process substitutions. Quoting, escapes, env-prefix assignments, redirects
+// and here-documents are handled; expansions are kept verbatim.
+// ---------------------------------------------------------------------------
+
+export interface ShellWord {
+  /** Source text, quotes included. */
+  raw: string;
+  /** Quotes and escapes removed; parameter expansions are kept verbatim. */
+  value: string;
+  /** Contains a parameter, arithmetic or command expansion. */
+  expanded: boolean;
+  /** Some part of the word was quoted or escaped. */
+  quoted: boolean;
+  /** Command and process substitutions inside the word. */
+  substitutions: ShellScript[];
+}
+
+export interface ShellRedirect {
+  /** `>`, `>>`, `<`, `<<`, `<<<`, `>&`, `&>`, ... */
+  op: string;
+  fd?: number;
+  target: ShellWord;
+  /** Body of a here-document. */
+  heredoc?: ShellWord;
+}
+
+export interface SimpleCommand {
+  type: "simple";
+  /** `FOO=bar` prefixes. */
+  assignments: ShellWord[];
+  /** Command name followed by its arguments. */
+  words: ShellWord[];
+  redirects: ShellRedirect[];
+  /** Source text from the command name on (assignments excluded). */
+  text: string;
+}
+
+export type CompoundKind =
+  | "subshell"
+  | "group"
+  | "if"
+  | "while"
+  | "until"
+  | "for"
+  | "case"
+  | "function"
+  | "arithmetic";
+
+export interface CompoundCommand {
+  type: "compound";
+  kind: CompoundKind;
+  /** Condition and body lists, in source order. */
+  bodies: ShellScript[];
+  /** Loop items, case subject and patterns, function name, arithmetic. */
+  words: ShellWord[];
+  redirects: ShellRedirect[];
+}
+
+export type ShellCommand = SimpleCommand | CompoundCommand;
+
+export interface ShellPipeline {
+  negated: boolean;
+  commands: ShellCommand[];
+}
+
+export interface ShellAndOr {
+  pipelines: ShellPipeline[];
+  operators: ("&&" | "||")[];
+  /** Terminated by `&`. */
+  background: boolean;
+}
+
+export interface ShellScript {
+  items: ShellAndOr[];
+}
+
+export class ShellParseError extends Error {
+  constructor(message: string) {
+    super(`シェルコマンドを解析できません: ${message}`);
+    this.name = "ShellParseError";
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Tokens
+// ---------------------------------------------------------------------------
+
+type Token =
+  | { kind: "word"; word: ShellWord; start: number; end: number }
+  | { kind: "op"; op: string; fd?: number; start: number; end: number }
+  | { kind: "newline"; start: number; end: number }
+  | { kind: "eof"; start: number; end: number };
+
+/** Longest first so that `&&` wins over `&`. */
+const OPERATORS = [
+  ";;&", "&>>", "<<<", "<<-",
+  "&&", "||", ";;", ";&", "|&", "&>", "<<", ">>", ">&", "<&", "<>", ">|",
+  ">", "<", "|", "&", ";", "(", ")",
+];
+
+const REDIRECT_OPS = new Set([
+  ">", ">>", ">|", "<", "<>", "<<", "<<-", "<<<", ">&", "<&", "&>", "&>>",
+]);
+
+const METACHARS = new Set([" ", "\t", "\n", ";", "&", "|", "<", ">", "(", ")"]);
+
+const ASSIGNMENT_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*(?:\[[^\]]*\])?\+?=/;
+const ARRAY_ASSIGNMENT_PREFIX = /^[A-Za-z_][A-Za-z0-9_]*\+?=$/;
+const IO_NUMBER_PATTERN = /^\d+(?=[<>])/;
+
+const MAX_NESTING = 32;
+
+const CASE_TERMINATORS = [";;", ";&", ";;&"];
+
+interface PendingHeredoc {
+  redirect: ShellRedirect;
+  delimiter: string;
+  quoted: boolean;
+  stripTabs: boolean;
+}
+
+function emptyWord(): ShellWord {
+  return { raw: "", value: "", expanded: false, quoted: false, substitutions: [] };
+}
+
+function wrapCommand(command: ShellCommand): ShellScript {
+  return {
+    items: [
+      {
+        pipelines: [{ negated: false, commands: [command] }],
+        operators: [],
+        background: false,
+      },
+    ],
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Parser
+// ---------------------------------------------------------------------------
+
+class Parser {
+  private pos = 0;
+  private lookahead: Token | null = null;
+  private lastEnd = 0;
+  private pendingHeredocs: PendingHeredoc[] = [];
+
+  constructor(
+    private readonly src: string,
+    private readonly depth = 0,
+  ) {
+    if (depth > MAX_NESTING) {
+      throw new ShellParseError("入れ子が深すぎます");
+    }
+  }
+
+  parseScript(): ShellScript {
+    const script = this.parseList(new Set());
+    const tok = this.peek();
+    if (tok.kind !== "eof") this.unexpected(tok);
+    return script;
+  }
+
+  // -- Lexer ----------------------------------------------------------------
+
+  private peek(): Token {
+    this.lookahead ??= this.lex();
+    return this.lookahead;
+  }
+
+  private next(): Token {
+    const tok = this.peek();
+    this.lookahead = null;
+    this.lastEnd = tok.end;
+    return tok;
+  }
+
+  private skipBlanks(): void {
+    const { src } = this;
+    while (this.pos < src.length) {
+      const ch = src[this.pos];
+      if (ch === " " || ch === "\t") {
+        this.pos++;
+      } else if (ch === "\\" && src[this.pos + 1] === "\n") {
+        this.pos += 2;
+      } else if (ch === "#") {
+        while (this.pos < src.length && src[this.pos] !== "\n") this.pos++;
+      } else {
+        return;
+      }
+    }
+  }
+
+  private lex(): Token {
+    this.skipBlanks();
+    const { src } = this;
+    const start = this.pos;
+
+    if (start >= src.length) return { kind: "eof", start, end: start };
+
+    const ch = src[start];
+    if (ch === "\n") {
+      this.pos++;
+      this.readHeredocBodies();
+      return { kind: "newline", start, end: start + 1 };
+    }
+
+    const fd = IO_NUMBER_PATTERN.exec(src.slice(start, start + 12));
+    if (fd) {
+      this.pos += fd[0].length;
+      const op = this.matchOperator();
+      if (op && REDIRECT_OPS.has(op)) {
+        this.pos += op.length;
+        return { kind: "op", op, fd: Number(fd[0]), start, end: this.pos };
+      }
+      this.pos = start;
+    }
+
+    if ((ch === "<" || ch === ">") && src[start + 1] === "(") {
+      return this.readWord();
+    }
+
+    const op = this.matchOperator();
+    if (op) {
+      this.pos += op.length;
+      return { kind: "op", op, start, end: this.pos };
+    }
+    return this.readWord();
+  }
+
+  private matchOperator(): string | undefined {
+    return OPERATORS.find((op) => this.src.startsWith(op, this.pos));
+  }
+
+  private readWord(): Token {
+    const { src } = this;
+    const start = this.pos;
+    const word = emptyWord();
+
+    while (this.pos < src.length) {
+      const ch = src[this.pos];
+
+      if (ch === "\\") {
+        if (src[this.pos + 1] === "\n") {
+          this.pos += 2;
+          continue;
+        }
+        word.value += src[this.pos + 1] ?? "";
+        word.quoted = true;
+        this.pos += 2;
+        continue;
+      }
+      if (ch === "'") {
+        const end = src.indexOf("'", this.pos + 1);
+        if (end < 0) throw new ShellParseError("閉じられていない ' があります");
+        word.value += src.slice(this.pos + 1, end);
+        word.quoted = true;
+        this.pos = end + 1;
+        continue;
+      }
+      if (ch === '"') {
+        this.pos++;
+        this.readDoubleQuoted(word, true);
+        word.quoted = true;
+        continue;
+      }
+      if (ch === "$") {
+        this.readDollar(word, false);
+        continue;
+      }
+      if (ch === "`") {
+        this.readBacktick(word);
+        continue;
+      }
+      if ((ch === "<" || ch === ">") && src[this.pos + 1] === "(" && this.pos === start) {
+        // process substitution
+        this.pos += 2;
+        word.substitutions.push(this.parseNested());
+        word.value += src.slice(start, this.pos);
+        word.expanded = true;
+        continue;
+      }
+      if (ch === "(" && ARRAY_ASSIGNMENT_PREFIX.test(src.slice(start, this.pos))) {
+        this.readArrayLiteral(word);
+        continue;
+      }
+      if (METACHARS.has(ch)) break;
+
+      word.value += ch;
+      this.pos++;
+    }
+
+    return { kind: "word", word: { ...word, raw: src.slice(start, this.pos) }, start, end: this.pos };
+  }
+
+  /**
+   * Reads up to the closing `"`, or to the end of input for an unquoted
+   * here-document body (`terminated` false).
+   */
+  private readDoubleQuoted(word: ShellWord, terminated: boolean): void {
+    const { src } = this;
+    while (this.pos < src.length) {
+      const ch = src[this.pos];
+      if (ch === "\\") {
+        const next = src[this.pos + 1];
+        if (next === "\n") {
+          this.pos += 2;
+        } else if (next === "$" || next === "`" || next === "\\" || (terminated && next === '"')) {
+          word.value += next;
+          this.pos += 2;
+        } else {
+          word.value += ch;
+          this.pos++;
+        }
+        continue;
+      }
+      if (ch === "$") {
+        this.readDollar(word, true);
+        continue;
+      }
+      if (ch === "`") {
+        this.readBacktick(word);
+        continue;
+      }
+      if (ch === '"' && terminated) {
+        this.pos++;
+        return;
+      }
+      word.value += ch;
+      this.pos++;
+    }
+    if (terminated) throw new ShellParseError('閉じられていない " があります');
+  }
+
+  private readDollar(word: ShellWord, inDouble: boolean): void {
+    const { src } = this;
+    const start = this.pos;
+    const next = src[start + 1];
+
+    if (next === "(" && src[start + 2] === "(") {
+      this.pos += 3;
+      this.readArithmetic(word);
+    } else if (next === "(") {
+      this.pos += 2;
+      word.substitutions.push(this.parseNested());
+    } else if (next === "{") {
+      this.pos += 2;
+      this.readParameterExpansion(word);
+    } else if (next === "'" && !inDouble) {
+      this.readAnsiCQuoted(word);
+      return;
+    } else if (next === '"' && !inDouble) {
+      // $"..." locale string: the quotes are read as a normal double-quoted part
+      this.pos++;
+      return;
+    } else if (next !== undefined && /[A-Za-z_]/.test(next)) {
+      this.pos++;
+      while (this.pos < src.length && /\w/.test(src[this.pos])) this.pos++;
+    } else if (next !== undefined && /[0-9@*#?$!-]/.test(next)) {
+      this.pos += 2;
+    } else {
+      word.value += "$";
+      this.pos++;
+      return;
+    }
+
+    word.value += src.slice(start, this.pos);
+    word.expanded = true;
+  }
+
+  private readAnsiCQuoted(word: ShellWord): void {
+    const { src } = this;
+    this.pos += 2;
+    while (this.pos < src.length) {
+      const ch = src[this.pos];
+      if (ch === "\\") {
+        word.value += src[this.pos + 1] ?? "";
+        this.pos += 2;
+        continue;
+      }
+      if (ch === "'") {
+        this.pos++;
+        word.quoted = true;
+        return;
+      }
+      word.value += ch;
+      this.pos++;
+    }
+    throw new ShellParseError("閉じられていない $' があります");
+  }
+
+  /** `${...}` — may itself contain quotes and substitutions. */
+  private readParameterExpansion(word: ShellWord): void {
+    const { src } = this;
+    const inner = emptyWord();
+    let depth = 0;
+    while (this.pos < src.length) {
+      const ch = src[this.pos];
+      if (ch === "\\") {
+        this.pos += 2;
+      } else if (ch === "'") {
+        const end = src.indexOf("'", this.pos + 1);
+        if (end < 0) throw new ShellParseError("閉じられていない ' があります");
+        this.pos = end + 1;
+      } else if (ch === '"') {
+        this.pos++;
+        this.readDoubleQuoted(inner, true);
+      } else if (ch === "$") {
+        this.readDollar(inner, false);
+      } else if (ch === "`") {
+        this.readBacktick(inner);
+      } else if (ch === "{") {
+        depth++;
+        this.pos++;
+      } else if (ch === "}") {
+        this.pos++;
+        if (depth === 0) {
+          word.substitutions.push(...inner.substitutions);
+          return;
+        }
+        depth--;
+      } else {
+        this.pos++;
+      }
+    }
+    throw new ShellParseError("閉じられていない ${ があります");
+  }
+
+  /** Body of `$((...))` / `((...))`, positioned after the opening parens. */
+  private readArithmetic(word: ShellWord): void {
+    const { src } = this;
+    let depth = 0;
+    while (this.pos < src.length) {
+      const ch = src[this.pos];
+      if (ch === "$") {
+        this.readDollar(word, true);
+        continue;
+      }
+      if (ch === "`") {
+        this.readBacktick(word);
+        continue;
+      }
+      if (ch === "(") {
+        depth++;
+      } else if (ch === ")") {
+        if (depth === 0 && src[this.pos + 1] === ")") {
+          this.pos += 2;
+          word.expanded = true;
+          return;
+        }
+        depth--;
+      }
+      this.pos++;
+    }
+    throw new ShellParseError("閉じられていない (( があります");
+  }
+
+  private readArrayLiteral(word: ShellWord): void {
+    const { src } = this;
+    const start = this.pos;
+    let depth = 0;
+    let quote: string | null = null;
+    while (this.pos < src.length) {
+      const ch = src[this.pos++];
+      if (quote) {
+        if (ch === "\\" && quote === '"') this.pos++;
+        else if (ch === quote) quote = null;
+      } else if (ch === "'" || ch === '"') {
+        quote = ch;
+      } else if (ch === "\\") {
+        this.pos++;
+      } else if (ch === "(") {
+        depth++;
+      } else if (ch === ")" && --depth === 0) {
+        word.value += src.slice(start, this.pos);
+        return;
+      }
+    }
+    throw new ShellParseError("閉じられていない ( があります");
+  }
+
+  private readBacktick(word: ShellWord): void {
+    const { src } = this;
+    const start = this.pos;
+    this.pos++;
+    let inner = "";
+    while (this.pos < src.length) {
+      const ch = src[this.pos];
+      if (ch === "\\") {
+        const next = src[this.pos + 1];
+        inner += next === "$" || next === "`" || next === "\\" ? next : ch + (next ?? "");
+        this.pos += 2;
+        continue;
+      }
+      if (ch === "`") {
+        this.pos++;
+        word.substitutions.push(new Parser(inner, this.depth + 1).parseScript());
+        word.value += src.slice(start, this.pos);
+        word.expanded = true;
+        return;
+      }
+      inner += ch;
+      this.pos++;
+    }
+    throw new ShellParseError("閉じられていない ` があります");
+  }
+
+  /** `$( ... )` / `<( ... )`, positioned after the opening paren. */
+  private parseNested(): ShellScript {
+    if (this.depth >= MAX_NESTING) {
+      throw new ShellParseError("入れ子が深すぎます");
+    }
+    const script = this.parseList(new Set([")"]));
+    this.expectOp(")");
+    return script;
+  }
+
+  private readHeredocBodies(): void {
+    const { src } = this;
+    const pending = this.pendingHeredocs;
+    this.pendingHeredocs = [];
+
+    for (const heredoc of pending) {
+      const lines: string[] = [];
+      while (this.pos < src.length) {
+        let end = src.indexOf("\n", this.pos);
+        if (end < 0) end = src.length;
+        const line = src.slice(this.pos, end);
+        this.pos = Math.min(end + 1, src.length);
+        const compared = heredoc.stripTabs ? line.replace(/^\t+/, "") : line;
+        if (compared === heredoc.delimiter) break;
+        lines.push(compared);
+      }
+
+      const body = lines.join("\n");
+      if (heredoc.quoted) {
+        heredoc.redirect.heredoc = { ...emptyWord(), raw: body, value: body, quoted: true };
+      } else {
+        const parser = new Parser(body, this.depth + 1);
+        const word = emptyWord();
+        parser.readDoubleQuoted(word, false);
+        heredoc.redirect.heredoc = { ...word, raw: body };
+      }
+    }
+  }
+
+  // -- Grammar --------------------------------------------------------------
+
+  private isReserved(tok: Token, name?: string): boolean {
+    if (tok.kind !== "word") return false;
+    const { word } = tok;
+    if (word.quoted || word.expanded || word.raw !== word.value) return false;
+    return name === undefined || word.value === name;
+  }
+
+  private isTerminator(tok: Token, terminators: ReadonlySet<string>): boolean {
+    if (tok.kind === "op") return terminators.has(tok.op);
+    return tok.kind === "word" && this.isReserved(tok) && terminators.has(tok.word.value);
+  }
+
+  private unexpected(tok: Token): never {
+    if (tok.kind === "eof") throw new ShellParseError("コマンドが途中で終わっています");
+    const text = tok.kind === "newline" ? "改行" : this.src.slice(tok.start, tok.end);
+    throw new ShellParseError(`予期しないトークン "${text}" があります`);
+  }
+
+  private expectOp(op: string): void {
+    const tok = this.next();
+    if (tok.kind !== "op" || tok.op !== op) this.unexpected(tok);
+  }
+
+  private expectReserved(name: string): void {
+    const tok = this.next();
+    if (!this.isReserved(tok, name)) this.unexpected(tok);
+  }
+
+  private expectWord(): ShellWord {
+    const tok = this.next();
+    if (tok.kind !== "word") this.unexpected(tok);
+    return tok.word;
+  }
+
+  private peekOp(...ops: string[]): boolean {
+    const tok = this.peek();
+    return tok.kind === "op" && ops.includes(tok.op);
+  }
+
+  private skipNewlines(): void {
+    while (this.peek().kind === "newline") this.next();
+  }
+
+  private parseList(terminators: ReadonlySet<string>): ShellScript {
+    const items: ShellAndOr[] = [];
+    for (;;) {
+      this.skipNewlines();
+      const tok = this.peek();
+      if (tok.kind === "eof" || this.isTerminator(tok, terminators)) break;
+
+      const andOr = this.parseAndOr();
+      items.push(andOr);
+
+      const sep = this.peek();
+      if (sep.kind === "op" && (sep.op === ";" || sep.op === "&")) {
+        this.next();
+        andOr.background = sep.op === "&";
+      } else if (sep.kind !== "newline") {
+        break;
+      }
+    }
+    return { items };
+  }
+
+  private parseAndOr(): ShellAndOr {
+    const pipelines = [this.parsePipeline()];
+    const operators: ("&&" | "||")[] = [];
+    for (;;) {
+      const tok = this.peek();
+      if (tok.kind !== "op" || (tok.op !== "&&" && tok.op !== "||")) break;
+      this.next();
+      this.skipNewlines();
+      operators.push(tok.op);
+      pipelines.push(this.parsePipeline());
+    }
+    return { pipelines, operators, background: false };
+  }
+
+  private parsePipeline(): ShellPipeline {
+    let negated = false;
+    if (this.isReserved(this.peek(), "!")) {
+      this.next();
+      negated = true;
+    }
+    const commands = [this.parseCommand()];
+    while (this.peekOp("|", "|&")) {
+      this.next();
+      this.skipNewlines();
+      commands.push(this.parseCommand());
+    }
+    return { negated, commands };
+  }
+
+  private parseCommand(): ShellCommand {
+    const tok = this.peek();
+
+    if (tok.kind === "op" && tok.op === "(") {
+      this.next();
+      if (this.src[this.pos] === "(" && tok.end === this.pos) {
+        this.pos++;
+        const word = emptyWord();
+        const start = this.pos;
+        this.readArithmetic(word);
+        word.raw = this.src.slice(start, this.pos - 2);
+        word.value = word.raw;
+        return this.compound("arithmetic", [], [word]);
+      }
+      const body = this.parseList(new Set([")"]));
+      this.expectOp(")");
+      return this.compound("subshell", [body]);
+    }
+
+    if (this.isReserved(tok)) {
+      switch ((tok as Extract<Token, { kind: "word" }>).word.value) {
+        case "{": {
+          this.next();
+          const body = this.parseList(new Set(["}"]));
+          this.expectReserved("}");
+          return this.compound("group", [body]);
+        }
+        case "if":
+          return this.parseIf();
+        case "while":
+        case "until":
+          return this.parseLoop();
+        case "for":
+        case "select":
+          return this.parseFor();
+        case "case":
+          return this.parseCase();
+        case "function":
+          return this.parseFunctionKeyword();
+        case "[[":
+          return this.parseTestCommand();
+      }
+    }
+
+    return this.parseSimple();
+  }
+
+  private compound(
+    kind: CompoundKind,
+    bodies: ShellScript[],
+    words: ShellWord[] = [],
+  ): CompoundCommand {
+    return { type: "compound", kind, bodies, words, redirects: this.parseRedirects() };
+  }
+
+  private parseRedirects(): ShellRedirect[] {
+    const redirects: ShellRedirect[] = [];
+    for (;;) {
+      const tok = this.peek();
+      if (tok.kind !== "op" || !REDIRECT_OPS.has(tok.op)) return redirects;
+      redirects.push(this.parseRedirect());
+    }
+  }
+
+  private parseRedirect(): ShellRedirect {
+    const tok = this.next() as Extract<Token, { kind: "op" }>;
+    const target = this.expectWord();
+    const redirect: ShellRedirect = { op: tok.op, target };
+    if (tok.fd !== undefined) redirect.fd = tok.fd;
+    if (tok.op === "<<" || tok.op === "<<-") {
+      this.pendingHeredocs.push({
+        redirect,
+        delimiter: target.value,
+        quoted: target.quoted,
+        stripTabs: tok.op === "<<-",
+      });
+    }
+    return redirect;
+  }
+
+  private parseSimple(): ShellCommand {
+    const assignments: ShellWord[] = [];
+    const words: ShellWord[] = [];
+    const redirects: ShellRedirect[] = [];
+    let textStart = -1;
+    let textEnd = -1;
+
+    for (;;) {
+      const tok = this.peek();
+      if (tok.kind === "op" && REDIRECT_OPS.has(tok.op)) {
+        redirects.push(this.parseRedirect());
+        if (textStart >= 0) textEnd = this.lastEnd;
+        continue;
+      }
+      if (tok.kind !== "word") break;
+      this.next();
+
+      if (words.length === 0 && ASSIGNMENT_PATTERN.test(tok.word.raw)) {
+        assignments.push(tok.word);
+        continue;
+      }
+      if (textStart < 0) textStart = tok.start;
+      textEnd = tok.end;
+      words.push(tok.word);
+
+      if (
+        words.length === 1 &&
+        assignments.length === 0 &&
+        redirects.length === 0 &&
+        this.peekOp("(")
+      ) {
+        return this.parseFunctionBody(tok.word);
+      }
+    }
+
+    if (assignments.length === 0 && words.length === 0 && redirects.length === 0) {
+      this.unexpected(this.peek());
+    }
+
+    return {
+      type: "simple",
+      assignments,
+      words,
+      redirects,
+      text: textStart >= 0 ? this.src.slice(textStart, textEnd) : "",
+    };
+  }
+
+  private parseFunctionBody(name: ShellWord): ShellCommand {
+    this.expectOp("(");
+    this.expectOp(")");
+    this.skipNewlines();
+    const body = this.parseCommand();
+    return { type: "compound", kind: "function", bodies: [wrapCommand(body)], words: [name], redirects: [] };
+  }
+
+  private parseFunctionKeyword(): ShellCommand {
+    this.next();
+    const name = this.expectWord();
+    if (this.peekOp("(")) {
+      this.next();
+      this.expectOp(")");
+    }
+    this.skipNewlines();
+    const body = this.parseCommand();
+    return { type: "compound", kind: "function", bodies: [wrapCommand(body)], words: [name], redirects: [] };
+  }
+
+  private parseIf(): ShellCommand {
+    this.next();
+    const bodies: ShellScript[] = [];
+    const branchEnd = new Set(["elif", "else", "fi"]);
+
+    bodies.push(this.parseList(new Set(["then"])));
+    this.expectReserved("then");
+    bodies.push(this.parseList(branchEnd));
+
+    for (;;) {
+      const tok = this.peek();
+      if (this.isReserved(tok, "elif")) {
+        this.next();
+        bodies.push(this.parseList(new Set(["then"])));
+        this.expectReserved("then");
+        bodies.push(this.parseList(branchEnd));
+        continue;
+      }
+      if (this.isReserved(tok, "else")) {
+        this.next();
+        bodies.push(this.parseList(new Set(["fi"])));
+      }
+      this.expectReserved("fi");
+      return this.compound("if", bodies);
+    }
+  }
+
+  private parseLoop(): ShellCommand {
+    const keyword = (this.next() as Extract<Token, { kind: "word" }>).word.value;
+    const condition = this.parseList(new Set(["do"]));
+    this.expectReserved("do");
+    const body = this.parseList(new Set(["done"]));
+    this.expectReserved("done");
+    return this.compound(keyword === "while" ? "while" : "until", [condition, body]);
+  }
+
+  private parseFor(): ShellCommand {
+    this.next();
+    const words: ShellWord[] = [];
+
+    const tok = this.peek();
+    if (tok.kind === "op" && tok.op === "(" && this.src[this.pos] === "(") {
+      this.next();
+      this.pos++;
+      const word = emptyWord();
+      this.readArithmetic(word);
+      words.push(word);
+    } else {
+      words.push(this.expectWord());
+      this.skipNewlines();
+      if (this.isReserved(this.peek(), "in")) {
+        this.next();
+        while (this.peek().kind === "word") {
+          words.push(this.expectWord());
+        }
+      }
+    }
+
+    if (this.peekOp(";")) this.next();
+    this.skipNewlines();
+    this.expectReserved("do");
+    const body = this.parseList(new Set(["done"]));
+    this.expectReserved("done");
+    return this.compound("for", [body], words);
+  }
+
+  private parseCase(): ShellCommand {
+    this.next();
+    const words = [this.expectWord()];
+    const bodies: ShellScript[] = [];
+    this.skipNewlines();
+    this.expectReserved("in");
+
+    for (;;) {
+      this.skipNewlines();
+      if (this.isReserved(this.peek(), "esac")) {
+        this.next();
+        return this.compound("case", bodies, words);
+      }
+      if (this.peekOp("(")) this.next();
+      words.push(this.expectWord());
+      while (this.peekOp("|")) {
+        this.next();
+        words.push(this.expectWord());
+      }
+      this.expectOp(")");
+      bodies.push(this.parseList(new Set([...CASE_TERMINATORS, "esac"])));
+      if (this.peekOp(...CASE_TERMINATORS)) this.next();
+    }
+  }
+
+  /** `[[ ... ]]` — operators inside are plain words, not redirects or chains. */
+  private parseTestCommand(): ShellCommand {
+    const start = this.peek().start;
+    const words: ShellWord[] = [];
+    for (;;) {
+      const tok = this.next();
+      if (tok.kind === "eof") this.unexpected(tok);
+      if (tok.kind === "newline") continue;
+      if (tok.kind === "word") {
+        words.push(tok.word);
+        if (words.length > 1 && this.isReserved(tok, "]]")) break;
+      } else {
+        const text = this.src.slice(tok.start, tok.end);
+        words.push({ ...emptyWord(), raw: text, value: text });
+      }
+    }
+    const text = this.src.slice(start, this.lastEnd);
+    return { type: "simple", assignments: [], words, redirects: this.parseRedirects(), text };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export function parseShell(source: string): ShellScript {
+  return new Parser(source).parseScript();
+}
+
+/** Null when the command is not valid shell (the shell would refuse it too). */
+export function tryParseShell(source: string): ShellScript | null {
+  try {
+    return parseShell(source);
+  } catch (error) {
+    if (error instanceof ShellParseError) return null;
+    throw error;
+  }
+}
+
+export interface ShellVisitor {
+  command?: (command: ShellCommand) => void;
+  word?: (word: ShellWord) => void;
+  redirect?: (redirect: ShellRedirect) => void;
+}
+
+/** Visits every command, word and redirect, including inside substitutions. */
+export function visitShell(script: ShellScript, visitor: ShellVisitor): void {
+  const visitWord = (word: ShellWord) => {
+    visitor.word?.(word);
+    word.substitutions.forEach(visitScript);
+  };
+  const visitCommand = (command: ShellCommand) => {
+    visitor.command?.(command);
+    if (command.type === "simple") {
+      command.assignments.forEach(visitWord);
+      command.words.forEach(visitWord);
+    } else {
+      command.words.forEach(visitWord);
+      command.bodies.forEach(visitScript);
+    }
+    for (const redirect of command.redirects) {
+      visitor.redirect?.(redirect);
+      visitWord(redirect.target);
+      if (redirect.heredoc) visitWord(redirect.heredoc);
+    }
+  };
+  function visitScript(s: ShellScript): void {
+    for (const item of s.items) {
+      for (const pipeline of item.pipelines) {
+        pipeline.commands.forEach(visitCommand);
+      }
+    }
+  }
+  visitScript(script);
+}
+
+/** Every simple command that may run, including those in substitutions. */
+export function collectCommands(script: ShellScript): SimpleCommand[] {
+  const commands: SimpleCommand[] = [];
+  visitShell(script, {
+    command: (c) => {
+      if (c.type === "simple") commands.push(c);
+    },
+  });
+  return commands;
+}
+
+export function hasSubstitution(script: ShellScript): boolean {
+  let found = false;
+  visitShell(script, {
+    word: (w) => {
+      if (w.substitutions.length > 0) found = true;
+    },
+  });
+  return found;
+}
+
+const OUTPUT_REDIRECTS = new Set([">", ">>", ">|", "<>", "&>", "&>>", ">&"]);
+const HARMLESS_OUTPUT_TARGETS = new Set(["/dev/null", "/dev/stdout", "/dev/stderr"]);
+
+/** `> file`, `>> file`, `&> file` — but not `2>&1` or `> /dev/null`. */
+export function isFileWriteRedirect(redirect: ShellRedirect): boolean {
+  if (!OUTPUT_REDIRECTS.has(redirect.op)) return false;
+  const target = redirect.target;
+  if (target.expanded) return true;
+  if (redirect.op === ">&" && /^(?:\d+|-)$/.test(target.value)) return false;
+  return !HARMLESS_OUTPUT_TARGETS.has(target.value);
+}
+
+export function hasFileWriteRedirect(script: ShellScript): boolean {
+  let found = false;
+  visitShell(script, {
+    redirect: (r) => {
+      if (isFileWriteRedirect(r)) found = true;
+    },
+  });
+  return found;
+}
+
+/**
+ * Simple commands that run in the current shell process, in order: not
+ * in a pipeline, subshell, substitution or background job. Used to follow
+ * `cd` across a command line.
+ */
+export function listCurrentShellCommands(script: ShellScript): SimpleCommand[] {
+  const commands: SimpleCommand[] = [];
+  const visitScript = (s: ShellScript) => {
+    for (const item of s.items) {
+      if (item.background) continue;
+      for (const pipeline of item.pipelines) {
+        if (pipeline.commands.length !== 1) continue;
+        const [command] = pipeline.commands;
+        if (command.type === "simple") {
+          commands.push(command);
+        } else if (command.kind !== "subshell" && command.kind !== "function") {
+          command.bodies.forEach(visitScript);
+        }
+      }
+    }
+  };
+  visitScript(script);
+  return commands;
+}
@@ -0,0 +1,43 @@
+import { z } from "zod";
+import { defineTool, type ToolExecutionContext } from "./definition.js";
+import type { AgentSummary } from "../agents/types.js";
+
+const inputSchema = z.object({
+  description: z.string().describe("タスクの短い説明（3〜5語、UI 表示用）"),
+  prompt: z
+    .string()
+    .describe("サブエージェントへの指示。必要な背景情報をすべて含めてください"),
+  agent: z
+    .string()
+    .optional()
+    .describe("実行するエージェント名（~/.wellgrow/agents）。省略すると現在のエージェント"),
+});
+
+export type TaskInput = z.infer<typeof inputSchema>;
+
+/** Runs the sub-agent and resolves with its final answer. */
+export type SubagentRunner = (
+  input: TaskInput,
+  ctx: ToolExecutionContext,
+) => Promise<string>;
+
+export function createTaskTool(run: SubagentRunner, agents: AgentSummary[]) {
+  const agentList = agents
+    .map((a) => `- ${a.id}: ${a.description || a.name}`)
+    .join("\n");
+
+  return defineTool({
+    name: "Task",
+    category: "internal",
+    description: `別のエージェントにタスクを任せ、独立した会話で実行させます。
+- サブエージェントは自分のツールで作業し、最終的な回答だけが返されます
+- 調査や大量のファイル読み取りなど、途中経過を会話に残す必要がない作業に向いています
+- サブエージェントはこれまでの会話を知りません。prompt に必要な情報をすべて書いてください
+- 独立したタスクは複数の Task を並列で呼び出せます
+- サブエージェントはユーザーに質問できず、さらに Task を呼ぶこともできません${
+      agentList ? `\n\n利用可能なエージェント:\n${agentList}` : ""
+    }`,
+    inputSchema,
+    execute: (input, ctx) => run(input, ctx),
+  });
+}
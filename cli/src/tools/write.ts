@@ -50,6 +50,7 @@ export const WriteTool = defineTool({
 - ファイルパスは絶対パスで指定してください`,
   inputSchema,
   execute: async (input, ctx) => {
+    await ctx.session.checkpoints?.snapshot(input.file_path);
     return executeWrite(input, ctx.session.agent.readFiles);
   },
 });
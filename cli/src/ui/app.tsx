@@ -5,13 +5,13 @@ import { MessageItem, type DisplayMessage } from "./message-list.js";
 import { TodoList } from "./todo-list.js";
 import { AskUserPrompt } from "./ask-user-prompt.js";
 import { ApprovalPrompt } from "./approval-prompt.js";
+import { RewindPrompt } from "./rewind-prompt.js";
 import { InputPrompt } from "./input-prompt.js";
 import { ThinkingIndicator } from "./thinking-indicator.js";
 import { useChat } from "../hooks/use-chat.js";
-import { MODEL_LIST } from "../ai/providers.js";
+import { getModelList } from "../ai/providers.js";
 import type { WellGrowConfig } from "../config/types.js";
-
-const MODEL_OPTIONS = MODEL_LIST.map((m) => ({ value: m.id, label: m.label }));
+import type { SessionTranscript } from "../core/history.js";
 import type { Mode } from "../tools/pipeline.js";
 import { colors } from "./colors.js";
 
@@ -26,14 +26,19 @@ interface AppProps {
   mode?: Mode;
   verbose?: boolean;
   initialMessage?: string;
+  resume?: SessionTranscript;
 }
 
-export function App({ agentName, modelOverride, config, mode, verbose, initialMessage }: AppProps) {
+export function App({ agentName, modelOverride, config, mode, verbose, initialMessage, resume }: AppProps) {
   const { exit } = useApp();
   const {
     messages,
+    transcriptEpoch,
     todos,
     retryInfo,
+    fallbackInfo,
+    sessionCostUsd,
+    isCompacting,
     status,
     isReady,
     currentModelName,
@@ -44,10 +49,12 @@ export function App({ agentName, modelOverride, config, mode, verbose, initialMe
     activeAskUser,
     askUserQueueSize,
     activeApproval,
+    rewindCheckpoints,
     handleSubmit,
     handleModeToggle,
     handleAskUserComplete,
     handleApprovalDecision,
+    handleRewindSelect,
   } = useChat({
     agentName,
     modelOverride,
@@ -55,9 +62,15 @@ export function App({ agentName, modelOverride, config, mode, verbose, initialMe
     mode,
     verbose,
     initialMessage,
+    resume,
     onExit: exit,
   });
 
+  const modelOptions = useMemo(
+    () => getModelList(config).map((m) => ({ value: m.id, label: m.label })),
+    [config],
+  );
+
   const isActive = status === "submitted" || status === "streaming";
   const completedMessages = useMemo(
     () => (isActive ? messages.slice(0, -1) : messages),
@@ -81,7 +94,7 @@ export function App({ agentName, modelOverride, config, mode, verbose, initialMe
 
   return (
     <Box flexDirection="column">
-      <Static items={staticItems}>
+      <Static key={transcriptEpoch} items={staticItems}>
         {(item) => {
           if (item.kind === "header") {
             return (
@@ -112,6 +125,14 @@ export function App({ agentName, modelOverride, config, mode, verbose, initialMe
           {Math.round(retryInfo.delayMs / 1000)}秒後)
         </Text>
       )}
+      {fallbackInfo && (
+        <Text color={colors.energy}>
+          ⇄ {fallbackInfo.from} が利用できないため {fallbackInfo.to} に切り替えました
+        </Text>
+      )}
+      {isCompacting && (
+        <Text color={colors.fog}>⟳ 会話履歴を要約中...</Text>
+      )}
       {status === "submitted" && <ThinkingIndicator />}
       {status === "streaming" && streamingMessage && !activeAskUser && !activeApproval && (
         <MessageItem message={streamingMessage} />
@@ -130,13 +151,20 @@ export function App({ agentName, modelOverride, config, mode, verbose, initialMe
           onComplete={handleAskUserComplete}
         />
       )}
-      {status === "ready" && !activeAskUser && !activeApproval && (
+      {status === "ready" && rewindCheckpoints && (
+        <RewindPrompt
+          checkpoints={rewindCheckpoints}
+          onSelect={handleRewindSelect}
+        />
+      )}
+      {status === "ready" && !activeAskUser && !activeApproval && !rewindCheckpoints && (
         <InputPrompt
           onSubmit={handleSubmit}
           onModeToggle={handleModeToggle}
           agents={agents}
-          models={MODEL_OPTIONS}
+          models={modelOptions}
           mode={currentMode}
+          costUsd={sessionCostUsd}
         />
       )}
     </Box>
@@ -1,4 +1,6 @@
+import { useState } from "react";
 import { Box, Text, useInput } from "ink";
+import TextInput from "ink-text-input";
 import { colors } from "./colors.js";
 
 export interface ApprovalRequest {
@@ -7,11 +9,21 @@ export interface ApprovalRequest {
   args: Record<string, unknown>;
   source: string;
   category: string;
+  /** Rule offered for "always allow in this project"; absent when the call can't be generalized. */
+  projectRule?: string;
+  /** Name of the sub-agent (Task) that made the call. */
+  subagent?: string;
 }
 
+/**
+ * How far an "allow" reaches. Omitted means this call only; "tool" is the
+ * session scope narrowed to one MCP tool instead of its whole server.
+ */
+export type ApprovalScope = "once" | "session" | "tool" | "project";
+
 export type ApprovalDecision =
-  | { action: "allow" }
-  | { action: "deny" };
+  | { action: "allow"; scope?: ApprovalScope }
+  | { action: "deny"; feedback?: string };
 
 interface ApprovalPromptProps {
   request: ApprovalRequest;
@@ -40,18 +52,86 @@ function formatToolPreview(toolName: string, args: Record<string, unknown>): str
   return JSON.stringify(args).slice(0, 120);
 }
 
-export function ApprovalPrompt({ request, onDecision }: ApprovalPromptProps) {
-  useInput((input) => {
-    const key = input.toLowerCase();
-    if (key === "y") onDecision({ action: "allow" });
-    if (key === "n") onDecision({ action: "deny" });
+interface ApprovalOption {
+  label: string;
+  decision: ApprovalDecision | "feedback";
+}
+
+function sessionLabel(request: ApprovalRequest, displayName: string): string {
+  if (request.toolName === "Bash") return "このコマンド";
+  if (request.toolName.startsWith("mcp__")) {
+    return `${request.toolName.split("__")[1]} サーバーのツール`;
+  }
+  return displayName;
+}
+
+function buildOptions(request: ApprovalRequest, displayName: string): ApprovalOption[] {
+  const options: ApprovalOption[] = [
+    { label: "許可（今回のみ）", decision: { action: "allow", scope: "once" } },
+  ];
+  if (request.toolName.startsWith("mcp__")) {
+    options.push({
+      label: `このセッション中は ${displayName} のみ許可`,
+      decision: { action: "allow", scope: "tool" },
+    });
+  }
+  options.push({
+    label: `このセッション中は${sessionLabel(request, displayName)}を許可`,
+    decision: { action: "allow", scope: "session" },
   });
+  if (request.projectRule) {
+    options.push({
+      label: `このプロジェクトでは常に ${request.projectRule} を許可`,
+      decision: { action: "allow", scope: "project" },
+    });
+  }
+  options.push({ label: "拒否して理由を伝える", decision: "feedback" });
+  return options;
+}
+
+export function ApprovalPrompt({ request, onDecision }: ApprovalPromptProps) {
+  const [cursorIdx, setCursorIdx] = useState(0);
+  const [isFeedbackInput, setIsFeedbackInput] = useState(false);
+  const [feedback, setFeedback] = useState("");
 
   const preview = formatToolPreview(request.toolName, request.args);
-  const sourceLabel = request.source === "mcp" ? " (MCP)" : "";
+  const sourceLabel = [
+    request.source === "mcp" ? " (MCP)" : "",
+    request.subagent ? ` — サブエージェント ${request.subagent}` : "",
+  ].join("");
   const displayName = request.toolName.startsWith("mcp__")
     ? request.toolName.replace(/^mcp__/, "").replace(/__/g, "/")
     : request.toolName;
+  const options = buildOptions(request, displayName);
+
+  const choose = (option: ApprovalOption) => {
+    if (option.decision === "feedback") {
+      setIsFeedbackInput(true);
+      return;
+    }
+    onDecision(option.decision);
+  };
+
+  useInput(
+    (input, key) => {
+      const lower = input.toLowerCase();
+      if (lower === "y") {
+        onDecision({ action: "allow", scope: "once" });
+      } else if (lower === "n" || key.escape) {
+        onDecision({ action: "deny" });
+      } else if (key.upArrow) {
+        setCursorIdx((prev) => Math.max(0, prev - 1));
+      } else if (key.downArrow) {
+        setCursorIdx((prev) => Math.min(options.length - 1, prev + 1));
+      } else if (key.return) {
+        choose(options[cursorIdx]);
+      } else if (/^[1-9]$/.test(input)) {
+        const option = options[Number(input) - 1];
+        if (option) choose(option);
+      }
+    },
+    { isActive: !isFeedbackInput },
+  );
 
   return (
     <Box
@@ -72,16 +152,30 @@ export function ApprovalPrompt({ request, onDecision }: ApprovalPromptProps) {
           <Text color={colors.fog}>{preview}</Text>
         </Box>
       )}
-      <Box marginTop={1} gap={2}>
-        <Text>
-          <Text color={colors.growth} bold>[Y]</Text>
-          <Text color={colors.fog}> 許可</Text>
-        </Text>
-        <Text>
-          <Text color={colors.energy} bold>[N]</Text>
-          <Text color={colors.fog}> 拒否</Text>
-        </Text>
+      <Box flexDirection="column" marginTop={1}>
+        {options.map((option, i) => {
+          const isCursor = i === cursorIdx;
+          return (
+            <Text key={i} color={isCursor ? colors.growth : undefined}>
+              {isCursor ? "❯" : " "} {i + 1}. {option.label}
+            </Text>
+          );
+        })}
       </Box>
+      {isFeedbackInput ? (
+        <Box marginLeft={2} marginTop={1}>
+          <Text color={colors.insight}>理由: </Text>
+          <TextInput
+            value={feedback}
+            onChange={setFeedback}
+            onSubmit={(value) => onDecision({ action: "deny", feedback: value.trim() || undefined })}
+          />
+        </Box>
+      ) : (
+        <Text color={colors.fog}>
+          ↑↓ で選択、Enter で確定（Y: 許可 / N・Esc: 拒否）
+        </Text>
+      )}
     </Box>
   );
 }
@@ -0,0 +1,42 @@
+import { spawnSync } from "node:child_process";
+import { mkdir } from "node:fs/promises";
+import { dirname } from "node:path";
+
+export function getEditorCommand(): string {
+  return process.env.VISUAL || process.env.EDITOR || "vi";
+}
+
+function quoteShellArg(arg: string): string {
+  return `'${arg.replace(/'/g, "'\\''")}'`;
+}
+
+/**
+ * Open `path` in $VISUAL / $EDITOR and wait for it to exit. Ink's raw mode
+ * is switched off meanwhile so the editor gets the terminal as usual.
+ */
+export async function openInEditor(
+  path: string,
+): Promise<{ success: boolean; message?: string }> {
+  await mkdir(dirname(path), { recursive: true });
+
+  const editor = getEditorCommand();
+  const stdin = process.stdin;
+  const wasRaw = stdin.isTTY && stdin.isRaw;
+  if (wasRaw) stdin.setRawMode(false);
+  try {
+    // $EDITOR may carry arguments (e.g. "code --wait"), so run it through the shell
+    const result = spawnSync(`${editor} ${quoteShellArg(path)}`, {
+      stdio: "inherit",
+      shell: true,
+    });
+    if (result.error) {
+      return { success: false, message: `エディタを起動できませんでした (${editor}): ${result.error.message}` };
+    }
+    if (result.status !== 0) {
+      return { success: false, message: `エディタが終了コード ${result.status} で終了しました (${editor})` };
+    }
+    return { success: true };
+  } finally {
+    if (wasRaw) stdin.setRawMode(true);
+  }
+}
@@ -2,6 +2,8 @@ import { useState, useMemo } from "react";
 import { Box, Text, useInput } from "ink";
 import { colors } from "./colors.js";
 import type { Mode } from "../tools/pipeline.js";
+import { listBackgroundJobs } from "../tools/background.js";
+import { formatUsd } from "../ai/pricing.js";
 
 interface ArgOption {
   value: string;
@@ -15,17 +17,30 @@ interface SlashCommand {
   args?: ArgOption[];
 }
 
+const EXPORT_ARGS: ArgOption[] = [
+  { value: "md", label: "Markdown" },
+  { value: "html", label: "HTML" },
+  { value: "json", label: "JSON" },
+];
+
 const MODE_ARGS: ArgOption[] = [
   { value: "plan", label: "ツール実行前に承認" },
   { value: "auto", label: "すべて自動実行" },
 ];
 
+const MEMORY_ARGS: ArgOption[] = [
+  { value: "edit project", label: "プロジェクトの WELLGROW.md を編集" },
+  { value: "edit user", label: "~/.wellgrow/WELLGROW.md を編集" },
+];
+
 interface InputPromptProps {
   onSubmit: (text: string) => void;
   onModeToggle?: () => void;
   agents?: { id: string; name: string; icon: string }[];
   models?: { value: string; label: string }[];
   mode?: Mode;
+  /** Spend of the session so far, shown next to the mode hint. */
+  costUsd?: number;
 }
 
 export function InputPrompt({
@@ -34,6 +49,7 @@ export function InputPrompt({
   agents,
   models,
   mode,
+  costUsd,
 }: InputPromptProps) {
   const [value, setValue] = useState("");
   const [selectedIdx, setSelectedIdx] = useState(0);
@@ -46,9 +62,17 @@ export function InputPrompt({
     const modelArgs: ArgOption[] = models ?? [];
     return [
       { name: "/agent", description: "エージェントを表示/切り替え", hasArgs: true, args: agentArgs },
+      { name: "/bashes", description: "バックグラウンドプロセスを表示/停止", hasArgs: true },
       { name: "/clear", description: "セッションをクリア", hasArgs: false },
+      { name: "/compact", description: "会話履歴を要約", hasArgs: false },
+      { name: "/cost", description: "利用料金を表示", hasArgs: false },
+      { name: "/export", description: "会話をファイルに書き出す", hasArgs: true, args: EXPORT_ARGS },
+      { name: "/mcp", description: "MCP サーバーの状態を表示/再接続", hasArgs: false },
+      { name: "/memory", description: "指示ファイルを表示/編集", hasArgs: true, args: MEMORY_ARGS },
       { name: "/mode", description: "モードを表示/切り替え (plan, auto)", hasArgs: true, args: MODE_ARGS },
       { name: "/model", description: "モデルを切り替え", hasArgs: true, args: modelArgs },
+      { name: "/rewind", description: "以前のメッセージまで巻き戻す", hasArgs: false },
+      { name: "/think", description: "次のメッセージでじっくり考える", hasArgs: true },
     ];
   }, [agents, models]);
 
@@ -64,6 +88,11 @@ export function InputPrompt({
     if (!isArgPhase) return [];
     const cmdName = value.slice(0, spaceIdx);
     const argPrefix = value.slice(spaceIdx + 1);
+    if (cmdName === "/bashes") {
+      return listBackgroundJobs({ runningOnly: true })
+        .map((job) => ({ value: `kill ${job.id}`, label: `停止: ${job.command}` }))
+        .filter((a) => a.value.startsWith(argPrefix));
+    }
     const cmd = commands.find((c) => c.name === cmdName);
     if (!cmd?.args) return [];
     return cmd.args.filter((a) => a.value.startsWith(argPrefix));
@@ -153,6 +182,7 @@ export function InputPrompt({
   });
 
   const modeHint = mode ? ` [${mode}]` : "";
+  const costHint = costUsd ? `  ${formatUsd(costUsd)}` : "";
 
   return (
     <Box flexDirection="column">
@@ -161,7 +191,7 @@ export function InputPrompt({
         <Text>{value}</Text>
         <Text color={colors.fog}>█</Text>
         {!value && onModeToggle && (
-          <Text color={colors.fog}>  Shift+Tab: モード切替{modeHint}</Text>
+          <Text color={colors.fog}>  Shift+Tab: モード切替{modeHint}{costHint}</Text>
         )}
       </Text>
       {cmdSuggestions.length > 0 && (
@@ -19,6 +19,8 @@ export type MessagePart =
       input?: unknown;
       output?: unknown;
       errorText?: string;
+      /** Activity of a sub-agent started by this call (Task). */
+      children?: MessagePart[];
     }
   | { type: "step-start" }
   | { type: "source-url"; url: string; title?: string };
@@ -80,7 +82,11 @@ export function MessageItem({ message }: MessageItemProps) {
               </Text>
             ) : null;
           case "tool":
-            return <ToolStatus key={part.toolCallId} part={part} />;
+            return part.toolName === "Task" ? (
+              <TaskGroup key={part.toolCallId} part={part} />
+            ) : (
+              <ToolStatus key={part.toolCallId} part={part} />
+            );
           case "step-start":
             return i > 0 ? (
               <Text key={`step-${i}`} color={colors.fog}>
@@ -102,11 +108,76 @@ export function MessageItem({ message }: MessageItemProps) {
   );
 }
 
-function ToolStatus({
-  part,
-}: {
-  part: Extract<MessagePart, { type: "tool" }>;
-}) {
+type ToolPart = Extract<MessagePart, { type: "tool" }>;
+
+const NESTED_TOOL_LIMIT = 5;
+
+const NESTED_TOOL_ICONS: Record<ToolPart["state"], string> = {
+  "input-streaming": "⋯",
+  "input-available": "⋯",
+  "output-available": "✓",
+  "output-error": "✗",
+  "output-denied": "⊘",
+};
+
+/**
+ * A sub-agent's tool calls, listed while it runs and folded into a single
+ * line once it has finished. Finished messages are printed through <Static>,
+ * so the fold is final; there is no way to expand it again.
+ */
+function TaskGroup({ part }: { part: ToolPart }) {
+  const input = (part.input ?? {}) as { description?: string; agent?: string };
+  const label = [
+    input.description ?? "",
+    input.agent ? `（${input.agent}）` : "",
+  ].join("");
+  const tools = (part.children ?? []).filter(
+    (p): p is ToolPart => p.type === "tool",
+  );
+
+  if (part.state === "output-available" || part.state === "output-error") {
+    const failed = part.state === "output-error";
+    return (
+      <Box flexDirection="column">
+        <Text color={failed ? colors.energy : colors.fog}>
+          {failed ? "✗" : "▸"} Task: {label}
+          {tools.length > 0 ? ` — ツール ${tools.length} 回` : ""}
+        </Text>
+        {failed && part.errorText && (
+          <Text color={colors.energy} dimColor>
+            {"  "}{part.errorText}
+          </Text>
+        )}
+      </Box>
+    );
+  }
+  if (part.state === "output-denied") {
+    return <ToolStatus part={part} />;
+  }
+
+  const hidden = Math.max(0, tools.length - NESTED_TOOL_LIMIT);
+  return (
+    <Box flexDirection="column">
+      <Text color={colors.fog}>⋯ Task: {label}</Text>
+      {hidden > 0 && (
+        <Text color={colors.fog} dimColor>
+          {"  "}… 他 {hidden} 件
+        </Text>
+      )}
+      {tools.slice(hidden).map((tool) => (
+        <Text
+          key={tool.toolCallId}
+          color={tool.state === "output-error" ? colors.energy : colors.fog}
+          dimColor
+        >
+          {"  "}{NESTED_TOOL_ICONS[tool.state]} {tool.toolName}
+        </Text>
+      ))}
+    </Box>
+  );
+}
+
+function ToolStatus({ part }: { part: ToolPart }) {
   switch (part.state) {
     case "input-streaming":
     case "input-available":
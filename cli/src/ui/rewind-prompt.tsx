@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { Box, Text, useInput } from "ink";
+import { colors } from "./colors.js";
+import type { Checkpoint } from "../core/checkpoints.js";
+import type { RewindTarget } from "../core/session.js";
+
+export interface RewindSelection {
+  checkpointId: number;
+  target: RewindTarget;
+}
+
+interface RewindPromptProps {
+  /** Oldest first, as returned by the checkpoint store. */
+  checkpoints: Checkpoint[];
+  /** null when the user backs out. */
+  onSelect: (selection: RewindSelection | null) => void;
+}
+
+interface TargetOption {
+  label: string;
+  target: RewindTarget;
+}
+
+const PROMPT_PREVIEW_LENGTH = 60;
+
+function previewPrompt(prompt: string): string {
+  const firstLine = prompt.split("\n")[0];
+  return firstLine.length > PROMPT_PREVIEW_LENGTH || prompt.includes("\n")
+    ? `${firstLine.slice(0, PROMPT_PREVIEW_LENGTH)}…`
+    : firstLine;
+}
+
+/** Files that rewinding to `checkpoint` would touch: changed in it or later. */
+function changedFilesSince(checkpoints: Checkpoint[], checkpoint: Checkpoint): string[] {
+  const paths = new Set<string>();
+  for (const c of checkpoints) {
+    if (c.id < checkpoint.id) continue;
+    for (const file of c.files) paths.add(file.path);
+  }
+  return [...paths];
+}
+
+function buildTargetOptions(fileCount: number, hasConversation: boolean): TargetOption[] {
+  const options: TargetOption[] = [];
+  if (fileCount > 0 && hasConversation) {
+    options.push({ label: `ファイル（${fileCount} 件）と会話を巻き戻す`, target: "all" });
+  }
+  if (hasConversation) {
+    options.push({ label: "会話だけ巻き戻す（ファイルはそのまま）", target: "conversation" });
+  }
+  if (fileCount > 0) {
+    options.push({ label: `ファイル（${fileCount} 件）だけ元に戻す（会話はそのまま）`, target: "files" });
+  }
+  return options;
+}
+
+export function RewindPrompt({ checkpoints, onSelect }: RewindPromptProps) {
+  const newestFirst = [...checkpoints].reverse();
+  const [cursorIdx, setCursorIdx] = useState(0);
+  const [selected, setSelected] = useState<Checkpoint | null>(null);
+
+  const changedFiles = selected ? changedFilesSince(checkpoints, selected) : [];
+  const targetOptions = selected
+    ? buildTargetOptions(changedFiles.length, selected.messageCount !== null)
+    : [];
+  const itemCount = selected ? targetOptions.length : newestFirst.length;
+
+  const choose = (idx: number) => {
+    if (!selected) {
+      const checkpoint = newestFirst[idx];
+      if (!checkpoint) return;
+      setSelected(checkpoint);
+      setCursorIdx(0);
+      return;
+    }
+    const option = targetOptions[idx];
+    if (option) onSelect({ checkpointId: selected.id, target: option.target });
+  };
+
+  useInput((input, key) => {
+    if (key.escape) {
+      if (selected) {
+        setSelected(null);
+        setCursorIdx(0);
+      } else {
+        onSelect(null);
+      }
+    } else if (key.upArrow) {
+      setCursorIdx((prev) => Math.max(0, prev - 1));
+    } else if (key.downArrow) {
+      setCursorIdx((prev) => Math.min(itemCount - 1, prev + 1));
+    } else if (key.return) {
+      choose(cursorIdx);
+    } else if (/^[1-9]$/.test(input)) {
+      choose(Number(input) - 1);
+    }
+  });
+
+  return (
+    <Box
+      flexDirection="column"
+      borderStyle="round"
+      borderColor={colors.insight}
+      paddingX={1}
+      marginTop={1}
+    >
+      <Text color={colors.insight} bold>
+        {selected
+          ? `#${selected.id}「${previewPrompt(selected.prompt)}」の前まで巻き戻す`
+          : "巻き戻すメッセージを選択"}
+      </Text>
+      <Box flexDirection="column" marginTop={1}>
+        {selected
+          ? targetOptions.map((option, i) => (
+              <Text key={option.target} color={i === cursorIdx ? colors.growth : undefined}>
+                {i === cursorIdx ? "❯" : " "} {i + 1}. {option.label}
+              </Text>
+            ))
+          : newestFirst.map((checkpoint, i) => {
+              const isCursor = i === cursorIdx;
+              const fileCount = checkpoint.files.length;
+              return (
+                <Text key={checkpoint.id} color={isCursor ? colors.growth : undefined}>
+                  {isCursor ? "❯" : " "} #{checkpoint.id} {previewPrompt(checkpoint.prompt)}
+                  <Text color={colors.fog}>
+                    {fileCount > 0 ? `  ファイル ${fileCount} 件` : ""}
+                    {checkpoint.messageCount === null ? "  （会話は巻き戻し不可）" : ""}
+                  </Text>
+                </Text>
+              );
+            })}
+      </Box>
+      {selected && changedFiles.length > 0 && (
+        <Box flexDirection="column" marginTop={1} marginLeft={2}>
+          {changedFiles.map((path) => (
+            <Text key={path} color={colors.fog}>{path}</Text>
+          ))}
+        </Box>
+      )}
+      <Text color={colors.fog}>
+        ↑↓ で選択、Enter で確定、Esc で{selected ? "戻る" : "キャンセル"}
+      </Text>
+    </Box>
+  );
+}
@@ -4,7 +4,13 @@ import { readFileSync } from "node:fs";
 const pkg = JSON.parse(readFileSync("./package.json", "utf-8"));
 
 export default defineConfig({
-  entry: ["src/index.ts"],
+  entry: {
+    index: "src/index.ts",
+    sdk: "src/sdk/index.ts",
+  },
+  dts: {
+    entry: { sdk: "src/sdk/index.ts" },
+  },
   format: ["esm"],
   target: "node18",
   outDir: "dist",